@@ -3,15 +3,36 @@ import {
   uuid,
   varchar,
   integer,
+  bigint,
   timestamp,
   date,
   index,
+  uniqueIndex,
+  primaryKey,
   pgEnum,
   boolean,
   text,
+  customType,
+  numeric,
 } from "drizzle-orm/pg-core"
 
-import { relations } from "drizzle-orm"
+import type { AnyPgColumn } from "drizzle-orm/pg-core"
+
+import { relations, sql } from "drizzle-orm"
+
+import { transactionFingerprint } from "../lib/fingerprint"
+
+import { searchDocument } from "../lib/search"
+
+import type { CurrencyCode } from "../lib/currency"
+
+// Postgres full-text search document
+
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector"
+  },
+})
 
 // Enums
 
@@ -21,6 +42,76 @@ export const transactionTypeEnum = pgEnum("transaction_type", [
   "expense",
 ])
 
+export const accountTypeEnum = pgEnum("account_type", [
+  "bank",
+
+  "ewallet",
+
+  "cash",
+
+  "credit_card",
+
+  "other",
+])
+
+// Direction of uncategorized ledger entries such as transfer legs
+
+export const ledgerDirectionEnum = pgEnum("ledger_direction", ["in", "out"])
+
+export const recurrenceFrequencyEnum = pgEnum("recurrence_frequency", [
+  "daily",
+
+  "weekly",
+
+  "monthly",
+
+  "yearly",
+])
+
+export const assetTypeEnum = pgEnum("asset_type", [
+  "gold",
+
+  "vehicle",
+
+  "property",
+
+  "other",
+])
+
+export const instrumentTypeEnum = pgEnum("instrument_type", [
+  "mutual_fund",
+
+  "stock",
+
+  "gold",
+
+  "bond",
+
+  "other",
+])
+
+export const tradeSideEnum = pgEnum("trade_side", ["buy", "sell"])
+
+// receivable: owed to the owner (piutang); payable: owed by the owner (utang)
+
+export const debtDirectionEnum = pgEnum("debt_direction", [
+  "receivable",
+
+  "payable",
+])
+
+export const importDateFormatEnum = pgEnum("import_date_format", [
+  "DD/MM/YYYY",
+
+  "DD-MM-YYYY",
+
+  "DD/MM/YY",
+
+  "YYYY-MM-DD",
+
+  "MM/DD/YYYY",
+])
+
 // =============== BETTER AUTH TABLES ===============
 
 // Required tables for Better Auth to function
@@ -139,24 +230,280 @@ export const verification = pgTable("verification", {
 
 // =============== APPLICATION TABLES ===============
 
+// Money columns are bigint rupiah. They are read as JS numbers, which is
+// exact because inputs are capped at MAX_AMOUNT_RUPIAH (see lib/currency)
+
+// Settings Table
+
+// Note: Single row (id = 1) holding owner-level preferences
+
+export const settings = pgTable("settings", {
+  id: integer("id").primaryKey().default(1),
+
+  // Financial month starts on this day (1 = calendar month)
+
+  monthStartDay: integer("month_start_day").notNull().default(1),
+
+  // Day window for flagging likely duplicate transactions
+
+  duplicateWindowDays: integer("duplicate_window_days").notNull().default(3),
+
+  // Forecasts flag the first day the projected balance drops below this
+
+  lowBalanceThresholdRupiah: bigint("low_balance_threshold_rupiah", {
+    mode: "number",
+  })
+
+    .notNull()
+
+    .default(0),
+
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+
+    .defaultNow()
+
+    .notNull(),
+})
+
 // Categories Table
 
 // Note: No user_id - single owner system
 
-export const categories = pgTable("categories", {
+// Sub-categories point at their parent (e.g., "Kopi" under "Makan")
+
+export const categories = pgTable(
+  "categories",
+
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+
+    name: varchar("name", { length: 100 }).notNull(),
+
+    type: transactionTypeEnum("type").notNull(),
+
+    parentId: uuid("parent_id").references(
+      (): AnyPgColumn => categories.id,
+
+      { onDelete: "restrict" },
+    ),
+
+    // Archived categories are hidden from pickers but keep their history
+
+    isArchived: boolean("is_archived").notNull().default(false),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+
+      .defaultNow()
+
+      .notNull(),
+  },
+
+  (table) => ({
+    parentIdIdx: index("idx_categories_parent_id").on(table.parentId),
+  }),
+)
+
+// Category Type Changes Table
+
+// Note: Audit trail for income/expense flips; totals are all-time
+// ledger totals right before and after the change
+
+export const categoryTypeChanges = pgTable(
+  "category_type_changes",
+
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+
+    categoryId: uuid("category_id")
+
+      .notNull()
+
+      .references(() => categories.id, { onDelete: "cascade" }),
+
+    fromType: transactionTypeEnum("from_type").notNull(),
+
+    toType: transactionTypeEnum("to_type").notNull(),
+
+    transactionCount: integer("transaction_count").notNull(),
+
+    categoryTotalRupiah: bigint("category_total_rupiah", { mode: "number" })
+
+      .notNull(),
+
+    incomeBeforeRupiah: bigint("income_before_rupiah", { mode: "number" })
+
+      .notNull(),
+
+    expenseBeforeRupiah: bigint("expense_before_rupiah", { mode: "number" })
+
+      .notNull(),
+
+    incomeAfterRupiah: bigint("income_after_rupiah", { mode: "number" })
+
+      .notNull(),
+
+    expenseAfterRupiah: bigint("expense_after_rupiah", { mode: "number" })
+
+      .notNull(),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+
+      .defaultNow()
+
+      .notNull(),
+  },
+
+  (table) => ({
+    categoryIdIdx: index("idx_category_type_changes_category_id").on(
+      table.categoryId,
+    ),
+  }),
+)
+
+// Accounts Table (money sources: bank accounts, e-wallets, cash)
+
+// Note: Named "accounts" to stay clear of Better Auth's "account" table
+
+export const accounts = pgTable("accounts", {
   id: uuid("id").primaryKey().defaultRandom(),
 
   name: varchar("name", { length: 100 }).notNull(),
 
-  type: transactionTypeEnum("type").notNull(),
+  type: accountTypeEnum("type").notNull(),
+
+  openingBalanceRupiah: bigint("opening_balance_rupiah", { mode: "number" })
+
+    .notNull()
+
+    .default(0),
+
+  createdAt: timestamp("created_at", { withTimezone: true })
+
+    .defaultNow()
+
+    .notNull(),
+
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+
+    .defaultNow()
+
+    .notNull(),
+})
+
+// Transfers Table
+
+// Note: Each transfer owns a pair of ledger entries in "transactions"
+
+export const transfers = pgTable("transfers", {
+  id: uuid("id").primaryKey().defaultRandom(),
+
+  fromAccountId: uuid("from_account_id")
+
+    .notNull()
+
+    .references(() => accounts.id, { onDelete: "restrict" }),
+
+  toAccountId: uuid("to_account_id")
+
+    .notNull()
+
+    .references(() => accounts.id, { onDelete: "restrict" }),
+
+  amountRupiah: bigint("amount_rupiah", { mode: "number" }).notNull(),
+
+  description: varchar("description", { length: 500 }).notNull(),
+
+  transferDate: date("transfer_date").notNull(),
 
   createdAt: timestamp("created_at", { withTimezone: true })
 
     .defaultNow()
 
+    .notNull(),
+
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+
+    .defaultNow()
+
     .notNull(),
 })
 
+// Recurring Rules Table
+
+// Note: Occurrences are materialized into "transactions" by the cron trigger
+
+export const recurringRules = pgTable(
+  "recurring_rules",
+
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+
+    accountId: uuid("account_id")
+
+      .notNull()
+
+      .references(() => accounts.id, { onDelete: "restrict" }),
+
+    categoryId: uuid("category_id")
+
+      .notNull()
+
+      .references(() => categories.id, { onDelete: "restrict" }),
+
+    amountRupiah: bigint("amount_rupiah", { mode: "number" }).notNull(),
+
+    description: varchar("description", { length: 500 }).notNull(),
+
+    frequency: recurrenceFrequencyEnum("frequency").notNull(),
+
+    // Every N days/weeks/months/years
+
+    interval: integer("interval").notNull().default(1),
+
+    // Monthly/yearly only; clamped to the last day of shorter months
+
+    dayOfMonth: integer("day_of_month"),
+
+    startDate: date("start_date").notNull(),
+
+    endDate: date("end_date"),
+
+    // Stop after this many occurrences (null = no limit)
+
+    occurrenceLimit: integer("occurrence_limit"),
+
+    // Occurrences already materialized or skipped
+
+    occurrenceCount: integer("occurrence_count").notNull().default(0),
+
+    // Null once the rule has finished
+
+    nextOccurrenceDate: date("next_occurrence_date"),
+
+    isPaused: boolean("is_paused").notNull().default(false),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+
+      .defaultNow()
+
+      .notNull(),
+
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+
+      .defaultNow()
+
+      .notNull(),
+  },
+
+  (table) => ({
+    // For the cron trigger's due-rule scan
+
+    nextOccurrenceIdx: index("idx_recurring_rules_next_occurrence").on(
+      table.nextOccurrenceDate,
+    ),
+  }),
+)
+
 // Transactions Table
 
 // Note: No user_id - single owner system
@@ -167,18 +514,81 @@ export const transactions = pgTable(
   {
     id: uuid("id").primaryKey().defaultRandom(),
 
-    categoryId: uuid("category_id")
+    // Null for ledger-only entries (transfer legs)
+
+    categoryId: uuid("category_id").references(() => categories.id, {
+      onDelete: "restrict",
+    }),
+
+    accountId: uuid("account_id")
 
       .notNull()
 
-      .references(() => categories.id, { onDelete: "restrict" }),
+      .references(() => accounts.id, { onDelete: "restrict" }),
 
-    amountRupiah: integer("amount_rupiah").notNull(),
+    amountRupiah: bigint("amount_rupiah", { mode: "number" }).notNull(),
+
+    // Set when entered in another currency; amountRupiah holds the
+    // converted amount every total is built from
+
+    originalCurrency: varchar("original_currency", {
+      length: 3,
+    }).$type<CurrencyCode>(),
+
+    originalAmount: numeric("original_amount", {
+      precision: 18,
+
+      scale: 2,
+
+      mode: "number",
+    }),
+
+    // Rupiah per unit of originalCurrency
+
+    exchangeRate: numeric("exchange_rate", {
+      precision: 20,
+
+      scale: 6,
+
+      mode: "number",
+    }),
 
     description: varchar("description", { length: 500 }).notNull(),
 
     transactionDate: date("transaction_date").notNull(),
 
+    transferId: uuid("transfer_id").references(() => transfers.id, {
+      onDelete: "cascade",
+    }),
+
+    // Only set on ledger-only entries, which have no category type
+
+    direction: ledgerDirectionEnum("direction"),
+
+    recurringRuleId: uuid("recurring_rule_id").references(
+      () => recurringRules.id,
+
+      { onDelete: "set null" },
+    ),
+
+    // Generated from account, amount and description for duplicate checks
+
+    fingerprint: varchar("fingerprint", { length: 32 }).generatedAlwaysAs(
+      transactionFingerprint(
+        sql`account_id`,
+
+        sql`amount_rupiah`,
+
+        sql`description`,
+      ),
+    ),
+
+    // Generated from the description for full-text search
+
+    searchVector: tsvector("search_vector").generatedAlwaysAs(
+      searchDocument(sql`description`),
+    ),
+
     createdAt: timestamp("created_at", { withTimezone: true })
 
       .defaultNow()
@@ -197,6 +607,14 @@ export const transactions = pgTable(
 
     dateIdx: index("idx_transactions_date").on(table.transactionDate),
 
+    // Keyset pagination on (date, id) for list cursors and exports
+
+    dateIdIdx: index("idx_transactions_date_id").on(
+      table.transactionDate,
+
+      table.id,
+    ),
+
     // Composite index for dashboard queries
 
     dateCategoryIdx: index("idx_transactions_date_category").on(
@@ -208,29 +626,996 @@ export const transactions = pgTable(
     // For category lookups
 
     categoryIdIdx: index("idx_transactions_category_id").on(table.categoryId),
-  }),
-)
 
-// Relations
+    // For account lookups and running balances
 
-export const categoriesRelations = relations(categories, ({ many }) => ({
-  transactions: many(transactions),
+    accountIdIdx: index("idx_transactions_account_id").on(table.accountId),
+
+    // For loading the legs of a transfer
+
+    transferIdIdx: index("idx_transactions_transfer_id").on(table.transferId),
+
+    // Makes materializing recurring occurrences idempotent
+
+    recurringOccurrenceIdx: uniqueIndex(
+      "idx_transactions_recurring_occurrence",
+    ).on(
+      table.recurringRuleId,
+
+      table.transactionDate,
+    ),
+
+    // Duplicate lookups: same fingerprint within a date window
+
+    fingerprintDateIdx: index("idx_transactions_fingerprint_date").on(
+      table.fingerprint,
+
+      table.transactionDate,
+    ),
+
+    // Description search (GET /transactions?q=)
+
+    searchIdx: index("idx_transactions_search").using(
+      "gin",
+
+      table.searchVector,
+    ),
+  }),
+)
+
+// Transaction Splits Table
+
+// Note: Optional category breakdown of one transaction; lines sum to the
+// parent amount and share the parent category's type
+
+export const transactionSplits = pgTable(
+  "transaction_splits",
+
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+
+    transactionId: uuid("transaction_id")
+
+      .notNull()
+
+      .references(() => transactions.id, { onDelete: "cascade" }),
+
+    categoryId: uuid("category_id")
+
+      .notNull()
+
+      .references(() => categories.id, { onDelete: "restrict" }),
+
+    amountRupiah: bigint("amount_rupiah", { mode: "number" }).notNull(),
+
+    memo: varchar("memo", { length: 200 }),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+
+      .defaultNow()
+
+      .notNull(),
+  },
+
+  (table) => ({
+    transactionIdIdx: index("idx_transaction_splits_transaction_id").on(
+      table.transactionId,
+    ),
+
+    // For category aggregations and delete checks
+
+    categoryIdIdx: index("idx_transaction_splits_category_id").on(
+      table.categoryId,
+    ),
+  }),
+)
+
+// Tags Table
+
+// Note: Free-form labels that cut across categories (e.g., "reimbursable")
+
+export const tags = pgTable("tags", {
+  id: uuid("id").primaryKey().defaultRandom(),
+
+  name: varchar("name", { length: 50 }).notNull().unique(),
+
+  createdAt: timestamp("created_at", { withTimezone: true })
+
+    .defaultNow()
+
+    .notNull(),
+})
+
+// Transaction Tags Table
+
+// Note: Many-to-many join between transactions and tags
+
+export const transactionTags = pgTable(
+  "transaction_tags",
+
+  {
+    transactionId: uuid("transaction_id")
+
+      .notNull()
+
+      .references(() => transactions.id, { onDelete: "cascade" }),
+
+    tagId: uuid("tag_id")
+
+      .notNull()
+
+      .references(() => tags.id, { onDelete: "cascade" }),
+  },
+
+  (table) => ({
+    pk: primaryKey({ columns: [table.transactionId, table.tagId] }),
+
+    // For tag filters and the by-tag dashboard
+
+    tagIdIdx: index("idx_transaction_tags_tag_id").on(table.tagId),
+  }),
+)
+
+// Duplicate Dismissals Table
+
+// Note: Pairs the owner marked as "not a duplicate"; stored with the
+// smaller transaction ID first so each pair has one row
+
+export const duplicateDismissals = pgTable(
+  "duplicate_dismissals",
+
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+
+    transactionId: uuid("transaction_id")
+
+      .notNull()
+
+      .references(() => transactions.id, { onDelete: "cascade" }),
+
+    duplicateId: uuid("duplicate_id")
+
+      .notNull()
+
+      .references(() => transactions.id, { onDelete: "cascade" }),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+
+      .defaultNow()
+
+      .notNull(),
+  },
+
+  (table) => ({
+    pairIdx: uniqueIndex("idx_duplicate_dismissals_pair").on(
+      table.transactionId,
+
+      table.duplicateId,
+    ),
+  }),
+)
+
+// Budgets Table
+
+// Note: One monthly limit per expense category
+
+export const budgets = pgTable("budgets", {
+  id: uuid("id").primaryKey().defaultRandom(),
+
+  categoryId: uuid("category_id")
+
+    .notNull()
+
+    .unique()
+
+    .references(() => categories.id, { onDelete: "cascade" }),
+
+  amountRupiah: bigint("amount_rupiah", { mode: "number" }).notNull(),
+
+  // Carry last month's unspent amount into the current month
+
+  rollover: boolean("rollover").notNull().default(false),
+
+  createdAt: timestamp("created_at", { withTimezone: true })
+
+    .defaultNow()
+
+    .notNull(),
+
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+
+    .defaultNow()
+
+    .notNull(),
+})
+
+// Import Profiles Table
+
+// Note: Saved column mappings for bank statement CSV exports
+
+export const importProfiles = pgTable("import_profiles", {
+  id: uuid("id").primaryKey().defaultRandom(),
+
+  name: varchar("name", { length: 100 }).notNull().unique(),
+
+  delimiter: varchar("delimiter", { length: 1 }).notNull().default(","),
+
+  // "," for Indonesian formatting (1.500.000,00), "." for 1,500,000.00
+
+  decimalSeparator: varchar("decimal_separator", { length: 1 })
+
+    .notNull()
+
+    .default(","),
+
+  // Preamble lines before the header (account number, period, ...)
+
+  skipRows: integer("skip_rows").notNull().default(0),
+
+  hasHeader: boolean("has_header").notNull().default(true),
+
+  dateFormat: importDateFormatEnum("date_format").notNull(),
+
+  // Zero-based column indexes
+
+  dateColumn: integer("date_column").notNull(),
+
+  descriptionColumn: integer("description_column").notNull(),
+
+  // Either a single amount column (negative or "DB" suffix = debit) ...
+
+  amountColumn: integer("amount_column"),
+
+  // ... or separate debit and credit columns
+
+  debitColumn: integer("debit_column"),
+
+  creditColumn: integer("credit_column"),
+
+  // Categories for imported debits (expenses) and credits (income)
+
+  expenseCategoryId: uuid("expense_category_id").references(
+    () => categories.id,
+
+    { onDelete: "set null" },
+  ),
+
+  incomeCategoryId: uuid("income_category_id").references(
+    () => categories.id,
+
+    { onDelete: "set null" },
+  ),
+
+  createdAt: timestamp("created_at", { withTimezone: true })
+
+    .defaultNow()
+
+    .notNull(),
+
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+
+    .defaultNow()
+
+    .notNull(),
+})
+
+// Goals Table (savings targets)
+
+export const goals = pgTable("goals", {
+  id: uuid("id").primaryKey().defaultRandom(),
+
+  name: varchar("name", { length: 100 }).notNull(),
+
+  targetRupiah: bigint("target_rupiah", { mode: "number" }).notNull(),
+
+  targetDate: date("target_date").notNull(),
+
+  // Where the savings are kept (optional, informational)
+
+  accountId: uuid("account_id").references(() => accounts.id, {
+    onDelete: "set null",
+  }),
+
+  createdAt: timestamp("created_at", { withTimezone: true })
+
+    .defaultNow()
+
+    .notNull(),
+
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+
+    .defaultNow()
+
+    .notNull(),
+})
+
+// Goal Contributions Table
+
+export const goalContributions = pgTable(
+  "goal_contributions",
+
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+
+    goalId: uuid("goal_id")
+
+      .notNull()
+
+      .references(() => goals.id, { onDelete: "cascade" }),
+
+    amountRupiah: bigint("amount_rupiah", { mode: "number" }).notNull(),
+
+    contributionDate: date("contribution_date").notNull(),
+
+    note: varchar("note", { length: 500 }),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+
+      .defaultNow()
+
+      .notNull(),
+  },
+
+  (table) => ({
+    goalIdIdx: index("idx_goal_contributions_goal_id").on(
+      table.goalId,
+
+      table.contributionDate,
+    ),
+  }),
+)
+
+// Debts Table (money lent or borrowed)
+
+// Note: Installments are derived from the terms, not stored
+
+export const debts = pgTable("debts", {
+  id: uuid("id").primaryKey().defaultRandom(),
+
+  counterparty: varchar("counterparty", { length: 100 }).notNull(),
+
+  direction: debtDirectionEnum("direction").notNull(),
+
+  principalRupiah: bigint("principal_rupiah", { mode: "number" }).notNull(),
+
+  // Flat interest over the whole term, added to the principal
+
+  interestRupiah: bigint("interest_rupiah", { mode: "number" })
+
+    .notNull()
+
+    .default(0),
+
+  description: varchar("description", { length: 500 }),
+
+  startDate: date("start_date").notNull(),
+
+  // Single repayment date for debts without an installment schedule
+
+  dueDate: date("due_date"),
+
+  // Monthly installments starting on firstInstallmentDate
+
+  installmentCount: integer("installment_count"),
+
+  firstInstallmentDate: date("first_installment_date"),
+
+  createdAt: timestamp("created_at", { withTimezone: true })
+
+    .defaultNow()
+
+    .notNull(),
+
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+
+    .defaultNow()
+
+    .notNull(),
+})
+
+// Debt Payments Table
+
+// Note: Links a ledger transaction to the debt it repays; the amount is
+// the transaction's
+
+export const debtPayments = pgTable(
+  "debt_payments",
+
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+
+    debtId: uuid("debt_id")
+
+      .notNull()
+
+      .references(() => debts.id, { onDelete: "cascade" }),
+
+    transactionId: uuid("transaction_id")
+
+      .notNull()
+
+      .unique()
+
+      .references(() => transactions.id, { onDelete: "cascade" }),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+
+      .defaultNow()
+
+      .notNull(),
+  },
+
+  (table) => ({
+    debtIdIdx: index("idx_debt_payments_debt_id").on(table.debtId),
+  }),
+)
+
+// Assets Table (manually valued possessions: gold, vehicles, property)
+
+export const assets = pgTable("assets", {
+  id: uuid("id").primaryKey().defaultRandom(),
+
+  name: varchar("name", { length: 100 }).notNull(),
+
+  type: assetTypeEnum("type").notNull(),
+
+  // Free text such as "25 gram Antam" or a plate number
+
+  description: varchar("description", { length: 500 }),
+
+  createdAt: timestamp("created_at", { withTimezone: true })
+
+    .defaultNow()
+
+    .notNull(),
+
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+
+    .defaultNow()
+
+    .notNull(),
+})
+
+// Asset Valuations Table
+
+// Note: An asset is worth its latest valuation on or before a date; a
+// valuation of 0 marks it as sold
+
+export const assetValuations = pgTable(
+  "asset_valuations",
+
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+
+    assetId: uuid("asset_id")
+
+      .notNull()
+
+      .references(() => assets.id, { onDelete: "cascade" }),
+
+    valuationDate: date("valuation_date").notNull(),
+
+    valueRupiah: bigint("value_rupiah", { mode: "number" }).notNull(),
+
+    note: varchar("note", { length: 500 }),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+
+      .defaultNow()
+
+      .notNull(),
+  },
+
+  (table) => ({
+    // One valuation per asset per day
+
+    assetDateIdx: uniqueIndex("idx_asset_valuations_asset_date").on(
+      table.assetId,
+
+      table.valuationDate,
+    ),
+  }),
+)
+
+// Investment Instruments Table (reksa dana, IDX stocks, gold, bonds)
+
+export const investmentInstruments = pgTable("investment_instruments", {
+  id: uuid("id").primaryKey().defaultRandom(),
+
+  name: varchar("name", { length: 100 }).notNull(),
+
+  // Ticker or fund code (e.g., "BBCA")
+
+  code: varchar("code", { length: 20 }),
+
+  type: instrumentTypeEnum("type").notNull(),
+
+  // What quantities count (e.g., "unit", "lembar", "gram")
+
+  unit: varchar("unit", { length: 20 }).notNull().default("unit"),
+
+  createdAt: timestamp("created_at", { withTimezone: true })
+
+    .defaultNow()
+
+    .notNull(),
+
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+
+    .defaultNow()
+
+    .notNull(),
+})
+
+// Investment Trades Table (buy and sell lots)
+
+// Note: A linked ledger transaction carries the cash side of the trade and
+// is left out of income/expense totals
+
+export const investmentTrades = pgTable(
+  "investment_trades",
+
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+
+    instrumentId: uuid("instrument_id")
+
+      .notNull()
+
+      .references(() => investmentInstruments.id, { onDelete: "restrict" }),
+
+    side: tradeSideEnum("side").notNull(),
+
+    tradeDate: date("trade_date").notNull(),
+
+    quantity: numeric("quantity", {
+      precision: 24,
+
+      scale: 6,
+
+      mode: "number",
+    }).notNull(),
+
+    // Cash paid including fees (buy) or received after fees (sell)
+
+    amountRupiah: bigint("amount_rupiah", { mode: "number" }).notNull(),
+
+    transactionId: uuid("transaction_id")
+
+      .unique()
+
+      .references(() => transactions.id, { onDelete: "set null" }),
+
+    note: varchar("note", { length: 500 }),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+
+      .defaultNow()
+
+      .notNull(),
+  },
+
+  (table) => ({
+    instrumentDateIdx: index("idx_investment_trades_instrument_date").on(
+      table.instrumentId,
+
+      table.tradeDate,
+    ),
+  }),
+)
+
+// Investment Prices Table (price per unit, entered or imported)
+
+export const investmentPrices = pgTable(
+  "investment_prices",
+
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+
+    instrumentId: uuid("instrument_id")
+
+      .notNull()
+
+      .references(() => investmentInstruments.id, { onDelete: "cascade" }),
+
+    priceDate: date("price_date").notNull(),
+
+    // Fund NAVs carry decimals, so prices are not whole rupiah
+
+    price: numeric("price", {
+      precision: 20,
+
+      scale: 4,
+
+      mode: "number",
+    }).notNull(),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+
+      .defaultNow()
+
+      .notNull(),
+  },
+
+  (table) => ({
+    // One price per instrument per day; imports overwrite
+
+    instrumentDateIdx: uniqueIndex("idx_investment_prices_instrument_date").on(
+      table.instrumentId,
+
+      table.priceDate,
+    ),
+  }),
+)
+
+// Exchange Rates Table (rupiah per unit of a foreign currency)
+
+export const exchangeRates = pgTable(
+  "exchange_rates",
+
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+
+    // ISO 4217 code (e.g., "USD")
+
+    currency: varchar("currency", { length: 3 })
+
+      .$type<CurrencyCode>()
+
+      .notNull(),
+
+    rateDate: date("rate_date").notNull(),
+
+    rateRupiah: numeric("rate_rupiah", {
+      precision: 20,
+
+      scale: 6,
+
+      mode: "number",
+    }).notNull(),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+
+      .defaultNow()
+
+      .notNull(),
+  },
+
+  (table) => ({
+    // One rate per currency per day; imports overwrite
+
+    currencyDateIdx: uniqueIndex("idx_exchange_rates_currency_date").on(
+      table.currency,
+
+      table.rateDate,
+    ),
+  }),
+)
+
+// Relations
+
+export const categoriesRelations = relations(categories, ({ one, many }) => ({
+  parent: one(categories, {
+    fields: [categories.parentId],
+
+    references: [categories.id],
+
+    relationName: "subcategories",
+  }),
+
+  children: many(categories, { relationName: "subcategories" }),
+
+  transactions: many(transactions),
+
+  splits: many(transactionSplits),
+
+  typeChanges: many(categoryTypeChanges),
+
+  budget: one(budgets),
 }))
 
-export const transactionsRelations = relations(transactions, ({ one }) => ({
+export const categoryTypeChangesRelations = relations(
+  categoryTypeChanges,
+
+  ({ one }) => ({
+    category: one(categories, {
+      fields: [categoryTypeChanges.categoryId],
+
+      references: [categories.id],
+    }),
+  }),
+)
+
+export const budgetsRelations = relations(budgets, ({ one }) => ({
   category: one(categories, {
-    fields: [transactions.categoryId],
+    fields: [budgets.categoryId],
 
     references: [categories.id],
   }),
 }))
 
+export const accountsRelations = relations(accounts, ({ many }) => ({
+  transactions: many(transactions),
+
+  goals: many(goals),
+}))
+
+export const goalsRelations = relations(goals, ({ one, many }) => ({
+  account: one(accounts, {
+    fields: [goals.accountId],
+
+    references: [accounts.id],
+  }),
+
+  contributions: many(goalContributions),
+}))
+
+export const assetsRelations = relations(assets, ({ many }) => ({
+  valuations: many(assetValuations),
+}))
+
+export const assetValuationsRelations = relations(
+  assetValuations,
+
+  ({ one }) => ({
+    asset: one(assets, {
+      fields: [assetValuations.assetId],
+
+      references: [assets.id],
+    }),
+  }),
+)
+
+export const investmentInstrumentsRelations = relations(
+  investmentInstruments,
+
+  ({ many }) => ({
+    trades: many(investmentTrades),
+
+    prices: many(investmentPrices),
+  }),
+)
+
+export const investmentTradesRelations = relations(
+  investmentTrades,
+
+  ({ one }) => ({
+    instrument: one(investmentInstruments, {
+      fields: [investmentTrades.instrumentId],
+
+      references: [investmentInstruments.id],
+    }),
+
+    transaction: one(transactions, {
+      fields: [investmentTrades.transactionId],
+
+      references: [transactions.id],
+    }),
+  }),
+)
+
+export const investmentPricesRelations = relations(
+  investmentPrices,
+
+  ({ one }) => ({
+    instrument: one(investmentInstruments, {
+      fields: [investmentPrices.instrumentId],
+
+      references: [investmentInstruments.id],
+    }),
+  }),
+)
+
+export const debtsRelations = relations(debts, ({ many }) => ({
+  payments: many(debtPayments),
+}))
+
+export const debtPaymentsRelations = relations(debtPayments, ({ one }) => ({
+  debt: one(debts, {
+    fields: [debtPayments.debtId],
+
+    references: [debts.id],
+  }),
+
+  transaction: one(transactions, {
+    fields: [debtPayments.transactionId],
+
+    references: [transactions.id],
+  }),
+}))
+
+export const goalContributionsRelations = relations(
+  goalContributions,
+
+  ({ one }) => ({
+    goal: one(goals, {
+      fields: [goalContributions.goalId],
+
+      references: [goals.id],
+    }),
+  }),
+)
+
+export const recurringRulesRelations = relations(
+  recurringRules,
+
+  ({ one, many }) => ({
+    account: one(accounts, {
+      fields: [recurringRules.accountId],
+
+      references: [accounts.id],
+    }),
+
+    category: one(categories, {
+      fields: [recurringRules.categoryId],
+
+      references: [categories.id],
+    }),
+
+    transactions: many(transactions),
+  }),
+)
+
+export const transfersRelations = relations(transfers, ({ many }) => ({
+  legs: many(transactions),
+}))
+
+export const transactionsRelations = relations(
+  transactions,
+
+  ({ one, many }) => ({
+    tags: many(transactionTags),
+
+    splits: many(transactionSplits),
+
+    category: one(categories, {
+      fields: [transactions.categoryId],
+
+      references: [categories.id],
+    }),
+
+    account: one(accounts, {
+      fields: [transactions.accountId],
+
+      references: [accounts.id],
+    }),
+
+    transfer: one(transfers, {
+      fields: [transactions.transferId],
+
+      references: [transfers.id],
+    }),
+
+    recurringRule: one(recurringRules, {
+      fields: [transactions.recurringRuleId],
+
+      references: [recurringRules.id],
+    }),
+  }),
+)
+
+export const transactionSplitsRelations = relations(
+  transactionSplits,
+
+  ({ one }) => ({
+    transaction: one(transactions, {
+      fields: [transactionSplits.transactionId],
+
+      references: [transactions.id],
+    }),
+
+    category: one(categories, {
+      fields: [transactionSplits.categoryId],
+
+      references: [categories.id],
+    }),
+  }),
+)
+
+export const tagsRelations = relations(tags, ({ many }) => ({
+  transactions: many(transactionTags),
+}))
+
+export const transactionTagsRelations = relations(
+  transactionTags,
+
+  ({ one }) => ({
+    transaction: one(transactions, {
+      fields: [transactionTags.transactionId],
+
+      references: [transactions.id],
+    }),
+
+    tag: one(tags, {
+      fields: [transactionTags.tagId],
+
+      references: [tags.id],
+    }),
+  }),
+)
+
 // Types
 
+export type Settings = typeof settings.$inferSelect
+
 export type Category = typeof categories.$inferSelect
 
 export type NewCategory = typeof categories.$inferInsert
 
+export type Account = typeof accounts.$inferSelect
+
+export type NewAccount = typeof accounts.$inferInsert
+
+export type Transfer = typeof transfers.$inferSelect
+
+export type NewTransfer = typeof transfers.$inferInsert
+
+export type Budget = typeof budgets.$inferSelect
+
+export type NewBudget = typeof budgets.$inferInsert
+
+export type RecurringRule = typeof recurringRules.$inferSelect
+
+export type NewRecurringRule = typeof recurringRules.$inferInsert
+
+export type Goal = typeof goals.$inferSelect
+
+export type NewGoal = typeof goals.$inferInsert
+
+export type GoalContribution = typeof goalContributions.$inferSelect
+
+export type NewGoalContribution = typeof goalContributions.$inferInsert
+
+export type Debt = typeof debts.$inferSelect
+
+export type NewDebt = typeof debts.$inferInsert
+
+export type DebtPayment = typeof debtPayments.$inferSelect
+
+export type NewDebtPayment = typeof debtPayments.$inferInsert
+
+export type Asset = typeof assets.$inferSelect
+
+export type NewAsset = typeof assets.$inferInsert
+
+export type AssetValuation = typeof assetValuations.$inferSelect
+
+export type NewAssetValuation = typeof assetValuations.$inferInsert
+
+export type InvestmentInstrument = typeof investmentInstruments.$inferSelect
+
+export type NewInvestmentInstrument = typeof investmentInstruments.$inferInsert
+
+export type InvestmentTrade = typeof investmentTrades.$inferSelect
+
+export type NewInvestmentTrade = typeof investmentTrades.$inferInsert
+
+export type InvestmentPrice = typeof investmentPrices.$inferSelect
+
+export type NewInvestmentPrice = typeof investmentPrices.$inferInsert
+
+export type ImportProfile = typeof importProfiles.$inferSelect
+
+export type NewImportProfile = typeof importProfiles.$inferInsert
+
 export type Transaction = typeof transactions.$inferSelect
 
 export type NewTransaction = typeof transactions.$inferInsert
+
+export type TransactionSplit = typeof transactionSplits.$inferSelect
+
+export type NewTransactionSplit = typeof transactionSplits.$inferInsert
+
+export type Tag = typeof tags.$inferSelect
+
+export type NewTag = typeof tags.$inferInsert
+
+export type TransactionTag = typeof transactionTags.$inferSelect
+
+export type DuplicateDismissal = typeof duplicateDismissals.$inferSelect
+
+export type CategoryTypeChange = typeof categoryTypeChanges.$inferSelect
+
+export type ExchangeRate = typeof exchangeRates.$inferSelect
+
+export type NewExchangeRate = typeof exchangeRates.$inferInsert
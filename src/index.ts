@@ -14,10 +14,38 @@ import categoriesRoutes from "./modules/categories/routes"
 
 import dashboardRoutes from "./modules/dashboard/routes"
 
+import accountsRoutes from "./modules/accounts/routes"
+
+import transfersRoutes from "./modules/transfers/routes"
+
+import budgetsRoutes from "./modules/budgets/routes"
+
+import recurringRoutes from "./modules/recurring/routes"
+
+import settingsRoutes from "./modules/settings/routes"
+
+import importsRoutes from "./modules/imports/routes"
+
+import tagsRoutes from "./modules/tags/routes"
+
+import goalsRoutes from "./modules/goals/routes"
+
+import debtsRoutes from "./modules/debts/routes"
+
+import assetsRoutes from "./modules/assets/routes"
+
+import investmentsRoutes from "./modules/investments/routes"
+
+import exchangeRatesRoutes from "./modules/exchange-rates/routes"
+
+import { recurringService } from "./modules/recurring/service"
+
 import { createApp } from "./factory"
 
 import { EnvSchema } from "./env"
 
+import { toLocalDateString } from "./lib/date"
+
 const app = createApp()
 
 // Global middleware
@@ -56,6 +84,30 @@ app.route("/api/categories", categoriesRoutes)
 
 app.route("/api/dashboard", dashboardRoutes)
 
+app.route("/api/accounts", accountsRoutes)
+
+app.route("/api/transfers", transfersRoutes)
+
+app.route("/api/budgets", budgetsRoutes)
+
+app.route("/api/recurring", recurringRoutes)
+
+app.route("/api/settings", settingsRoutes)
+
+app.route("/api/imports", importsRoutes)
+
+app.route("/api/tags", tagsRoutes)
+
+app.route("/api/goals", goalsRoutes)
+
+app.route("/api/debts", debtsRoutes)
+
+app.route("/api/assets", assetsRoutes)
+
+app.route("/api/investments", investmentsRoutes)
+
+app.route("/api/exchange-rates", exchangeRatesRoutes)
+
 // Health check endpoint
 
 app.get("/health", async (c) => {
@@ -72,4 +124,37 @@ app.get("/health", async (c) => {
   }
 })
 
-export default app
+/**
+ * Cron trigger (see wrangler.toml)
+ * Materializes recurring transactions that are due today in Jakarta time
+ */
+
+async function scheduled(
+  controller: ScheduledController,
+
+  env: unknown,
+
+  ctx: ExecutionContext,
+): Promise<void> {
+  const envResult = EnvSchema.safeParse(env)
+
+  if (!envResult.success) {
+    console.error("Scheduled run skipped: server misconfiguration")
+
+    return
+  }
+
+  const today = toLocalDateString(new Date(controller.scheduledTime))
+
+  ctx.waitUntil(
+    recurringService.materializeDue(envResult.data, today).catch((err) => {
+      console.error(`Recurring run for ${today} failed:`, err)
+    }),
+  )
+}
+
+export default {
+  fetch: app.fetch,
+
+  scheduled,
+}
@@ -0,0 +1,122 @@
+/**
+ * Minimal RFC 4180 CSV utilities
+ * Handles quoted fields, escaped quotes ("") and CRLF/LF line endings
+ */
+
+export type CsvField = string | number | null
+
+/**
+ * Parse CSV text into rows of raw string fields
+ * A leading UTF-8 byte order mark is ignored and blank lines are skipped
+ * @param text - CSV content
+ * @param delimiter - Field separator (e.g., "," or ";")
+ * @returns Rows of fields (e.g., [["Tanggal", "Keterangan"], ...])
+ */
+export function parseCsv(text: string, delimiter: string = ","): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let inQuotes = false
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0
+
+  const endRow = (): void => {
+    row.push(field)
+    // Skip lines that contain nothing at all
+    if (row.length > 1 || row[0] !== "") {
+      rows.push(row)
+    }
+    row = []
+    field = ""
+  }
+
+  for (; i < text.length; i++) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ""
+    } else if (char === "\n") {
+      endRow()
+    } else if (char !== "\r") {
+      field += char
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    endRow()
+  }
+
+  return rows
+}
+
+/**
+ * Quote a field when it contains a delimiter, quote or line break
+ * Fields starting with =, +, - or @ are prefixed with an apostrophe so
+ * spreadsheets do not evaluate them as formulas
+ * @param value - Raw field value
+ * @returns CSV-safe field (e.g., 'Toko "Maju"' → '"Toko ""Maju"""')
+ */
+export function escapeCsvField(value: CsvField): string {
+  if (value === null) {
+    return ""
+  }
+  let text = String(value)
+  if (typeof value === "string" && /^[=+\-@]/.test(text)) {
+    text = `'${text}`
+  }
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`
+  }
+  return text
+}
+
+/**
+ * Format one CSV record terminated with CRLF
+ * @param fields - Field values in column order
+ * @returns CSV line (e.g., "2024-03-01,Kopi,20000\r\n")
+ */
+export function formatCsvRow(fields: CsvField[]): string {
+  return `${fields.map(escapeCsvField).join(",")}\r\n`
+}
+
+/**
+ * Stream CSV records as UTF-8 bytes
+ * Starts with a byte order mark so spreadsheet apps detect UTF-8
+ * @param rows - Records, header first
+ * @returns CSV file bytes
+ */
+export function createCsvStream(
+  rows: AsyncIterable<CsvField[]>,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  const iterator = rows[Symbol.asyncIterator]()
+  let started = false
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!started) {
+        started = true
+        controller.enqueue(encoder.encode("\uFEFF"))
+        return
+      }
+      const { value, done } = await iterator.next()
+      if (done) {
+        controller.close()
+      } else {
+        controller.enqueue(encoder.encode(formatCsvRow(value)))
+      }
+    },
+    async cancel() {
+      await iterator.return?.()
+    },
+  })
+}
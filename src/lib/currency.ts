@@ -7,6 +7,14 @@
 export const IDR_LOCALE = "id-ID"
 export const IDR_CURRENCY = "IDR"
 
+/**
+ * Largest single amount accepted from user input (just under Rp1 trillion)
+ * Money columns are bigint, but values travel as JS numbers; keeping single
+ * amounts this small leaves room for thousands of them to be summed while
+ * staying within Number.MAX_SAFE_INTEGER
+ */
+export const MAX_AMOUNT_RUPIAH = 999_999_999_999
+
 /**
  * Convert user input (decimal) to IDR integer for storage
  * IDR has no minor units, so we round to nearest integer
@@ -17,6 +25,121 @@ export function toRupiah(amount: number): number {
   return Math.round(amount)
 }
 
+/**
+ * Currencies a transaction can be entered in, with their ISO 4217 minor
+ * units (digits after the decimal point)
+ */
+export const CURRENCY_MINOR_UNITS = {
+  IDR: 0,
+  USD: 2,
+  SGD: 2,
+  MYR: 2,
+  EUR: 2,
+  GBP: 2,
+  AUD: 2,
+  JPY: 0,
+  CNY: 2,
+  HKD: 2,
+  THB: 2,
+  KRW: 0,
+  SAR: 2,
+} as const
+
+export type CurrencyCode = keyof typeof CURRENCY_MINOR_UNITS
+
+export const CURRENCY_CODES = Object.keys(
+  CURRENCY_MINOR_UNITS,
+) as [CurrencyCode, ...CurrencyCode[]]
+
+/**
+ * Count an amount in its currency's minor units, rounding half up
+ * Scaling through 15 significant digits drops binary noise first, so
+ * 1.005 USD is 101 cents rather than 100
+ * @param amount - Amount from user input (e.g., 12.345)
+ * @param currency - ISO 4217 code (e.g., "USD")
+ * @returns Whole minor units (e.g., 1235)
+ */
+export function toMinorUnits(amount: number, currency: CurrencyCode): number {
+  const scaled = amount * 10 ** CURRENCY_MINOR_UNITS[currency]
+  return Math.round(Number(scaled.toPrecision(15)))
+}
+
+/**
+ * Round an amount to its currency's minor units
+ * @param amount - Amount from user input (e.g., 12.345)
+ * @param currency - ISO 4217 code (e.g., "USD")
+ * @returns The rounded amount (e.g., 12.35)
+ */
+export function roundToMinorUnits(
+  amount: number,
+  currency: CurrencyCode,
+): number {
+  return toMinorUnits(amount, currency) / 10 ** CURRENCY_MINOR_UNITS[currency]
+}
+
+/**
+ * Convert an amount in another currency to IDR integer for storage
+ * @param amount - Amount in the original currency (e.g., 12.35)
+ * @param rateRupiah - Rupiah per unit of that currency (e.g., 16250.5)
+ * @returns The amount as integer rupiah (e.g., 200694)
+ */
+export function convertToRupiah(amount: number, rateRupiah: number): number {
+  return toMinorUnits(amount * rateRupiah, "IDR")
+}
+
+/**
+ * Share a converted rupiah total across lines given in the original
+ * currency, in proportion (largest remainder method)
+ * Each line gets its exact share rounded down; the rupiah left over go
+ * one each to the lines with the largest fractions, earlier lines first,
+ * so no line ends up below its rounded-down share
+ * @param totalRupiah - Converted total (e.g., 200694)
+ * @param amounts - Line amounts in the original currency (e.g., [10, 2.35])
+ * @returns Rupiah per line, adding up to the total (e.g., [162505, 38189])
+ */
+export function allocateRupiah(
+  totalRupiah: number,
+  amounts: number[],
+): number[] {
+  const total = amounts.reduce((sum, amount) => sum + amount, 0)
+  const exact = amounts.map((amount) => (totalRupiah * amount) / total)
+  const shares = exact.map((share) => Math.floor(share))
+  let leftover = totalRupiah - shares.reduce((sum, share) => sum + share, 0)
+  const byFraction = exact
+    .map((share, index) => ({ index, fraction: share - shares[index] }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index)
+  for (const { index } of byFraction) {
+    if (leftover <= 0) {
+      break
+    }
+    shares[index]++
+    leftover--
+  }
+  return shares
+}
+
+/**
+ * Convert a database aggregate to a number
+ * Postgres returns bigint SUM/COUNT results as strings to avoid precision
+ * loss; this converts them and refuses values a JS number cannot represent
+ * exactly, so JSON responses never carry silently rounded totals
+ * @param value - Aggregate value (e.g., "150000", 150000 or null)
+ * @returns The exact integer (null becomes 0)
+ * @throws RangeError when the value is outside the safe integer range
+ */
+export function toSafeInteger(
+  value: string | number | null | undefined,
+): number {
+  if (value === null || value === undefined) {
+    return 0
+  }
+  const parsed = typeof value === "number" ? value : Number(value)
+  if (!Number.isSafeInteger(parsed)) {
+    throw new RangeError(`Amount ${value} exceeds the safe integer range`)
+  }
+  return parsed
+}
+
 /**
  * Convert IDR integer to display value (for compatibility with existing code)
  * Since IDR has no decimals, this returns the same value
@@ -0,0 +1,39 @@
+/**
+ * Opaque pagination cursors
+ * A cursor is a small JSON value encoded as base64url, so clients pass it
+ * back unchanged without depending on what is inside.
+ */
+
+const encoder = new TextEncoder()
+
+const decoder = new TextDecoder()
+
+/**
+ * Encode a value as a URL-safe cursor string
+ * @returns Base64url text without padding
+ */
+export function encodeCursor(value: unknown): string {
+  const bytes = encoder.encode(JSON.stringify(value))
+  let binary = ""
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+/**
+ * Decode a cursor string produced by encodeCursor
+ * @returns The encoded value, or undefined when the text is not a cursor
+ */
+export function decodeCursor(text: string): unknown {
+  if (!/^[A-Za-z0-9_-]*$/.test(text)) {
+    return undefined
+  }
+  try {
+    const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"))
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0))
+    return JSON.parse(decoder.decode(bytes))
+  } catch {
+    return undefined
+  }
+}
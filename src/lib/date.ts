@@ -0,0 +1,125 @@
+/**
+ * Calendar date utilities for "YYYY-MM-DD" strings
+ * Dates are treated as plain calendar days (no time zone shifts)
+ * Months are 1-based throughout (1 = January)
+ */
+
+export const APP_TIME_ZONE = "Asia/Jakarta"
+
+export interface CalendarDate {
+  year: number
+  month: number
+  day: number
+}
+
+export interface YearMonth {
+  year: number
+  month: number
+}
+
+/**
+ * Split a "YYYY-MM-DD" string into its parts
+ * @param value - Date string (e.g., "2024-02-29")
+ * @returns Calendar parts (e.g., { year: 2024, month: 2, day: 29 })
+ */
+export function parseDate(value: string): CalendarDate {
+  const [year, month, day] = value.split("-").map(Number)
+  return { year, month, day }
+}
+
+/**
+ * Build a "YYYY-MM-DD" string from its parts
+ * @returns Date string (e.g., "2024-03-01")
+ */
+export function formatDate(year: number, month: number, day: number): string {
+  return `${String(year).padStart(4, "0")}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`
+}
+
+/**
+ * Check whether a year is a Gregorian leap year
+ */
+export function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0
+}
+
+/**
+ * Number of days in a month, accounting for leap years
+ * @returns 28-31
+ */
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+/**
+ * Move a year/month pair by a number of months
+ * @returns Shifted pair (e.g., 2024-11 + 3 → { year: 2025, month: 2 })
+ */
+export function shiftMonth(
+  year: number,
+  month: number,
+  offset: number,
+): YearMonth {
+  const index = year * 12 + (month - 1) + offset
+  return { year: Math.floor(index / 12), month: (index % 12) + 1 }
+}
+
+/**
+ * Build a date on the given day, clamped to the last day of the month
+ * @returns Date string (e.g., 2023-02 day 31 → "2023-02-28")
+ */
+export function clampedDate(year: number, month: number, day: number): string {
+  return formatDate(year, month, Math.min(day, daysInMonth(year, month)))
+}
+
+/**
+ * Add a number of days to a date string
+ * @returns Date string (e.g., "2024-02-28" + 1 → "2024-02-29")
+ */
+export function addDays(value: string, days: number): string {
+  const { year, month, day } = parseDate(value)
+  return new Date(Date.UTC(year, month - 1, day + days))
+    .toISOString()
+    .slice(0, 10)
+}
+
+/**
+ * Add months to a date string, clamping the day to the target month
+ * @returns Date string (e.g., "2024-01-31" + 1 → "2024-02-29")
+ */
+export function addMonths(value: string, months: number): string {
+  const { year, month, day } = parseDate(value)
+  const target = shiftMonth(year, month, months)
+  return clampedDate(target.year, target.month, day)
+}
+
+/**
+ * Whole days from one date to another (negative when `to` is earlier)
+ */
+export function daysBetween(from: string, to: string): number {
+  const a = parseDate(from)
+  const b = parseDate(to)
+  return Math.round(
+    (Date.UTC(b.year, b.month - 1, b.day) -
+      Date.UTC(a.year, a.month - 1, a.day)) /
+      86400000,
+  )
+}
+
+/**
+ * Calendar date of an instant in the given time zone
+ * @param date - Instant to convert
+ * @param timeZone - IANA time zone (defaults to Asia/Jakarta)
+ * @returns Date string (e.g., "2024-03-01")
+ */
+export function toLocalDateString(
+  date: Date,
+  timeZone: string = APP_TIME_ZONE,
+): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date)
+}
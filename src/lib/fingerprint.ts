@@ -0,0 +1,26 @@
+/**
+ * Duplicate-detection fingerprints for ledger rows
+ * Computed in SQL so the stored generated column and ad-hoc lookups for
+ * rows that are not saved yet always agree
+ */
+
+import { sql, type SQL } from "drizzle-orm"
+
+/**
+ * Fingerprint of account, amount and normalized description
+ * Descriptions are lowercased and every run of punctuation or whitespace
+ * collapses to one space, so "TRF  ke-Budi" and "trf ke budi" match.
+ * The date is deliberately left out: it is matched as a range (the
+ * duplicate window) next to the fingerprint in a composite index.
+ * @param accountId - Account ID expression
+ * @param amountRupiah - Amount expression
+ * @param description - Description expression
+ * @returns 32-character md5 hex expression
+ */
+export function transactionFingerprint(
+  accountId: SQL,
+  amountRupiah: SQL,
+  description: SQL,
+): SQL {
+  return sql`md5(${accountId}::text || '|' || ${amountRupiah}::text || '|' || btrim(regexp_replace(lower(${description}), '[^a-z0-9]+', ' ', 'g')))`
+}
@@ -0,0 +1,211 @@
+/**
+ * Reporting period utilities
+ * Turns month, quarter, year, ISO week and custom ranges into
+ * inclusive "YYYY-MM-DD" bounds suitable for BETWEEN-style filters
+ *
+ * Months, quarters and years honor a financial month start day:
+ * with a start day of 25, "March" runs from 25 February to 24 March
+ */
+
+import {
+  addDays,
+  clampedDate,
+  daysBetween,
+  daysInMonth,
+  formatDate,
+  parseDate,
+  shiftMonth,
+} from "./date"
+import type { YearMonth } from "./date"
+
+export interface DateRange {
+  startDate: string
+  endDate: string
+}
+
+export interface PeriodInput {
+  year?: number
+  month?: number
+  quarter?: number
+  week?: number
+  from?: string
+  to?: string
+}
+
+/**
+ * Bounds of a month
+ * With a start day N > 1 the month begins on day N of the previous month;
+ * N is clamped to the last day of months that are too short
+ * @param monthStartDay - Financial month start day (1-31, default 1)
+ * @returns e.g. 2024-02 → { startDate: "2024-02-01", endDate: "2024-02-29" }
+ *          2024-03, day 25 → { startDate: "2024-02-25", endDate: "2024-03-24" }
+ */
+export function monthPeriod(
+  year: number,
+  month: number,
+  monthStartDay: number = 1,
+): DateRange {
+  if (monthStartDay <= 1) {
+    return {
+      startDate: formatDate(year, month, 1),
+      endDate: formatDate(year, month, daysInMonth(year, month)),
+    }
+  }
+  const previous = shiftMonth(year, month, -1)
+  return {
+    startDate: clampedDate(previous.year, previous.month, monthStartDay),
+    endDate: addDays(clampedDate(year, month, monthStartDay), -1),
+  }
+}
+
+/**
+ * Financial month a date falls in
+ * @param monthStartDay - Financial month start day (1-31, default 1)
+ * @returns e.g. 2024-03-26, day 25 → { year: 2024, month: 4 }
+ */
+export function monthContaining(
+  date: string,
+  monthStartDay: number = 1,
+): YearMonth {
+  const { year, month } = parseDate(date)
+  if (date <= monthPeriod(year, month, monthStartDay).endDate) {
+    return { year, month }
+  }
+  return shiftMonth(year, month, 1)
+}
+
+/**
+ * Bounds of a quarter (1-4)
+ * @returns e.g. 2024 Q1 → { startDate: "2024-01-01", endDate: "2024-03-31" }
+ */
+export function quarterPeriod(
+  year: number,
+  quarter: number,
+  monthStartDay: number = 1,
+): DateRange {
+  const firstMonth = (quarter - 1) * 3 + 1
+  return {
+    startDate: monthPeriod(year, firstMonth, monthStartDay).startDate,
+    endDate: monthPeriod(year, firstMonth + 2, monthStartDay).endDate,
+  }
+}
+
+/**
+ * Bounds of a year
+ * @returns e.g. 2024, day 25 → { startDate: "2023-12-25", endDate: "2024-12-24" }
+ */
+export function yearPeriod(year: number, monthStartDay: number = 1): DateRange {
+  return {
+    startDate: monthPeriod(year, 1, monthStartDay).startDate,
+    endDate: monthPeriod(year, 12, monthStartDay).endDate,
+  }
+}
+
+/**
+ * Monday of ISO week 1 (the week containing January 4th)
+ */
+function isoWeekOneMonday(year: number): string {
+  const jan4 = formatDate(year, 1, 4)
+  // getUTCDay: 0 = Sunday; shift so Monday = 0
+  const weekday = (new Date(`${jan4}T00:00:00Z`).getUTCDay() + 6) % 7
+  return addDays(jan4, -weekday)
+}
+
+/**
+ * Number of ISO weeks in an ISO week-numbering year (52 or 53)
+ */
+export function isoWeeksInYear(year: number): number {
+  // December 28th always falls in the last ISO week of its year
+  const days = daysBetween(isoWeekOneMonday(year), formatDate(year, 12, 28))
+  return Math.floor(days / 7) + 1
+}
+
+/**
+ * Bounds of an ISO 8601 week (Monday to Sunday)
+ * The year is the ISO week-numbering year, so week 1 may start in December
+ * @returns e.g. 2026 W01 → { startDate: "2025-12-29", endDate: "2026-01-04" }
+ */
+export function isoWeekPeriod(year: number, week: number): DateRange {
+  const startDate = addDays(isoWeekOneMonday(year), (week - 1) * 7)
+  return { startDate, endDate: addDays(startDate, 6) }
+}
+
+export type SeriesInterval = "day" | "week" | "month"
+
+/**
+ * Last day of the interval containing a date
+ * Weeks end on Sunday; months honor the financial month start day
+ */
+function intervalEnd(
+  date: string,
+  interval: SeriesInterval,
+  monthStartDay: number,
+): string {
+  if (interval === "day") {
+    return date
+  }
+  if (interval === "week") {
+    // getUTCDay: 0 = Sunday; shift so Monday = 0
+    const weekday = (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7
+    return addDays(date, 6 - weekday)
+  }
+  const { year, month } = monthContaining(date, monthStartDay)
+  return monthPeriod(year, month, monthStartDay).endDate
+}
+
+/**
+ * Closing date of every interval overlapping a range, for point-in-time
+ * series; the last one is clamped to the end of the range
+ * @param monthStartDay - Financial month start day (1-31, default 1)
+ * @returns e.g. 2024-01-15..2024-03-10 by month →
+ *          ["2024-01-31", "2024-02-29", "2024-03-10"]
+ */
+export function intervalEndDates(
+  range: DateRange,
+  interval: SeriesInterval,
+  monthStartDay: number = 1,
+): string[] {
+  const dates: string[] = []
+  let date = range.startDate
+  while (date <= range.endDate) {
+    const end = intervalEnd(date, interval, monthStartDay)
+    dates.push(end < range.endDate ? end : range.endDate)
+    date = addDays(end, 1)
+  }
+  return dates
+}
+
+/**
+ * Resolve filter input to inclusive bounds
+ * Precedence: from/to, then week, quarter, month, and finally the whole year
+ * ISO weeks and custom ranges ignore the month start day
+ * @throws Error when neither a custom range nor a year is given
+ */
+export function resolvePeriod(
+  input: PeriodInput,
+  monthStartDay: number = 1,
+): DateRange {
+  const { year, month, quarter, week, from, to } = input
+
+  if (from && to) {
+    return { startDate: from, endDate: to }
+  }
+
+  if (year === undefined) {
+    throw new Error("A year or a from/to range is required")
+  }
+
+  if (week !== undefined) {
+    return isoWeekPeriod(year, week)
+  }
+
+  if (quarter !== undefined) {
+    return quarterPeriod(year, quarter, monthStartDay)
+  }
+
+  if (month !== undefined) {
+    return monthPeriod(year, month, monthStartDay)
+  }
+
+  return yearPeriod(year, monthStartDay)
+}
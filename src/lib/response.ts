@@ -2,12 +2,12 @@ import type { Context } from "hono"
 
 import type { PaginationMeta } from "../schemas/common"
 
-interface SuccessResponse<T> {
+interface SuccessResponse<T, M> {
   success: true
 
   data: T
 
-  meta?: PaginationMeta
+  meta?: M
 }
 
 interface ErrorResponse {
@@ -22,14 +22,14 @@ interface ErrorResponse {
   }
 }
 
-export function success<T>(
+export function success<T, M extends object = PaginationMeta>(
   c: Context,
 
   data: T,
 
-  meta?: PaginationMeta,
+  meta?: M,
 ): Response {
-  const response: SuccessResponse<T> = { success: true, data }
+  const response: SuccessResponse<T, M> = { success: true, data }
 
   if (meta) {
     response.meta = meta
@@ -0,0 +1,63 @@
+/**
+ * Full-text search over transaction descriptions
+ * Uses the "simple" text search configuration: Postgres ships no
+ * Indonesian stemmer, and English stemming mangles Indonesian words, so
+ * words are only lowercased. Every search term matches as a prefix, so
+ * "toko" finds "TOKOPEDIA" and "grab" finds "GrabFood".
+ */
+
+import { sql, type SQL } from "drizzle-orm"
+
+/**
+ * Turn user input into tsquery text: every word must match as a prefix
+ * @param q - Raw search input (e.g., "Tokopedia  sepatu!")
+ * @returns tsquery text (e.g., "tokopedia:* & sepatu:*"), or null when the
+ * input has no letters or digits
+ */
+export function toSearchQuery(q: string): string | null {
+  const terms = q
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+  if (terms.length === 0) {
+    return null
+  }
+  return terms.map((term) => `${term}:*`).join(" & ")
+}
+
+/**
+ * Search document for a description (stored as a generated column)
+ * @param description - Description expression
+ */
+export function searchDocument(description: SQL): SQL {
+  return sql`to_tsvector('simple'::regconfig, ${description})`
+}
+
+/**
+ * Condition matching a search document against a query
+ * @param document - tsvector expression
+ * @param query - Output of toSearchQuery
+ */
+export function searchMatches(document: SQL, query: string): SQL {
+  return sql`${document} @@ to_tsquery('simple'::regconfig, ${query})`
+}
+
+/**
+ * Relevance of a search document; higher is better
+ * Normalized by document length so short descriptions are not buried
+ * under long bank narratives that repeat a word
+ */
+export function searchRank(document: SQL, query: string): SQL<number> {
+  return sql<number>`ts_rank(${document}, to_tsquery('simple'::regconfig, ${query}), 1)`
+}
+
+/**
+ * Matching fragment of a description with hits wrapped in <mark> tags
+ * The description is HTML-escaped first, so the snippet is safe to
+ * render as HTML.
+ * @param description - Description expression
+ */
+export function searchSnippet(description: SQL, query: string): SQL<string> {
+  const escaped = sql`replace(replace(replace(${description}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;')`
+  return sql<string>`ts_headline('simple'::regconfig, ${escaped}, to_tsquery('simple'::regconfig, ${query}), 'StartSel=<mark>, StopSel=</mark>, MaxWords=20, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "')`
+}
@@ -0,0 +1,226 @@
+/**
+ * Streaming XLSX writer
+ * Builds a single-sheet workbook as an uncompressed ZIP while rows are
+ * produced, so large exports never sit in memory as a whole.
+ * Entries use data descriptors: sizes and CRC-32 follow each entry's
+ * data instead of preceding it.
+ */
+
+export type XlsxCell = string | number | null
+
+const encoder = new TextEncoder()
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+/**
+ * Continue a CRC-32 over another chunk of bytes
+ * @param crc - CRC of the bytes so far (0 to start)
+ * @returns Updated CRC-32
+ */
+export function crc32(bytes: Uint8Array, crc: number = 0): number {
+  let c = ~crc >>> 0
+  for (let i = 0; i < bytes.length; i++) {
+    c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8)
+  }
+  return ~c >>> 0
+}
+
+// Tab, line feed and carriage return are the only C0 characters XML allows
+
+function stripControlCharacters(value: string): string {
+  let result = ""
+  for (const char of value) {
+    const code = char.charCodeAt(0)
+    if (code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d) {
+      result += char
+    }
+  }
+  return result
+}
+
+/**
+ * Escape text for XML, dropping control characters XML 1.0 forbids
+ */
+export function escapeXml(value: string): string {
+  return stripControlCharacters(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+/**
+ * Render one worksheet row; numbers stay numeric, text is inlined
+ * @returns Row XML (e.g., '<row><c><v>150000</v></c></row>')
+ */
+export function formatXlsxRow(cells: XlsxCell[]): string {
+  const xml = cells.map((cell) => {
+    if (cell === null) {
+      return "<c/>"
+    }
+    if (typeof cell === "number") {
+      return `<c><v>${cell}</v></c>`
+    }
+    return `<c t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`
+  })
+  return `<row>${xml.join("")}</row>`
+}
+
+interface ZipEntry {
+  name: Uint8Array
+  offset: number
+  crc: number
+  size: number
+}
+
+// General purpose flags: sizes in data descriptor (bit 3), UTF-8 names (bit 11)
+const ZIP_FLAGS = 0x0808
+// 1980-01-01 00:00, the earliest DOS timestamp
+const DOS_DATE = 0x0021
+
+function localHeader(name: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(30 + name.length)
+  const view = new DataView(bytes.buffer)
+  view.setUint32(0, 0x04034b50, true)
+  view.setUint16(4, 20, true)
+  view.setUint16(6, ZIP_FLAGS, true)
+  view.setUint16(12, DOS_DATE, true)
+  view.setUint16(26, name.length, true)
+  bytes.set(name, 30)
+  return bytes
+}
+
+function dataDescriptor(entry: ZipEntry): Uint8Array {
+  const bytes = new Uint8Array(16)
+  const view = new DataView(bytes.buffer)
+  view.setUint32(0, 0x08074b50, true)
+  view.setUint32(4, entry.crc, true)
+  view.setUint32(8, entry.size, true)
+  view.setUint32(12, entry.size, true)
+  return bytes
+}
+
+function centralDirectory(entries: ZipEntry[], offset: number): Uint8Array {
+  const size = entries.reduce((sum, entry) => sum + 46 + entry.name.length, 0)
+  const bytes = new Uint8Array(size + 22)
+  const view = new DataView(bytes.buffer)
+  let position = 0
+  for (const entry of entries) {
+    view.setUint32(position, 0x02014b50, true)
+    view.setUint16(position + 4, 20, true)
+    view.setUint16(position + 6, 20, true)
+    view.setUint16(position + 8, ZIP_FLAGS, true)
+    view.setUint16(position + 14, DOS_DATE, true)
+    view.setUint32(position + 16, entry.crc, true)
+    view.setUint32(position + 20, entry.size, true)
+    view.setUint32(position + 24, entry.size, true)
+    view.setUint16(position + 28, entry.name.length, true)
+    view.setUint32(position + 42, entry.offset, true)
+    bytes.set(entry.name, position + 46)
+    position += 46 + entry.name.length
+  }
+  view.setUint32(position, 0x06054b50, true)
+  view.setUint16(position + 8, entries.length, true)
+  view.setUint16(position + 10, entries.length, true)
+  view.setUint32(position + 12, size, true)
+  view.setUint32(position + 16, offset, true)
+  return bytes
+}
+
+/**
+ * Write ZIP entries one after another, yielding bytes as they are ready
+ * @param files - Entry names with their content, produced lazily
+ */
+async function* zipChunks(
+  files: [string, AsyncIterable<string> | Iterable<string>][],
+): AsyncGenerator<Uint8Array> {
+  const entries: ZipEntry[] = []
+  let offset = 0
+  for (const [fileName, content] of files) {
+    const entry: ZipEntry = {
+      name: encoder.encode(fileName),
+      offset,
+      crc: 0,
+      size: 0,
+    }
+    const header = localHeader(entry.name)
+    yield header
+    offset += header.length
+    for await (const text of content) {
+      const bytes = encoder.encode(text)
+      entry.crc = crc32(bytes, entry.crc)
+      entry.size += bytes.length
+      yield bytes
+    }
+    offset += entry.size
+    const descriptor = dataDescriptor(entry)
+    yield descriptor
+    offset += descriptor.length
+    entries.push(entry)
+  }
+  yield centralDirectory(entries, offset)
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+
+const CONTENT_TYPES = `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`
+
+const ROOT_RELS = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`
+
+const WORKBOOK_RELS = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`
+
+function workbookXml(sheetName: string): string {
+  return `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`
+}
+
+async function* sheetXml(
+  rows: AsyncIterable<XlsxCell[]>,
+): AsyncGenerator<string> {
+  yield `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>`
+  for await (const row of rows) {
+    yield formatXlsxRow(row)
+  }
+  yield "</sheetData></worksheet>"
+}
+
+/**
+ * Stream a single-sheet workbook
+ * @param rows - Worksheet rows, header first
+ * @param sheetName - Tab name (max 31 characters in Excel)
+ * @returns XLSX file bytes
+ */
+export function createXlsxStream(
+  rows: AsyncIterable<XlsxCell[]>,
+  sheetName: string,
+): ReadableStream<Uint8Array> {
+  const chunks = zipChunks([
+    ["[Content_Types].xml", [CONTENT_TYPES]],
+    ["_rels/.rels", [ROOT_RELS]],
+    ["xl/workbook.xml", [workbookXml(sheetName.slice(0, 31))]],
+    ["xl/_rels/workbook.xml.rels", [WORKBOOK_RELS]],
+    ["xl/worksheets/sheet1.xml", sheetXml(rows)],
+  ])
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await chunks.next()
+      if (done) {
+        controller.close()
+      } else {
+        controller.enqueue(value)
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined)
+    },
+  })
+}
@@ -0,0 +1,112 @@
+import { createApp } from "../../factory"
+
+import { zValidator } from "@hono/zod-validator"
+
+import { ownerOnlyMiddleware } from "../auth"
+
+import { accountService } from "./service"
+
+import { createAccountSchema, updateAccountSchema } from "./schema"
+
+import { success, error } from "../../lib/response"
+
+import type { AppEnv } from "../../factory"
+
+const app = createApp<AppEnv>()
+
+// Apply owner-only middleware to all routes
+
+app.use("*", ownerOnlyMiddleware)
+
+/**
+ * GET /accounts
+ * List all accounts with running balances
+ */
+
+app.get("/", async (c) => {
+  const accounts = await accountService.list(c.env)
+
+  return success(c, accounts)
+})
+
+/**
+ * GET /accounts/:id
+ * Get a single account with its running balance
+ */
+
+app.get("/:id", async (c) => {
+  const id = c.req.param("id")
+
+  const account = await accountService.getById(c.env, id)
+
+  if (!account) {
+    return error(c, "NOT_FOUND", "Account not found", 404)
+  }
+
+  return success(c, account)
+})
+
+/**
+ * POST /accounts
+ * Create a new account
+ */
+
+app.post("/", zValidator("json", createAccountSchema), async (c) => {
+  const input = c.req.valid("json")
+
+  const account = await accountService.create(c.env, input)
+
+  return success(c, account)
+})
+
+/**
+ * PUT /accounts/:id
+ * Update an account
+ */
+
+app.put("/:id", zValidator("json", updateAccountSchema), async (c) => {
+  const id = c.req.param("id")
+
+  const input = c.req.valid("json")
+
+  const account = await accountService.update(c.env, id, input)
+
+  if (!account) {
+    return error(c, "NOT_FOUND", "Account not found", 404)
+  }
+
+  return success(c, account)
+})
+
+/**
+ * DELETE /accounts/:id
+ * Delete an account
+ */
+
+app.delete("/:id", async (c) => {
+  const id = c.req.param("id")
+
+  const account = await accountService.getById(c.env, id)
+
+  if (!account) {
+    return error(c, "NOT_FOUND", "Account not found", 404)
+  }
+
+  const deleted = await accountService.delete(c.env, id)
+
+  if (!deleted) {
+    return error(
+      c,
+
+      "CONFLICT",
+
+      "Cannot delete account with existing transactions",
+
+      409,
+    )
+  }
+
+  return success(c, null)
+})
+
+export default app
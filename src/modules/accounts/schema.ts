@@ -0,0 +1,81 @@
+import { z } from "zod"
+
+import { MAX_AMOUNT_RUPIAH } from "../../lib/currency"
+
+// Account type enum
+
+export const accountTypeSchema = z.enum([
+  "bank",
+
+  "ewallet",
+
+  "cash",
+
+  "credit_card",
+
+  "other",
+])
+
+// Create account schema
+
+export const createAccountSchema = z.object({
+  name: z
+
+    .string()
+
+    .min(1, "Account name is required")
+
+    .max(100, "Account name must be less than 100 characters"),
+
+  type: accountTypeSchema,
+
+  // May be negative, e.g. an outstanding credit card bill
+
+  openingBalance: z
+
+    .number()
+
+    .min(-MAX_AMOUNT_RUPIAH, "Opening balance is too small")
+
+    .max(MAX_AMOUNT_RUPIAH, "Opening balance is too large")
+
+    .default(0),
+})
+
+// Update account schema
+
+export const updateAccountSchema = createAccountSchema
+
+  .extend({
+    openingBalance: createAccountSchema.shape.openingBalance.removeDefault(),
+  })
+
+  .partial()
+
+// Account response schema
+
+export const accountSchema = z.object({
+  id: z.string().uuid(),
+
+  name: z.string(),
+
+  type: accountTypeSchema,
+
+  openingBalanceRupiah: z.number().int(),
+
+  balanceRupiah: z.number().int(),
+
+  createdAt: z.date(),
+
+  updatedAt: z.date(),
+})
+
+// Types
+
+export type AccountType = z.infer<typeof accountTypeSchema>
+
+export type CreateAccountInput = z.infer<typeof createAccountSchema>
+
+export type UpdateAccountInput = z.infer<typeof updateAccountSchema>
+
+export type Account = z.infer<typeof accountSchema>
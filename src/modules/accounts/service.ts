@@ -0,0 +1,207 @@
+import { getDb } from "../../db"
+
+import { accounts, transactions, categories } from "../../db/schema"
+
+import type { Env } from "../../env"
+
+import type { CreateAccountInput, UpdateAccountInput, Account } from "./schema"
+
+import { toRupiah, toSafeInteger } from "../../lib/currency"
+
+import { eq, sql } from "drizzle-orm"
+
+/**
+ * Running balance: opening balance plus income minus expense
+ * across every transaction booked against the account, with
+ * transfer legs counted by their direction
+ */
+
+const balanceRupiah =
+  sql<number>`${accounts.openingBalanceRupiah} + COALESCE(SUM(CASE WHEN ${categories.type} = 'income' OR ${transactions.direction} = 'in' THEN ${transactions.amountRupiah} WHEN ${categories.type} = 'expense' OR ${transactions.direction} = 'out' THEN -${transactions.amountRupiah} ELSE 0 END), 0)`.mapWith(
+    Number,
+  )
+
+export class AccountService {
+  /**
+   * Get all accounts with their running balances
+   */
+
+  async list(env: Env): Promise<Account[]> {
+    const db = getDb(env)
+
+    return db
+
+      .select({
+        id: accounts.id,
+
+        name: accounts.name,
+
+        type: accounts.type,
+
+        openingBalanceRupiah: accounts.openingBalanceRupiah,
+
+        balanceRupiah,
+
+        createdAt: accounts.createdAt,
+
+        updatedAt: accounts.updatedAt,
+      })
+
+      .from(accounts)
+
+      .leftJoin(transactions, eq(transactions.accountId, accounts.id))
+
+      .leftJoin(categories, eq(transactions.categoryId, categories.id))
+
+      .groupBy(accounts.id)
+
+      .orderBy(accounts.name)
+  }
+
+  /**
+   * Get a single account by ID with its running balance
+   */
+
+  async getById(env: Env, id: string): Promise<Account | null> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .select({
+        id: accounts.id,
+
+        name: accounts.name,
+
+        type: accounts.type,
+
+        openingBalanceRupiah: accounts.openingBalanceRupiah,
+
+        balanceRupiah,
+
+        createdAt: accounts.createdAt,
+
+        updatedAt: accounts.updatedAt,
+      })
+
+      .from(accounts)
+
+      .leftJoin(transactions, eq(transactions.accountId, accounts.id))
+
+      .leftJoin(categories, eq(transactions.categoryId, categories.id))
+
+      .where(eq(accounts.id, id))
+
+      .groupBy(accounts.id)
+
+      .limit(1)
+
+    return result[0] ?? null
+  }
+
+  /**
+   * Create a new account
+   */
+
+  async create(env: Env, input: CreateAccountInput): Promise<Account> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .insert(accounts)
+
+      .values({
+        name: input.name,
+
+        type: input.type,
+
+        openingBalanceRupiah: toRupiah(input.openingBalance),
+      })
+
+      .returning()
+
+    const created = result[0]
+
+    // A new account has no transactions yet
+
+    return { ...created, balanceRupiah: created.openingBalanceRupiah }
+  }
+
+  /**
+   * Update an account
+   */
+
+  async update(
+    env: Env,
+
+    id: string,
+
+    input: UpdateAccountInput,
+  ): Promise<Account | null> {
+    const db = getDb(env)
+
+    const updateData: Record<string, unknown> = { updatedAt: new Date() }
+
+    if (input.name !== undefined) {
+      updateData.name = input.name
+    }
+
+    if (input.type !== undefined) {
+      updateData.type = input.type
+    }
+
+    if (input.openingBalance !== undefined) {
+      updateData.openingBalanceRupiah = toRupiah(input.openingBalance)
+    }
+
+    const result = await db
+
+      .update(accounts)
+
+      .set(updateData)
+
+      .where(eq(accounts.id, id))
+
+      .returning()
+
+    if (result.length === 0) {
+      return null
+    }
+
+    return this.getById(env, id)
+  }
+
+  /**
+   * Delete an account
+   * Returns false if account has existing transactions
+   */
+
+  async delete(env: Env, id: string): Promise<boolean> {
+    const db = getDb(env)
+
+    // Check if account has transactions
+
+    const transactionCount = await db
+
+      .select({ count: sql<number>`count(*)`.mapWith(toSafeInteger) })
+
+      .from(transactions)
+
+      .where(eq(transactions.accountId, id))
+
+    if (transactionCount[0]?.count && transactionCount[0].count > 0) {
+      return false
+    }
+
+    const result = await db
+
+      .delete(accounts)
+
+      .where(eq(accounts.id, id))
+
+      .returning()
+
+    return result.length > 0
+  }
+}
+
+export const accountService = new AccountService()
@@ -0,0 +1,167 @@
+import { createApp } from "../../factory"
+
+import { zValidator } from "@hono/zod-validator"
+
+import { ownerOnlyMiddleware } from "../auth"
+
+import { assetService } from "./service"
+
+import {
+  createAssetSchema,
+  updateAssetSchema,
+  createAssetValuationSchema,
+} from "./schema"
+
+import { success, error } from "../../lib/response"
+
+import type { AppEnv } from "../../factory"
+
+const app = createApp<AppEnv>()
+
+// Apply owner-only middleware to all routes
+
+app.use("*", ownerOnlyMiddleware)
+
+/**
+ * GET /assets
+ * List manually valued assets with their latest valuation
+ */
+
+app.get("/", async (c) => {
+  const assets = await assetService.list(c.env)
+
+  return success(c, assets)
+})
+
+/**
+ * GET /assets/:id
+ * Get a single asset
+ */
+
+app.get("/:id", async (c) => {
+  const id = c.req.param("id")
+
+  const asset = await assetService.getById(c.env, id)
+
+  if (!asset) {
+    return error(c, "NOT_FOUND", "Asset not found", 404)
+  }
+
+  return success(c, asset)
+})
+
+/**
+ * POST /assets
+ * Create an asset such as gold, a vehicle or property
+ */
+
+app.post("/", zValidator("json", createAssetSchema), async (c) => {
+  const input = c.req.valid("json")
+
+  const asset = await assetService.create(c.env, input)
+
+  return success(c, asset)
+})
+
+/**
+ * PUT /assets/:id
+ * Update an asset
+ */
+
+app.put("/:id", zValidator("json", updateAssetSchema), async (c) => {
+  const id = c.req.param("id")
+
+  const input = c.req.valid("json")
+
+  const asset = await assetService.update(c.env, id, input)
+
+  if (!asset) {
+    return error(c, "NOT_FOUND", "Asset not found", 404)
+  }
+
+  return success(c, asset)
+})
+
+/**
+ * DELETE /assets/:id
+ * Delete an asset and its valuations
+ */
+
+app.delete("/:id", async (c) => {
+  const id = c.req.param("id")
+
+  const deleted = await assetService.delete(c.env, id)
+
+  if (!deleted) {
+    return error(c, "NOT_FOUND", "Asset not found", 404)
+  }
+
+  return success(c, null)
+})
+
+/**
+ * GET /assets/:id/valuations
+ * List an asset's valuations, newest first
+ */
+
+app.get("/:id/valuations", async (c) => {
+  const id = c.req.param("id")
+
+  const asset = await assetService.getById(c.env, id)
+
+  if (!asset) {
+    return error(c, "NOT_FOUND", "Asset not found", 404)
+  }
+
+  const valuations = await assetService.listValuations(c.env, id)
+
+  return success(c, valuations)
+})
+
+/**
+ * POST /assets/:id/valuations
+ * Record what an asset is worth on a date (one valuation per day)
+ */
+
+app.post(
+  "/:id/valuations",
+
+  zValidator("json", createAssetValuationSchema),
+
+  async (c) => {
+    const id = c.req.param("id")
+
+    const input = c.req.valid("json")
+
+    const asset = await assetService.getById(c.env, id)
+
+    if (!asset) {
+      return error(c, "NOT_FOUND", "Asset not found", 404)
+    }
+
+    const valuation = await assetService.addValuation(c.env, id, input)
+
+    return success(c, valuation)
+  },
+)
+
+/**
+ * DELETE /assets/:id/valuations/:valuationId
+ * Delete a valuation
+ */
+
+app.delete("/:id/valuations/:valuationId", async (c) => {
+  const id = c.req.param("id")
+
+  const valuationId = c.req.param("valuationId")
+
+  const deleted = await assetService.deleteValuation(c.env, id, valuationId)
+
+  if (!deleted) {
+    return error(c, "NOT_FOUND", "Valuation not found", 404)
+  }
+
+  return success(c, null)
+})
+
+export default app
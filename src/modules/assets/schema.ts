@@ -0,0 +1,128 @@
+import { z } from "zod"
+
+import { MAX_AMOUNT_RUPIAH } from "../../lib/currency"
+
+const dateSchema = z
+
+  .string()
+
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+
+// Asset type enum
+
+export const assetTypeSchema = z.enum(["gold", "vehicle", "property", "other"])
+
+// Create asset schema
+
+export const createAssetSchema = z.object({
+  name: z
+
+    .string()
+
+    .min(1, "Name is required")
+
+    .max(100, "Name must be less than 100 characters"),
+
+  type: assetTypeSchema,
+
+  description: z
+
+    .string()
+
+    .max(500, "Description must be less than 500 characters")
+
+    .nullable()
+
+    .default(null),
+})
+
+// Update asset schema
+
+export const updateAssetSchema = z
+
+  .object({
+    name: createAssetSchema.shape.name,
+
+    type: assetTypeSchema,
+
+    description: createAssetSchema.shape.description.unwrap(),
+  })
+
+  .partial()
+
+// Create valuation schema
+// A value of 0 records that the asset was sold or lost
+
+export const createAssetValuationSchema = z.object({
+  valuationDate: dateSchema,
+
+  value: z
+
+    .number()
+
+    .nonnegative("Value must not be negative")
+
+    .max(MAX_AMOUNT_RUPIAH, "Value is too large"),
+
+  note: z
+
+    .string()
+
+    .max(500, "Note must be less than 500 characters")
+
+    .nullable()
+
+    .default(null),
+})
+
+// Asset response schema
+
+export const assetSchema = z.object({
+  id: z.string().uuid(),
+
+  name: z.string(),
+
+  type: assetTypeSchema,
+
+  description: z.string().nullable(),
+
+  // Null until the asset has been valued
+
+  latestValueRupiah: z.number().int().nonnegative().nullable(),
+
+  latestValuationDate: dateSchema.nullable(),
+
+  createdAt: z.date(),
+
+  updatedAt: z.date(),
+})
+
+// Valuation response schema
+
+export const assetValuationSchema = z.object({
+  id: z.string().uuid(),
+
+  assetId: z.string().uuid(),
+
+  valuationDate: dateSchema,
+
+  valueRupiah: z.number().int().nonnegative(),
+
+  note: z.string().nullable(),
+
+  createdAt: z.date(),
+})
+
+// Types
+
+export type AssetType = z.infer<typeof assetTypeSchema>
+
+export type CreateAssetInput = z.infer<typeof createAssetSchema>
+
+export type UpdateAssetInput = z.infer<typeof updateAssetSchema>
+
+export type CreateAssetValuationInput = z.infer<typeof createAssetValuationSchema>
+
+export type Asset = z.infer<typeof assetSchema>
+
+export type AssetValuation = z.infer<typeof assetValuationSchema>
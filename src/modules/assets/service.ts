@@ -0,0 +1,254 @@
+import { getDb } from "../../db"
+
+import { assets, assetValuations } from "../../db/schema"
+
+import type { Env } from "../../env"
+
+import type {
+  CreateAssetInput,
+  UpdateAssetInput,
+  CreateAssetValuationInput,
+  Asset,
+  AssetValuation,
+} from "./schema"
+
+import { toRupiah, toSafeInteger } from "../../lib/currency"
+
+import { eq, and, desc, sql } from "drizzle-orm"
+
+const assetColumns = {
+  id: assets.id,
+
+  name: assets.name,
+
+  type: assets.type,
+
+  description: assets.description,
+
+  latestValueRupiah:
+    sql<number | null>`(SELECT ${assetValuations.valueRupiah} FROM ${assetValuations} WHERE ${assetValuations.assetId} = ${assets.id} ORDER BY ${assetValuations.valuationDate} DESC LIMIT 1)`.mapWith(
+      toSafeInteger,
+    ),
+
+  latestValuationDate:
+    sql<string | null>`(SELECT MAX(${assetValuations.valuationDate}) FROM ${assetValuations} WHERE ${assetValuations.assetId} = ${assets.id})`.mapWith(
+      assetValuations.valuationDate,
+    ),
+
+  createdAt: assets.createdAt,
+
+  updatedAt: assets.updatedAt,
+}
+
+export class AssetService {
+  /**
+   * Get all assets with their latest valuation
+   */
+
+  async list(env: Env): Promise<Asset[]> {
+    const db = getDb(env)
+
+    return db
+
+      .select(assetColumns)
+
+      .from(assets)
+
+      .orderBy(assets.name)
+  }
+
+  /**
+   * Get a single asset by ID
+   */
+
+  async getById(env: Env, id: string): Promise<Asset | null> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .select(assetColumns)
+
+      .from(assets)
+
+      .where(eq(assets.id, id))
+
+      .limit(1)
+
+    return result[0] ?? null
+  }
+
+  /**
+   * Create a new asset
+   */
+
+  async create(env: Env, input: CreateAssetInput): Promise<Asset> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .insert(assets)
+
+      .values({
+        name: input.name,
+
+        type: input.type,
+
+        description: input.description,
+      })
+
+      .returning()
+
+    const created = await this.getById(env, result[0].id)
+
+    if (!created) {
+      throw new Error("Failed to create asset")
+    }
+
+    return created
+  }
+
+  /**
+   * Update an asset
+   */
+
+  async update(
+    env: Env,
+
+    id: string,
+
+    input: UpdateAssetInput,
+  ): Promise<Asset | null> {
+    const db = getDb(env)
+
+    const updateData: Record<string, unknown> = { updatedAt: new Date() }
+
+    if (input.name !== undefined) {
+      updateData.name = input.name
+    }
+
+    if (input.type !== undefined) {
+      updateData.type = input.type
+    }
+
+    if (input.description !== undefined) {
+      updateData.description = input.description
+    }
+
+    const result = await db
+
+      .update(assets)
+
+      .set(updateData)
+
+      .where(eq(assets.id, id))
+
+      .returning()
+
+    if (result.length === 0) {
+      return null
+    }
+
+    return this.getById(env, id)
+  }
+
+  /**
+   * Delete an asset together with its valuations
+   */
+
+  async delete(env: Env, id: string): Promise<boolean> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .delete(assets)
+
+      .where(eq(assets.id, id))
+
+      .returning()
+
+    return result.length > 0
+  }
+
+  /**
+   * Get an asset's valuations, newest first
+   */
+
+  async listValuations(env: Env, assetId: string): Promise<AssetValuation[]> {
+    const db = getDb(env)
+
+    return db
+
+      .select()
+
+      .from(assetValuations)
+
+      .where(eq(assetValuations.assetId, assetId))
+
+      .orderBy(desc(assetValuations.valuationDate))
+  }
+
+  /**
+   * Record what an asset is worth on a date
+   * A second valuation on the same date is rejected as a duplicate
+   */
+
+  async addValuation(
+    env: Env,
+
+    assetId: string,
+
+    input: CreateAssetValuationInput,
+  ): Promise<AssetValuation> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .insert(assetValuations)
+
+      .values({
+        assetId,
+
+        valuationDate: input.valuationDate,
+
+        valueRupiah: toRupiah(input.value),
+
+        note: input.note,
+      })
+
+      .returning()
+
+    return result[0]
+  }
+
+  /**
+   * Delete a valuation from an asset
+   */
+
+  async deleteValuation(
+    env: Env,
+
+    assetId: string,
+
+    valuationId: string,
+  ): Promise<boolean> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .delete(assetValuations)
+
+      .where(
+        and(
+          eq(assetValuations.id, valuationId),
+
+          eq(assetValuations.assetId, assetId),
+        ),
+      )
+
+      .returning()
+
+    return result.length > 0
+  }
+}
+
+export const assetService = new AssetService()
@@ -0,0 +1,141 @@
+import { createApp } from "../../factory"
+
+import { zValidator } from "@hono/zod-validator"
+
+import { ownerOnlyMiddleware } from "../auth"
+
+import { budgetService } from "./service"
+
+import { categoryService } from "../categories/service"
+
+import {
+  createBudgetSchema,
+  updateBudgetSchema,
+  budgetStatusFilterSchema,
+} from "./schema"
+
+import { success, error } from "../../lib/response"
+
+import type { AppEnv } from "../../factory"
+
+const app = createApp<AppEnv>()
+
+// Apply owner-only middleware to all routes
+
+app.use("*", ownerOnlyMiddleware)
+
+/**
+ * GET /budgets
+ * List all budgets
+ */
+
+app.get("/", async (c) => {
+  const budgets = await budgetService.list(c.env)
+
+  return success(c, budgets)
+})
+
+/**
+ * GET /budgets/status
+ * Get limit, spent, remaining and percent used per budget for a month
+ */
+
+app.get(
+  "/status",
+
+  zValidator("query", budgetStatusFilterSchema),
+
+  async (c) => {
+    const filter = c.req.valid("query")
+
+    const status = await budgetService.getStatus(c.env, filter)
+
+    return success(c, status)
+  },
+)
+
+/**
+ * GET /budgets/:id
+ * Get a single budget
+ */
+
+app.get("/:id", async (c) => {
+  const id = c.req.param("id")
+
+  const budget = await budgetService.getById(c.env, id)
+
+  if (!budget) {
+    return error(c, "NOT_FOUND", "Budget not found", 404)
+  }
+
+  return success(c, budget)
+})
+
+/**
+ * POST /budgets
+ * Set a monthly limit for an expense category
+ */
+
+app.post("/", zValidator("json", createBudgetSchema), async (c) => {
+  const input = c.req.valid("json")
+
+  const category = await categoryService.getById(c.env, input.categoryId)
+
+  if (!category) {
+    return error(c, "NOT_FOUND", "Category not found", 404)
+  }
+
+  if (category.type !== "expense") {
+    return error(
+      c,
+
+      "VALIDATION_ERROR",
+
+      "Budgets can only be set on expense categories",
+
+      400,
+    )
+  }
+
+  const budget = await budgetService.create(c.env, input)
+
+  return success(c, budget)
+})
+
+/**
+ * PUT /budgets/:id
+ * Update a budget
+ */
+
+app.put("/:id", zValidator("json", updateBudgetSchema), async (c) => {
+  const id = c.req.param("id")
+
+  const input = c.req.valid("json")
+
+  const budget = await budgetService.update(c.env, id, input)
+
+  if (!budget) {
+    return error(c, "NOT_FOUND", "Budget not found", 404)
+  }
+
+  return success(c, budget)
+})
+
+/**
+ * DELETE /budgets/:id
+ * Delete a budget
+ */
+
+app.delete("/:id", async (c) => {
+  const id = c.req.param("id")
+
+  const deleted = await budgetService.delete(c.env, id)
+
+  if (!deleted) {
+    return error(c, "NOT_FOUND", "Budget not found", 404)
+  }
+
+  return success(c, null)
+})
+
+export default app
@@ -0,0 +1,107 @@
+import { z } from "zod"
+
+import { MAX_AMOUNT_RUPIAH } from "../../lib/currency"
+
+// Create budget schema
+
+export const createBudgetSchema = z.object({
+  categoryId: z.string().uuid("Invalid category ID"),
+
+  amount: z
+
+    .number()
+
+    .positive("Budget limit must be positive")
+
+    .max(MAX_AMOUNT_RUPIAH, "Budget limit is too large"),
+
+  rollover: z.boolean().default(false),
+})
+
+// Update budget schema (category is fixed once created)
+
+export const updateBudgetSchema = z
+
+  .object({
+    amount: createBudgetSchema.shape.amount,
+
+    rollover: z.boolean(),
+  })
+
+  .partial()
+
+// Budget status query schema
+
+export const budgetStatusFilterSchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100),
+
+  month: z.coerce.number().int().min(1).max(12),
+})
+
+// Budget response schema
+
+export const budgetSchema = z.object({
+  id: z.string().uuid(),
+
+  categoryId: z.string().uuid(),
+
+  categoryName: z.string().nullable(),
+
+  amountRupiah: z.number().int().positive(),
+
+  rollover: z.boolean(),
+
+  createdAt: z.date(),
+
+  updatedAt: z.date(),
+})
+
+// Budget progress item
+
+export const budgetStatusItemSchema = z.object({
+  budgetId: z.string().uuid(),
+
+  categoryId: z.string().uuid(),
+
+  categoryName: z.string().nullable(),
+
+  limitRupiah: z.number().int().nonnegative(),
+
+  rolloverRupiah: z.number().int().nonnegative(),
+
+  spentRupiah: z.number().int().nonnegative(),
+
+  // Negative once the budget is overspent
+
+  remainingRupiah: z.number().int(),
+
+  percentUsed: z.number().nonnegative(),
+})
+
+// Budget status response
+
+export const budgetStatusSchema = z.object({
+  year: z.number().int(),
+
+  month: z.number().int(),
+
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+
+  budgets: z.array(budgetStatusItemSchema),
+})
+
+// Types
+
+export type CreateBudgetInput = z.infer<typeof createBudgetSchema>
+
+export type UpdateBudgetInput = z.infer<typeof updateBudgetSchema>
+
+export type BudgetStatusFilter = z.infer<typeof budgetStatusFilterSchema>
+
+export type Budget = z.infer<typeof budgetSchema>
+
+export type BudgetStatusItem = z.infer<typeof budgetStatusItemSchema>
+
+export type BudgetStatus = z.infer<typeof budgetStatusSchema>
@@ -0,0 +1,302 @@
+import { getDb } from "../../db"
+
+import { budgets, categories } from "../../db/schema"
+
+import type { Env } from "../../env"
+
+import type {
+  CreateBudgetInput,
+  UpdateBudgetInput,
+  BudgetStatusFilter,
+  Budget,
+  BudgetStatus,
+  BudgetStatusItem,
+} from "./schema"
+
+import { dashboardService } from "../dashboard/service"
+
+import { toRupiah } from "../../lib/currency"
+
+import { toLocalDateString } from "../../lib/date"
+
+import { eq } from "drizzle-orm"
+
+/**
+ * Compute limit/spent/remaining for a single budget
+ * percentUsed is relative to the limit plus any rolled-over amount
+ */
+
+export function computeBudgetProgress(
+  limitRupiah: number,
+
+  rolloverRupiah: number,
+
+  spentRupiah: number,
+): Pick<BudgetStatusItem, "remainingRupiah" | "percentUsed"> {
+  const availableRupiah = limitRupiah + rolloverRupiah
+
+  const remainingRupiah = availableRupiah - spentRupiah
+
+  if (availableRupiah <= 0) {
+    return { remainingRupiah, percentUsed: spentRupiah > 0 ? 100 : 0 }
+  }
+
+  const percentUsed =
+    Math.round((spentRupiah / availableRupiah) * 100 * 100) / 100
+
+  return { remainingRupiah, percentUsed }
+}
+
+export class BudgetService {
+  /**
+   * Get all budgets
+   */
+
+  async list(env: Env): Promise<Budget[]> {
+    const db = getDb(env)
+
+    return db
+
+      .select({
+        id: budgets.id,
+
+        categoryId: budgets.categoryId,
+
+        categoryName: categories.name,
+
+        amountRupiah: budgets.amountRupiah,
+
+        rollover: budgets.rollover,
+
+        createdAt: budgets.createdAt,
+
+        updatedAt: budgets.updatedAt,
+      })
+
+      .from(budgets)
+
+      .leftJoin(categories, eq(budgets.categoryId, categories.id))
+
+      .orderBy(categories.name)
+  }
+
+  /**
+   * Get a single budget by ID
+   */
+
+  async getById(env: Env, id: string): Promise<Budget | null> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .select({
+        id: budgets.id,
+
+        categoryId: budgets.categoryId,
+
+        categoryName: categories.name,
+
+        amountRupiah: budgets.amountRupiah,
+
+        rollover: budgets.rollover,
+
+        createdAt: budgets.createdAt,
+
+        updatedAt: budgets.updatedAt,
+      })
+
+      .from(budgets)
+
+      .leftJoin(categories, eq(budgets.categoryId, categories.id))
+
+      .where(eq(budgets.id, id))
+
+      .limit(1)
+
+    return result[0] ?? null
+  }
+
+  /**
+   * Create a new budget
+   */
+
+  async create(env: Env, input: CreateBudgetInput): Promise<Budget> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .insert(budgets)
+
+      .values({
+        categoryId: input.categoryId,
+
+        amountRupiah: toRupiah(input.amount),
+
+        rollover: input.rollover,
+      })
+
+      .returning()
+
+    const created = await this.getById(env, result[0].id)
+
+    if (!created) {
+      throw new Error("Failed to create budget")
+    }
+
+    return created
+  }
+
+  /**
+   * Update a budget
+   */
+
+  async update(
+    env: Env,
+
+    id: string,
+
+    input: UpdateBudgetInput,
+  ): Promise<Budget | null> {
+    const db = getDb(env)
+
+    const updateData: Record<string, unknown> = { updatedAt: new Date() }
+
+    if (input.amount !== undefined) {
+      updateData.amountRupiah = toRupiah(input.amount)
+    }
+
+    if (input.rollover !== undefined) {
+      updateData.rollover = input.rollover
+    }
+
+    const result = await db
+
+      .update(budgets)
+
+      .set(updateData)
+
+      .where(eq(budgets.id, id))
+
+      .returning()
+
+    if (result.length === 0) {
+      return null
+    }
+
+    return this.getById(env, id)
+  }
+
+  /**
+   * Delete a budget
+   */
+
+  async delete(env: Env, id: string): Promise<boolean> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .delete(budgets)
+
+      .where(eq(budgets.id, id))
+
+      .returning()
+
+    return result.length > 0
+  }
+
+  /**
+   * Get spending progress for every budget in a month
+   * Spending comes from the dashboard's by-category aggregation, so the
+   * month follows the owner's financial month start day. A budget on a
+   * parent category covers the spending in all of its sub-categories.
+   * Rollover starts from the first month the budget existed in.
+   */
+
+  async getStatus(env: Env, filter: BudgetStatusFilter): Promise<BudgetStatus> {
+    const { year, month } = filter
+
+    const allBudgets = await this.list(env)
+
+    const current = await dashboardService.getByCategory(env, { year, month })
+
+    const spentByCategory = new Map(
+      current.rolledUp.expense.map((item) => [
+        item.categoryId,
+        item.totalRupiah,
+      ]),
+    )
+
+    // Rollover only looks back one month
+
+    let previousSpentByCategory = new Map<string | null, number>()
+
+    let previousEndDate: string | null = null
+
+    if (allBudgets.some((budget) => budget.rollover)) {
+      const previous = await dashboardService.getByCategory(env, {
+        year: month === 1 ? year - 1 : year,
+
+        month: month === 1 ? 12 : month - 1,
+      })
+
+      previousEndDate = previous.endDate
+
+      previousSpentByCategory = new Map(
+        previous.rolledUp.expense.map((item) => [
+          item.categoryId,
+          item.totalRupiah,
+        ]),
+      )
+    }
+
+    const items = allBudgets.map((budget): BudgetStatusItem => {
+      const limitRupiah = budget.amountRupiah
+
+      const spentRupiah = spentByCategory.get(budget.categoryId) ?? 0
+
+      const previousSpent = previousSpentByCategory.get(budget.categoryId) ?? 0
+
+      // Nothing rolls over from a month that ended before the budget
+      // was created
+
+      const existedLastMonth =
+        previousEndDate !== null &&
+        previousEndDate >= toLocalDateString(budget.createdAt)
+
+      const rolloverRupiah =
+        budget.rollover && existedLastMonth
+          ? Math.max(0, limitRupiah - previousSpent)
+          : 0
+
+      return {
+        budgetId: budget.id,
+
+        categoryId: budget.categoryId,
+
+        categoryName: budget.categoryName,
+
+        limitRupiah,
+
+        rolloverRupiah,
+
+        spentRupiah,
+
+        ...computeBudgetProgress(limitRupiah, rolloverRupiah, spentRupiah),
+      }
+    })
+
+    return {
+      year,
+
+      month,
+
+      startDate: current.startDate,
+
+      endDate: current.endDate,
+
+      budgets: items,
+    }
+  }
+}
+
+export const budgetService = new BudgetService()
@@ -6,25 +6,91 @@ import { ownerOnlyMiddleware } from "../auth"
 
 import { categoryService } from "./service"
 
-import { createCategorySchema, updateCategorySchema } from "./schema"
+import {
+  createCategorySchema,
+  updateCategorySchema,
+  categoryListFilterSchema,
+  mergeCategorySchema,
+} from "./schema"
+
+import type { Category } from "./schema"
+
+import type { TransactionType } from "../transactions/schema"
+
+import { createsCycle } from "./tree"
 
 import { success, error } from "../../lib/response"
 
 import type { AppEnv } from "../../factory"
 
+import type { Env } from "../../env"
+
 const app = createApp<AppEnv>()
 
 // Apply owner-only middleware to all routes
 
 app.use("*", ownerOnlyMiddleware)
 
+/**
+ * Check that a category can sit under its parent: the parent exists,
+ * has the same type, is not archived, and is not the category itself
+ * or one of its sub-categories
+ * @param existing - Category being updated (null when creating)
+ * @returns Error message, or null when the placement is valid
+ */
+
+async function checkHierarchy(
+  env: Env,
+
+  existing: Category | null,
+
+  type: TransactionType,
+
+  parentId: string | null,
+): Promise<string | null> {
+  const all = await categoryService.listFlat(env)
+
+  const id = existing?.id
+
+  if (parentId) {
+    const parent = all.find((category) => category.id === parentId)
+
+    if (!parent) {
+      return "Parent category not found"
+    }
+
+    // Categories already under an archived parent may stay there
+
+    if (parent.isArchived && parent.id !== existing?.parentId) {
+      return "Parent category is archived"
+    }
+
+    if (id && createsCycle(all, id, parentId)) {
+      return "A category cannot be placed under itself or its sub-categories"
+    }
+
+    if (parent.type !== type) {
+      return `Sub-categories of ${parent.name} must be ${parent.type} categories`
+    }
+  }
+
+  if (id && all.some((c) => c.parentId === id && c.type !== type)) {
+    return "Sub-categories must have the same type as their parent"
+  }
+
+  return null
+}
+
 /**
  * GET /categories
- * List all categories
+ * List categories as a tree; sub-categories are nested in children
+ * Archived categories are hidden unless includeArchived is "true"
  */
 
-app.get("/", async (c) => {
-  const categories = await categoryService.list(c.env)
+app.get("/", zValidator("query", categoryListFilterSchema), async (c) => {
+  const filter = c.req.valid("query")
+
+  const categories = await categoryService.list(c.env, filter)
 
   return success(c, categories)
 })
@@ -54,6 +120,20 @@ app.get("/:id", async (c) => {
 app.post("/", zValidator("json", createCategorySchema), async (c) => {
   const input = c.req.valid("json")
 
+  const hierarchyError = await checkHierarchy(
+    c.env,
+
+    null,
+
+    input.type,
+
+    input.parentId ?? null,
+  )
+
+  if (hierarchyError) {
+    return error(c, "VALIDATION_ERROR", hierarchyError, 400)
+  }
+
   const category = await categoryService.create(c.env, input)
 
   return success(c, category)
@@ -62,12 +142,71 @@ app.post("/", zValidator("json", createCategorySchema), async (c) => {
 /**
  * PUT /categories/:id
  * Update a category
+ * A type change on a category with transactions needs reclassify: true
  */
 
 app.put("/:id", zValidator("json", updateCategorySchema), async (c) => {
   const id = c.req.param("id")
 
-  const input = c.req.valid("json")
+  const { reclassify, ...input } = c.req.valid("json")
+
+  const existing = await categoryService.getById(c.env, id)
+
+  if (!existing) {
+    return error(c, "NOT_FOUND", "Category not found", 404)
+  }
+
+  if (input.type !== undefined || input.parentId !== undefined) {
+    const hierarchyError = await checkHierarchy(
+      c.env,
+
+      existing,
+
+      input.type ?? existing.type,
+
+      input.parentId === undefined ? existing.parentId : input.parentId,
+    )
+
+    if (hierarchyError) {
+      return error(c, "VALIDATION_ERROR", hierarchyError, 400)
+    }
+  }
+
+  if (input.type !== undefined && input.type !== existing.type) {
+    const usage = await categoryService.getUsage(c.env, id)
+
+    // Split lines must share their transaction's type, so flipping the
+    // category of a line or of a split parent would leave the split
+    // inconsistent
+
+    if (usage.splitCount > 0 || usage.splitTransactionCount > 0) {
+      return error(
+        c,
+
+        "CONFLICT",
+
+        "Category is used in split transactions; merge it into another category instead",
+
+        409,
+
+        usage,
+      )
+    }
+
+    if (usage.transactionCount > 0 && !reclassify) {
+      return error(
+        c,
+
+        "CONFLICT",
+
+        `Changing the type moves ${usage.transactionCount} transaction(s) to ${input.type} totals; send reclassify: true to confirm`,
+
+        409,
+
+        usage,
+      )
+    }
+  }
 
   const category = await categoryService.update(c.env, id, input)
 
@@ -78,25 +217,159 @@ app.put("/:id", zValidator("json", updateCategorySchema), async (c) => {
   return success(c, category)
 })
 
+/**
+ * GET /categories/:id/type-changes
+ * List recorded income/expense flips with totals before and after
+ */
+
+app.get("/:id/type-changes", async (c) => {
+  const id = c.req.param("id")
+
+  const category = await categoryService.getById(c.env, id)
+
+  if (!category) {
+    return error(c, "NOT_FOUND", "Category not found", 404)
+  }
+
+  const changes = await categoryService.listTypeChanges(c.env, id)
+
+  return success(c, changes)
+})
+
+/**
+ * POST /categories/:id/merge
+ * Move all transactions, split lines, recurring rules and sub-categories
+ * to the target category, then delete this one
+ */
+
+app.post("/:id/merge", zValidator("json", mergeCategorySchema), async (c) => {
+  const id = c.req.param("id")
+
+  const { targetCategoryId } = c.req.valid("json")
+
+  const source = await categoryService.getById(c.env, id)
+
+  if (!source) {
+    return error(c, "NOT_FOUND", "Category not found", 404)
+  }
+
+  if (targetCategoryId === id) {
+    return error(
+      c,
+
+      "VALIDATION_ERROR",
+
+      "A category cannot be merged into itself",
+
+      400,
+    )
+  }
+
+  const target = await categoryService.getById(c.env, targetCategoryId)
+
+  if (!target) {
+    return error(c, "NOT_FOUND", "Target category not found", 404)
+  }
+
+  if (target.type !== source.type) {
+    return error(
+      c,
+
+      "VALIDATION_ERROR",
+
+      `Only ${source.type} categories can be merged into ${source.name}`,
+
+      400,
+    )
+  }
+
+  if (target.isArchived) {
+    return error(c, "VALIDATION_ERROR", "Target category is archived", 400)
+  }
+
+  const all = await categoryService.listFlat(c.env)
+
+  if (createsCycle(all, id, targetCategoryId)) {
+    return error(
+      c,
+
+      "VALIDATION_ERROR",
+
+      "A category cannot be merged into one of its sub-categories",
+
+      400,
+    )
+  }
+
+  const moved = await categoryService.merge(c.env, id, targetCategoryId)
+
+  return success(c, { category: target, ...moved })
+})
+
+/**
+ * POST /categories/:id/archive
+ * Hide a category from pickers while keeping its transactions
+ */
+
+app.post("/:id/archive", async (c) => {
+  const id = c.req.param("id")
+
+  const category = await categoryService.setArchived(c.env, id, true)
+
+  if (!category) {
+    return error(c, "NOT_FOUND", "Category not found", 404)
+  }
+
+  return success(c, category)
+})
+
+/**
+ * POST /categories/:id/unarchive
+ * Show an archived category in pickers again
+ */
+
+app.post("/:id/unarchive", async (c) => {
+  const id = c.req.param("id")
+
+  const category = await categoryService.setArchived(c.env, id, false)
+
+  if (!category) {
+    return error(c, "NOT_FOUND", "Category not found", 404)
+  }
+
+  return success(c, category)
+})
+
 /**
  * DELETE /categories/:id
- * Delete a category
+ * Delete an unused category
+ * Categories still in use must be merged or archived instead
  */
 
 app.delete("/:id", async (c) => {
   const id = c.req.param("id")
 
+  const category = await categoryService.getById(c.env, id)
+
+  if (!category) {
+    return error(c, "NOT_FOUND", "Category not found", 404)
+  }
+
   const deleted = await categoryService.delete(c.env, id)
 
   if (!deleted) {
+    const usage = await categoryService.getUsage(c.env, id)
+
     return error(
       c,
 
-      "VALIDATION_ERROR",
+      "CONFLICT",
 
-      "Cannot delete category with existing transactions",
+      "Category is still in use; merge or archive it instead",
 
-      400,
+      409,
+
+      usage,
     )
   }
 
@@ -14,11 +14,20 @@ export const createCategorySchema = z.object({
     .max(100, "Category name must be less than 100 characters"),
 
   type: transactionTypeSchema,
+
+  // Nest under another category of the same type (null = top level)
+
+  parentId: z.string().uuid("Invalid parent category ID").nullable().optional(),
 })
 
 // Update category schema
 
-export const updateCategorySchema = createCategorySchema.partial()
+export const updateCategorySchema = createCategorySchema.partial().extend({
+  // Confirm a type change that moves existing transactions between
+  // income and expense totals
+
+  reclassify: z.boolean().optional(),
+})
 
 // Category response schema
 
@@ -29,6 +38,93 @@ export const categorySchema = z.object({
 
   type: transactionTypeSchema,
 
+  parentId: z.string().uuid().nullable(),
+
+  isArchived: z.boolean(),
+
+  createdAt: z.date(),
+})
+
+// Category with its sub-categories nested
+
+export type CategoryTreeNode = Category & { children: CategoryTreeNode[] }
+
+export const categoryTreeNodeSchema: z.ZodType<CategoryTreeNode> =
+  categorySchema.extend({
+    get children() {
+      return z.array(categoryTreeNodeSchema)
+    },
+  })
+
+// Category list filter
+
+export const categoryListFilterSchema = z.object({
+  // Archived categories (and everything under them) are left out by default
+
+  includeArchived: z
+
+    .enum(["true", "false"])
+
+    .default("false")
+
+    .transform((value) => value === "true"),
+})
+
+// Merge category schema
+
+export const mergeCategorySchema = z.object({
+  targetCategoryId: z.string().uuid("Invalid target category ID"),
+})
+
+// What still references a category
+
+export const categoryUsageSchema = z.object({
+  transactionCount: z.number().int().nonnegative(),
+
+  splitCount: z.number().int().nonnegative(),
+
+  // Transactions of this category that are divided into split lines
+
+  splitTransactionCount: z.number().int().nonnegative(),
+
+  recurringRuleCount: z.number().int().nonnegative(),
+
+  subcategoryCount: z.number().int().nonnegative(),
+})
+
+// Merge response
+
+export const categoryMergeResultSchema = z.object({
+  category: categorySchema,
+
+  movedTransactionCount: z.number().int().nonnegative(),
+
+  movedSplitCount: z.number().int().nonnegative(),
+})
+
+// Recorded income/expense flip with all-time totals around it
+
+export const categoryTypeChangeSchema = z.object({
+  id: z.string().uuid(),
+
+  categoryId: z.string().uuid(),
+
+  fromType: transactionTypeSchema,
+
+  toType: transactionTypeSchema,
+
+  transactionCount: z.number().int().nonnegative(),
+
+  categoryTotalRupiah: z.number().int().nonnegative(),
+
+  incomeBeforeRupiah: z.number().int().nonnegative(),
+
+  expenseBeforeRupiah: z.number().int().nonnegative(),
+
+  incomeAfterRupiah: z.number().int().nonnegative(),
+
+  expenseAfterRupiah: z.number().int().nonnegative(),
+
   createdAt: z.date(),
 })
 
@@ -39,3 +135,13 @@ export type CreateCategoryInput = z.infer<typeof createCategorySchema>
 export type UpdateCategoryInput = z.infer<typeof updateCategorySchema>
 
 export type Category = z.infer<typeof categorySchema>
+
+export type CategoryListFilter = z.infer<typeof categoryListFilterSchema>
+
+export type MergeCategoryInput = z.infer<typeof mergeCategorySchema>
+
+export type CategoryUsage = z.infer<typeof categoryUsageSchema>
+
+export type CategoryMergeResult = z.infer<typeof categoryMergeResultSchema>
+
+export type CategoryTypeChange = z.infer<typeof categoryTypeChangeSchema>
@@ -1,6 +1,14 @@
 import { getDb } from "../../db"
 
-import { categories, transactions } from "../../db/schema"
+import {
+  budgets,
+  categories,
+  categoryTypeChanges,
+  importProfiles,
+  recurringRules,
+  transactions,
+  transactionSplits,
+} from "../../db/schema"
 
 import type { Env } from "../../env"
 
@@ -8,29 +16,113 @@ import type {
   CreateCategoryInput,
   UpdateCategoryInput,
   Category,
+  CategoryListFilter,
+  CategoryMergeResult,
+  CategoryTreeNode,
+  CategoryTypeChange,
+  CategoryUsage,
 } from "./schema"
 
-import { eq, sql } from "drizzle-orm"
+import { buildCategoryTree, pruneCategoryTree } from "./tree"
+
+import { toSafeInteger } from "../../lib/currency"
+
+import {
+  isConsumption,
+  lineAmount,
+  lineCategoryId,
+} from "../transactions/service"
+
+import { and, desc, eq, sql } from "drizzle-orm"
+
+type Database = ReturnType<typeof getDb>
+
+interface LedgerTotals {
+  incomeRupiah: number
+
+  expenseRupiah: number
+}
+
+/**
+ * All-time income and expense totals, excluding transfers and investment
+ * trades
+ */
+
+async function ledgerTotals(
+  db: Pick<Database, "select">,
+): Promise<LedgerTotals> {
+  const result = await db
+
+    .select({
+      incomeRupiah:
+        sql<number>`COALESCE(SUM(CASE WHEN ${categories.type} = 'income' THEN ${transactions.amountRupiah} ELSE 0 END), 0)`.mapWith(
+          toSafeInteger,
+        ),
+
+      expenseRupiah:
+        sql<number>`COALESCE(SUM(CASE WHEN ${categories.type} = 'expense' THEN ${transactions.amountRupiah} ELSE 0 END), 0)`.mapWith(
+          toSafeInteger,
+        ),
+    })
+
+    .from(transactions)
+
+    .leftJoin(categories, eq(transactions.categoryId, categories.id))
+
+    .where(isConsumption)
+
+  return {
+    incomeRupiah: result[0]?.incomeRupiah ?? 0,
+
+    expenseRupiah: result[0]?.expenseRupiah ?? 0,
+  }
+}
+
+const categoryColumns = {
+  id: categories.id,
+
+  name: categories.name,
+
+  type: categories.type,
+
+  parentId: categories.parentId,
+
+  isArchived: categories.isArchived,
+
+  createdAt: categories.createdAt,
+}
 
 export class CategoryService {
   /**
-   * Get all categories
+   * Get all categories as a tree, sorted by name at every level
+   * Archived categories are left out with their sub-categories unless
+   * requested
    */
 
-  async list(env: Env): Promise<Category[]> {
-    const db = getDb(env)
+  async list(
+    env: Env,
 
-    return db
+    filter: CategoryListFilter,
+  ): Promise<CategoryTreeNode[]> {
+    const tree = buildCategoryTree(await this.listFlat(env))
+
+    if (filter.includeArchived) {
+      return tree
+    }
 
-      .select({
-        id: categories.id,
+    return pruneCategoryTree(tree, (category) => !category.isArchived)
+  }
+
+  /**
+   * Get all categories as a flat list sorted by name
+   */
 
-        name: categories.name,
+  async listFlat(env: Env): Promise<Category[]> {
+    const db = getDb(env)
 
-        type: categories.type,
+    return db
 
-        createdAt: categories.createdAt,
-      })
+      .select(categoryColumns)
 
       .from(categories)
 
@@ -46,15 +138,7 @@ export class CategoryService {
 
     const result = await db
 
-      .select({
-        id: categories.id,
-
-        name: categories.name,
-
-        type: categories.type,
-
-        createdAt: categories.createdAt,
-      })
+      .select(categoryColumns)
 
       .from(categories)
 
@@ -79,6 +163,7 @@ export class CategoryService {
 
   /**
    * Update a category
+   * Type changes are recorded with the ledger totals before and after
    */
 
   async update(
@@ -86,7 +171,132 @@ export class CategoryService {
 
     id: string,
 
-    input: UpdateCategoryInput,
+    input: Omit<UpdateCategoryInput, "reclassify">,
+  ): Promise<Category | null> {
+    const db = getDb(env)
+
+    if (Object.keys(input).length === 0) {
+      return this.getById(env, id)
+    }
+
+    return db.transaction(async (tx) => {
+      const [current] = await tx
+
+        .select({ type: categories.type })
+
+        .from(categories)
+
+        .where(eq(categories.id, id))
+
+        .for("update")
+
+      if (!current) {
+        return null
+      }
+
+      const typeChanged =
+        input.type !== undefined && input.type !== current.type
+
+      const before = typeChanged ? await ledgerTotals(tx) : null
+
+      const result = await tx
+
+        .update(categories)
+
+        .set(input)
+
+        .where(eq(categories.id, id))
+
+        .returning()
+
+      if (before && input.type) {
+        const after = await ledgerTotals(tx)
+
+        // Counted per line so split lines of the category are included
+        // and split parents filed under it count only their own lines
+
+        const [moved] = await tx
+
+          .select({
+            count: sql<number>`count(DISTINCT ${transactions.id})`.mapWith(
+              toSafeInteger,
+            ),
+
+            totalRupiah: sql<number>`COALESCE(SUM(${lineAmount}), 0)`.mapWith(
+              toSafeInteger,
+            ),
+          })
+
+          .from(transactions)
+
+          .leftJoin(
+            transactionSplits,
+
+            eq(transactionSplits.transactionId, transactions.id),
+          )
+
+          .where(
+            and(
+              eq(lineCategoryId, id),
+
+              isConsumption,
+            ),
+          )
+
+        await tx.insert(categoryTypeChanges).values({
+          categoryId: id,
+
+          fromType: current.type,
+
+          toType: input.type,
+
+          transactionCount: moved?.count ?? 0,
+
+          categoryTotalRupiah: moved?.totalRupiah ?? 0,
+
+          incomeBeforeRupiah: before.incomeRupiah,
+
+          expenseBeforeRupiah: before.expenseRupiah,
+
+          incomeAfterRupiah: after.incomeRupiah,
+
+          expenseAfterRupiah: after.expenseRupiah,
+        })
+      }
+
+      return result[0] ?? null
+    })
+  }
+
+  /**
+   * Get the recorded type changes of a category, newest first
+   */
+
+  async listTypeChanges(env: Env, id: string): Promise<CategoryTypeChange[]> {
+    const db = getDb(env)
+
+    return db
+
+      .select()
+
+      .from(categoryTypeChanges)
+
+      .where(eq(categoryTypeChanges.categoryId, id))
+
+      .orderBy(desc(categoryTypeChanges.createdAt))
+  }
+
+  /**
+   * Archive or restore a category
+   * Archived categories keep their transactions but drop out of pickers
+   */
+
+  async setArchived(
+    env: Env,
+
+    id: string,
+
+    isArchived: boolean,
   ): Promise<Category | null> {
     const db = getDb(env)
 
@@ -94,38 +304,203 @@ export class CategoryService {
 
       .update(categories)
 
-      .set(input)
+      .set({ isArchived })
 
       .where(eq(categories.id, id))
 
       .returning()
 
-    if (result.length === 0) {
-      return null
-    }
-
-    return result[0]
+    return result[0] ?? null
   }
 
   /**
-   * Delete a category
-   * Returns false if category has existing transactions
+   * Count what still references a category
    */
 
-  async delete(env: Env, id: string): Promise<boolean> {
+  async getUsage(env: Env, id: string): Promise<CategoryUsage> {
     const db = getDb(env)
 
-    // Check if category has transactions
+    const count = sql<number>`count(*)`.mapWith(toSafeInteger)
 
-    const transactionCount = await db
+    const [transactionRow] = await db
 
-      .select({ count: sql<number>`count(*)` })
+      .select({ count })
 
       .from(transactions)
 
       .where(eq(transactions.categoryId, id))
 
-    if (transactionCount[0]?.count && transactionCount[0].count > 0) {
+    // Split lines reference categories too
+
+    const [splitRow] = await db
+
+      .select({ count })
+
+      .from(transactionSplits)
+
+      .where(eq(transactionSplits.categoryId, id))
+
+    const [splitTransactionRow] = await db
+
+      .select({ count })
+
+      .from(transactions)
+
+      .where(
+        and(
+          eq(transactions.categoryId, id),
+
+          sql`EXISTS (SELECT 1 FROM ${transactionSplits} WHERE ${transactionSplits.transactionId} = ${transactions.id})`,
+        ),
+      )
+
+    const [recurringRow] = await db
+
+      .select({ count })
+
+      .from(recurringRules)
+
+      .where(eq(recurringRules.categoryId, id))
+
+    const [childRow] = await db
+
+      .select({ count })
+
+      .from(categories)
+
+      .where(eq(categories.parentId, id))
+
+    return {
+      transactionCount: transactionRow?.count ?? 0,
+
+      splitCount: splitRow?.count ?? 0,
+
+      splitTransactionCount: splitTransactionRow?.count ?? 0,
+
+      recurringRuleCount: recurringRow?.count ?? 0,
+
+      subcategoryCount: childRow?.count ?? 0,
+    }
+  }
+
+  /**
+   * Move everything from one category into another and delete the
+   * source, all in one database transaction
+   * Sub-categories and recorded type changes move to the target; the
+   * source's budget is kept only when the target has none
+   * @returns Number of transactions and split lines moved
+   */
+
+  async merge(
+    env: Env,
+
+    sourceId: string,
+
+    targetId: string,
+  ): Promise<Omit<CategoryMergeResult, "category">> {
+    const db = getDb(env)
+
+    return db.transaction(async (tx) => {
+      const moved = await tx
+
+        .update(transactions)
+
+        .set({ categoryId: targetId, updatedAt: new Date() })
+
+        .where(eq(transactions.categoryId, sourceId))
+
+        .returning({ id: transactions.id })
+
+      const movedSplits = await tx
+
+        .update(transactionSplits)
+
+        .set({ categoryId: targetId })
+
+        .where(eq(transactionSplits.categoryId, sourceId))
+
+        .returning({ id: transactionSplits.id })
+
+      await tx
+
+        .update(recurringRules)
+
+        .set({ categoryId: targetId, updatedAt: new Date() })
+
+        .where(eq(recurringRules.categoryId, sourceId))
+
+      await tx
+
+        .update(importProfiles)
+
+        .set({ expenseCategoryId: targetId })
+
+        .where(eq(importProfiles.expenseCategoryId, sourceId))
+
+      await tx
+
+        .update(importProfiles)
+
+        .set({ incomeCategoryId: targetId })
+
+        .where(eq(importProfiles.incomeCategoryId, sourceId))
+
+      // Budgets are one per category; a leftover source budget is
+      // removed with the category
+
+      await tx
+
+        .update(budgets)
+
+        .set({ categoryId: targetId })
+
+        .where(
+          and(
+            eq(budgets.categoryId, sourceId),
+
+            sql`NOT EXISTS (SELECT 1 FROM ${budgets} WHERE ${budgets.categoryId} = ${targetId})`,
+          ),
+        )
+
+      await tx
+
+        .update(categories)
+
+        .set({ parentId: targetId })
+
+        .where(eq(categories.parentId, sourceId))
+
+      // Type-change history would cascade away with the source
+
+      await tx
+
+        .update(categoryTypeChanges)
+
+        .set({ categoryId: targetId })
+
+        .where(eq(categoryTypeChanges.categoryId, sourceId))
+
+      await tx.delete(categories).where(eq(categories.id, sourceId))
+
+      return {
+        movedTransactionCount: moved.length,
+
+        movedSplitCount: movedSplits.length,
+      }
+    })
+  }
+
+  /**
+   * Delete a category
+   * Returns false if anything still references the category
+   */
+
+  async delete(env: Env, id: string): Promise<boolean> {
+    const db = getDb(env)
+
+    const usage = await this.getUsage(env, id)
+
+    if (Object.values(usage).some((count) => count > 0)) {
       return false
     }
 
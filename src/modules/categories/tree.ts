@@ -0,0 +1,102 @@
+/**
+ * Category hierarchy helpers
+ * Categories are stored flat with a parentId; these build the nested
+ * view and guard against cycles without touching the database
+ */
+
+export interface CategoryNode {
+  id: string
+
+  parentId: string | null
+}
+
+interface CategoryChildren<T extends CategoryNode> {
+  children: CategoryTree<T>[]
+}
+
+export type CategoryTree<T extends CategoryNode> = T & CategoryChildren<T>
+
+/**
+ * Nest categories under their parents, keeping the input order among
+ * siblings
+ * Categories whose parent is missing from the input become roots
+ */
+
+export function buildCategoryTree<T extends CategoryNode>(
+  categories: T[],
+): CategoryTree<T>[] {
+  const nodes = new Map<string, CategoryTree<T>>()
+
+  for (const category of categories) {
+    nodes.set(category.id, { ...category, children: [] })
+  }
+
+  const roots: CategoryTree<T>[] = []
+
+  for (const category of categories) {
+    const node = nodes.get(category.id)!
+
+    const parent = category.parentId ? nodes.get(category.parentId) : undefined
+
+    if (parent) {
+      parent.children.push(node)
+    } else {
+      roots.push(node)
+    }
+  }
+
+  return roots
+}
+
+/**
+ * Drop tree nodes that fail a check, together with everything under them
+ */
+
+export function pruneCategoryTree<T extends CategoryNode>(
+  nodes: CategoryTree<T>[],
+
+  keep: (category: T) => boolean,
+): CategoryTree<T>[] {
+  return nodes
+
+    .filter((node) => keep(node))
+
+    .map((node) => ({
+      ...node,
+
+      children: pruneCategoryTree(node.children, keep),
+    }))
+}
+
+/**
+ * Check whether moving a category under a new parent would make it its
+ * own ancestor
+ * @param id - Category being moved
+ * @param parentId - Proposed parent
+ */
+
+export function createsCycle(
+  categories: CategoryNode[],
+
+  id: string,
+
+  parentId: string,
+): boolean {
+  const parents = new Map(categories.map((c) => [c.id, c.parentId]))
+
+  const visited = new Set<string>()
+
+  let current: string | null | undefined = parentId
+
+  while (current && !visited.has(current)) {
+    if (current === id) {
+      return true
+    }
+
+    visited.add(current)
+
+    current = parents.get(current)
+  }
+
+  return false
+}
@@ -0,0 +1,194 @@
+import { addDays } from "../../lib/date"
+
+import type { ForecastPoint } from "./schema"
+
+// Money expected on one date: a recurring occurrence or a transaction
+// already entered with a future date
+
+export interface ExpectedEntry {
+  date: string
+
+  // Null for transfer legs, which move the balance without being income
+  // or expense
+
+  type: "income" | "expense" | null
+
+  // Positive, except outgoing transfer legs
+
+  amountRupiah: number
+}
+
+// A category's total over the history window, spread evenly over the
+// forecast
+
+export interface CategoryAverage {
+  type: "income" | "expense"
+
+  totalRupiah: number
+
+  historyDays: number
+}
+
+export interface ForecastInputs {
+  today: string
+
+  // Closing date of each point, ascending from tomorrow; the last ends
+  // the forecast
+
+  pointDates: string[]
+
+  openingBalanceRupiah: number
+
+  thresholdRupiah: number
+
+  entries: ExpectedEntry[]
+
+  averages: CategoryAverage[]
+}
+
+export interface ForecastResult {
+  points: ForecastPoint[]
+
+  incomeRupiah: number
+
+  expenseRupiah: number
+
+  // First day the balance closes below the threshold
+
+  lowBalanceDate: string | null
+
+  lowBalanceRupiah: number | null
+}
+
+/**
+ * Project the balance day by day from tomorrow to the last point date
+ * Entries dated today or earlier are due but not yet recorded and count
+ * on the first day. Each average adds its daily share, rounded so that
+ * any run of days adds up to the rounded total for that many days.
+ */
+
+export function computeForecast(inputs: ForecastInputs): ForecastResult {
+  const { today, pointDates, thresholdRupiah } = inputs
+
+  const firstDate = addDays(today, 1)
+
+  const entriesByDate = new Map<string, ExpectedEntry[]>()
+
+  for (const entry of inputs.entries) {
+    const date = entry.date < firstDate ? firstDate : entry.date
+
+    const group = entriesByDate.get(date)
+
+    if (group) {
+      group.push(entry)
+    } else {
+      entriesByDate.set(date, [entry])
+    }
+  }
+
+  const averageShare = (average: CategoryAverage, day: number): number =>
+    Math.round((average.totalRupiah * day) / average.historyDays) -
+    Math.round((average.totalRupiah * (day - 1)) / average.historyDays)
+
+  const points: ForecastPoint[] = []
+
+  let balanceRupiah = inputs.openingBalanceRupiah
+
+  let incomeRupiah = 0
+
+  let expenseRupiah = 0
+
+  let lowBalanceDate: string | null = null
+
+  let lowBalanceRupiah: number | null = null
+
+  let pointIncome = 0
+
+  let pointExpense = 0
+
+  let pointLowest = Number.POSITIVE_INFINITY
+
+  let pointIndex = 0
+
+  let date = firstDate
+
+  for (let day = 1; pointIndex < pointDates.length; day++) {
+    let dayIncome = 0
+
+    let dayExpense = 0
+
+    let dayTransfers = 0
+
+    for (const entry of entriesByDate.get(date) ?? []) {
+      if (entry.type === "income") {
+        dayIncome += entry.amountRupiah
+      } else if (entry.type === "expense") {
+        dayExpense += entry.amountRupiah
+      } else {
+        dayTransfers += entry.amountRupiah
+      }
+    }
+
+    for (const average of inputs.averages) {
+      if (average.type === "income") {
+        dayIncome += averageShare(average, day)
+      } else {
+        dayExpense += averageShare(average, day)
+      }
+    }
+
+    balanceRupiah += dayIncome - dayExpense + dayTransfers
+
+    if (lowBalanceDate === null && balanceRupiah < thresholdRupiah) {
+      lowBalanceDate = date
+
+      lowBalanceRupiah = balanceRupiah
+    }
+
+    pointIncome += dayIncome
+
+    pointExpense += dayExpense
+
+    pointLowest = Math.min(pointLowest, balanceRupiah)
+
+    if (date === pointDates[pointIndex]) {
+      points.push({
+        date,
+
+        incomeRupiah: pointIncome,
+
+        expenseRupiah: pointExpense,
+
+        balanceRupiah,
+
+        lowestBalanceRupiah: pointLowest,
+      })
+
+      incomeRupiah += pointIncome
+
+      expenseRupiah += pointExpense
+
+      pointIncome = 0
+
+      pointExpense = 0
+
+      pointLowest = Number.POSITIVE_INFINITY
+
+      pointIndex++
+    }
+
+    date = addDays(date, 1)
+  }
+
+  return {
+    points,
+
+    incomeRupiah,
+
+    expenseRupiah,
+
+    lowBalanceDate,
+
+    lowBalanceRupiah,
+  }
+}
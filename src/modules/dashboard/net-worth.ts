@@ -0,0 +1,258 @@
+import type { NetWorthPoint } from "./schema"
+
+import type { DebtDirection } from "../debts/schema"
+
+import { valueHolding } from "../investments/lots"
+
+import type { LotTrade, PricePoint } from "../investments/lots"
+
+export interface OpeningBalance {
+  accountId: string
+
+  openingBalanceRupiah: number
+}
+
+// Signed balance change: income and incoming transfer legs are positive
+
+export interface BalanceChange {
+  accountId: string
+
+  date: string
+
+  amountRupiah: number
+}
+
+export interface ValuationEntry {
+  assetId: string
+
+  date: string
+
+  valueRupiah: number
+}
+
+export interface DebtEntry {
+  debtId: string
+
+  direction: DebtDirection
+
+  startDate: string
+
+  // Principal plus interest
+
+  totalRupiah: number
+}
+
+export interface PaymentEntry {
+  debtId: string
+
+  date: string
+
+  amountRupiah: number
+}
+
+export type InstrumentTrade = LotTrade & { instrumentId: string }
+
+export type InstrumentPrice = PricePoint & { instrumentId: string }
+
+/**
+ * Point-in-time inputs for the net worth series
+ * Dated rows may arrive in any order; nothing after the last point matters
+ */
+
+export interface NetWorthInputs {
+  accounts: OpeningBalance[]
+
+  ledger: BalanceChange[]
+
+  valuations: ValuationEntry[]
+
+  debts: DebtEntry[]
+
+  payments: PaymentEntry[]
+
+  trades: InstrumentTrade[]
+
+  prices: InstrumentPrice[]
+}
+
+function byInstrument<T extends { instrumentId: string }>(
+  rows: T[],
+): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+
+  for (const row of rows) {
+    const group = groups.get(row.instrumentId)
+
+    if (group) {
+      group.push(row)
+    } else {
+      groups.set(row.instrumentId, [row])
+    }
+  }
+
+  return groups
+}
+
+function byDate<T extends { date: string }>(rows: T[]): T[] {
+  return [...rows].sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Net worth at the close of each date
+ * Positive account balances, asset valuations and money owed to the owner
+ * are assets; overdrawn accounts (such as credit cards) and money the
+ * owner owes are liabilities. An asset is worth its latest valuation on
+ * or before the date, and a debt counts from its start date until repaid.
+ * Investment holdings are worth the units held at the latest price on or
+ * before the date, so a buy moves money from an account into an asset.
+ * @param dates - Ascending point dates
+ */
+
+export function computeNetWorthSeries(
+  dates: string[],
+
+  inputs: NetWorthInputs,
+): NetWorthPoint[] {
+  const ledger = byDate(inputs.ledger)
+
+  const valuations = byDate(inputs.valuations)
+
+  const payments = byDate(inputs.payments)
+
+  const balances = new Map(
+    inputs.accounts.map((account) => [
+      account.accountId,
+      account.openingBalanceRupiah,
+    ]),
+  )
+
+  const assetValues = new Map<string, number>()
+
+  const paidByDebt = new Map<string, number>()
+
+  const tradesByInstrument = byInstrument(inputs.trades)
+
+  const pricesByInstrument = byInstrument(inputs.prices)
+
+  let ledgerIndex = 0
+
+  let valuationIndex = 0
+
+  let paymentIndex = 0
+
+  return dates.map((date): NetWorthPoint => {
+    while (ledgerIndex < ledger.length && ledger[ledgerIndex].date <= date) {
+      const entry = ledger[ledgerIndex++]
+
+      balances.set(
+        entry.accountId,
+
+        (balances.get(entry.accountId) ?? 0) + entry.amountRupiah,
+      )
+    }
+
+    while (
+      valuationIndex < valuations.length &&
+      valuations[valuationIndex].date <= date
+    ) {
+      const valuation = valuations[valuationIndex++]
+
+      assetValues.set(valuation.assetId, valuation.valueRupiah)
+    }
+
+    while (
+      paymentIndex < payments.length &&
+      payments[paymentIndex].date <= date
+    ) {
+      const payment = payments[paymentIndex++]
+
+      paidByDebt.set(
+        payment.debtId,
+
+        (paidByDebt.get(payment.debtId) ?? 0) + payment.amountRupiah,
+      )
+    }
+
+    let accountAssetsRupiah = 0
+
+    let accountLiabilitiesRupiah = 0
+
+    for (const balance of balances.values()) {
+      if (balance >= 0) {
+        accountAssetsRupiah += balance
+      } else {
+        accountLiabilitiesRupiah -= balance
+      }
+    }
+
+    let assetValuesRupiah = 0
+
+    for (const value of assetValues.values()) {
+      assetValuesRupiah += value
+    }
+
+    let investmentsRupiah = 0
+
+    for (const [instrumentId, trades] of tradesByInstrument) {
+      investmentsRupiah += valueHolding(
+        trades,
+
+        pricesByInstrument.get(instrumentId) ?? [],
+
+        date,
+      ).marketValueRupiah
+    }
+
+    let receivablesRupiah = 0
+
+    let payablesRupiah = 0
+
+    for (const debt of inputs.debts) {
+      if (debt.startDate > date) {
+        continue
+      }
+
+      const outstandingRupiah = Math.max(
+        0,
+
+        debt.totalRupiah - (paidByDebt.get(debt.debtId) ?? 0),
+      )
+
+      if (debt.direction === "receivable") {
+        receivablesRupiah += outstandingRupiah
+      } else {
+        payablesRupiah += outstandingRupiah
+      }
+    }
+
+    const assetsRupiah =
+      accountAssetsRupiah +
+      assetValuesRupiah +
+      investmentsRupiah +
+      receivablesRupiah
+
+    const liabilitiesRupiah = accountLiabilitiesRupiah + payablesRupiah
+
+    return {
+      date,
+
+      accountAssetsRupiah,
+
+      assetValuesRupiah,
+
+      investmentsRupiah,
+
+      receivablesRupiah,
+
+      assetsRupiah,
+
+      accountLiabilitiesRupiah,
+
+      payablesRupiah,
+
+      liabilitiesRupiah,
+
+      netWorthRupiah: assetsRupiah - liabilitiesRupiah,
+    }
+  })
+}
@@ -6,10 +6,20 @@ import { ownerOnlyMiddleware } from "../auth"
 
 import { dashboardService } from "./service"
 
-import { dashboardFilterSchema } from "./schema"
+import { debtService } from "../debts/service"
+
+import {
+  dashboardFilterSchema,
+  netWorthFilterSchema,
+  trendFilterSchema,
+  compareFilterSchema,
+  forecastFilterSchema,
+} from "./schema"
 
 import { success } from "../../lib/response"
 
+import { toLocalDateString } from "../../lib/date"
+
 import type { AppEnv } from "../../factory"
 
 const app = createApp<AppEnv>()
@@ -20,7 +30,8 @@ app.use("*", ownerOnlyMiddleware)
 
 /**
  * GET /dashboard/summary
- * Get monthly income/expense/balance summary
+ * Get income/expense/balance summary for a month, quarter, ISO week,
+ * year or custom from/to range
  */
 
 app.get("/summary", zValidator("query", dashboardFilterSchema), async (c) => {
@@ -50,4 +61,102 @@ app.get(
   },
 )
 
+/**
+ * GET /dashboard/by-tag
+ * Get transactions aggregated by tag
+ */
+
+app.get("/by-tag", zValidator("query", dashboardFilterSchema), async (c) => {
+  const filter = c.req.valid("query")
+
+  const data = await dashboardService.getByTag(c.env, filter)
+
+  return success(c, data)
+})
+
+/**
+ * GET /dashboard/net-worth
+ * Get total assets, liabilities and net worth at the close of each day,
+ * week or month between from and to
+ */
+
+app.get(
+  "/net-worth",
+
+  zValidator("query", netWorthFilterSchema),
+
+  async (c) => {
+    const filter = c.req.valid("query")
+
+    const data = await dashboardService.getNetWorth(c.env, filter)
+
+    return success(c, data)
+  },
+)
+
+/**
+ * GET /dashboard/trend
+ * Get income, expense and balance for each day, week or month between
+ * from and to
+ */
+
+app.get("/trend", zValidator("query", trendFilterSchema), async (c) => {
+  const filter = c.req.valid("query")
+
+  const data = await dashboardService.getTrend(c.env, filter)
+
+  return success(c, data)
+})
+
+/**
+ * GET /dashboard/compare
+ * Compare a month's category totals with the previous month and the same
+ * month last year, in rupiah and percent
+ */
+
+app.get("/compare", zValidator("query", compareFilterSchema), async (c) => {
+  const filter = c.req.valid("query")
+
+  const today = toLocalDateString(new Date())
+
+  const data = await dashboardService.getComparison(c.env, filter, today)
+
+  return success(c, data)
+})
+
+/**
+ * GET /dashboard/forecast
+ * Project income, expenses and the balance over the coming months and
+ * flag the first day the balance drops below the low balance threshold
+ */
+
+app.get(
+  "/forecast",
+
+  zValidator("query", forecastFilterSchema),
+
+  async (c) => {
+    const filter = c.req.valid("query")
+
+    const today = toLocalDateString(new Date())
+
+    const data = await dashboardService.getForecast(c.env, filter, today)
+
+    return success(c, data)
+  },
+)
+
+/**
+ * GET /dashboard/debts
+ * Get outstanding debts and receivables with overdue installments
+ */
+
+app.get("/debts", async (c) => {
+  const today = toLocalDateString(new Date())
+
+  const data = await debtService.getOverview(c.env, today)
+
+  return success(c, data)
+})
+
 export default app
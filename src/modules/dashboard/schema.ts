@@ -1,20 +1,118 @@
 import { z } from "zod"
 
+import { intervalEndDates, isoWeeksInYear } from "../../lib/period"
+
+import { MAX_AMOUNT_RUPIAH } from "../../lib/currency"
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
+
 // Dashboard date range filter
+// Either a year (optionally narrowed to a month, quarter or ISO week)
+// or a custom from/to range
 
-export const dashboardFilterSchema = z.object({
-  year: z.coerce.number().int().min(2000).max(2100),
+export const dashboardFilterSchema = z
 
-  month: z.coerce.number().int().min(1).max(12).optional(),
-})
+  .object({
+    year: z.coerce.number().int().min(2000).max(2100).optional(),
+
+    month: z.coerce.number().int().min(1).max(12).optional(),
+
+    quarter: z.coerce.number().int().min(1).max(4).optional(),
+
+    week: z.coerce.number().int().min(1).max(53).optional(),
+
+    from: dateSchema.optional(),
+
+    to: dateSchema.optional(),
+  })
+
+  .superRefine((filter, ctx) => {
+    const { year, month, quarter, week, from, to } = filter
+
+    if (from !== undefined || to !== undefined) {
+      if (from === undefined || to === undefined) {
+        ctx.addIssue({
+          code: "custom",
+
+          message: "Both from and to are required for a custom range",
+
+          path: [from === undefined ? "from" : "to"],
+        })
+      } else if (from > to) {
+        ctx.addIssue({
+          code: "custom",
+
+          message: "from must not be after to",
+
+          path: ["to"],
+        })
+      }
+
+      if (year !== undefined) {
+        ctx.addIssue({
+          code: "custom",
+
+          message: "A custom range cannot be combined with year",
+
+          path: ["year"],
+        })
+      }
+
+      return
+    }
+
+    if (year === undefined) {
+      ctx.addIssue({
+        code: "custom",
+
+        message: "Year is required unless from/to is given",
+
+        path: ["year"],
+      })
+
+      return
+    }
+
+    const granularities = [month, quarter, week].filter((v) => v !== undefined)
+
+    if (granularities.length > 1) {
+      ctx.addIssue({
+        code: "custom",
+
+        message: "Use only one of month, quarter or week",
+
+        path: ["month"],
+      })
+    }
+
+    if (week !== undefined && week > isoWeeksInYear(year)) {
+      ctx.addIssue({
+        code: "custom",
+
+        message: `ISO year ${year} has only ${isoWeeksInYear(year)} weeks`,
+
+        path: ["week"],
+      })
+    }
+  })
 
 // Monthly summary response
 
 export const monthlySummarySchema = z.object({
-  year: z.number().int(),
+  // Null for custom from/to ranges
+
+  year: z.number().int().nullable(),
 
   month: z.number().int().optional(),
 
+  quarter: z.number().int().optional(),
+
+  week: z.number().int().optional(),
+
+  startDate: dateSchema,
+
+  endDate: dateSchema,
+
   incomeRupiah: z.number().int().nonnegative(),
 
   expenseRupiah: z.number().int().nonnegative(),
@@ -29,6 +127,8 @@ export const categoryAggregationSchema = z.object({
 
   categoryName: z.string().nullable(),
 
+  parentId: z.string().uuid().nullable(),
+
   type: z.enum(["income", "expense"]).nullable(),
 
   totalRupiah: z.number().int().nonnegative(),
@@ -39,13 +139,373 @@ export const categoryAggregationSchema = z.object({
 // Dashboard by-category response
 
 export const dashboardByCategorySchema = z.object({
-  year: z.number().int(),
+  year: z.number().int().nullable(),
 
   month: z.number().int().optional(),
 
+  quarter: z.number().int().optional(),
+
+  week: z.number().int().optional(),
+
+  startDate: dateSchema,
+
+  endDate: dateSchema,
+
+  // Each category's own transactions (leaf level)
+
   income: z.array(categoryAggregationSchema),
 
   expense: z.array(categoryAggregationSchema),
+
+  // Each category including all of its sub-categories
+
+  rolledUp: z.object({
+    income: z.array(categoryAggregationSchema),
+
+    expense: z.array(categoryAggregationSchema),
+  }),
+})
+
+// Tag aggregation item
+
+export const tagAggregationSchema = z.object({
+  tagId: z.string().uuid(),
+
+  tagName: z.string(),
+
+  type: z.enum(["income", "expense"]).nullable(),
+
+  totalRupiah: z.number().int().nonnegative(),
+
+  transactionCount: z.number().int().nonnegative(),
+})
+
+// Dashboard by-tag response
+
+export const dashboardByTagSchema = z.object({
+  year: z.number().int().nullable(),
+
+  month: z.number().int().optional(),
+
+  quarter: z.number().int().optional(),
+
+  week: z.number().int().optional(),
+
+  startDate: dateSchema,
+
+  endDate: dateSchema,
+
+  income: z.array(tagAggregationSchema),
+
+  expense: z.array(tagAggregationSchema),
+})
+
+// Most points a net worth series may have
+
+export const MAX_NET_WORTH_POINTS = 400
+
+// Net worth series query
+
+export const netWorthFilterSchema = z
+
+  .object({
+    from: dateSchema,
+
+    to: dateSchema,
+
+    interval: z.enum(["day", "week", "month"]).default("month"),
+  })
+
+  .superRefine((filter, ctx) => {
+    if (filter.from > filter.to) {
+      ctx.addIssue({
+        code: "custom",
+
+        message: "from must not be after to",
+
+        path: ["to"],
+      })
+
+      return
+    }
+
+    const range = { startDate: filter.from, endDate: filter.to }
+
+    if (
+      intervalEndDates(range, filter.interval).length > MAX_NET_WORTH_POINTS
+    ) {
+      ctx.addIssue({
+        code: "custom",
+
+        message: `A series may have at most ${MAX_NET_WORTH_POINTS} points; use a longer interval`,
+
+        path: ["interval"],
+      })
+    }
+  })
+
+// Net worth at the close of one date
+
+export const netWorthPointSchema = z.object({
+  date: dateSchema,
+
+  // Accounts with a positive balance
+
+  accountAssetsRupiah: z.number().int().nonnegative(),
+
+  assetValuesRupiah: z.number().int().nonnegative(),
+
+  // Units held of each instrument at its latest price
+
+  investmentsRupiah: z.number().int().nonnegative(),
+
+  // Outstanding money owed to the owner
+
+  receivablesRupiah: z.number().int().nonnegative(),
+
+  assetsRupiah: z.number().int().nonnegative(),
+
+  // Overdrawn accounts such as credit cards, as a positive amount
+
+  accountLiabilitiesRupiah: z.number().int().nonnegative(),
+
+  // Outstanding money the owner owes
+
+  payablesRupiah: z.number().int().nonnegative(),
+
+  liabilitiesRupiah: z.number().int().nonnegative(),
+
+  netWorthRupiah: z.number().int(),
+})
+
+// Net worth series response
+
+export const netWorthSeriesSchema = z.object({
+  from: dateSchema,
+
+  to: dateSchema,
+
+  interval: z.enum(["day", "week", "month"]),
+
+  points: z.array(netWorthPointSchema),
+})
+
+// Most points a trend series may have
+
+export const MAX_TREND_POINTS = 400
+
+// Income and expense trend query
+
+export const trendFilterSchema = z
+
+  .object({
+    from: dateSchema,
+
+    to: dateSchema,
+
+    granularity: z.enum(["day", "week", "month"]).default("month"),
+  })
+
+  .superRefine((filter, ctx) => {
+    if (filter.from > filter.to) {
+      ctx.addIssue({
+        code: "custom",
+
+        message: "from must not be after to",
+
+        path: ["to"],
+      })
+
+      return
+    }
+
+    const range = { startDate: filter.from, endDate: filter.to }
+
+    if (intervalEndDates(range, filter.granularity).length > MAX_TREND_POINTS) {
+      ctx.addIssue({
+        code: "custom",
+
+        message: `A series may have at most ${MAX_TREND_POINTS} points; use a longer granularity`,
+
+        path: ["granularity"],
+      })
+    }
+  })
+
+// Income and expense within one day, week or month
+
+export const trendPointSchema = z.object({
+  startDate: dateSchema,
+
+  endDate: dateSchema,
+
+  incomeRupiah: z.number().int().nonnegative(),
+
+  expenseRupiah: z.number().int().nonnegative(),
+
+  balanceRupiah: z.number().int(),
+})
+
+// Trend response
+
+export const trendSchema = z.object({
+  from: dateSchema,
+
+  to: dateSchema,
+
+  granularity: z.enum(["day", "week", "month"]),
+
+  points: z.array(trendPointSchema),
+})
+
+// Period comparison query (defaults to the current month)
+
+export const compareFilterSchema = z
+
+  .object({
+    year: z.coerce.number().int().min(2000).max(2100).optional(),
+
+    month: z.coerce.number().int().min(1).max(12).optional(),
+  })
+
+  .refine(
+    (filter) => (filter.year === undefined) === (filter.month === undefined),
+    {
+      message: "Year and month must be given together",
+
+      path: ["month"],
+    },
+  )
+
+// Change against an earlier period; percent is null when the earlier
+// period had nothing to compare with
+
+export const changeSchema = z.object({
+  changeRupiah: z.number().int(),
+
+  changePercent: z.number().nullable(),
+})
+
+// Month totals against the previous month and the same month a year ago
+
+export const periodComparisonSchema = z.object({
+  currentRupiah: z.number().int().nonnegative(),
+
+  previousMonthRupiah: z.number().int().nonnegative(),
+
+  previousYearRupiah: z.number().int().nonnegative(),
+
+  monthOverMonth: changeSchema,
+
+  yearOverYear: changeSchema,
+})
+
+// One category's comparison (leaf level)
+
+export const categoryComparisonSchema = periodComparisonSchema.extend({
+  categoryId: z.string().uuid(),
+
+  categoryName: z.string(),
+
+  parentId: z.string().uuid().nullable(),
+
+  type: z.enum(["income", "expense"]),
+})
+
+// Inclusive bounds of a compared month
+
+const dateRangeSchema = z.object({
+  startDate: dateSchema,
+
+  endDate: dateSchema,
+})
+
+// Period comparison response
+
+export const comparisonSchema = z.object({
+  year: z.number().int(),
+
+  month: z.number().int(),
+
+  current: dateRangeSchema,
+
+  previousMonth: dateRangeSchema,
+
+  previousYear: dateRangeSchema,
+
+  totals: z.object({
+    income: periodComparisonSchema,
+
+    expense: periodComparisonSchema,
+  }),
+
+  income: z.array(categoryComparisonSchema),
+
+  expense: z.array(categoryComparisonSchema),
+})
+
+// Cash-flow forecast query
+
+export const forecastFilterSchema = z.object({
+  months: z.coerce.number().int().min(1).max(12).default(3),
+
+  interval: z.enum(["day", "month"]).default("day"),
+
+  // Forecast one account instead of all of them
+
+  accountId: z.string().uuid().optional(),
+
+  // Overrides the low balance threshold from settings
+
+  threshold: z.coerce.number().int().min(0).max(MAX_AMOUNT_RUPIAH).optional(),
+})
+
+// Projected cash flow up to the close of one date
+
+export const forecastPointSchema = z.object({
+  date: dateSchema,
+
+  incomeRupiah: z.number().int().nonnegative(),
+
+  expenseRupiah: z.number().int().nonnegative(),
+
+  balanceRupiah: z.number().int(),
+
+  // Lowest daily closing balance within the point
+
+  lowestBalanceRupiah: z.number().int(),
+})
+
+// Cash-flow forecast response
+
+export const forecastSchema = z.object({
+  // Tomorrow, the first projected day
+
+  startDate: dateSchema,
+
+  endDate: dateSchema,
+
+  interval: z.enum(["day", "month"]),
+
+  accountId: z.string().uuid().nullable(),
+
+  // Balance at the close of today
+
+  openingBalanceRupiah: z.number().int(),
+
+  thresholdRupiah: z.number().int().nonnegative(),
+
+  incomeRupiah: z.number().int().nonnegative(),
+
+  expenseRupiah: z.number().int().nonnegative(),
+
+  // First day the projected balance closes below the threshold
+
+  lowBalanceDate: dateSchema.nullable(),
+
+  lowBalanceRupiah: z.number().int().nullable(),
+
+  points: z.array(forecastPointSchema),
 })
 
 // Types
@@ -57,3 +517,35 @@ export type MonthlySummary = z.infer<typeof monthlySummarySchema>
 export type CategoryAggregation = z.infer<typeof categoryAggregationSchema>
 
 export type DashboardByCategory = z.infer<typeof dashboardByCategorySchema>
+
+export type TagAggregation = z.infer<typeof tagAggregationSchema>
+
+export type DashboardByTag = z.infer<typeof dashboardByTagSchema>
+
+export type NetWorthFilter = z.infer<typeof netWorthFilterSchema>
+
+export type NetWorthPoint = z.infer<typeof netWorthPointSchema>
+
+export type NetWorthSeries = z.infer<typeof netWorthSeriesSchema>
+
+export type ForecastFilter = z.infer<typeof forecastFilterSchema>
+
+export type ForecastPoint = z.infer<typeof forecastPointSchema>
+
+export type Forecast = z.infer<typeof forecastSchema>
+
+export type TrendFilter = z.infer<typeof trendFilterSchema>
+
+export type TrendPoint = z.infer<typeof trendPointSchema>
+
+export type Trend = z.infer<typeof trendSchema>
+
+export type CompareFilter = z.infer<typeof compareFilterSchema>
+
+export type Change = z.infer<typeof changeSchema>
+
+export type PeriodComparison = z.infer<typeof periodComparisonSchema>
+
+export type CategoryComparison = z.infer<typeof categoryComparisonSchema>
+
+export type Comparison = z.infer<typeof comparisonSchema>
@@ -1,18 +1,109 @@
 import { getDb } from "../../db"
 
-import { transactions, categories } from "../../db/schema"
-
-import { eq, and, gte, lte, sql } from "drizzle-orm"
+import {
+  transactions,
+  categories,
+  tags,
+  transactionTags,
+  transactionSplits,
+  accounts,
+  assetValuations,
+  debts,
+  debtPayments,
+  investmentTrades,
+  investmentPrices,
+  recurringRules,
+} from "../../db/schema"
+
+import {
+  eq,
+  and,
+  or,
+  asc,
+  gt,
+  gte,
+  lte,
+  isNull,
+  isNotNull,
+  sql,
+} from "drizzle-orm"
+
+import type { SQL } from "drizzle-orm"
 
 import type { Env } from "../../env"
 
-import type { DashboardFilter } from "./schema"
+import type {
+  DashboardFilter,
+  NetWorthFilter,
+  NetWorthSeries,
+  ForecastFilter,
+  Forecast,
+  TrendFilter,
+  Trend,
+  CompareFilter,
+  Comparison,
+  CategoryComparison,
+} from "./schema"
+
+import { settingsService } from "../settings/service"
+
+import {
+  isConsumption,
+  isInvestmentTrade,
+  lineAmount,
+  lineCategoryId,
+} from "../transactions/service"
+
+import {
+  resolvePeriod,
+  intervalEndDates,
+  monthPeriod,
+  monthContaining,
+} from "../../lib/period"
+
+import { computeNetWorthSeries } from "./net-worth"
+
+import { computeForecast } from "./forecast"
+
+import type { ExpectedEntry, CategoryAverage } from "./forecast"
+
+import { bucketTrend, comparePeriods } from "./trend"
+
+import { getNextOccurrence } from "../recurring/schedule"
+
+import { addDays, addMonths, daysBetween, shiftMonth } from "../../lib/date"
+
+import { toSafeInteger } from "../../lib/currency"
+
+import type { DateRange } from "../../lib/period"
+
+interface PeriodEcho {
+  year: number | null
+
+  month: number | undefined
+
+  quarter: number | undefined
+
+  week: number | undefined
+
+  startDate: string
+
+  endDate: string
+}
 
 interface MonthlySummary {
-  year: number
+  year: number | null
 
   month: number | undefined
 
+  quarter: number | undefined
+
+  week: number | undefined
+
+  startDate: string
+
+  endDate: string
+
   incomeRupiah: number
 
   expenseRupiah: number
@@ -25,6 +116,8 @@ interface CategoryAggregation {
 
   categoryName: string | null
 
+  parentId: string | null
+
   type: "income" | "expense" | null
 
   totalRupiah: number
@@ -33,62 +126,154 @@ interface CategoryAggregation {
 }
 
 interface DashboardByCategory {
-  year: number
+  year: number | null
 
   month: number | undefined
 
+  quarter: number | undefined
+
+  week: number | undefined
+
+  startDate: string
+
+  endDate: string
+
   income: CategoryAggregation[]
 
   expense: CategoryAggregation[]
+
+  rolledUp: {
+    income: CategoryAggregation[]
+
+    expense: CategoryAggregation[]
+  }
 }
 
-export class DashboardService {
-  /**
-   * Get monthly income/expense/balance summary
-   */
+interface TagAggregation {
+  tagId: string
 
-  async getSummary(env: Env, filter: DashboardFilter): Promise<MonthlySummary> {
-    const db = getDb(env)
+  tagName: string
 
-    const { year, month } = filter
+  type: "income" | "expense" | null
 
-    let dateCondition
+  totalRupiah: number
 
-    if (month) {
-      const startDate = `${year}-${String(month).padStart(2, "0")}-01`
+  transactionCount: number
+}
 
-      const endDate = `${year}-${String(month).padStart(2, "0")}-31`
+interface DashboardByTag {
+  year: number | null
 
-      dateCondition = and(
-        gte(transactions.transactionDate, startDate),
+  month: number | undefined
 
-        lte(transactions.transactionDate, endDate),
-      )
-    } else {
-      const startDate = `${year}-01-01`
+  quarter: number | undefined
 
-      const endDate = `${year}-12-31`
+  week: number | undefined
 
-      dateCondition = and(
-        gte(transactions.transactionDate, startDate),
+  startDate: string
 
-        lte(transactions.transactionDate, endDate),
-      )
-    }
+  endDate: string
+
+  income: TagAggregation[]
+
+  expense: TagAggregation[]
+}
+
+// Effect on the account balance: income and incoming transfer legs add
+
+const signedAmount = sql<number>`CASE WHEN ${categories.type} = 'income' OR ${transactions.direction} = 'in' THEN ${transactions.amountRupiah} WHEN ${categories.type} = 'expense' OR ${transactions.direction} = 'out' THEN -${transactions.amountRupiah} ELSE 0 END`
+
+// Days of history behind each category's forecast average
+
+const FORECAST_HISTORY_DAYS = 90
+
+// Every (ancestor, category) pair in the hierarchy, including each
+// category paired with itself; UNION stops the recursion on a cycle
+
+const categoryClosure = sql`(WITH RECURSIVE closure(ancestor_id, category_id) AS (SELECT id, id FROM categories UNION SELECT closure.ancestor_id, categories.id FROM categories JOIN closure ON categories.parent_id = closure.category_id) SELECT ancestor_id, category_id FROM closure) AS category_closure`
+
+/**
+ * Resolve the filter to inclusive bounds and echo the requested period
+ * Months, quarters and years follow the owner's financial month start day
+ */
+
+async function describePeriod(
+  env: Env,
+
+  filter: DashboardFilter,
+): Promise<PeriodEcho> {
+  const { monthStartDay } = await settingsService.get(env)
+
+  const { startDate, endDate } = resolvePeriod(filter, monthStartDay)
+
+  return {
+    year: filter.from ? null : (filter.year ?? null),
+
+    month: filter.month,
+
+    quarter: filter.quarter,
+
+    week: filter.week,
+
+    startDate,
+
+    endDate,
+  }
+}
+
+/**
+ * Inclusive transaction date filter for a resolved period
+ */
+
+function inPeriod(period: DateRange): SQL | undefined {
+  return and(
+    gte(transactions.transactionDate, period.startDate),
+
+    lte(transactions.transactionDate, period.endDate),
+  )
+}
+
+/**
+ * Sum of split-aware line amounts dated within a period
+ */
+
+function sumInPeriod(period: DateRange): SQL<number> {
+  return sql<number>`COALESCE(SUM(CASE WHEN ${transactions.transactionDate} BETWEEN ${period.startDate} AND ${period.endDate} THEN ${lineAmount} ELSE 0 END), 0)`.mapWith(
+    toSafeInteger,
+  )
+}
+
+export class DashboardService {
+  /**
+   * Get monthly income/expense/balance summary
+   */
+
+  async getSummary(env: Env, filter: DashboardFilter): Promise<MonthlySummary> {
+    const db = getDb(env)
+
+    const period = await describePeriod(env, filter)
+
+    const dateCondition = inPeriod(period)
 
     const result = await db
 
       .select({
-        incomeRupiah: sql<number>`SUM(CASE WHEN ${categories.type} = 'income' THEN ${transactions.amountRupiah} ELSE 0 END)`,
-
-        expenseRupiah: sql<number>`SUM(CASE WHEN ${categories.type} = 'expense' THEN ${transactions.amountRupiah} ELSE 0 END)`,
+        incomeRupiah:
+          sql<number>`SUM(CASE WHEN ${categories.type} = 'income' THEN ${transactions.amountRupiah} ELSE 0 END)`.mapWith(
+            toSafeInteger,
+          ),
+
+        expenseRupiah:
+          sql<number>`SUM(CASE WHEN ${categories.type} = 'expense' THEN ${transactions.amountRupiah} ELSE 0 END)`.mapWith(
+            toSafeInteger,
+          ),
       })
 
       .from(transactions)
 
       .leftJoin(categories, eq(transactions.categoryId, categories.id))
 
-      .where(dateCondition)
+      .where(and(dateCondition, isConsumption))
 
     const incomeRupiah = result[0]?.incomeRupiah ?? 0
 
@@ -97,9 +282,7 @@ export class DashboardService {
     const balanceRupiah = incomeRupiah - expenseRupiah
 
     return {
-      year,
-
-      month,
+      ...period,
 
       incomeRupiah,
 
@@ -111,6 +294,8 @@ export class DashboardService {
 
   /**
    * Get transactions aggregated by category
+   * Split transactions count each line under its own category.
+   * Rolled-up totals add every sub-category's lines to its ancestors.
    */
 
   async getByCategory(
@@ -120,53 +305,167 @@ export class DashboardService {
   ): Promise<DashboardByCategory> {
     const db = getDb(env)
 
-    const { year, month } = filter
+    const period = await describePeriod(env, filter)
 
-    let dateCondition
+    const dateCondition = inPeriod(period)
 
-    if (month) {
-      const startDate = `${year}-${String(month).padStart(2, "0")}-01`
+    const result = await db
 
-      const endDate = `${year}-${String(month).padStart(2, "0")}-31`
+      .select({
+        categoryId: categories.id,
+
+        categoryName: categories.name,
+
+        parentId: categories.parentId,
 
-      dateCondition = and(
-        gte(transactions.transactionDate, startDate),
+        type: categories.type,
+
+        totalRupiah: sql<number>`SUM(${lineAmount})`.mapWith(toSafeInteger),
+
+        transactionCount:
+          sql<number>`COUNT(DISTINCT ${transactions.id})`.mapWith(
+            toSafeInteger,
+          ),
+      })
 
-        lte(transactions.transactionDate, endDate),
+      .from(transactions)
+
+      .leftJoin(
+        transactionSplits,
+
+        eq(transactionSplits.transactionId, transactions.id),
       )
-    } else {
-      const startDate = `${year}-01-01`
 
-      const endDate = `${year}-12-31`
+      .leftJoin(categories, eq(categories.id, lineCategoryId))
+
+      .where(and(dateCondition, isConsumption))
 
-      dateCondition = and(
-        gte(transactions.transactionDate, startDate),
+      .groupBy(
+        categories.id,
 
-        lte(transactions.transactionDate, endDate),
+        categories.name,
+
+        categories.parentId,
+
+        categories.type,
       )
-    }
 
-    const result = await db
+      .orderBy(sql`SUM(${lineAmount}) DESC`)
+
+    const rolledUp = await db
 
       .select({
         categoryId: categories.id,
 
         categoryName: categories.name,
 
+        parentId: categories.parentId,
+
+        type: categories.type,
+
+        totalRupiah: sql<number>`SUM(${lineAmount})`.mapWith(toSafeInteger),
+
+        transactionCount:
+          sql<number>`COUNT(DISTINCT ${transactions.id})`.mapWith(
+            toSafeInteger,
+          ),
+      })
+
+      .from(transactions)
+
+      .leftJoin(
+        transactionSplits,
+
+        eq(transactionSplits.transactionId, transactions.id),
+      )
+
+      .innerJoin(
+        categoryClosure,
+
+        sql`category_closure.category_id = ${lineCategoryId}`,
+      )
+
+      .innerJoin(
+        categories,
+        sql`${categories.id} = category_closure.ancestor_id`,
+      )
+
+      .where(and(dateCondition, isConsumption))
+
+      .groupBy(
+        categories.id,
+
+        categories.name,
+
+        categories.parentId,
+
+        categories.type,
+      )
+
+      .orderBy(sql`SUM(${lineAmount}) DESC`)
+
+    const income = result.filter((r) => r.type === "income")
+
+    const expense = result.filter((r) => r.type === "expense")
+
+    return {
+      ...period,
+
+      income,
+
+      expense,
+
+      rolledUp: {
+        income: rolledUp.filter((r) => r.type === "income"),
+
+        expense: rolledUp.filter((r) => r.type === "expense"),
+      },
+    }
+  }
+
+  /**
+   * Get transactions aggregated by tag
+   * A transaction with several tags counts toward each of them
+   */
+
+  async getByTag(env: Env, filter: DashboardFilter): Promise<DashboardByTag> {
+    const db = getDb(env)
+
+    const period = await describePeriod(env, filter)
+
+    const dateCondition = inPeriod(period)
+
+    const result = await db
+
+      .select({
+        tagId: tags.id,
+
+        tagName: tags.name,
+
         type: categories.type,
 
-        totalRupiah: sql<number>`SUM(${transactions.amountRupiah})`,
+        totalRupiah: sql<number>`SUM(${transactions.amountRupiah})`.mapWith(
+          toSafeInteger,
+        ),
 
-        transactionCount: sql<number>`COUNT(*)`,
+        transactionCount: sql<number>`COUNT(*)`.mapWith(toSafeInteger),
       })
 
       .from(transactions)
 
+      .innerJoin(
+        transactionTags,
+
+        eq(transactionTags.transactionId, transactions.id),
+      )
+
+      .innerJoin(tags, eq(transactionTags.tagId, tags.id))
+
       .leftJoin(categories, eq(transactions.categoryId, categories.id))
 
-      .where(dateCondition)
+      .where(and(dateCondition, isConsumption))
 
-      .groupBy(categories.id, categories.name, categories.type)
+      .groupBy(tags.id, tags.name, categories.type)
 
       .orderBy(sql`SUM(${transactions.amountRupiah}) DESC`)
 
@@ -174,16 +473,649 @@ export class DashboardService {
 
     const expense = result.filter((r) => r.type === "expense")
 
+    return {
+      ...period,
+
+      income,
+
+      expense,
+    }
+  }
+
+  /**
+   * Get total assets, liabilities and net worth at the close of each
+   * day, week or month in a range
+   * Months follow the owner's financial month start day
+   */
+
+  async getNetWorth(
+    env: Env,
+
+    filter: NetWorthFilter,
+  ): Promise<NetWorthSeries> {
+    const db = getDb(env)
+
+    const { from, to, interval } = filter
+
+    const { monthStartDay } = await settingsService.get(env)
+
+    const dates = intervalEndDates(
+      { startDate: from, endDate: to },
+
+      interval,
+
+      monthStartDay,
+    )
+
+    const openingBalances = await db
+
+      .select({
+        accountId: accounts.id,
+
+        openingBalanceRupiah: accounts.openingBalanceRupiah,
+      })
+
+      .from(accounts)
+
+    // One signed change per account and day, summed in SQL
+
+    const ledger = await db
+
+      .select({
+        accountId: transactions.accountId,
+
+        date: transactions.transactionDate,
+
+        amountRupiah: sql<number>`SUM(${signedAmount})`.mapWith(toSafeInteger),
+      })
+
+      .from(transactions)
+
+      .leftJoin(categories, eq(transactions.categoryId, categories.id))
+
+      .where(lte(transactions.transactionDate, to))
+
+      .groupBy(transactions.accountId, transactions.transactionDate)
+
+    const valuations = await db
+
+      .select({
+        assetId: assetValuations.assetId,
+
+        date: assetValuations.valuationDate,
+
+        valueRupiah: assetValuations.valueRupiah,
+      })
+
+      .from(assetValuations)
+
+      .where(lte(assetValuations.valuationDate, to))
+
+    const debtEntries = await db
+
+      .select({
+        debtId: debts.id,
+
+        direction: debts.direction,
+
+        startDate: debts.startDate,
+
+        totalRupiah:
+          sql<number>`${debts.principalRupiah} + ${debts.interestRupiah}`.mapWith(
+            toSafeInteger,
+          ),
+      })
+
+      .from(debts)
+
+      .where(lte(debts.startDate, to))
+
+    const payments = await db
+
+      .select({
+        debtId: debtPayments.debtId,
+
+        date: transactions.transactionDate,
+
+        amountRupiah: transactions.amountRupiah,
+      })
+
+      .from(debtPayments)
+
+      .innerJoin(transactions, eq(debtPayments.transactionId, transactions.id))
+
+      .where(lte(transactions.transactionDate, to))
+
+    const trades = await db
+
+      .select({
+        id: investmentTrades.id,
+
+        instrumentId: investmentTrades.instrumentId,
+
+        side: investmentTrades.side,
+
+        tradeDate: investmentTrades.tradeDate,
+
+        quantity: investmentTrades.quantity,
+
+        amountRupiah: investmentTrades.amountRupiah,
+      })
+
+      .from(investmentTrades)
+
+      .where(lte(investmentTrades.tradeDate, to))
+
+      .orderBy(asc(investmentTrades.tradeDate), asc(investmentTrades.createdAt))
+
+    const prices = await db
+
+      .select({
+        instrumentId: investmentPrices.instrumentId,
+
+        date: investmentPrices.priceDate,
+
+        price: investmentPrices.price,
+      })
+
+      .from(investmentPrices)
+
+      .where(lte(investmentPrices.priceDate, to))
+
+    const points = computeNetWorthSeries(dates, {
+      accounts: openingBalances,
+
+      ledger,
+
+      valuations,
+
+      debts: debtEntries,
+
+      payments,
+
+      trades,
+
+      prices,
+    })
+
+    return { from, to, interval, points }
+  }
+
+  /**
+   * Get income, expense and balance for each day, week or month in a range
+   * Months follow the owner's financial month start day
+   */
+
+  async getTrend(env: Env, filter: TrendFilter): Promise<Trend> {
+    const db = getDb(env)
+
+    const { from, to, granularity } = filter
+
+    const { monthStartDay } = await settingsService.get(env)
+
+    const endDates = intervalEndDates(
+      { startDate: from, endDate: to },
+
+      granularity,
+
+      monthStartDay,
+    )
+
+    const days = await db
+
+      .select({
+        date: transactions.transactionDate,
+
+        incomeRupiah:
+          sql<number>`SUM(CASE WHEN ${categories.type} = 'income' THEN ${transactions.amountRupiah} ELSE 0 END)`.mapWith(
+            toSafeInteger,
+          ),
+
+        expenseRupiah:
+          sql<number>`SUM(CASE WHEN ${categories.type} = 'expense' THEN ${transactions.amountRupiah} ELSE 0 END)`.mapWith(
+            toSafeInteger,
+          ),
+      })
+
+      .from(transactions)
+
+      .leftJoin(categories, eq(transactions.categoryId, categories.id))
+
+      .where(and(inPeriod({ startDate: from, endDate: to }), isConsumption))
+
+      .groupBy(transactions.transactionDate)
+
+    return {
+      from,
+
+      to,
+
+      granularity,
+
+      points: bucketTrend(from, endDates, days),
+    }
+  }
+
+  /**
+   * Compare each category's total in a month with the previous month and
+   * the same month a year earlier
+   * Split transactions count each line under its own category.
+   * @param today - Picks the current financial month when none is given
+   */
+
+  async getComparison(
+    env: Env,
+
+    filter: CompareFilter,
+
+    today: string,
+  ): Promise<Comparison> {
+    const db = getDb(env)
+
+    const { monthStartDay } = await settingsService.get(env)
+
+    const { year, month } =
+      filter.year !== undefined && filter.month !== undefined
+        ? { year: filter.year, month: filter.month }
+        : monthContaining(today, monthStartDay)
+
+    const previous = shiftMonth(year, month, -1)
+
+    const current = monthPeriod(year, month, monthStartDay)
+
+    const previousMonth = monthPeriod(
+      previous.year,
+
+      previous.month,
+
+      monthStartDay,
+    )
+
+    const previousYear = monthPeriod(year - 1, month, monthStartDay)
+
+    const rows = await db
+
+      .select({
+        categoryId: categories.id,
+
+        categoryName: categories.name,
+
+        parentId: categories.parentId,
+
+        type: categories.type,
+
+        currentRupiah: sumInPeriod(current),
+
+        previousMonthRupiah: sumInPeriod(previousMonth),
+
+        previousYearRupiah: sumInPeriod(previousYear),
+      })
+
+      .from(transactions)
+
+      .leftJoin(
+        transactionSplits,
+
+        eq(transactionSplits.transactionId, transactions.id),
+      )
+
+      .innerJoin(categories, eq(categories.id, lineCategoryId))
+
+      .where(
+        and(
+          or(
+            inPeriod(current),
+
+            inPeriod(previousMonth),
+
+            inPeriod(previousYear),
+          ),
+
+          isConsumption,
+        ),
+      )
+
+      .groupBy(
+        categories.id,
+
+        categories.name,
+
+        categories.parentId,
+
+        categories.type,
+      )
+
+    const comparisons = rows
+
+      .map(
+        (row): CategoryComparison => ({
+          categoryId: row.categoryId,
+
+          categoryName: row.categoryName,
+
+          parentId: row.parentId,
+
+          type: row.type,
+
+          ...comparePeriods(row),
+        }),
+      )
+
+      .sort(
+        (a, b) =>
+          b.currentRupiah - a.currentRupiah ||
+          b.previousMonthRupiah - a.previousMonthRupiah,
+      )
+
+    const income = comparisons.filter((r) => r.type === "income")
+
+    const expense = comparisons.filter((r) => r.type === "expense")
+
+    const total = (items: CategoryComparison[]) =>
+      comparePeriods({
+        currentRupiah: items.reduce((sum, r) => sum + r.currentRupiah, 0),
+
+        previousMonthRupiah: items.reduce(
+          (sum, r) => sum + r.previousMonthRupiah,
+          0,
+        ),
+
+        previousYearRupiah: items.reduce(
+          (sum, r) => sum + r.previousYearRupiah,
+          0,
+        ),
+      })
+
     return {
       year,
 
       month,
 
+      current,
+
+      previousMonth,
+
+      previousYear,
+
+      totals: { income: total(income), expense: total(expense) },
+
       income,
 
       expense,
     }
   }
+
+  /**
+   * Project the balance over the coming months
+   * Active recurring rules supply their occurrences, and transactions
+   * already entered with a future date count on their date. Every other
+   * category is expected to continue at its average over the last 90
+   * days, leaving out transactions created by recurring rules.
+   * @param today - Last day with a known balance
+   */
+
+  async getForecast(
+    env: Env,
+
+    filter: ForecastFilter,
+
+    today: string,
+  ): Promise<Forecast> {
+    const db = getDb(env)
+
+    const { months, interval } = filter
+
+    const accountId = filter.accountId ?? null
+
+    const { monthStartDay, lowBalanceThresholdRupiah } =
+      await settingsService.get(env)
+
+    const thresholdRupiah = filter.threshold ?? lowBalanceThresholdRupiah
+
+    const startDate = addDays(today, 1)
+
+    const endDate = addMonths(today, months)
+
+    const pointDates = intervalEndDates(
+      { startDate, endDate },
+
+      interval,
+
+      monthStartDay,
+    )
+
+    const inAccount = accountId
+      ? eq(transactions.accountId, accountId)
+      : undefined
+
+    const opening = await db
+
+      .select({
+        totalRupiah:
+          sql<number>`COALESCE(SUM(${accounts.openingBalanceRupiah}), 0)`.mapWith(
+            toSafeInteger,
+          ),
+      })
+
+      .from(accounts)
+
+      .where(accountId ? eq(accounts.id, accountId) : undefined)
+
+    const ledger = await db
+
+      .select({
+        totalRupiah: sql<number>`COALESCE(SUM(${signedAmount}), 0)`.mapWith(
+          toSafeInteger,
+        ),
+
+        firstDate: sql<string | null>`MIN(${transactions.transactionDate})`,
+      })
+
+      .from(transactions)
+
+      .leftJoin(categories, eq(transactions.categoryId, categories.id))
+
+      .where(and(lte(transactions.transactionDate, today), inAccount))
+
+    const openingBalanceRupiah =
+      (opening[0]?.totalRupiah ?? 0) + (ledger[0]?.totalRupiah ?? 0)
+
+    const inFuture = and(
+      gt(transactions.transactionDate, today),
+
+      lte(transactions.transactionDate, endDate),
+
+      inAccount,
+    )
+
+    const futureConsumption = await db
+
+      .select({
+        date: transactions.transactionDate,
+
+        type: categories.type,
+
+        amountRupiah: transactions.amountRupiah,
+      })
+
+      .from(transactions)
+
+      .innerJoin(categories, eq(transactions.categoryId, categories.id))
+
+      .where(and(inFuture, isConsumption))
+
+    // Transfer legs and investment trades only move the balance
+
+    const futureMovements = await db
+
+      .select({
+        date: transactions.transactionDate,
+
+        amountRupiah: sql<number>`${signedAmount}`.mapWith(toSafeInteger),
+      })
+
+      .from(transactions)
+
+      .leftJoin(categories, eq(transactions.categoryId, categories.id))
+
+      .where(
+        and(
+          inFuture,
+
+          or(isNotNull(transactions.transferId), isInvestmentTrade),
+        ),
+      )
+
+    const rules = await db
+
+      .select({
+        categoryId: recurringRules.categoryId,
+
+        type: categories.type,
+
+        amountRupiah: recurringRules.amountRupiah,
+
+        frequency: recurringRules.frequency,
+
+        interval: recurringRules.interval,
+
+        dayOfMonth: recurringRules.dayOfMonth,
+
+        startDate: recurringRules.startDate,
+
+        endDate: recurringRules.endDate,
+
+        occurrenceLimit: recurringRules.occurrenceLimit,
+
+        occurrenceCount: recurringRules.occurrenceCount,
+      })
+
+      .from(recurringRules)
+
+      .innerJoin(categories, eq(recurringRules.categoryId, categories.id))
+
+      .where(
+        and(
+          eq(recurringRules.isPaused, false),
+
+          isNotNull(recurringRules.nextOccurrenceDate),
+
+          accountId ? eq(recurringRules.accountId, accountId) : undefined,
+        ),
+      )
+
+    const entries: ExpectedEntry[] = [
+      ...futureConsumption,
+
+      ...futureMovements.map((row) => ({ ...row, type: null })),
+    ]
+
+    // Occurrences still due from before today count on the first day
+
+    for (const rule of rules) {
+      for (let index = rule.occurrenceCount; ; index++) {
+        const date = getNextOccurrence(rule, index)
+
+        if (date === null || date > endDate) {
+          break
+        }
+
+        entries.push({ date, type: rule.type, amountRupiah: rule.amountRupiah })
+      }
+    }
+
+    const averages: CategoryAverage[] = []
+
+    const firstDate = ledger[0]?.firstDate ?? null
+
+    if (firstDate !== null) {
+      const windowStart = addDays(today, 1 - FORECAST_HISTORY_DAYS)
+
+      const historyStart = firstDate > windowStart ? firstDate : windowStart
+
+      const historyDays = daysBetween(historyStart, today) + 1
+
+      const ruleCategoryIds = new Set(rules.map((rule) => rule.categoryId))
+
+      const history = await db
+
+        .select({
+          categoryId: categories.id,
+
+          type: categories.type,
+
+          totalRupiah: sql<number>`SUM(${lineAmount})`.mapWith(toSafeInteger),
+        })
+
+        .from(transactions)
+
+        .leftJoin(
+          transactionSplits,
+
+          eq(transactionSplits.transactionId, transactions.id),
+        )
+
+        .innerJoin(categories, eq(categories.id, lineCategoryId))
+
+        .where(
+          and(
+            gte(transactions.transactionDate, historyStart),
+
+            lte(transactions.transactionDate, today),
+
+            isNull(transactions.recurringRuleId),
+
+            isConsumption,
+
+            inAccount,
+          ),
+        )
+
+        .groupBy(categories.id, categories.type)
+
+      for (const row of history) {
+        if (!ruleCategoryIds.has(row.categoryId)) {
+          averages.push({
+            type: row.type,
+
+            totalRupiah: row.totalRupiah,
+
+            historyDays,
+          })
+        }
+      }
+    }
+
+    const result = computeForecast({
+      today,
+
+      pointDates,
+
+      openingBalanceRupiah,
+
+      thresholdRupiah,
+
+      entries,
+
+      averages,
+    })
+
+    return {
+      startDate,
+
+      endDate,
+
+      interval,
+
+      accountId,
+
+      openingBalanceRupiah,
+
+      thresholdRupiah,
+
+      ...result,
+    }
+  }
 }
 
 export const dashboardService = new DashboardService()
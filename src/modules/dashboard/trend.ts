@@ -0,0 +1,121 @@
+import { addDays } from "../../lib/date"
+
+import type { TrendPoint, Change, PeriodComparison } from "./schema"
+
+export interface DailyTotal {
+  date: string
+
+  incomeRupiah: number
+
+  expenseRupiah: number
+}
+
+// Totals of one month and the two months it is compared with
+
+export interface ComparedTotals {
+  currentRupiah: number
+
+  previousMonthRupiah: number
+
+  previousYearRupiah: number
+}
+
+/**
+ * Sum daily totals into consecutive intervals
+ * @param from - First day of the first interval
+ * @param endDates - Ascending closing date of each interval
+ */
+
+export function bucketTrend(
+  from: string,
+
+  endDates: string[],
+
+  days: DailyTotal[],
+): TrendPoint[] {
+  const ordered = [...days].sort((a, b) => a.date.localeCompare(b.date))
+
+  let index = 0
+
+  let startDate = from
+
+  return endDates.map((endDate): TrendPoint => {
+    let incomeRupiah = 0
+
+    let expenseRupiah = 0
+
+    // Skip anything before the range rather than folding it into a point
+
+    while (index < ordered.length && ordered[index].date < startDate) {
+      index++
+    }
+
+    while (index < ordered.length && ordered[index].date <= endDate) {
+      incomeRupiah += ordered[index].incomeRupiah
+
+      expenseRupiah += ordered[index].expenseRupiah
+
+      index++
+    }
+
+    const point = {
+      startDate,
+
+      endDate,
+
+      incomeRupiah,
+
+      expenseRupiah,
+
+      balanceRupiah: incomeRupiah - expenseRupiah,
+    }
+
+    startDate = addDays(endDate, 1)
+
+    return point
+  })
+}
+
+/**
+ * Change from an earlier amount, with the percentage rounded to 2 decimals
+ * The percentage is null when the earlier amount is zero
+ */
+
+export function computeChange(current: number, previous: number): Change {
+  const changeRupiah = current - previous
+
+  return {
+    changeRupiah,
+
+    changePercent:
+      previous > 0
+        ? Math.round((changeRupiah / previous) * 100 * 100) / 100
+        : null,
+  }
+}
+
+/**
+ * Compare a month against the previous month and the same month a year ago
+ */
+
+export function comparePeriods(totals: ComparedTotals): PeriodComparison {
+  return {
+    currentRupiah: totals.currentRupiah,
+
+    previousMonthRupiah: totals.previousMonthRupiah,
+
+    previousYearRupiah: totals.previousYearRupiah,
+
+    monthOverMonth: computeChange(
+      totals.currentRupiah,
+
+      totals.previousMonthRupiah,
+    ),
+
+    yearOverYear: computeChange(
+      totals.currentRupiah,
+
+      totals.previousYearRupiah,
+    ),
+  }
+}
@@ -0,0 +1,249 @@
+import { createApp } from "../../factory"
+
+import { zValidator } from "@hono/zod-validator"
+
+import { ownerOnlyMiddleware } from "../auth"
+
+import { debtService } from "./service"
+
+import { transactionService } from "../transactions/service"
+
+import {
+  createDebtSchema,
+  updateDebtSchema,
+  debtListFilterSchema,
+  createDebtPaymentSchema,
+  checkDebtTerms,
+} from "./schema"
+
+import { success, error } from "../../lib/response"
+
+import { toLocalDateString } from "../../lib/date"
+
+import type { AppEnv } from "../../factory"
+
+const app = createApp<AppEnv>()
+
+// Apply owner-only middleware to all routes
+
+app.use("*", ownerOnlyMiddleware)
+
+/**
+ * GET /debts
+ * List debts and receivables with their outstanding balances
+ */
+
+app.get("/", zValidator("query", debtListFilterSchema), async (c) => {
+  const filter = c.req.valid("query")
+
+  const debts = await debtService.list(c.env, filter)
+
+  return success(c, debts)
+})
+
+/**
+ * GET /debts/:id
+ * Get a single debt
+ */
+
+app.get("/:id", async (c) => {
+  const id = c.req.param("id")
+
+  const debt = await debtService.getById(c.env, id)
+
+  if (!debt) {
+    return error(c, "NOT_FOUND", "Debt not found", 404)
+  }
+
+  return success(c, debt)
+})
+
+/**
+ * POST /debts
+ * Record money lent (receivable) or borrowed (payable)
+ */
+
+app.post("/", zValidator("json", createDebtSchema), async (c) => {
+  const input = c.req.valid("json")
+
+  const debt = await debtService.create(c.env, input)
+
+  return success(c, debt)
+})
+
+/**
+ * PUT /debts/:id
+ * Update a debt's terms
+ */
+
+app.put("/:id", zValidator("json", updateDebtSchema), async (c) => {
+  const id = c.req.param("id")
+
+  const input = c.req.valid("json")
+
+  const existing = await debtService.getById(c.env, id)
+
+  if (!existing) {
+    return error(c, "NOT_FOUND", "Debt not found", 404)
+  }
+
+  const issue = checkDebtTerms({ ...existing, ...input })
+
+  if (issue) {
+    return error(c, "VALIDATION_ERROR", issue.message, 400)
+  }
+
+  const debt = await debtService.update(c.env, id, input)
+
+  if (!debt) {
+    return error(c, "NOT_FOUND", "Debt not found", 404)
+  }
+
+  return success(c, debt)
+})
+
+/**
+ * DELETE /debts/:id
+ * Delete a debt; linked transactions stay in the ledger
+ */
+
+app.delete("/:id", async (c) => {
+  const id = c.req.param("id")
+
+  const deleted = await debtService.delete(c.env, id)
+
+  if (!deleted) {
+    return error(c, "NOT_FOUND", "Debt not found", 404)
+  }
+
+  return success(c, null)
+})
+
+/**
+ * GET /debts/:id/schedule
+ * Get installments with paid, remaining and overdue amounts
+ */
+
+app.get("/:id/schedule", async (c) => {
+  const id = c.req.param("id")
+
+  const today = toLocalDateString(new Date())
+
+  const schedule = await debtService.getSchedule(c.env, id, today)
+
+  if (!schedule) {
+    return error(c, "NOT_FOUND", "Debt not found", 404)
+  }
+
+  return success(c, schedule)
+})
+
+/**
+ * GET /debts/:id/payments
+ * List the transactions linked to a debt as payments
+ */
+
+app.get("/:id/payments", async (c) => {
+  const id = c.req.param("id")
+
+  const debt = await debtService.getById(c.env, id)
+
+  if (!debt) {
+    return error(c, "NOT_FOUND", "Debt not found", 404)
+  }
+
+  const payments = await debtService.listPayments(c.env, id)
+
+  return success(c, payments)
+})
+
+/**
+ * POST /debts/:id/payments
+ * Link a transaction as a payment: an expense repays money owed by the
+ * owner, an income repays money owed to the owner
+ */
+
+app.post(
+  "/:id/payments",
+
+  zValidator("json", createDebtPaymentSchema),
+
+  async (c) => {
+    const id = c.req.param("id")
+
+    const { transactionId } = c.req.valid("json")
+
+    const debt = await debtService.getById(c.env, id)
+
+    if (!debt) {
+      return error(c, "NOT_FOUND", "Debt not found", 404)
+    }
+
+    const transaction = await transactionService.getById(c.env, transactionId)
+
+    if (!transaction) {
+      return error(c, "NOT_FOUND", "Transaction not found", 404)
+    }
+
+    const expectedType = debt.direction === "payable" ? "expense" : "income"
+
+    if (transaction.transferId || transaction.categoryType !== expectedType) {
+      return error(
+        c,
+
+        "VALIDATION_ERROR",
+
+        `Payments on ${
+          debt.direction === "payable" ? "money you owe" : "money owed to you"
+        } must be ${expectedType} transactions`,
+
+        400,
+      )
+    }
+
+    const linkedDebtId = await debtService.findDebtIdForTransaction(
+      c.env,
+
+      transactionId,
+    )
+
+    if (linkedDebtId) {
+      return error(
+        c,
+
+        "CONFLICT",
+
+        "Transaction is already linked to a debt",
+
+        409,
+
+        { debtId: linkedDebtId },
+      )
+    }
+
+    const payment = await debtService.linkPayment(c.env, id, transactionId)
+
+    return success(c, payment)
+  },
+)
+
+/**
+ * DELETE /debts/:id/payments/:paymentId
+ * Unlink a payment; the transaction stays in the ledger
+ */
+
+app.delete("/:id/payments/:paymentId", async (c) => {
+  const id = c.req.param("id")
+
+  const paymentId = c.req.param("paymentId")
+
+  const deleted = await debtService.unlinkPayment(c.env, id, paymentId)
+
+  if (!deleted) {
+    return error(c, "NOT_FOUND", "Payment not found", 404)
+  }
+
+  return success(c, null)
+})
+
+export default app
@@ -0,0 +1,105 @@
+import { addMonths } from "../../lib/date"
+
+import type { DebtTerms, DebtInstallment, DebtSchedule } from "./schema"
+
+export type DebtRepayment = DebtTerms & {
+  // Principal plus interest
+
+  totalRupiah: number
+
+  paidRupiah: number
+}
+
+export type InstallmentDue = Pick<DebtInstallment, "number" | "dueDate" | "amountRupiah">
+
+/**
+ * Installments a debt is repaid in
+ * Monthly installments are equal, with rounding left on the last one, and
+ * each date is derived from the first so the 31st returns after February.
+ * A debt with only a due date has a single installment; one with neither
+ * has none.
+ */
+
+export function buildInstallments(
+  terms: DebtTerms,
+
+  totalRupiah: number,
+): InstallmentDue[] {
+  const { dueDate, installmentCount, firstInstallmentDate } = terms
+
+  if (installmentCount !== null && firstInstallmentDate !== null) {
+    const amountRupiah = Math.floor(totalRupiah / installmentCount)
+
+    return Array.from({ length: installmentCount }, (_, index) => ({
+      number: index + 1,
+
+      dueDate: addMonths(firstInstallmentDate, index),
+
+      amountRupiah:
+        index === installmentCount - 1
+          ? totalRupiah - amountRupiah * (installmentCount - 1)
+          : amountRupiah,
+    }))
+  }
+
+  if (dueDate !== null) {
+    return [{ number: 1, dueDate, amountRupiah: totalRupiah }]
+  }
+
+  return []
+}
+
+/**
+ * Apply payments to a debt's installments, oldest first, and find what is
+ * overdue
+ * @param today - Installments due before this date are overdue while unpaid
+ */
+
+export function computeDebtSchedule(
+  debt: DebtRepayment,
+
+  today: string,
+): Omit<DebtSchedule, "debtId"> {
+  let unappliedRupiah = debt.paidRupiah
+
+  const installments = buildInstallments(debt, debt.totalRupiah).map(
+    (installment): DebtInstallment => {
+      const paidRupiah = Math.min(installment.amountRupiah, unappliedRupiah)
+
+      unappliedRupiah -= paidRupiah
+
+      const remainingRupiah = installment.amountRupiah - paidRupiah
+
+      return {
+        ...installment,
+
+        paidRupiah,
+
+        remainingRupiah,
+
+        isOverdue: remainingRupiah > 0 && installment.dueDate < today,
+      }
+    },
+  )
+
+  const overdue = installments.filter((installment) => installment.isOverdue)
+
+  const nextDue = installments.find(
+    (installment) => installment.remainingRupiah > 0,
+  )
+
+  return {
+    outstandingRupiah: Math.max(0, debt.totalRupiah - debt.paidRupiah),
+
+    overdueRupiah: overdue.reduce(
+      (sum, installment) => sum + installment.remainingRupiah,
+      0,
+    ),
+
+    overdueInstallmentCount: overdue.length,
+
+    nextDueDate: nextDue?.dueDate ?? null,
+
+    installments,
+  }
+}
@@ -0,0 +1,335 @@
+import { z } from "zod"
+
+import { MAX_AMOUNT_RUPIAH } from "../../lib/currency"
+
+const dateSchema = z
+
+  .string()
+
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+
+// Debt direction enum
+// receivable: owed to the owner (piutang); payable: owed by the owner (utang)
+
+export const debtDirectionSchema = z.enum(["receivable", "payable"])
+
+export interface DebtTerms {
+  startDate: string
+
+  dueDate: string | null
+
+  installmentCount: number | null
+
+  firstInstallmentDate: string | null
+}
+
+export interface DebtTermsIssue {
+  message: string
+
+  path: string
+}
+
+/**
+ * A debt is repaid either on a single due date or in monthly installments
+ * (or has no fixed schedule); repayment cannot start before the debt does
+ * @returns The first problem found, or null when the terms are consistent
+ */
+
+export function checkDebtTerms(terms: DebtTerms): DebtTermsIssue | null {
+  const { startDate, dueDate, installmentCount, firstInstallmentDate } = terms
+
+  if ((installmentCount === null) !== (firstInstallmentDate === null)) {
+    return {
+      message:
+        "Installment count and first installment date must be set together",
+
+      path:
+        installmentCount === null ? "installmentCount" : "firstInstallmentDate",
+    }
+  }
+
+  if (dueDate !== null && installmentCount !== null) {
+    return {
+      message: "Set either a due date or an installment schedule, not both",
+
+      path: "dueDate",
+    }
+  }
+
+  if (dueDate !== null && dueDate < startDate) {
+    return {
+      message: "Due date must not be before start date",
+      path: "dueDate",
+    }
+  }
+
+  if (firstInstallmentDate !== null && firstInstallmentDate < startDate) {
+    return {
+      message: "First installment must not be before start date",
+
+      path: "firstInstallmentDate",
+    }
+  }
+
+  return null
+}
+
+// Shared debt fields
+
+const debtFieldsSchema = z.object({
+  counterparty: z
+
+    .string()
+
+    .min(1, "Counterparty is required")
+
+    .max(100, "Counterparty must be less than 100 characters"),
+
+  direction: debtDirectionSchema,
+
+  principal: z
+
+    .number()
+
+    .positive("Principal must be positive")
+
+    .max(MAX_AMOUNT_RUPIAH, "Principal is too large"),
+
+  interest: z
+
+    .number()
+
+    .nonnegative("Interest must not be negative")
+
+    .max(MAX_AMOUNT_RUPIAH, "Interest is too large")
+
+    .default(0),
+
+  description: z
+
+    .string()
+
+    .max(500, "Description must be less than 500 characters")
+
+    .nullable()
+
+    .default(null),
+
+  startDate: dateSchema,
+
+  dueDate: dateSchema.nullable().default(null),
+
+  installmentCount: z.number().int().min(1).max(600).nullable().default(null),
+
+  firstInstallmentDate: dateSchema.nullable().default(null),
+})
+
+// Create debt schema
+
+export const createDebtSchema = debtFieldsSchema.superRefine((input, ctx) => {
+  const issue = checkDebtTerms(input)
+
+  if (issue) {
+    ctx.addIssue({ code: "custom", message: issue.message, path: [issue.path] })
+  }
+})
+
+// Update debt schema (direction is fixed once created)
+// Schedule consistency is checked against the stored debt by the route
+
+export const updateDebtSchema = z
+
+  .object({
+    counterparty: debtFieldsSchema.shape.counterparty,
+
+    principal: debtFieldsSchema.shape.principal,
+
+    interest: debtFieldsSchema.shape.interest.unwrap(),
+
+    description: debtFieldsSchema.shape.description.unwrap(),
+
+    startDate: dateSchema,
+
+    dueDate: dateSchema.nullable(),
+
+    installmentCount: debtFieldsSchema.shape.installmentCount.unwrap(),
+
+    firstInstallmentDate: dateSchema.nullable(),
+  })
+
+  .partial()
+
+// Debt list query schema
+
+export const debtListFilterSchema = z.object({
+  direction: debtDirectionSchema.optional(),
+
+  // Settled debts are listed unless "false"
+
+  settled: z
+
+    .enum(["true", "false"])
+
+    .transform((value) => value === "true")
+
+    .optional(),
+})
+
+// Link payment schema
+
+export const createDebtPaymentSchema = z.object({
+  transactionId: z.string().uuid("Invalid transaction ID"),
+})
+
+// Debt response schema
+
+export const debtSchema = z.object({
+  id: z.string().uuid(),
+
+  counterparty: z.string(),
+
+  direction: debtDirectionSchema,
+
+  principalRupiah: z.number().int().positive(),
+
+  interestRupiah: z.number().int().nonnegative(),
+
+  // Principal plus interest
+
+  totalRupiah: z.number().int().positive(),
+
+  paidRupiah: z.number().int().nonnegative(),
+
+  outstandingRupiah: z.number().int().nonnegative(),
+
+  isSettled: z.boolean(),
+
+  description: z.string().nullable(),
+
+  startDate: dateSchema,
+
+  dueDate: dateSchema.nullable(),
+
+  installmentCount: z.number().int().positive().nullable(),
+
+  firstInstallmentDate: dateSchema.nullable(),
+
+  createdAt: z.date(),
+
+  updatedAt: z.date(),
+})
+
+// Linked payment response schema
+
+export const debtPaymentSchema = z.object({
+  id: z.string().uuid(),
+
+  debtId: z.string().uuid(),
+
+  transactionId: z.string().uuid(),
+
+  accountName: z.string().nullable(),
+
+  amountRupiah: z.number().int().positive(),
+
+  description: z.string(),
+
+  transactionDate: dateSchema,
+
+  createdAt: z.date(),
+})
+
+// Installment with its repayment state
+// Payments cover installments oldest first
+
+export const debtInstallmentSchema = z.object({
+  number: z.number().int().positive(),
+
+  dueDate: dateSchema,
+
+  amountRupiah: z.number().int().positive(),
+
+  paidRupiah: z.number().int().nonnegative(),
+
+  remainingRupiah: z.number().int().nonnegative(),
+
+  isOverdue: z.boolean(),
+})
+
+// Debt schedule response
+
+export const debtScheduleSchema = z.object({
+  debtId: z.string().uuid(),
+
+  outstandingRupiah: z.number().int().nonnegative(),
+
+  overdueRupiah: z.number().int().nonnegative(),
+
+  overdueInstallmentCount: z.number().int().nonnegative(),
+
+  // Earliest installment not yet fully paid
+
+  nextDueDate: dateSchema.nullable(),
+
+  installments: z.array(debtInstallmentSchema),
+})
+
+// Overdue installment across all debts (dashboard)
+
+export const overdueInstallmentSchema = debtInstallmentSchema.extend({
+  debtId: z.string().uuid(),
+
+  counterparty: z.string(),
+
+  direction: debtDirectionSchema,
+})
+
+// Outstanding and overdue totals for one direction
+
+export const debtTotalsSchema = z.object({
+  outstandingRupiah: z.number().int().nonnegative(),
+
+  overdueRupiah: z.number().int().nonnegative(),
+
+  openDebtCount: z.number().int().nonnegative(),
+})
+
+// Debts dashboard response
+
+export const debtOverviewSchema = z.object({
+  receivable: debtTotalsSchema,
+
+  payable: debtTotalsSchema,
+
+  // Receivables minus payables
+
+  netRupiah: z.number().int(),
+
+  overdueInstallments: z.array(overdueInstallmentSchema),
+})
+
+// Types
+
+export type DebtDirection = z.infer<typeof debtDirectionSchema>
+
+export type CreateDebtInput = z.infer<typeof createDebtSchema>
+
+export type UpdateDebtInput = z.infer<typeof updateDebtSchema>
+
+export type DebtListFilter = z.infer<typeof debtListFilterSchema>
+
+export type CreateDebtPaymentInput = z.infer<typeof createDebtPaymentSchema>
+
+export type Debt = z.infer<typeof debtSchema>
+
+export type DebtPayment = z.infer<typeof debtPaymentSchema>
+
+export type DebtInstallment = z.infer<typeof debtInstallmentSchema>
+
+export type DebtSchedule = z.infer<typeof debtScheduleSchema>
+
+export type OverdueInstallment = z.infer<typeof overdueInstallmentSchema>
+
+export type DebtTotals = z.infer<typeof debtTotalsSchema>
+
+export type DebtOverview = z.infer<typeof debtOverviewSchema>
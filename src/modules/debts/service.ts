@@ -0,0 +1,450 @@
+import { getDb } from "../../db"
+
+import { debts, debtPayments, transactions, accounts } from "../../db/schema"
+
+import type { Env } from "../../env"
+
+import type {
+  CreateDebtInput,
+  UpdateDebtInput,
+  DebtListFilter,
+  Debt,
+  DebtPayment,
+  DebtSchedule,
+  DebtOverview,
+  DebtTotals,
+  OverdueInstallment,
+} from "./schema"
+
+import { computeDebtSchedule } from "./schedule"
+
+import { toRupiah, toSafeInteger } from "../../lib/currency"
+
+import { eq, and, asc, desc, sql } from "drizzle-orm"
+
+const debtColumns = {
+  id: debts.id,
+
+  counterparty: debts.counterparty,
+
+  direction: debts.direction,
+
+  principalRupiah: debts.principalRupiah,
+
+  interestRupiah: debts.interestRupiah,
+
+  paidRupiah:
+    sql<number>`(SELECT COALESCE(SUM(${transactions.amountRupiah}), 0) FROM ${debtPayments} INNER JOIN ${transactions} ON ${transactions.id} = ${debtPayments.transactionId} WHERE ${debtPayments.debtId} = ${debts.id})`.mapWith(
+      toSafeInteger,
+    ),
+
+  description: debts.description,
+
+  startDate: debts.startDate,
+
+  dueDate: debts.dueDate,
+
+  installmentCount: debts.installmentCount,
+
+  firstInstallmentDate: debts.firstInstallmentDate,
+
+  createdAt: debts.createdAt,
+
+  updatedAt: debts.updatedAt,
+}
+
+type DebtRow = Omit<Debt, "totalRupiah" | "outstandingRupiah" | "isSettled">
+
+function toDebt(row: DebtRow): Debt {
+  const totalRupiah = row.principalRupiah + row.interestRupiah
+
+  const outstandingRupiah = Math.max(0, totalRupiah - row.paidRupiah)
+
+  return {
+    ...row,
+
+    totalRupiah,
+
+    outstandingRupiah,
+
+    isSettled: outstandingRupiah === 0,
+  }
+}
+
+export class DebtService {
+  /**
+   * Get all debts, oldest first
+   */
+
+  async list(env: Env, filter: DebtListFilter = {}): Promise<Debt[]> {
+    const db = getDb(env)
+
+    const rows = await db
+
+      .select(debtColumns)
+
+      .from(debts)
+
+      .where(
+        filter.direction ? eq(debts.direction, filter.direction) : undefined,
+      )
+
+      .orderBy(asc(debts.startDate), asc(debts.createdAt))
+
+    const result = rows.map(toDebt)
+
+    if (filter.settled === undefined) {
+      return result
+    }
+
+    return result.filter((debt) => debt.isSettled === filter.settled)
+  }
+
+  /**
+   * Get a single debt by ID
+   */
+
+  async getById(env: Env, id: string): Promise<Debt | null> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .select(debtColumns)
+
+      .from(debts)
+
+      .where(eq(debts.id, id))
+
+      .limit(1)
+
+    return result[0] ? toDebt(result[0]) : null
+  }
+
+  /**
+   * Create a new debt
+   */
+
+  async create(env: Env, input: CreateDebtInput): Promise<Debt> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .insert(debts)
+
+      .values({
+        counterparty: input.counterparty,
+
+        direction: input.direction,
+
+        principalRupiah: toRupiah(input.principal),
+
+        interestRupiah: toRupiah(input.interest),
+
+        description: input.description,
+
+        startDate: input.startDate,
+
+        dueDate: input.dueDate,
+
+        installmentCount: input.installmentCount,
+
+        firstInstallmentDate: input.firstInstallmentDate,
+      })
+
+      .returning()
+
+    const created = await this.getById(env, result[0].id)
+
+    if (!created) {
+      throw new Error("Failed to create debt")
+    }
+
+    return created
+  }
+
+  /**
+   * Update a debt
+   */
+
+  async update(
+    env: Env,
+
+    id: string,
+
+    input: UpdateDebtInput,
+  ): Promise<Debt | null> {
+    const db = getDb(env)
+
+    const updateData: Record<string, unknown> = { updatedAt: new Date() }
+
+    if (input.counterparty !== undefined) {
+      updateData.counterparty = input.counterparty
+    }
+
+    if (input.principal !== undefined) {
+      updateData.principalRupiah = toRupiah(input.principal)
+    }
+
+    if (input.interest !== undefined) {
+      updateData.interestRupiah = toRupiah(input.interest)
+    }
+
+    if (input.description !== undefined) {
+      updateData.description = input.description
+    }
+
+    if (input.startDate !== undefined) {
+      updateData.startDate = input.startDate
+    }
+
+    if (input.dueDate !== undefined) {
+      updateData.dueDate = input.dueDate
+    }
+
+    if (input.installmentCount !== undefined) {
+      updateData.installmentCount = input.installmentCount
+    }
+
+    if (input.firstInstallmentDate !== undefined) {
+      updateData.firstInstallmentDate = input.firstInstallmentDate
+    }
+
+    const result = await db
+
+      .update(debts)
+
+      .set(updateData)
+
+      .where(eq(debts.id, id))
+
+      .returning()
+
+    if (result.length === 0) {
+      return null
+    }
+
+    return this.getById(env, id)
+  }
+
+  /**
+   * Delete a debt
+   * Linked transactions stay in the ledger; only the links are removed
+   */
+
+  async delete(env: Env, id: string): Promise<boolean> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .delete(debts)
+
+      .where(eq(debts.id, id))
+
+      .returning()
+
+    return result.length > 0
+  }
+
+  /**
+   * Get the transactions linked to a debt as payments, newest first
+   */
+
+  async listPayments(env: Env, debtId: string): Promise<DebtPayment[]> {
+    const db = getDb(env)
+
+    return db
+
+      .select({
+        id: debtPayments.id,
+
+        debtId: debtPayments.debtId,
+
+        transactionId: debtPayments.transactionId,
+
+        accountName: accounts.name,
+
+        amountRupiah: transactions.amountRupiah,
+
+        description: transactions.description,
+
+        transactionDate: transactions.transactionDate,
+
+        createdAt: debtPayments.createdAt,
+      })
+
+      .from(debtPayments)
+
+      .innerJoin(transactions, eq(debtPayments.transactionId, transactions.id))
+
+      .leftJoin(accounts, eq(transactions.accountId, accounts.id))
+
+      .where(eq(debtPayments.debtId, debtId))
+
+      .orderBy(desc(transactions.transactionDate), desc(debtPayments.createdAt))
+  }
+
+  /**
+   * Find the debt a transaction is already linked to as a payment
+   */
+
+  async findDebtIdForTransaction(
+    env: Env,
+
+    transactionId: string,
+  ): Promise<string | null> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .select({ debtId: debtPayments.debtId })
+
+      .from(debtPayments)
+
+      .where(eq(debtPayments.transactionId, transactionId))
+
+      .limit(1)
+
+    return result[0]?.debtId ?? null
+  }
+
+  /**
+   * Link a transaction to a debt as a payment
+   */
+
+  async linkPayment(
+    env: Env,
+
+    debtId: string,
+
+    transactionId: string,
+  ): Promise<DebtPayment> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .insert(debtPayments)
+
+      .values({ debtId, transactionId })
+
+      .returning()
+
+    const payments = await this.listPayments(env, debtId)
+
+    const created = payments.find((payment) => payment.id === result[0].id)
+
+    if (!created) {
+      throw new Error("Failed to link payment")
+    }
+
+    return created
+  }
+
+  /**
+   * Unlink a payment from a debt; the transaction itself is kept
+   */
+
+  async unlinkPayment(
+    env: Env,
+
+    debtId: string,
+
+    paymentId: string,
+  ): Promise<boolean> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .delete(debtPayments)
+
+      .where(
+        and(eq(debtPayments.id, paymentId), eq(debtPayments.debtId, debtId)),
+      )
+
+      .returning()
+
+    return result.length > 0
+  }
+
+  /**
+   * Get a debt's installments with what is paid, remaining and overdue
+   * @param today - Installments due before this date are overdue while unpaid
+   */
+
+  async getSchedule(
+    env: Env,
+
+    id: string,
+
+    today: string,
+  ): Promise<DebtSchedule | null> {
+    const debt = await this.getById(env, id)
+
+    if (!debt) {
+      return null
+    }
+
+    return { debtId: debt.id, ...computeDebtSchedule(debt, today) }
+  }
+
+  /**
+   * Get outstanding and overdue totals per direction, with every overdue
+   * installment (most overdue first)
+   * @param today - Installments due before this date are overdue while unpaid
+   */
+
+  async getOverview(env: Env, today: string): Promise<DebtOverview> {
+    const open = await this.list(env, { settled: false })
+
+    const receivable: DebtTotals = {
+      outstandingRupiah: 0,
+
+      overdueRupiah: 0,
+
+      openDebtCount: 0,
+    }
+
+    const payable: DebtTotals = { ...receivable }
+
+    const overdueInstallments: OverdueInstallment[] = []
+
+    for (const debt of open) {
+      const schedule = computeDebtSchedule(debt, today)
+
+      const totals = debt.direction === "receivable" ? receivable : payable
+
+      totals.outstandingRupiah += schedule.outstandingRupiah
+
+      totals.overdueRupiah += schedule.overdueRupiah
+
+      totals.openDebtCount += 1
+
+      for (const installment of schedule.installments) {
+        if (installment.isOverdue) {
+          overdueInstallments.push({
+            ...installment,
+
+            debtId: debt.id,
+
+            counterparty: debt.counterparty,
+
+            direction: debt.direction,
+          })
+        }
+      }
+    }
+
+    overdueInstallments.sort((a, b) => a.dueDate.localeCompare(b.dueDate))
+
+    return {
+      receivable,
+
+      payable,
+
+      netRupiah: receivable.outstandingRupiah - payable.outstandingRupiah,
+
+      overdueInstallments,
+    }
+  }
+}
+
+export const debtService = new DebtService()
@@ -0,0 +1,115 @@
+import { createApp } from "../../factory"
+
+import { zValidator } from "@hono/zod-validator"
+
+import { ownerOnlyMiddleware } from "../auth"
+
+import { exchangeRateService } from "./service"
+
+import {
+  createExchangeRateSchema,
+  exchangeRateImportSchema,
+  exchangeRateFilterSchema,
+  MAX_EXCHANGE_RATE,
+} from "./schema"
+
+import { parsePriceHistory } from "../investments/prices"
+
+import { success, error } from "../../lib/response"
+
+import type { AppEnv } from "../../factory"
+
+const app = createApp<AppEnv>()
+
+// Apply owner-only middleware to all routes
+
+app.use("*", ownerOnlyMiddleware)
+
+/**
+ * GET /exchange-rates
+ * List exchange rates, optionally for one currency and date range
+ */
+
+app.get("/", zValidator("query", exchangeRateFilterSchema), async (c) => {
+  const filter = c.req.valid("query")
+
+  const rates = await exchangeRateService.list(c.env, filter)
+
+  return success(c, rates)
+})
+
+/**
+ * POST /exchange-rates
+ * Record a rate in rupiah per unit, replacing any rate on the same date
+ */
+
+app.post("/", zValidator("json", createExchangeRateSchema), async (c) => {
+  const input = c.req.valid("json")
+
+  const rate = await exchangeRateService.set(c.env, input)
+
+  return success(c, rate)
+})
+
+/**
+ * POST /exchange-rates/import
+ * Import a "date,rate" CSV for one currency; valid rows are saved even
+ * when others fail
+ */
+
+app.post(
+  "/import",
+
+  zValidator("form", exchangeRateImportSchema),
+
+  async (c) => {
+    const input = c.req.valid("form")
+
+    const text = await input.file.text()
+
+    const parsed = parsePriceHistory(text, input, "rate", MAX_EXCHANGE_RATE)
+
+    if (parsed.rows.length === 0) {
+      return error(
+        c,
+
+        "VALIDATION_ERROR",
+
+        "No valid rates found in file",
+
+        400,
+
+        parsed.errors,
+      )
+    }
+
+    const importedCount = await exchangeRateService.import(
+      c.env,
+
+      input.currency,
+
+      parsed.rows,
+    )
+
+    return success(c, { importedCount, errors: parsed.errors })
+  },
+)
+
+/**
+ * DELETE /exchange-rates/:id
+ * Delete a rate; transactions keep the rate they were converted at
+ */
+
+app.delete("/:id", async (c) => {
+  const id = c.req.param("id")
+
+  const deleted = await exchangeRateService.delete(c.env, id)
+
+  if (!deleted) {
+    return error(c, "NOT_FOUND", "Exchange rate not found", 404)
+  }
+
+  return success(c, null)
+})
+
+export default app
@@ -0,0 +1,126 @@
+import { z } from "zod"
+
+import { CURRENCY_CODES } from "../../lib/currency"
+
+import {
+  MAX_IMPORT_FILE_BYTES,
+  importDateFormatSchema,
+  importRowErrorSchema,
+} from "../imports/schema"
+
+const dateSchema = z
+
+  .string()
+
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+
+// Largest rate accepted, in rupiah per unit
+
+export const MAX_EXCHANGE_RATE = 1_000_000
+
+// Currency code enum
+
+export const currencySchema = z.enum(CURRENCY_CODES)
+
+// Currencies that are converted to rupiah
+
+export const foreignCurrencySchema = currencySchema.refine(
+  (currency) => currency !== "IDR",
+
+  "Rupiah needs no exchange rate",
+)
+
+const rateSchema = z
+
+  .number()
+
+  .positive("Rate must be positive")
+
+  .max(MAX_EXCHANGE_RATE, "Rate is too large")
+
+// Create exchange rate schema
+
+export const createExchangeRateSchema = z.object({
+  currency: foreignCurrencySchema,
+
+  rateDate: dateSchema,
+
+  // Rupiah per unit of the currency
+
+  rate: rateSchema,
+})
+
+// Exchange rate upload (multipart/form-data)
+// Rows are "date,rate" for one currency; a header row is skipped
+
+export const exchangeRateImportSchema = z.object({
+  file: z
+
+    .instanceof(File, { message: "A CSV file is required" })
+
+    .refine((file) => file.size > 0, "File is empty")
+
+    .refine(
+      (file) => file.size <= MAX_IMPORT_FILE_BYTES,
+
+      "File must be 2 MB or smaller",
+    ),
+
+  currency: foreignCurrencySchema,
+
+  dateFormat: importDateFormatSchema.default("YYYY-MM-DD"),
+
+  decimalSeparator: z.enum([".", ","]).default("."),
+})
+
+// Exchange rate list query schema
+
+export const exchangeRateFilterSchema = z
+
+  .object({
+    currency: currencySchema.optional(),
+
+    from: dateSchema.optional(),
+
+    to: dateSchema.optional(),
+  })
+
+  .refine(
+    (filter) => !filter.from || !filter.to || filter.from <= filter.to,
+
+    { message: "from must not be after to", path: ["to"] },
+  )
+
+// Exchange rate response schema
+
+export const exchangeRateSchema = z.object({
+  id: z.string().uuid(),
+
+  currency: currencySchema,
+
+  rateDate: dateSchema,
+
+  rateRupiah: z.number().positive(),
+
+  createdAt: z.date(),
+})
+
+// Exchange rate import response
+
+export const exchangeRateImportResultSchema = z.object({
+  importedCount: z.number().int().nonnegative(),
+
+  errors: z.array(importRowErrorSchema),
+})
+
+// Types
+
+export type CreateExchangeRateInput = z.infer<typeof createExchangeRateSchema>
+
+export type ExchangeRateImportInput = z.infer<typeof exchangeRateImportSchema>
+
+export type ExchangeRateFilter = z.infer<typeof exchangeRateFilterSchema>
+
+export type ExchangeRate = z.infer<typeof exchangeRateSchema>
+
+export type ExchangeRateImportResult = z.infer<typeof exchangeRateImportResultSchema>
@@ -0,0 +1,196 @@
+import { getDb } from "../../db"
+
+import { exchangeRates } from "../../db/schema"
+
+import type { Env } from "../../env"
+
+import type {
+  CreateExchangeRateInput,
+  ExchangeRateFilter,
+  ExchangeRate,
+} from "./schema"
+
+import type { CurrencyCode } from "../../lib/currency"
+
+import type { PriceRow } from "../investments/prices"
+
+import { eq, and, gte, lte, desc, asc, sql } from "drizzle-orm"
+
+// Rows per INSERT statement when importing rates
+
+const INSERT_BATCH_SIZE = 500
+
+export class ExchangeRateService {
+  /**
+   * Get exchange rates, by currency and newest first
+   */
+
+  async list(
+    env: Env,
+    filter: ExchangeRateFilter = {},
+  ): Promise<ExchangeRate[]> {
+    const db = getDb(env)
+
+    const conditions = []
+
+    if (filter.currency) {
+      conditions.push(eq(exchangeRates.currency, filter.currency))
+    }
+
+    if (filter.from) {
+      conditions.push(gte(exchangeRates.rateDate, filter.from))
+    }
+
+    if (filter.to) {
+      conditions.push(lte(exchangeRates.rateDate, filter.to))
+    }
+
+    return db
+
+      .select()
+
+      .from(exchangeRates)
+
+      .where(and(...conditions))
+
+      .orderBy(asc(exchangeRates.currency), desc(exchangeRates.rateDate))
+  }
+
+  /**
+   * Get the rate in effect on a date: the latest one on or before it
+   */
+
+  async findRate(
+    env: Env,
+
+    currency: CurrencyCode,
+
+    date: string,
+  ): Promise<ExchangeRate | null> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .select()
+
+      .from(exchangeRates)
+
+      .where(
+        and(
+          eq(exchangeRates.currency, currency),
+
+          lte(exchangeRates.rateDate, date),
+        ),
+      )
+
+      .orderBy(desc(exchangeRates.rateDate))
+
+      .limit(1)
+
+    return result[0] ?? null
+  }
+
+  /**
+   * Record a currency's rate on a date, replacing any rate already
+   * recorded for that date
+   */
+
+  async set(env: Env, input: CreateExchangeRateInput): Promise<ExchangeRate> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .insert(exchangeRates)
+
+      .values({
+        currency: input.currency,
+
+        rateDate: input.rateDate,
+
+        rateRupiah: input.rate,
+      })
+
+      .onConflictDoUpdate({
+        target: [exchangeRates.currency, exchangeRates.rateDate],
+
+        set: { rateRupiah: input.rate },
+      })
+
+      .returning()
+
+    return result[0]
+  }
+
+  /**
+   * Record many rates for one currency, replacing rates on the same dates
+   * Rows are written in batches within one database transaction
+   * @returns Number of rates written
+   */
+
+  async import(
+    env: Env,
+
+    currency: CurrencyCode,
+
+    rows: Pick<PriceRow, "priceDate" | "price">[],
+  ): Promise<number> {
+    if (rows.length === 0) {
+      return 0
+    }
+
+    const db = getDb(env)
+
+    const values = rows.map((row) => ({
+      currency,
+
+      rateDate: row.priceDate,
+
+      rateRupiah: row.price,
+    }))
+
+    let written = 0
+
+    await db.transaction(async (tx) => {
+      for (let i = 0; i < values.length; i += INSERT_BATCH_SIZE) {
+        const result = await tx
+
+          .insert(exchangeRates)
+
+          .values(values.slice(i, i + INSERT_BATCH_SIZE))
+
+          .onConflictDoUpdate({
+            target: [exchangeRates.currency, exchangeRates.rateDate],
+
+            set: { rateRupiah: sql`excluded.rate_rupiah` },
+          })
+
+          .returning({ id: exchangeRates.id })
+
+        written += result.length
+      }
+    })
+
+    return written
+  }
+
+  /**
+   * Delete an exchange rate; transactions keep the rate they were
+   * converted at
+   */
+
+  async delete(env: Env, id: string): Promise<boolean> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .delete(exchangeRates)
+
+      .where(eq(exchangeRates.id, id))
+
+      .returning()
+
+    return result.length > 0
+  }
+}
+
+export const exchangeRateService = new ExchangeRateService()
@@ -0,0 +1,169 @@
+import { addDays, addMonths, daysBetween, parseDate } from "../../lib/date"
+
+import type { GoalStatus } from "./schema"
+
+// Average Gregorian month length, for turning day spans into a monthly pace
+
+export const AVERAGE_MONTH_DAYS = 365.25 / 12
+
+export interface GoalTarget {
+  targetRupiah: number
+
+  targetDate: string
+}
+
+export interface ContributionEntry {
+  amountRupiah: number
+
+  contributionDate: string
+}
+
+export type GoalProgress = Omit<GoalStatus, "goalId">
+
+/**
+ * Months left from one date until another, counting a partial month as a
+ * whole one
+ * @returns 0 once `to` is on or before `from` (e.g., "2026-10-18" to
+ * "2026-12-31" → 3)
+ */
+
+export function monthsUntil(from: string, to: string): number {
+  if (to <= from) {
+    return 0
+  }
+
+  const a = parseDate(from)
+
+  const b = parseDate(to)
+
+  const months = (b.year - a.year) * 12 + (b.month - a.month)
+
+  return addMonths(from, months) < to ? months + 1 : months
+}
+
+/**
+ * Date on which running contributions first reached the target
+ */
+
+function completionDate(
+  targetRupiah: number,
+
+  contributions: ContributionEntry[],
+): string | null {
+  const sorted = [...contributions].sort((a, b) =>
+    a.contributionDate.localeCompare(b.contributionDate),
+  )
+
+  let savedRupiah = 0
+
+  for (const contribution of sorted) {
+    savedRupiah += contribution.amountRupiah
+
+    if (savedRupiah >= targetRupiah) {
+      return contribution.contributionDate
+    }
+  }
+
+  return null
+}
+
+/**
+ * Compute progress and a completion projection for a goal
+ * The pace is the total saved spread over the time since the first
+ * contribution, taken as at least one month so a single fresh deposit
+ * does not project an instant finish
+ * @param today - Date the projection is made from
+ */
+
+export function computeGoalProgress(
+  goal: GoalTarget,
+
+  contributions: ContributionEntry[],
+
+  today: string,
+): GoalProgress {
+  const { targetRupiah, targetDate } = goal
+
+  const savedRupiah = contributions.reduce(
+    (sum, contribution) => sum + contribution.amountRupiah,
+    0,
+  )
+
+  const remainingRupiah = Math.max(0, targetRupiah - savedRupiah)
+
+  const percentComplete =
+    Math.round((savedRupiah / targetRupiah) * 100 * 100) / 100
+
+  const monthsRemaining = monthsUntil(today, targetDate)
+
+  let monthlyAmountNeededRupiah = 0
+
+  if (remainingRupiah > 0) {
+    monthlyAmountNeededRupiah =
+      monthsRemaining > 0
+        ? Math.ceil(remainingRupiah / monthsRemaining)
+        : remainingRupiah
+  }
+
+  let averageMonthlyContributionRupiah = 0
+
+  let projectedCompletionDate: string | null = null
+
+  if (savedRupiah > 0) {
+    const firstDate = contributions.reduce(
+      (first, contribution) =>
+        contribution.contributionDate < first
+          ? contribution.contributionDate
+          : first,
+      contributions[0].contributionDate,
+    )
+
+    const elapsedDays = Math.max(
+      daysBetween(firstDate, today),
+
+      AVERAGE_MONTH_DAYS,
+    )
+
+    averageMonthlyContributionRupiah = Math.round(
+      (savedRupiah * AVERAGE_MONTH_DAYS) / elapsedDays,
+    )
+
+    projectedCompletionDate =
+      remainingRupiah === 0
+        ? completionDate(targetRupiah, contributions)
+        : addDays(
+            today,
+
+            Math.ceil((remainingRupiah * elapsedDays) / savedRupiah),
+          )
+  }
+
+  const isCompleted = remainingRupiah === 0
+
+  return {
+    targetRupiah,
+
+    targetDate,
+
+    savedRupiah,
+
+    remainingRupiah,
+
+    percentComplete,
+
+    isCompleted,
+
+    monthsRemaining,
+
+    monthlyAmountNeededRupiah,
+
+    averageMonthlyContributionRupiah,
+
+    projectedCompletionDate,
+
+    isOnTrack:
+      isCompleted ||
+      (projectedCompletionDate !== null &&
+        projectedCompletionDate <= targetDate),
+  }
+}
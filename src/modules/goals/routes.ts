@@ -0,0 +1,213 @@
+import { createApp } from "../../factory"
+
+import { zValidator } from "@hono/zod-validator"
+
+import { ownerOnlyMiddleware } from "../auth"
+
+import { goalService } from "./service"
+
+import { accountService } from "../accounts/service"
+
+import {
+  createGoalSchema,
+  updateGoalSchema,
+  createGoalContributionSchema,
+} from "./schema"
+
+import { success, error } from "../../lib/response"
+
+import { toLocalDateString } from "../../lib/date"
+
+import type { AppEnv } from "../../factory"
+
+const app = createApp<AppEnv>()
+
+// Apply owner-only middleware to all routes
+
+app.use("*", ownerOnlyMiddleware)
+
+/**
+ * GET /goals
+ * List all savings goals with the amount saved so far
+ */
+
+app.get("/", async (c) => {
+  const goals = await goalService.list(c.env)
+
+  return success(c, goals)
+})
+
+/**
+ * GET /goals/:id
+ * Get a single goal
+ */
+
+app.get("/:id", async (c) => {
+  const id = c.req.param("id")
+
+  const goal = await goalService.getById(c.env, id)
+
+  if (!goal) {
+    return error(c, "NOT_FOUND", "Goal not found", 404)
+  }
+
+  return success(c, goal)
+})
+
+/**
+ * POST /goals
+ * Create a savings goal, optionally linked to the account holding it
+ */
+
+app.post("/", zValidator("json", createGoalSchema), async (c) => {
+  const input = c.req.valid("json")
+
+  if (input.accountId) {
+    const account = await accountService.getById(c.env, input.accountId)
+
+    if (!account) {
+      return error(c, "NOT_FOUND", "Account not found", 404)
+    }
+  }
+
+  const goal = await goalService.create(c.env, input)
+
+  return success(c, goal)
+})
+
+/**
+ * PUT /goals/:id
+ * Update a goal
+ */
+
+app.put("/:id", zValidator("json", updateGoalSchema), async (c) => {
+  const id = c.req.param("id")
+
+  const input = c.req.valid("json")
+
+  if (input.accountId) {
+    const account = await accountService.getById(c.env, input.accountId)
+
+    if (!account) {
+      return error(c, "NOT_FOUND", "Account not found", 404)
+    }
+  }
+
+  const goal = await goalService.update(c.env, id, input)
+
+  if (!goal) {
+    return error(c, "NOT_FOUND", "Goal not found", 404)
+  }
+
+  return success(c, goal)
+})
+
+/**
+ * DELETE /goals/:id
+ * Delete a goal and its contributions
+ */
+
+app.delete("/:id", async (c) => {
+  const id = c.req.param("id")
+
+  const deleted = await goalService.delete(c.env, id)
+
+  if (!deleted) {
+    return error(c, "NOT_FOUND", "Goal not found", 404)
+  }
+
+  return success(c, null)
+})
+
+/**
+ * GET /goals/:id/status
+ * Get progress, the monthly amount needed to reach the target date and
+ * a projected completion date at the average contribution pace
+ */
+
+app.get("/:id/status", async (c) => {
+  const id = c.req.param("id")
+
+  const today = toLocalDateString(new Date())
+
+  const status = await goalService.getStatus(c.env, id, today)
+
+  if (!status) {
+    return error(c, "NOT_FOUND", "Goal not found", 404)
+  }
+
+  return success(c, status)
+})
+
+/**
+ * GET /goals/:id/contributions
+ * List a goal's contributions, newest first
+ */
+
+app.get("/:id/contributions", async (c) => {
+  const id = c.req.param("id")
+
+  const goal = await goalService.getById(c.env, id)
+
+  if (!goal) {
+    return error(c, "NOT_FOUND", "Goal not found", 404)
+  }
+
+  const contributions = await goalService.listContributions(c.env, id)
+
+  return success(c, contributions)
+})
+
+/**
+ * POST /goals/:id/contributions
+ * Record money set aside for a goal
+ */
+
+app.post(
+  "/:id/contributions",
+
+  zValidator("json", createGoalContributionSchema),
+
+  async (c) => {
+    const id = c.req.param("id")
+
+    const input = c.req.valid("json")
+
+    const goal = await goalService.getById(c.env, id)
+
+    if (!goal) {
+      return error(c, "NOT_FOUND", "Goal not found", 404)
+    }
+
+    const contribution = await goalService.addContribution(c.env, id, input)
+
+    return success(c, contribution)
+  },
+)
+
+/**
+ * DELETE /goals/:id/contributions/:contributionId
+ * Remove a contribution
+ */
+
+app.delete("/:id/contributions/:contributionId", async (c) => {
+  const id = c.req.param("id")
+
+  const contributionId = c.req.param("contributionId")
+
+  const deleted = await goalService.deleteContribution(
+    c.env,
+
+    id,
+
+    contributionId,
+  )
+
+  if (!deleted) {
+    return error(c, "NOT_FOUND", "Contribution not found", 404)
+  }
+
+  return success(c, null)
+})
+
+export default app
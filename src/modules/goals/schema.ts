@@ -0,0 +1,161 @@
+import { z } from "zod"
+
+import { MAX_AMOUNT_RUPIAH } from "../../lib/currency"
+
+const dateSchema = z
+
+  .string()
+
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+
+// Create goal schema
+
+export const createGoalSchema = z.object({
+  name: z
+
+    .string()
+
+    .min(1, "Name is required")
+
+    .max(100, "Name must be less than 100 characters"),
+
+  targetAmount: z
+
+    .number()
+
+    .positive("Target amount must be positive")
+
+    .max(MAX_AMOUNT_RUPIAH, "Target amount is too large"),
+
+  targetDate: dateSchema,
+
+  accountId: z.string().uuid("Invalid account ID").nullable().default(null),
+})
+
+// Update goal schema
+
+export const updateGoalSchema = z
+
+  .object({
+    name: createGoalSchema.shape.name,
+
+    targetAmount: createGoalSchema.shape.targetAmount,
+
+    targetDate: dateSchema,
+
+    accountId: z.string().uuid("Invalid account ID").nullable(),
+  })
+
+  .partial()
+
+// Create contribution schema
+
+export const createGoalContributionSchema = z.object({
+  amount: z
+
+    .number()
+
+    .positive("Amount must be positive")
+
+    .max(MAX_AMOUNT_RUPIAH, "Amount is too large"),
+
+  contributionDate: dateSchema,
+
+  note: z
+
+    .string()
+
+    .max(500, "Note must be less than 500 characters")
+
+    .nullable()
+
+    .default(null),
+})
+
+// Goal response schema
+
+export const goalSchema = z.object({
+  id: z.string().uuid(),
+
+  name: z.string(),
+
+  targetRupiah: z.number().int().positive(),
+
+  targetDate: dateSchema,
+
+  accountId: z.string().uuid().nullable(),
+
+  accountName: z.string().nullable(),
+
+  savedRupiah: z.number().int().nonnegative(),
+
+  createdAt: z.date(),
+
+  updatedAt: z.date(),
+})
+
+// Contribution response schema
+
+export const goalContributionSchema = z.object({
+  id: z.string().uuid(),
+
+  goalId: z.string().uuid(),
+
+  amountRupiah: z.number().int().positive(),
+
+  contributionDate: dateSchema,
+
+  note: z.string().nullable(),
+
+  createdAt: z.date(),
+})
+
+// Goal status response
+
+export const goalStatusSchema = z.object({
+  goalId: z.string().uuid(),
+
+  targetRupiah: z.number().int().positive(),
+
+  targetDate: dateSchema,
+
+  savedRupiah: z.number().int().nonnegative(),
+
+  remainingRupiah: z.number().int().nonnegative(),
+
+  // May exceed 100 once the target is passed
+
+  percentComplete: z.number().nonnegative(),
+
+  isCompleted: z.boolean(),
+
+  // Whole months left until the target date, counting a partial month
+
+  monthsRemaining: z.number().int().nonnegative(),
+
+  // Amount to save each remaining month; everything left once the date has passed
+
+  monthlyAmountNeededRupiah: z.number().int().nonnegative(),
+
+  averageMonthlyContributionRupiah: z.number().int().nonnegative(),
+
+  // Null when nothing has been contributed yet
+
+  projectedCompletionDate: dateSchema.nullable(),
+
+  isOnTrack: z.boolean(),
+})
+
+// Types
+
+export type CreateGoalInput = z.infer<typeof createGoalSchema>
+
+export type UpdateGoalInput = z.infer<typeof updateGoalSchema>
+
+export type CreateGoalContributionInput = z.infer<typeof createGoalContributionSchema>
+
+export type Goal = z.infer<typeof goalSchema>
+
+export type GoalContribution = z.infer<typeof goalContributionSchema>
+
+export type GoalStatus = z.infer<typeof goalStatusSchema>
@@ -0,0 +1,301 @@
+import { getDb } from "../../db"
+
+import { goals, goalContributions, accounts } from "../../db/schema"
+
+import type { Env } from "../../env"
+
+import type {
+  CreateGoalInput,
+  UpdateGoalInput,
+  CreateGoalContributionInput,
+  Goal,
+  GoalContribution,
+  GoalStatus,
+} from "./schema"
+
+import { computeGoalProgress } from "./projection"
+
+import { toRupiah, toSafeInteger } from "../../lib/currency"
+
+import { eq, and, asc, desc, sql } from "drizzle-orm"
+
+const goalColumns = {
+  id: goals.id,
+
+  name: goals.name,
+
+  targetRupiah: goals.targetRupiah,
+
+  targetDate: goals.targetDate,
+
+  accountId: goals.accountId,
+
+  accountName: accounts.name,
+
+  savedRupiah:
+    sql<number>`(SELECT COALESCE(SUM(${goalContributions.amountRupiah}), 0) FROM ${goalContributions} WHERE ${goalContributions.goalId} = ${goals.id})`.mapWith(
+      toSafeInteger,
+    ),
+
+  createdAt: goals.createdAt,
+
+  updatedAt: goals.updatedAt,
+}
+
+export class GoalService {
+  /**
+   * Get all goals, nearest target date first
+   */
+
+  async list(env: Env): Promise<Goal[]> {
+    const db = getDb(env)
+
+    return db
+
+      .select(goalColumns)
+
+      .from(goals)
+
+      .leftJoin(accounts, eq(goals.accountId, accounts.id))
+
+      .orderBy(asc(goals.targetDate), goals.name)
+  }
+
+  /**
+   * Get a single goal by ID
+   */
+
+  async getById(env: Env, id: string): Promise<Goal | null> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .select(goalColumns)
+
+      .from(goals)
+
+      .leftJoin(accounts, eq(goals.accountId, accounts.id))
+
+      .where(eq(goals.id, id))
+
+      .limit(1)
+
+    return result[0] ?? null
+  }
+
+  /**
+   * Create a new goal
+   */
+
+  async create(env: Env, input: CreateGoalInput): Promise<Goal> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .insert(goals)
+
+      .values({
+        name: input.name,
+
+        targetRupiah: toRupiah(input.targetAmount),
+
+        targetDate: input.targetDate,
+
+        accountId: input.accountId,
+      })
+
+      .returning()
+
+    const created = await this.getById(env, result[0].id)
+
+    if (!created) {
+      throw new Error("Failed to create goal")
+    }
+
+    return created
+  }
+
+  /**
+   * Update a goal
+   */
+
+  async update(
+    env: Env,
+
+    id: string,
+
+    input: UpdateGoalInput,
+  ): Promise<Goal | null> {
+    const db = getDb(env)
+
+    const updateData: Record<string, unknown> = { updatedAt: new Date() }
+
+    if (input.name !== undefined) {
+      updateData.name = input.name
+    }
+
+    if (input.targetAmount !== undefined) {
+      updateData.targetRupiah = toRupiah(input.targetAmount)
+    }
+
+    if (input.targetDate !== undefined) {
+      updateData.targetDate = input.targetDate
+    }
+
+    if (input.accountId !== undefined) {
+      updateData.accountId = input.accountId
+    }
+
+    const result = await db
+
+      .update(goals)
+
+      .set(updateData)
+
+      .where(eq(goals.id, id))
+
+      .returning()
+
+    if (result.length === 0) {
+      return null
+    }
+
+    return this.getById(env, id)
+  }
+
+  /**
+   * Delete a goal together with its contributions
+   */
+
+  async delete(env: Env, id: string): Promise<boolean> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .delete(goals)
+
+      .where(eq(goals.id, id))
+
+      .returning()
+
+    return result.length > 0
+  }
+
+  /**
+   * Get a goal's contributions, newest first
+   */
+
+  async listContributions(
+    env: Env,
+
+    goalId: string,
+  ): Promise<GoalContribution[]> {
+    const db = getDb(env)
+
+    return db
+
+      .select()
+
+      .from(goalContributions)
+
+      .where(eq(goalContributions.goalId, goalId))
+
+      .orderBy(
+        desc(goalContributions.contributionDate),
+
+        desc(goalContributions.createdAt),
+      )
+  }
+
+  /**
+   * Record money set aside for a goal
+   */
+
+  async addContribution(
+    env: Env,
+
+    goalId: string,
+
+    input: CreateGoalContributionInput,
+  ): Promise<GoalContribution> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .insert(goalContributions)
+
+      .values({
+        goalId,
+
+        amountRupiah: toRupiah(input.amount),
+
+        contributionDate: input.contributionDate,
+
+        note: input.note,
+      })
+
+      .returning()
+
+    return result[0]
+  }
+
+  /**
+   * Delete a contribution from a goal
+   */
+
+  async deleteContribution(
+    env: Env,
+
+    goalId: string,
+
+    contributionId: string,
+  ): Promise<boolean> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .delete(goalContributions)
+
+      .where(
+        and(
+          eq(goalContributions.id, contributionId),
+
+          eq(goalContributions.goalId, goalId),
+        ),
+      )
+
+      .returning()
+
+    return result.length > 0
+  }
+
+  /**
+   * Get progress, the monthly amount still needed and a projected
+   * completion date for a goal
+   * @param today - Date the projection is made from
+   */
+
+  async getStatus(
+    env: Env,
+
+    id: string,
+
+    today: string,
+  ): Promise<GoalStatus | null> {
+    const goal = await this.getById(env, id)
+
+    if (!goal) {
+      return null
+    }
+
+    const contributions = await this.listContributions(env, id)
+
+    return {
+      goalId: goal.id,
+
+      ...computeGoalProgress(goal, contributions, today),
+    }
+  }
+}
+
+export const goalService = new GoalService()
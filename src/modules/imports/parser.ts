@@ -0,0 +1,307 @@
+/**
+ * Bank statement CSV parsing
+ * Turns raw statement text into ledger rows using an import profile's
+ * column mapping; pure so it can be tested without a database
+ */
+
+import { parseCsv } from "../../lib/csv"
+
+import { MAX_AMOUNT_RUPIAH, parseRupiahInput } from "../../lib/currency"
+
+import { daysInMonth, formatDate } from "../../lib/date"
+
+import type { ImportDateFormat, ImportRowError } from "./schema"
+
+export interface StatementMapping {
+  delimiter: string
+
+  decimalSeparator: string
+
+  skipRows: number
+
+  hasHeader: boolean
+
+  dateFormat: ImportDateFormat
+
+  dateColumn: number
+
+  descriptionColumn: number
+
+  amountColumn: number | null
+
+  debitColumn: number | null
+
+  creditColumn: number | null
+}
+
+export interface StatementRow {
+  row: number
+
+  transactionDate: string
+
+  description: string
+
+  amountRupiah: number
+
+  direction: "in" | "out"
+}
+
+export interface ParsedStatement {
+  totalRows: number
+
+  rows: StatementRow[]
+
+  errors: ImportRowError[]
+}
+
+const DATE_PATTERNS: Record<ImportDateFormat, RegExp> = {
+  "DD/MM/YYYY": /^(?<day>\d{1,2})\/(?<month>\d{1,2})\/(?<year>\d{4})$/,
+
+  "DD-MM-YYYY": /^(?<day>\d{1,2})-(?<month>\d{1,2})-(?<year>\d{4})$/,
+
+  "DD/MM/YY": /^(?<day>\d{1,2})\/(?<month>\d{1,2})\/(?<year>\d{2})$/,
+
+  "YYYY-MM-DD": /^(?<year>\d{4})-(?<month>\d{1,2})-(?<day>\d{1,2})$/,
+
+  "MM/DD/YYYY": /^(?<month>\d{1,2})\/(?<day>\d{1,2})\/(?<year>\d{4})$/,
+}
+
+// Suffixes banks append to mark debits (DB/DR/D) and credits (CR/K/KR)
+
+const DEBIT_SUFFIX = /\s*(DB|DR|D)$/i
+
+const CREDIT_SUFFIX = /\s*(CR|KR|K)$/i
+
+/**
+ * Parse a statement date into "YYYY-MM-DD"
+ * Spreadsheet text markers (leading apostrophe) are ignored
+ * @returns Date string, or null when the value is not a real date
+ */
+
+export function parseStatementDate(
+  value: string,
+
+  format: ImportDateFormat,
+): string | null {
+  const match = DATE_PATTERNS[format].exec(value.trim().replace(/^'/, ""))
+
+  if (!match?.groups) {
+    return null
+  }
+
+  const day = Number(match.groups.day)
+
+  const month = Number(match.groups.month)
+
+  let year = Number(match.groups.year)
+
+  // Two-digit years are always 20xx on bank statements
+
+  if (match.groups.year.length === 2) {
+    year += 2000
+  }
+
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) {
+    return null
+  }
+
+  return formatDate(year, month, day)
+}
+
+/**
+ * Parse a statement amount into signed whole rupiah
+ * Accepts thousand separators ("1.500.000,00" or "1,500,000.00"),
+ * "Rp" prefixes, leading/trailing minus, parentheses and DB/CR suffixes.
+ * Sen are rounded half up to the nearest rupiah.
+ * @returns Signed amount (negative = debit), or null when unparseable
+ */
+
+export function parseStatementAmount(
+  value: string,
+
+  decimalSeparator: string,
+): number | null {
+  let text = value.trim()
+
+  let negative = false
+
+  if (DEBIT_SUFFIX.test(text)) {
+    negative = true
+
+    text = text.replace(DEBIT_SUFFIX, "")
+  } else if (CREDIT_SUFFIX.test(text)) {
+    text = text.replace(CREDIT_SUFFIX, "")
+  }
+
+  if (/^\(.*\)$/.test(text)) {
+    negative = true
+
+    text = text.slice(1, -1)
+  }
+
+  if (/^-|-$/.test(text)) {
+    negative = !negative
+
+    text = text.replace(/^-|-$/g, "")
+  }
+
+  if (!/^(rp\.?)?\s*[\d.,\s]+$/i.test(text) || !/\d/.test(text)) {
+    return null
+  }
+
+  // Only 1-2 digits after the decimal separator count as sen;
+  // "1.500" with a "." separator is still fifteen hundred rupiah
+
+  let integerPart = text
+
+  let roundUp = false
+
+  const separatorIndex = text.lastIndexOf(decimalSeparator)
+
+  const fraction = text.slice(separatorIndex + 1)
+
+  if (separatorIndex >= 0 && /^\d{1,2}$/.test(fraction)) {
+    integerPart = text.slice(0, separatorIndex)
+
+    roundUp = Number(fraction.padEnd(2, "0")) >= 50
+  }
+
+  const rupiah = parseRupiahInput(integerPart) + (roundUp ? 1 : 0)
+
+  return negative ? -rupiah : rupiah
+}
+
+/**
+ * Read the ledger amount of a record using the profile's columns
+ * @returns Signed rupiah or an error message
+ */
+
+function readAmount(
+  record: string[],
+
+  mapping: StatementMapping,
+): number | string {
+  if (mapping.amountColumn !== null) {
+    const cell = record[mapping.amountColumn]?.trim() ?? ""
+
+    const amount = parseStatementAmount(cell, mapping.decimalSeparator)
+
+    return amount === null ? `Invalid amount "${cell}"` : amount
+  }
+
+  const debitCell = record[mapping.debitColumn ?? -1]?.trim() ?? ""
+
+  const creditCell = record[mapping.creditColumn ?? -1]?.trim() ?? ""
+
+  const debit = debitCell
+    ? parseStatementAmount(debitCell, mapping.decimalSeparator)
+    : 0
+
+  const credit = creditCell
+    ? parseStatementAmount(creditCell, mapping.decimalSeparator)
+    : 0
+
+  if (debit === null) {
+    return `Invalid debit amount "${debitCell}"`
+  }
+
+  if (credit === null) {
+    return `Invalid credit amount "${creditCell}"`
+  }
+
+  if (debit !== 0 && credit !== 0) {
+    return "Row has both a debit and a credit amount"
+  }
+
+  return credit - Math.abs(debit)
+}
+
+/**
+ * Parse a statement file into importable rows
+ * Rows that fail are reported with their record number instead of
+ * aborting the whole file
+ */
+
+export function parseStatement(
+  text: string,
+
+  mapping: StatementMapping,
+): ParsedStatement {
+  const records = parseCsv(text, mapping.delimiter)
+
+  const firstDataIndex = mapping.skipRows + (mapping.hasHeader ? 1 : 0)
+
+  const rows: StatementRow[] = []
+
+  const errors: ImportRowError[] = []
+
+  for (let index = firstDataIndex; index < records.length; index++) {
+    const record = records[index]
+
+    const row = index + 1
+
+    const dateCell = record[mapping.dateColumn]?.trim() ?? ""
+
+    const transactionDate = parseStatementDate(dateCell, mapping.dateFormat)
+
+    if (!transactionDate) {
+      errors.push({ row, message: `Invalid date "${dateCell}"` })
+
+      continue
+    }
+
+    const description = (record[mapping.descriptionColumn] ?? "")
+
+      .replace(/\s+/g, " ")
+
+      .trim()
+
+    if (!description) {
+      errors.push({ row, message: "Description is empty" })
+
+      continue
+    }
+
+    const amount = readAmount(record, mapping)
+
+    if (typeof amount === "string") {
+      errors.push({ row, message: amount })
+
+      continue
+    }
+
+    if (amount === 0) {
+      errors.push({ row, message: "Amount is zero" })
+
+      continue
+    }
+
+    if (Math.abs(amount) > MAX_AMOUNT_RUPIAH) {
+      errors.push({ row, message: "Amount is too large" })
+
+      continue
+    }
+
+    rows.push({
+      row,
+
+      transactionDate,
+
+      // Transactions store at most 500 characters
+
+      description: description.slice(0, 500),
+
+      amountRupiah: Math.abs(amount),
+
+      direction: amount < 0 ? "out" : "in",
+    })
+  }
+
+  return {
+    totalRows: Math.max(records.length - firstDataIndex, 0),
+
+    rows,
+
+    errors,
+  }
+}
@@ -0,0 +1,370 @@
+import { createApp } from "../../factory"
+
+import { zValidator } from "@hono/zod-validator"
+
+import { ownerOnlyMiddleware } from "../auth"
+
+import { importService } from "./service"
+
+import { accountService } from "../accounts/service"
+
+import { categoryService } from "../categories/service"
+
+import {
+  createImportProfileSchema,
+  updateImportProfileSchema,
+  importUploadSchema,
+  hasValidColumnMapping,
+} from "./schema"
+
+import type { ImportProfile, ImportUploadInput } from "./schema"
+
+import type { ImportTarget } from "./service"
+
+import { success, error } from "../../lib/response"
+
+import type { AppEnv } from "../../factory"
+
+import type { Env } from "../../env"
+
+const app = createApp<AppEnv>()
+
+// Apply owner-only middleware to all routes
+
+app.use("*", ownerOnlyMiddleware)
+
+interface ResolvedUpload {
+  profile: ImportProfile
+
+  target: ImportTarget
+}
+
+interface UploadError {
+  status: 400 | 404
+
+  message: string
+}
+
+/**
+ * Check that mapped categories exist and match the direction they are
+ * used for
+ * @returns Error message, or null when both are usable
+ */
+
+async function checkCategories(
+  env: Env,
+
+  expenseCategoryId: string | null | undefined,
+
+  incomeCategoryId: string | null | undefined,
+): Promise<string | null> {
+  const checks = [
+    { id: expenseCategoryId, type: "expense" },
+
+    { id: incomeCategoryId, type: "income" },
+  ]
+
+  for (const check of checks) {
+    if (!check.id) {
+      continue
+    }
+
+    const category = await categoryService.getById(env, check.id)
+
+    if (!category) {
+      return "Category not found"
+    }
+
+    if (category.type !== check.type) {
+      return `Imported ${
+        check.type === "expense" ? "debits" : "credits"
+      } need an ${check.type} category`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Resolve profile, account and categories for an uploaded statement
+ * @returns Import target, or an error response
+ */
+
+async function resolveUpload(
+  env: Env,
+
+  input: ImportUploadInput,
+): Promise<ResolvedUpload | UploadError> {
+  const profile = await importService.getProfileById(env, input.profileId)
+
+  if (!profile) {
+    return { status: 404, message: "Import profile not found" }
+  }
+
+  const account = await accountService.getById(env, input.accountId)
+
+  if (!account) {
+    return { status: 404, message: "Account not found" }
+  }
+
+  const target: ImportTarget = {
+    accountId: input.accountId,
+
+    expenseCategoryId: input.expenseCategoryId ?? profile.expenseCategoryId,
+
+    incomeCategoryId: input.incomeCategoryId ?? profile.incomeCategoryId,
+  }
+
+  const categoryError = await checkCategories(
+    env,
+
+    target.expenseCategoryId,
+
+    target.incomeCategoryId,
+  )
+
+  if (categoryError) {
+    return { status: 400, message: categoryError }
+  }
+
+  return { profile, target }
+}
+
+/**
+ * GET /imports/profiles
+ * List all import profiles
+ */
+
+app.get("/profiles", async (c) => {
+  const profiles = await importService.listProfiles(c.env)
+
+  return success(c, profiles)
+})
+
+/**
+ * GET /imports/profiles/:id
+ * Get a single import profile
+ */
+
+app.get("/profiles/:id", async (c) => {
+  const id = c.req.param("id")
+
+  const profile = await importService.getProfileById(c.env, id)
+
+  if (!profile) {
+    return error(c, "NOT_FOUND", "Import profile not found", 404)
+  }
+
+  return success(c, profile)
+})
+
+/**
+ * POST /imports/profiles
+ * Save a column mapping for a bank's statement export
+ */
+
+app.post(
+  "/profiles",
+
+  zValidator("json", createImportProfileSchema),
+
+  async (c) => {
+    const input = c.req.valid("json")
+
+    const categoryError = await checkCategories(
+      c.env,
+
+      input.expenseCategoryId,
+
+      input.incomeCategoryId,
+    )
+
+    if (categoryError) {
+      return error(c, "VALIDATION_ERROR", categoryError, 400)
+    }
+
+    const profile = await importService.createProfile(c.env, input)
+
+    return success(c, profile)
+  },
+)
+
+/**
+ * PUT /imports/profiles/:id
+ * Update an import profile
+ */
+
+app.put(
+  "/profiles/:id",
+
+  zValidator("json", updateImportProfileSchema),
+
+  async (c) => {
+    const id = c.req.param("id")
+
+    const input = c.req.valid("json")
+
+    const existing = await importService.getProfileById(c.env, id)
+
+    if (!existing) {
+      return error(c, "NOT_FOUND", "Import profile not found", 404)
+    }
+
+    if (!hasValidColumnMapping({ ...existing, ...input })) {
+      return error(
+        c,
+
+        "VALIDATION_ERROR",
+
+        "Set either amountColumn or both debitColumn and creditColumn",
+
+        400,
+      )
+    }
+
+    const categoryError = await checkCategories(
+      c.env,
+
+      input.expenseCategoryId,
+
+      input.incomeCategoryId,
+    )
+
+    if (categoryError) {
+      return error(c, "VALIDATION_ERROR", categoryError, 400)
+    }
+
+    const profile = await importService.updateProfile(c.env, id, input)
+
+    if (!profile) {
+      return error(c, "NOT_FOUND", "Import profile not found", 404)
+    }
+
+    return success(c, profile)
+  },
+)
+
+/**
+ * DELETE /imports/profiles/:id
+ * Delete an import profile
+ */
+
+app.delete("/profiles/:id", async (c) => {
+  const id = c.req.param("id")
+
+  const deleted = await importService.deleteProfile(c.env, id)
+
+  if (!deleted) {
+    return error(c, "NOT_FOUND", "Import profile not found", 404)
+  }
+
+  return success(c, null)
+})
+
+/**
+ * POST /imports/preview
+ * Dry run: parse an uploaded statement and report rows and errors
+ */
+
+app.post("/preview", zValidator("form", importUploadSchema), async (c) => {
+  const input = c.req.valid("form")
+
+  const resolved = await resolveUpload(c.env, input)
+
+  if ("status" in resolved) {
+    const code = resolved.status === 404 ? "NOT_FOUND" : "VALIDATION_ERROR"
+
+    return error(c, code, resolved.message, resolved.status)
+  }
+
+  const text = await input.file.text()
+
+  const preview = await importService.preview(
+    c.env,
+
+    resolved.profile,
+
+    resolved.target,
+
+    text,
+  )
+
+  return success(c, preview)
+})
+
+/**
+ * POST /imports
+ * Parse an uploaded statement and insert its rows in one transaction
+ * Fails when any row is invalid unless skipInvalid is "true"; likely
+ * duplicates are left out when skipDuplicates is "true"
+ */
+
+app.post("/", zValidator("form", importUploadSchema), async (c) => {
+  const input = c.req.valid("form")
+
+  const resolved = await resolveUpload(c.env, input)
+
+  if ("status" in resolved) {
+    const code = resolved.status === 404 ? "NOT_FOUND" : "VALIDATION_ERROR"
+
+    return error(c, code, resolved.message, resolved.status)
+  }
+
+  const text = await input.file.text()
+
+  const preview = await importService.preview(
+    c.env,
+
+    resolved.profile,
+
+    resolved.target,
+
+    text,
+  )
+
+  if (preview.errors.length > 0 && !input.skipInvalid) {
+    return error(
+      c,
+
+      "VALIDATION_ERROR",
+
+      `${preview.errors.length} row(s) could not be imported`,
+
+      400,
+
+      preview.errors,
+    )
+  }
+
+  const duplicateCount = preview.rows.filter(
+    (row) => row.possibleDuplicateIds.length > 0,
+  ).length
+
+  const rows = input.skipDuplicates
+    ? preview.rows.filter((row) => row.possibleDuplicateIds.length === 0)
+    : preview.rows
+
+  if (rows.length === 0) {
+    return error(c, "VALIDATION_ERROR", "No rows to import", 400)
+  }
+
+  const importedCount = await importService.commit(
+    c.env,
+
+    preview.accountId,
+
+    rows,
+  )
+
+  return success(c, {
+    importedCount,
+
+    skippedCount: preview.errors.length,
+
+    duplicateCount,
+
+    errors: preview.errors,
+  })
+})
+
+export default app
@@ -0,0 +1,258 @@
+import { z } from "zod"
+
+// Largest statement file accepted for a single import (2 MB)
+
+export const MAX_IMPORT_FILE_BYTES = 2 * 1024 * 1024
+
+// Supported statement date formats
+
+export const importDateFormatSchema = z.enum([
+  "DD/MM/YYYY",
+
+  "DD-MM-YYYY",
+
+  "DD/MM/YY",
+
+  "YYYY-MM-DD",
+
+  "MM/DD/YYYY",
+])
+
+const columnIndexSchema = z.number().int().min(0).max(99)
+
+// Import profile fields (no defaults so updates stay partial)
+
+const importProfileFieldsSchema = z.object({
+  name: z
+
+    .string()
+
+    .min(1, "Name is required")
+
+    .max(100, "Name must be less than 100 characters"),
+
+  delimiter: z.enum([",", ";", "\t", "|"]),
+
+  decimalSeparator: z.enum([",", "."]),
+
+  skipRows: z.number().int().min(0).max(50),
+
+  hasHeader: z.boolean(),
+
+  dateFormat: importDateFormatSchema,
+
+  dateColumn: columnIndexSchema,
+
+  descriptionColumn: columnIndexSchema,
+
+  amountColumn: columnIndexSchema.nullable(),
+
+  debitColumn: columnIndexSchema.nullable(),
+
+  creditColumn: columnIndexSchema.nullable(),
+
+  expenseCategoryId: z.string().uuid("Invalid category ID").nullable(),
+
+  incomeCategoryId: z.string().uuid("Invalid category ID").nullable(),
+})
+
+export interface ColumnMapping {
+  amountColumn: number | null
+
+  debitColumn: number | null
+
+  creditColumn: number | null
+}
+
+/**
+ * A profile reads amounts either from one signed column or from a
+ * debit/credit column pair, never both
+ */
+
+export function hasValidColumnMapping(mapping: ColumnMapping): boolean {
+  const hasSplit = mapping.debitColumn !== null && mapping.creditColumn !== null
+
+  if (mapping.amountColumn !== null) {
+    return mapping.debitColumn === null && mapping.creditColumn === null
+  }
+
+  return hasSplit && mapping.debitColumn !== mapping.creditColumn
+}
+
+const columnMappingMessage =
+  "Set either amountColumn or both debitColumn and creditColumn"
+
+// Create import profile schema
+
+export const createImportProfileSchema = importProfileFieldsSchema
+
+  .extend({
+    delimiter: importProfileFieldsSchema.shape.delimiter.default(","),
+
+    decimalSeparator:
+      importProfileFieldsSchema.shape.decimalSeparator.default(","),
+
+    skipRows: importProfileFieldsSchema.shape.skipRows.default(0),
+
+    hasHeader: z.boolean().default(true),
+
+    amountColumn: columnIndexSchema.nullable().default(null),
+
+    debitColumn: columnIndexSchema.nullable().default(null),
+
+    creditColumn: columnIndexSchema.nullable().default(null),
+
+    expenseCategoryId:
+      importProfileFieldsSchema.shape.expenseCategoryId.default(null),
+
+    incomeCategoryId:
+      importProfileFieldsSchema.shape.incomeCategoryId.default(null),
+  })
+
+  .refine(hasValidColumnMapping, {
+    message: columnMappingMessage,
+
+    path: ["amountColumn"],
+  })
+
+// Update import profile schema (mapping is re-checked after merging)
+
+export const updateImportProfileSchema = importProfileFieldsSchema.partial()
+
+// Statement upload (multipart/form-data)
+
+export const importUploadSchema = z.object({
+  file: z
+
+    .instanceof(File, { message: "A CSV file is required" })
+
+    .refine((file) => file.size > 0, "File is empty")
+
+    .refine(
+      (file) => file.size <= MAX_IMPORT_FILE_BYTES,
+
+      "File must be 2 MB or smaller",
+    ),
+
+  profileId: z.string().uuid("Invalid profile ID"),
+
+  accountId: z.string().uuid("Invalid account ID"),
+
+  // Override the profile's categories for this upload
+
+  expenseCategoryId: z.string().uuid("Invalid category ID").optional(),
+
+  incomeCategoryId: z.string().uuid("Invalid category ID").optional(),
+
+  // Import the valid rows even when some rows failed to parse
+
+  skipInvalid: z
+
+    .enum(["true", "false"])
+
+    .default("false")
+
+    .transform((value) => value === "true"),
+
+  // Leave out rows that look like transactions already in the ledger
+
+  skipDuplicates: z
+
+    .enum(["true", "false"])
+
+    .default("false")
+
+    .transform((value) => value === "true"),
+})
+
+// Import profile response schema
+
+export const importProfileSchema = importProfileFieldsSchema.extend({
+  id: z.string().uuid(),
+
+  delimiter: z.string(),
+
+  decimalSeparator: z.string(),
+
+  createdAt: z.date(),
+
+  updatedAt: z.date(),
+})
+
+// Parsed statement row
+
+export const importRowSchema = z.object({
+  // 1-based record number in the uploaded file
+
+  row: z.number().int().positive(),
+
+  transactionDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+
+  description: z.string(),
+
+  amountRupiah: z.number().int().positive(),
+
+  direction: z.enum(["in", "out"]),
+
+  categoryId: z.string().uuid(),
+
+  // Existing transactions this row likely duplicates
+
+  possibleDuplicateIds: z.array(z.string().uuid()),
+})
+
+// Row that could not be imported
+
+export const importRowErrorSchema = z.object({
+  row: z.number().int().positive(),
+
+  message: z.string(),
+})
+
+// Dry-run preview response
+
+export const importPreviewSchema = z.object({
+  profileId: z.string().uuid(),
+
+  accountId: z.string().uuid(),
+
+  totalRows: z.number().int().nonnegative(),
+
+  rows: z.array(importRowSchema),
+
+  errors: z.array(importRowErrorSchema),
+})
+
+// Commit response
+
+export const importResultSchema = z.object({
+  importedCount: z.number().int().nonnegative(),
+
+  skippedCount: z.number().int().nonnegative(),
+
+  // Rows flagged as likely duplicates (left out when skipDuplicates is set)
+
+  duplicateCount: z.number().int().nonnegative(),
+
+  errors: z.array(importRowErrorSchema),
+})
+
+// Types
+
+export type ImportDateFormat = z.infer<typeof importDateFormatSchema>
+
+export type CreateImportProfileInput = z.infer<typeof createImportProfileSchema>
+
+export type UpdateImportProfileInput = z.infer<typeof updateImportProfileSchema>
+
+export type ImportUploadInput = z.infer<typeof importUploadSchema>
+
+export type ImportProfile = z.infer<typeof importProfileSchema>
+
+export type ImportRow = z.infer<typeof importRowSchema>
+
+export type ImportRowError = z.infer<typeof importRowErrorSchema>
+
+export type ImportPreview = z.infer<typeof importPreviewSchema>
+
+export type ImportResult = z.infer<typeof importResultSchema>
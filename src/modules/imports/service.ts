@@ -0,0 +1,248 @@
+import { getDb } from "../../db"
+
+import { importProfiles, transactions } from "../../db/schema"
+
+import type { Env } from "../../env"
+
+import type {
+  CreateImportProfileInput,
+  UpdateImportProfileInput,
+  ImportProfile,
+  ImportPreview,
+  ImportRow,
+  ImportRowError,
+} from "./schema"
+
+import { parseStatement } from "./parser"
+
+import { transactionService } from "../transactions/service"
+
+import { settingsService } from "../settings/service"
+
+import { asc, eq } from "drizzle-orm"
+
+// Rows per INSERT statement when committing an import
+
+const INSERT_BATCH_SIZE = 500
+
+export interface ImportTarget {
+  accountId: string
+
+  expenseCategoryId: string | null
+
+  incomeCategoryId: string | null
+}
+
+export class ImportService {
+  /**
+   * Get all import profiles
+   */
+
+  async listProfiles(env: Env): Promise<ImportProfile[]> {
+    const db = getDb(env)
+
+    return db
+
+      .select()
+
+      .from(importProfiles)
+
+      .orderBy(asc(importProfiles.name))
+  }
+
+  /**
+   * Get a single import profile by ID
+   */
+
+  async getProfileById(env: Env, id: string): Promise<ImportProfile | null> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .select()
+
+      .from(importProfiles)
+
+      .where(eq(importProfiles.id, id))
+
+      .limit(1)
+
+    return result[0] ?? null
+  }
+
+  /**
+   * Create a new import profile
+   */
+
+  async createProfile(
+    env: Env,
+
+    input: CreateImportProfileInput,
+  ): Promise<ImportProfile> {
+    const db = getDb(env)
+
+    const result = await db.insert(importProfiles).values(input).returning()
+
+    return result[0]
+  }
+
+  /**
+   * Update an import profile
+   */
+
+  async updateProfile(
+    env: Env,
+
+    id: string,
+
+    input: UpdateImportProfileInput,
+  ): Promise<ImportProfile | null> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .update(importProfiles)
+
+      .set({ ...input, updatedAt: new Date() })
+
+      .where(eq(importProfiles.id, id))
+
+      .returning()
+
+    return result[0] ?? null
+  }
+
+  /**
+   * Delete an import profile
+   */
+
+  async deleteProfile(env: Env, id: string): Promise<boolean> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .delete(importProfiles)
+
+      .where(eq(importProfiles.id, id))
+
+      .returning({ id: importProfiles.id })
+
+    return result.length > 0
+  }
+
+  /**
+   * Parse a statement without writing anything
+   * Debits get the expense category and credits the income category;
+   * rows whose direction has no category are reported as errors.
+   * Rows are flagged when they look like transactions already saved.
+   */
+
+  async preview(
+    env: Env,
+
+    profile: ImportProfile,
+
+    target: ImportTarget,
+
+    text: string,
+  ): Promise<ImportPreview> {
+    const parsed = parseStatement(text, profile)
+
+    const { duplicateWindowDays } = await settingsService.get(env)
+
+    const duplicates = await transactionService.findDuplicateCandidates(
+      env,
+
+      parsed.rows.map((row) => ({ ...row, accountId: target.accountId })),
+
+      duplicateWindowDays,
+    )
+
+    const rows: ImportRow[] = []
+
+    const errors: ImportRowError[] = [...parsed.errors]
+
+    for (const [index, row] of parsed.rows.entries()) {
+      const categoryId =
+        row.direction === "out"
+          ? target.expenseCategoryId
+          : target.incomeCategoryId
+
+      if (!categoryId) {
+        errors.push({
+          row: row.row,
+
+          message:
+            row.direction === "out"
+              ? "No expense category set for debits"
+              : "No income category set for credits",
+        })
+
+        continue
+      }
+
+      rows.push({
+        ...row,
+
+        categoryId,
+
+        possibleDuplicateIds: duplicates[index],
+      })
+    }
+
+    errors.sort((a, b) => a.row - b.row)
+
+    return {
+      profileId: profile.id,
+
+      accountId: target.accountId,
+
+      totalRows: parsed.totalRows,
+
+      rows,
+
+      errors,
+    }
+  }
+
+  /**
+   * Insert previewed rows in a single database transaction
+   * Either every row is imported or none are
+   */
+
+  async commit(
+    env: Env,
+
+    accountId: string,
+
+    rows: ImportRow[],
+  ): Promise<number> {
+    const db = getDb(env)
+
+    const values = rows.map((row) => ({
+      categoryId: row.categoryId,
+
+      accountId,
+
+      amountRupiah: row.amountRupiah,
+
+      description: row.description,
+
+      transactionDate: row.transactionDate,
+    }))
+
+    await db.transaction(async (tx) => {
+      for (let i = 0; i < values.length; i += INSERT_BATCH_SIZE) {
+        await tx
+
+          .insert(transactions)
+
+          .values(values.slice(i, i + INSERT_BATCH_SIZE))
+      }
+    })
+
+    return values.length
+  }
+}
+
+export const importService = new ImportService()
@@ -0,0 +1,300 @@
+/**
+ * FIFO lot matching for investment trades
+ * Sells consume the oldest units first; each takes its share of what is
+ * left of a lot's cost, so partial sells always add up to the full cost.
+ * Quantities are matched in millionths of a unit so fractional fund units
+ * and gold grams compare exactly.
+ */
+
+import type { TradeSide } from "./schema"
+
+const MICRO_UNITS = 1_000_000
+
+export interface LotTrade {
+  id: string
+
+  side: TradeSide
+
+  tradeDate: string
+
+  quantity: number
+
+  amountRupiah: number
+}
+
+export interface OpenLot {
+  tradeId: string
+
+  tradeDate: string
+
+  quantity: number
+
+  costRupiah: number
+}
+
+export interface LotSale {
+  tradeId: string
+
+  tradeDate: string
+
+  quantity: number
+
+  proceedsRupiah: number
+
+  costRupiah: number
+
+  gainRupiah: number
+}
+
+export interface FifoResult {
+  quantity: number
+
+  costBasisRupiah: number
+
+  openLots: OpenLot[]
+
+  sales: LotSale[]
+
+  // First sell of more units than were held at the time
+
+  oversoldTradeId: string | null
+}
+
+export interface PricePoint {
+  date: string
+
+  price: number
+}
+
+// Open lot while matching, counted in micro-units
+
+interface HeldLot {
+  tradeId: string
+
+  tradeDate: string
+
+  units: number
+
+  costRupiah: number
+}
+
+function toMicroUnits(quantity: number): number {
+  return Math.round(quantity * MICRO_UNITS)
+}
+
+function fromMicroUnits(microUnits: number): number {
+  return microUnits / MICRO_UNITS
+}
+
+/**
+ * Match sells against buys, oldest first
+ * Trades are taken by date, buys before sells on the same day, keeping the
+ * given order otherwise
+ */
+
+export function computeFifo(trades: LotTrade[]): FifoResult {
+  const ordered = [...trades].sort(
+    (a, b) =>
+      a.tradeDate.localeCompare(b.tradeDate) ||
+      (a.side === b.side ? 0 : a.side === "buy" ? -1 : 1),
+  )
+
+  const lots: HeldLot[] = []
+
+  const sales: LotSale[] = []
+
+  let oversoldTradeId: string | null = null
+
+  for (const trade of ordered) {
+    const units = toMicroUnits(trade.quantity)
+
+    if (trade.side === "buy") {
+      lots.push({
+        tradeId: trade.id,
+
+        tradeDate: trade.tradeDate,
+
+        units,
+
+        costRupiah: trade.amountRupiah,
+      })
+
+      continue
+    }
+
+    let remaining = units
+
+    let costRupiah = 0
+
+    while (remaining > 0 && lots.length > 0) {
+      const lot = lots[0]
+
+      const taken = Math.min(remaining, lot.units)
+
+      const takenCost =
+        taken === lot.units
+          ? lot.costRupiah
+          : Math.round((lot.costRupiah * taken) / lot.units)
+
+      lot.units -= taken
+
+      lot.costRupiah -= takenCost
+
+      costRupiah += takenCost
+
+      remaining -= taken
+
+      if (lot.units === 0) {
+        lots.shift()
+      }
+    }
+
+    if (remaining > 0 && oversoldTradeId === null) {
+      oversoldTradeId = trade.id
+    }
+
+    sales.push({
+      tradeId: trade.id,
+
+      tradeDate: trade.tradeDate,
+
+      quantity: trade.quantity,
+
+      proceedsRupiah: trade.amountRupiah,
+
+      costRupiah,
+
+      gainRupiah: trade.amountRupiah - costRupiah,
+    })
+  }
+
+  const openLots = lots.map(
+    (lot): OpenLot => ({
+      tradeId: lot.tradeId,
+
+      tradeDate: lot.tradeDate,
+
+      quantity: fromMicroUnits(lot.units),
+
+      costRupiah: lot.costRupiah,
+    }),
+  )
+
+  return {
+    quantity: fromMicroUnits(lots.reduce((sum, lot) => sum + lot.units, 0)),
+
+    costBasisRupiah: openLots.reduce((sum, lot) => sum + lot.costRupiah, 0),
+
+    openLots,
+
+    sales,
+
+    oversoldTradeId,
+  }
+}
+
+/**
+ * Latest known price on or before a date
+ * Each trade also tells the price it was made at; an entered price wins
+ * over a trade on the same day
+ * @returns Price point, or null when nothing is known yet
+ */
+
+export function latestPrice(
+  prices: PricePoint[],
+
+  trades: LotTrade[],
+
+  asOf: string,
+): PricePoint | null {
+  let latest: PricePoint | null = null
+
+  for (const trade of trades) {
+    if (trade.tradeDate <= asOf && (!latest || trade.tradeDate > latest.date)) {
+      latest = {
+        date: trade.tradeDate,
+
+        price: trade.amountRupiah / trade.quantity,
+      }
+    }
+  }
+
+  for (const point of prices) {
+    if (point.date <= asOf && (!latest || point.date >= latest.date)) {
+      latest = point
+    }
+  }
+
+  return latest
+}
+
+export interface HoldingValue {
+  quantity: number
+
+  costBasisRupiah: number
+
+  price: number | null
+
+  priceDate: string | null
+
+  marketValueRupiah: number
+
+  unrealizedGainRupiah: number
+
+  unrealizedGainPercent: number
+
+  realizedGainRupiah: number
+}
+
+/**
+ * Value one instrument's holding as of a date
+ * Trades and prices after the date are ignored; unrealizedGainPercent is
+ * relative to the cost basis
+ */
+
+export function valueHolding(
+  trades: LotTrade[],
+
+  prices: PricePoint[],
+
+  asOf: string,
+): HoldingValue {
+  const held = trades.filter((trade) => trade.tradeDate <= asOf)
+
+  const fifo = computeFifo(held)
+
+  const latest = latestPrice(prices, held, asOf)
+
+  const marketValueRupiah = latest
+    ? Math.round(fifo.quantity * latest.price)
+    : 0
+
+  const unrealizedGainRupiah = marketValueRupiah - fifo.costBasisRupiah
+
+  const unrealizedGainPercent =
+    fifo.costBasisRupiah > 0
+      ? Math.round((unrealizedGainRupiah / fifo.costBasisRupiah) * 100 * 100) /
+        100
+      : 0
+
+  return {
+    quantity: fifo.quantity,
+
+    costBasisRupiah: fifo.costBasisRupiah,
+
+    price: latest?.price ?? null,
+
+    priceDate: latest?.date ?? null,
+
+    marketValueRupiah,
+
+    unrealizedGainRupiah,
+
+    unrealizedGainPercent,
+
+    realizedGainRupiah: fifo.sales.reduce(
+      (sum, sale) => sum + sale.gainRupiah,
+      0,
+    ),
+  }
+}
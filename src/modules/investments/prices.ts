@@ -0,0 +1,140 @@
+/**
+ * Price history CSV parsing
+ * Each record is "date,price"; pure so it can be tested without a database
+ */
+
+import { parseCsv } from "../../lib/csv"
+
+import { MAX_AMOUNT_RUPIAH } from "../../lib/currency"
+
+import { parseStatementDate } from "../imports/parser"
+
+import type { ImportDateFormat, ImportRowError } from "../imports/schema"
+
+export interface PriceHistoryFormat {
+  dateFormat: ImportDateFormat
+
+  decimalSeparator: "." | ","
+}
+
+export interface PriceRow {
+  row: number
+
+  priceDate: string
+
+  price: number
+}
+
+export interface ParsedPriceHistory {
+  rows: PriceRow[]
+
+  errors: ImportRowError[]
+}
+
+/**
+ * Parse a price such as "1.523,4567" or "1,523.4567"
+ * @returns Price per unit, or null when the value is not a number
+ */
+
+export function parsePrice(
+  value: string,
+  decimalSeparator: "." | ",",
+): number | null {
+  const thousandsSeparator = decimalSeparator === "." ? "," : "."
+
+  const text = value
+
+    .trim()
+
+    .replace(/^rp\.?\s*/i, "")
+
+    .split(thousandsSeparator)
+
+    .join("")
+
+    .replace(decimalSeparator, ".")
+
+  if (!/^\d+(\.\d+)?$/.test(text)) {
+    return null
+  }
+
+  return Number(text)
+}
+
+/**
+ * Parse a price history file
+ * Files using "," for decimals are read as ";"-separated. A first record
+ * without a valid date is taken as a header; other bad records are
+ * reported with their record number.
+ * @param valueName - What the second column holds, for error messages
+ * @param maxValue - Largest value accepted
+ */
+
+export function parsePriceHistory(
+  text: string,
+
+  format: PriceHistoryFormat,
+
+  valueName: string = "price",
+
+  maxValue: number = MAX_AMOUNT_RUPIAH,
+): ParsedPriceHistory {
+  const delimiter = format.decimalSeparator === "," ? ";" : ","
+
+  const records = parseCsv(text, delimiter)
+
+  const rows: PriceRow[] = []
+
+  const errors: ImportRowError[] = []
+
+  const seenDates = new Set<string>()
+
+  for (let index = 0; index < records.length; index++) {
+    const record = records[index]
+
+    const row = index + 1
+
+    const dateCell = record[0]?.trim() ?? ""
+
+    const priceDate = parseStatementDate(dateCell, format.dateFormat)
+
+    if (!priceDate) {
+      if (index > 0) {
+        errors.push({ row, message: `Invalid date "${dateCell}"` })
+      }
+
+      continue
+    }
+
+    const priceCell = record[1]?.trim() ?? ""
+
+    const price = parsePrice(priceCell, format.decimalSeparator)
+
+    if (price === null || price <= 0) {
+      errors.push({ row, message: `Invalid ${valueName} "${priceCell}"` })
+
+      continue
+    }
+
+    if (price > maxValue) {
+      errors.push({
+        row,
+        message: `Invalid ${valueName} "${priceCell}": too large`,
+      })
+
+      continue
+    }
+
+    if (seenDates.has(priceDate)) {
+      errors.push({ row, message: `Duplicate date ${priceDate}` })
+
+      continue
+    }
+
+    seenDates.add(priceDate)
+
+    rows.push({ row, priceDate, price })
+  }
+
+  return { rows, errors }
+}
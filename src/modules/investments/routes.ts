@@ -0,0 +1,470 @@
+import { createApp } from "../../factory"
+
+import { zValidator } from "@hono/zod-validator"
+
+import { ownerOnlyMiddleware } from "../auth"
+
+import { investmentService } from "./service"
+
+import { transactionService } from "../transactions/service"
+
+import {
+  createInstrumentSchema,
+  updateInstrumentSchema,
+  createTradeSchema,
+  createPriceSchema,
+  priceImportSchema,
+  holdingsFilterSchema,
+  realizedGainsFilterSchema,
+} from "./schema"
+
+import { computeFifo } from "./lots"
+
+import { parsePriceHistory } from "./prices"
+
+import { success, error } from "../../lib/response"
+
+import { toLocalDateString } from "../../lib/date"
+
+import type { AppEnv } from "../../factory"
+
+const app = createApp<AppEnv>()
+
+// Apply owner-only middleware to all routes
+
+app.use("*", ownerOnlyMiddleware)
+
+/**
+ * GET /investments/holdings
+ * Get units held, FIFO cost basis and unrealized gain per instrument
+ */
+
+app.get("/holdings", zValidator("query", holdingsFilterSchema), async (c) => {
+  const filter = c.req.valid("query")
+
+  const date = filter.date ?? toLocalDateString(new Date())
+
+  const report = await investmentService.getHoldings(c.env, date)
+
+  return success(c, report)
+})
+
+/**
+ * GET /investments/realized-gains
+ * Get the gain on each sell in a date range
+ */
+
+app.get(
+  "/realized-gains",
+
+  zValidator("query", realizedGainsFilterSchema),
+
+  async (c) => {
+    const filter = c.req.valid("query")
+
+    const report = await investmentService.getRealizedGains(c.env, filter)
+
+    return success(c, report)
+  },
+)
+
+/**
+ * GET /investments/instruments
+ * List all instruments
+ */
+
+app.get("/instruments", async (c) => {
+  const instruments = await investmentService.listInstruments(c.env)
+
+  return success(c, instruments)
+})
+
+/**
+ * GET /investments/instruments/:id
+ * Get a single instrument
+ */
+
+app.get("/instruments/:id", async (c) => {
+  const id = c.req.param("id")
+
+  const instrument = await investmentService.getInstrumentById(c.env, id)
+
+  if (!instrument) {
+    return error(c, "NOT_FOUND", "Instrument not found", 404)
+  }
+
+  return success(c, instrument)
+})
+
+/**
+ * POST /investments/instruments
+ * Create an instrument (mutual fund, stock, gold, bond)
+ */
+
+app.post(
+  "/instruments",
+
+  zValidator("json", createInstrumentSchema),
+
+  async (c) => {
+    const input = c.req.valid("json")
+
+    const instrument = await investmentService.createInstrument(c.env, input)
+
+    return success(c, instrument)
+  },
+)
+
+/**
+ * PUT /investments/instruments/:id
+ * Update an instrument
+ */
+
+app.put(
+  "/instruments/:id",
+
+  zValidator("json", updateInstrumentSchema),
+
+  async (c) => {
+    const id = c.req.param("id")
+
+    const input = c.req.valid("json")
+
+    const instrument = await investmentService.updateInstrument(
+      c.env,
+      id,
+      input,
+    )
+
+    if (!instrument) {
+      return error(c, "NOT_FOUND", "Instrument not found", 404)
+    }
+
+    return success(c, instrument)
+  },
+)
+
+/**
+ * DELETE /investments/instruments/:id
+ * Delete an instrument and its prices
+ */
+
+app.delete("/instruments/:id", async (c) => {
+  const id = c.req.param("id")
+
+  const instrument = await investmentService.getInstrumentById(c.env, id)
+
+  if (!instrument) {
+    return error(c, "NOT_FOUND", "Instrument not found", 404)
+  }
+
+  const deleted = await investmentService.deleteInstrument(c.env, id)
+
+  if (!deleted) {
+    return error(
+      c,
+
+      "CONFLICT",
+
+      "Cannot delete instrument with existing trades",
+
+      409,
+    )
+  }
+
+  return success(c, null)
+})
+
+/**
+ * GET /investments/instruments/:id/trades
+ * List an instrument's buys and sells
+ */
+
+app.get("/instruments/:id/trades", async (c) => {
+  const id = c.req.param("id")
+
+  const instrument = await investmentService.getInstrumentById(c.env, id)
+
+  if (!instrument) {
+    return error(c, "NOT_FOUND", "Instrument not found", 404)
+  }
+
+  const trades = await investmentService.listTrades(c.env, id)
+
+  return success(c, trades)
+})
+
+/**
+ * POST /investments/instruments/:id/trades
+ * Record a buy or sell, optionally linked to the ledger transaction that
+ * moved the cash: an expense for a buy, an income for a sell
+ */
+
+app.post(
+  "/instruments/:id/trades",
+
+  zValidator("json", createTradeSchema),
+
+  async (c) => {
+    const id = c.req.param("id")
+
+    const input = c.req.valid("json")
+
+    const instrument = await investmentService.getInstrumentById(c.env, id)
+
+    if (!instrument) {
+      return error(c, "NOT_FOUND", "Instrument not found", 404)
+    }
+
+    if (input.transactionId) {
+      const transaction = await transactionService.getById(
+        c.env,
+
+        input.transactionId,
+      )
+
+      if (!transaction) {
+        return error(c, "NOT_FOUND", "Transaction not found", 404)
+      }
+
+      const expectedType = input.side === "buy" ? "expense" : "income"
+
+      if (transaction.transferId || transaction.categoryType !== expectedType) {
+        return error(
+          c,
+
+          "VALIDATION_ERROR",
+
+          `A ${input.side} must be linked to an ${expectedType} transaction`,
+
+          400,
+        )
+      }
+
+      const linkedTradeId = await investmentService.findTradeIdForTransaction(
+        c.env,
+
+        input.transactionId,
+      )
+
+      if (linkedTradeId) {
+        return error(
+          c,
+
+          "CONFLICT",
+
+          "Transaction is already linked to a trade",
+
+          409,
+
+          { tradeId: linkedTradeId },
+        )
+      }
+    }
+
+    if (input.side === "sell") {
+      const trades = await investmentService.listTrades(c.env, id)
+
+      // Selling earlier than the units were bought would oversell too
+
+      const { oversoldTradeId } = computeFifo([
+        ...trades,
+
+        {
+          id: "",
+
+          side: input.side,
+
+          tradeDate: input.tradeDate,
+
+          quantity: input.quantity,
+
+          amountRupiah: input.amount,
+        },
+      ])
+
+      if (oversoldTradeId !== null) {
+        return error(
+          c,
+
+          "VALIDATION_ERROR",
+
+          `Cannot sell more ${instrument.unit} than are held`,
+
+          400,
+        )
+      }
+    }
+
+    const trade = await investmentService.addTrade(c.env, id, input)
+
+    return success(c, trade)
+  },
+)
+
+/**
+ * DELETE /investments/instruments/:id/trades/:tradeId
+ * Delete a trade; a linked transaction stays in the ledger
+ */
+
+app.delete("/instruments/:id/trades/:tradeId", async (c) => {
+  const id = c.req.param("id")
+
+  const tradeId = c.req.param("tradeId")
+
+  const trades = await investmentService.listTrades(c.env, id)
+
+  const trade = trades.find((candidate) => candidate.id === tradeId)
+
+  if (!trade) {
+    return error(c, "NOT_FOUND", "Trade not found", 404)
+  }
+
+  // Removing a buy must not leave a later sell without units to sell
+
+  if (trade.side === "buy") {
+    const { oversoldTradeId } = computeFifo(
+      trades.filter((candidate) => candidate.id !== tradeId),
+    )
+
+    if (oversoldTradeId !== null) {
+      return error(
+        c,
+
+        "CONFLICT",
+
+        "Cannot delete a buy whose units were sold later",
+
+        409,
+
+        { tradeId: oversoldTradeId },
+      )
+    }
+  }
+
+  const deleted = await investmentService.deleteTrade(c.env, id, tradeId)
+
+  if (!deleted) {
+    return error(c, "NOT_FOUND", "Trade not found", 404)
+  }
+
+  return success(c, null)
+})
+
+/**
+ * GET /investments/instruments/:id/prices
+ * List an instrument's price history
+ */
+
+app.get("/instruments/:id/prices", async (c) => {
+  const id = c.req.param("id")
+
+  const instrument = await investmentService.getInstrumentById(c.env, id)
+
+  if (!instrument) {
+    return error(c, "NOT_FOUND", "Instrument not found", 404)
+  }
+
+  const prices = await investmentService.listPrices(c.env, id)
+
+  return success(c, prices)
+})
+
+/**
+ * POST /investments/instruments/:id/prices
+ * Record a price per unit, replacing any price on the same date
+ */
+
+app.post(
+  "/instruments/:id/prices",
+
+  zValidator("json", createPriceSchema),
+
+  async (c) => {
+    const id = c.req.param("id")
+
+    const input = c.req.valid("json")
+
+    const instrument = await investmentService.getInstrumentById(c.env, id)
+
+    if (!instrument) {
+      return error(c, "NOT_FOUND", "Instrument not found", 404)
+    }
+
+    const price = await investmentService.setPrice(c.env, id, input)
+
+    return success(c, price)
+  },
+)
+
+/**
+ * POST /investments/instruments/:id/prices/import
+ * Import a "date,price" CSV; valid rows are saved even when others fail
+ */
+
+app.post(
+  "/instruments/:id/prices/import",
+
+  zValidator("form", priceImportSchema),
+
+  async (c) => {
+    const id = c.req.param("id")
+
+    const input = c.req.valid("form")
+
+    const instrument = await investmentService.getInstrumentById(c.env, id)
+
+    if (!instrument) {
+      return error(c, "NOT_FOUND", "Instrument not found", 404)
+    }
+
+    const text = await input.file.text()
+
+    const parsed = parsePriceHistory(text, input)
+
+    if (parsed.rows.length === 0) {
+      return error(
+        c,
+
+        "VALIDATION_ERROR",
+
+        "No valid prices found in file",
+
+        400,
+
+        parsed.errors,
+      )
+    }
+
+    const importedCount = await investmentService.importPrices(
+      c.env,
+
+      id,
+
+      parsed.rows,
+    )
+
+    return success(c, { importedCount, errors: parsed.errors })
+  },
+)
+
+/**
+ * DELETE /investments/instruments/:id/prices/:priceId
+ * Delete a price from an instrument's history
+ */
+
+app.delete("/instruments/:id/prices/:priceId", async (c) => {
+  const id = c.req.param("id")
+
+  const priceId = c.req.param("priceId")
+
+  const deleted = await investmentService.deletePrice(c.env, id, priceId)
+
+  if (!deleted) {
+    return error(c, "NOT_FOUND", "Price not found", 404)
+  }
+
+  return success(c, null)
+})
+
+export default app
@@ -0,0 +1,391 @@
+import { z } from "zod"
+
+import { MAX_AMOUNT_RUPIAH } from "../../lib/currency"
+
+import {
+  MAX_IMPORT_FILE_BYTES,
+  importDateFormatSchema,
+  importRowErrorSchema,
+} from "../imports/schema"
+
+const dateSchema = z
+
+  .string()
+
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+
+// Largest quantity in one trade; keeps micro-unit arithmetic exact
+
+export const MAX_TRADE_QUANTITY = 1_000_000_000
+
+// Instrument type enum
+
+export const instrumentTypeSchema = z.enum([
+  "mutual_fund",
+
+  "stock",
+
+  "gold",
+
+  "bond",
+
+  "other",
+])
+
+// Trade side enum
+
+export const tradeSideSchema = z.enum(["buy", "sell"])
+
+// Create instrument schema
+
+export const createInstrumentSchema = z.object({
+  name: z
+
+    .string()
+
+    .min(1, "Name is required")
+
+    .max(100, "Name must be less than 100 characters"),
+
+  code: z
+
+    .string()
+
+    .min(1, "Code must not be empty")
+
+    .max(20, "Code must be less than 20 characters")
+
+    .nullable()
+
+    .default(null),
+
+  type: instrumentTypeSchema,
+
+  unit: z
+
+    .string()
+
+    .min(1, "Unit must not be empty")
+
+    .max(20, "Unit must be less than 20 characters")
+
+    .default("unit"),
+})
+
+// Update instrument schema
+
+export const updateInstrumentSchema = z
+
+  .object({
+    name: createInstrumentSchema.shape.name,
+
+    code: createInstrumentSchema.shape.code.unwrap(),
+
+    type: instrumentTypeSchema,
+
+    unit: createInstrumentSchema.shape.unit.unwrap(),
+  })
+
+  .partial()
+
+// Create trade schema
+
+export const createTradeSchema = z.object({
+  side: tradeSideSchema,
+
+  tradeDate: dateSchema,
+
+  quantity: z
+
+    .number()
+
+    .positive("Quantity must be positive")
+
+    .max(MAX_TRADE_QUANTITY, "Quantity is too large"),
+
+  // Cash paid including fees (buy) or received after fees (sell)
+
+  amount: z
+
+    .number()
+
+    .positive("Amount must be positive")
+
+    .max(MAX_AMOUNT_RUPIAH, "Amount is too large"),
+
+  // Ledger transaction carrying the cash side, left out of income/expense
+
+  transactionId: z
+
+    .string()
+
+    .uuid("Invalid transaction ID")
+
+    .nullable()
+
+    .default(null),
+
+  note: z
+
+    .string()
+
+    .max(500, "Note must be less than 500 characters")
+
+    .nullable()
+
+    .default(null),
+})
+
+// Create price schema
+
+export const createPriceSchema = z.object({
+  priceDate: dateSchema,
+
+  price: z
+
+    .number()
+
+    .positive("Price must be positive")
+
+    .max(MAX_AMOUNT_RUPIAH, "Price is too large"),
+})
+
+// Price history upload (multipart/form-data)
+// Rows are "date,price"; a header row is skipped
+
+export const priceImportSchema = z.object({
+  file: z
+
+    .instanceof(File, { message: "A CSV file is required" })
+
+    .refine((file) => file.size > 0, "File is empty")
+
+    .refine(
+      (file) => file.size <= MAX_IMPORT_FILE_BYTES,
+
+      "File must be 2 MB or smaller",
+    ),
+
+  dateFormat: importDateFormatSchema.default("YYYY-MM-DD"),
+
+  decimalSeparator: z.enum([".", ","]).default("."),
+})
+
+// Holdings query schema
+
+export const holdingsFilterSchema = z.object({
+  // Value holdings as of this date (defaults to today)
+
+  date: dateSchema.optional(),
+})
+
+// Realized gains query schema
+
+export const realizedGainsFilterSchema = z
+
+  .object({
+    from: dateSchema,
+
+    to: dateSchema,
+  })
+
+  .refine((filter) => filter.from <= filter.to, {
+    message: "from must not be after to",
+
+    path: ["to"],
+  })
+
+// Instrument response schema
+
+export const instrumentSchema = z.object({
+  id: z.string().uuid(),
+
+  name: z.string(),
+
+  code: z.string().nullable(),
+
+  type: instrumentTypeSchema,
+
+  unit: z.string(),
+
+  createdAt: z.date(),
+
+  updatedAt: z.date(),
+})
+
+// Trade response schema
+
+export const tradeSchema = z.object({
+  id: z.string().uuid(),
+
+  instrumentId: z.string().uuid(),
+
+  side: tradeSideSchema,
+
+  tradeDate: dateSchema,
+
+  quantity: z.number().positive(),
+
+  amountRupiah: z.number().int().positive(),
+
+  transactionId: z.string().uuid().nullable(),
+
+  note: z.string().nullable(),
+
+  createdAt: z.date(),
+})
+
+// Price response schema
+
+export const priceSchema = z.object({
+  id: z.string().uuid(),
+
+  instrumentId: z.string().uuid(),
+
+  priceDate: dateSchema,
+
+  price: z.number().positive(),
+
+  createdAt: z.date(),
+})
+
+// Price import response
+
+export const priceImportResultSchema = z.object({
+  importedCount: z.number().int().nonnegative(),
+
+  errors: z.array(importRowErrorSchema),
+})
+
+// Holding of one instrument, valued at its latest price
+
+export const holdingSchema = z.object({
+  instrumentId: z.string().uuid(),
+
+  name: z.string(),
+
+  code: z.string().nullable(),
+
+  type: instrumentTypeSchema,
+
+  unit: z.string(),
+
+  quantity: z.number().nonnegative(),
+
+  // FIFO cost of the units still held
+
+  costBasisRupiah: z.number().int().nonnegative(),
+
+  // Latest entered price, or the latest trade's price when that is newer;
+  // null before the first trade
+
+  price: z.number().positive().nullable(),
+
+  priceDate: dateSchema.nullable(),
+
+  marketValueRupiah: z.number().int().nonnegative(),
+
+  unrealizedGainRupiah: z.number().int(),
+
+  unrealizedGainPercent: z.number(),
+
+  realizedGainRupiah: z.number().int(),
+})
+
+// Totals across holdings
+
+export const holdingTotalsSchema = z.object({
+  costBasisRupiah: z.number().int().nonnegative(),
+
+  marketValueRupiah: z.number().int().nonnegative(),
+
+  unrealizedGainRupiah: z.number().int(),
+
+  realizedGainRupiah: z.number().int(),
+})
+
+// Holdings response
+
+export const holdingsReportSchema = z.object({
+  date: dateSchema,
+
+  holdings: z.array(holdingSchema),
+
+  totals: holdingTotalsSchema,
+})
+
+// Gain realized by one sell, against the FIFO cost of the units sold
+
+export const realizedGainSchema = z.object({
+  tradeId: z.string().uuid(),
+
+  instrumentId: z.string().uuid(),
+
+  instrumentName: z.string(),
+
+  tradeDate: dateSchema,
+
+  quantity: z.number().positive(),
+
+  proceedsRupiah: z.number().int().nonnegative(),
+
+  costRupiah: z.number().int().nonnegative(),
+
+  gainRupiah: z.number().int(),
+})
+
+// Realized gains response
+
+export const realizedGainsReportSchema = z.object({
+  from: dateSchema,
+
+  to: dateSchema,
+
+  gains: z.array(realizedGainSchema),
+
+  totals: z.object({
+    proceedsRupiah: z.number().int().nonnegative(),
+
+    costRupiah: z.number().int().nonnegative(),
+
+    gainRupiah: z.number().int(),
+  }),
+})
+
+// Types
+
+export type InstrumentType = z.infer<typeof instrumentTypeSchema>
+
+export type TradeSide = z.infer<typeof tradeSideSchema>
+
+export type CreateInstrumentInput = z.infer<typeof createInstrumentSchema>
+
+export type UpdateInstrumentInput = z.infer<typeof updateInstrumentSchema>
+
+export type CreateTradeInput = z.infer<typeof createTradeSchema>
+
+export type CreatePriceInput = z.infer<typeof createPriceSchema>
+
+export type PriceImportInput = z.infer<typeof priceImportSchema>
+
+export type HoldingsFilter = z.infer<typeof holdingsFilterSchema>
+
+export type RealizedGainsFilter = z.infer<typeof realizedGainsFilterSchema>
+
+export type Instrument = z.infer<typeof instrumentSchema>
+
+export type Trade = z.infer<typeof tradeSchema>
+
+export type Price = z.infer<typeof priceSchema>
+
+export type PriceImportResult = z.infer<typeof priceImportResultSchema>
+
+export type Holding = z.infer<typeof holdingSchema>
+
+export type HoldingTotals = z.infer<typeof holdingTotalsSchema>
+
+export type HoldingsReport = z.infer<typeof holdingsReportSchema>
+
+export type RealizedGain = z.infer<typeof realizedGainSchema>
+
+export type RealizedGainsReport = z.infer<typeof realizedGainsReportSchema>
@@ -0,0 +1,633 @@
+import { getDb } from "../../db"
+
+import {
+  investmentInstruments,
+  investmentTrades,
+  investmentPrices,
+} from "../../db/schema"
+
+import type { Env } from "../../env"
+
+import type {
+  CreateInstrumentInput,
+  UpdateInstrumentInput,
+  CreateTradeInput,
+  CreatePriceInput,
+  RealizedGainsFilter,
+  Instrument,
+  Trade,
+  Price,
+  Holding,
+  HoldingsReport,
+  RealizedGain,
+  RealizedGainsReport,
+} from "./schema"
+
+import { computeFifo, valueHolding } from "./lots"
+
+import type { LotTrade, PricePoint } from "./lots"
+
+import type { PriceRow } from "./prices"
+
+import { toRupiah, toSafeInteger } from "../../lib/currency"
+
+import { eq, and, asc, desc, lte, sql } from "drizzle-orm"
+
+// Rows per INSERT statement when importing prices
+
+const INSERT_BATCH_SIZE = 500
+
+function groupByInstrument<T extends { instrumentId: string }>(
+  rows: T[],
+): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+
+  for (const row of rows) {
+    const group = groups.get(row.instrumentId)
+
+    if (group) {
+      group.push(row)
+    } else {
+      groups.set(row.instrumentId, [row])
+    }
+  }
+
+  return groups
+}
+
+export class InvestmentService {
+  /**
+   * Get all instruments
+   */
+
+  async listInstruments(env: Env): Promise<Instrument[]> {
+    const db = getDb(env)
+
+    return db
+
+      .select()
+
+      .from(investmentInstruments)
+
+      .orderBy(investmentInstruments.name)
+  }
+
+  /**
+   * Get a single instrument by ID
+   */
+
+  async getInstrumentById(env: Env, id: string): Promise<Instrument | null> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .select()
+
+      .from(investmentInstruments)
+
+      .where(eq(investmentInstruments.id, id))
+
+      .limit(1)
+
+    return result[0] ?? null
+  }
+
+  /**
+   * Create a new instrument
+   */
+
+  async createInstrument(
+    env: Env,
+
+    input: CreateInstrumentInput,
+  ): Promise<Instrument> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .insert(investmentInstruments)
+
+      .values({
+        name: input.name,
+
+        code: input.code,
+
+        type: input.type,
+
+        unit: input.unit,
+      })
+
+      .returning()
+
+    return result[0]
+  }
+
+  /**
+   * Update an instrument
+   */
+
+  async updateInstrument(
+    env: Env,
+
+    id: string,
+
+    input: UpdateInstrumentInput,
+  ): Promise<Instrument | null> {
+    const db = getDb(env)
+
+    const updateData: Record<string, unknown> = { updatedAt: new Date() }
+
+    if (input.name !== undefined) {
+      updateData.name = input.name
+    }
+
+    if (input.code !== undefined) {
+      updateData.code = input.code
+    }
+
+    if (input.type !== undefined) {
+      updateData.type = input.type
+    }
+
+    if (input.unit !== undefined) {
+      updateData.unit = input.unit
+    }
+
+    const result = await db
+
+      .update(investmentInstruments)
+
+      .set(updateData)
+
+      .where(eq(investmentInstruments.id, id))
+
+      .returning()
+
+    return result[0] ?? null
+  }
+
+  /**
+   * Delete an instrument together with its prices
+   * @returns false when the instrument still has trades
+   */
+
+  async deleteInstrument(env: Env, id: string): Promise<boolean> {
+    const db = getDb(env)
+
+    const tradeCount = await db
+
+      .select({ count: sql<number>`count(*)`.mapWith(toSafeInteger) })
+
+      .from(investmentTrades)
+
+      .where(eq(investmentTrades.instrumentId, id))
+
+    if (tradeCount[0]?.count && tradeCount[0].count > 0) {
+      return false
+    }
+
+    const result = await db
+
+      .delete(investmentInstruments)
+
+      .where(eq(investmentInstruments.id, id))
+
+      .returning()
+
+    return result.length > 0
+  }
+
+  /**
+   * Get an instrument's trades, newest first
+   */
+
+  async listTrades(env: Env, instrumentId: string): Promise<Trade[]> {
+    const db = getDb(env)
+
+    return db
+
+      .select()
+
+      .from(investmentTrades)
+
+      .where(eq(investmentTrades.instrumentId, instrumentId))
+
+      .orderBy(
+        desc(investmentTrades.tradeDate),
+        desc(investmentTrades.createdAt),
+      )
+  }
+
+  /**
+   * Find the trade a transaction is already linked to
+   */
+
+  async findTradeIdForTransaction(
+    env: Env,
+
+    transactionId: string,
+  ): Promise<string | null> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .select({ tradeId: investmentTrades.id })
+
+      .from(investmentTrades)
+
+      .where(eq(investmentTrades.transactionId, transactionId))
+
+      .limit(1)
+
+    return result[0]?.tradeId ?? null
+  }
+
+  /**
+   * Record a buy or sell of an instrument
+   */
+
+  async addTrade(
+    env: Env,
+
+    instrumentId: string,
+
+    input: CreateTradeInput,
+  ): Promise<Trade> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .insert(investmentTrades)
+
+      .values({
+        instrumentId,
+
+        side: input.side,
+
+        tradeDate: input.tradeDate,
+
+        quantity: input.quantity,
+
+        amountRupiah: toRupiah(input.amount),
+
+        transactionId: input.transactionId,
+
+        note: input.note,
+      })
+
+      .returning()
+
+    return result[0]
+  }
+
+  /**
+   * Delete a trade; a linked transaction stays in the ledger
+   */
+
+  async deleteTrade(
+    env: Env,
+
+    instrumentId: string,
+
+    tradeId: string,
+  ): Promise<boolean> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .delete(investmentTrades)
+
+      .where(
+        and(
+          eq(investmentTrades.id, tradeId),
+
+          eq(investmentTrades.instrumentId, instrumentId),
+        ),
+      )
+
+      .returning()
+
+    return result.length > 0
+  }
+
+  /**
+   * Get an instrument's prices, newest first
+   */
+
+  async listPrices(env: Env, instrumentId: string): Promise<Price[]> {
+    const db = getDb(env)
+
+    return db
+
+      .select()
+
+      .from(investmentPrices)
+
+      .where(eq(investmentPrices.instrumentId, instrumentId))
+
+      .orderBy(desc(investmentPrices.priceDate))
+  }
+
+  /**
+   * Record an instrument's price on a date, replacing any price already
+   * recorded for that date
+   */
+
+  async setPrice(
+    env: Env,
+
+    instrumentId: string,
+
+    input: CreatePriceInput,
+  ): Promise<Price> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .insert(investmentPrices)
+
+      .values({
+        instrumentId,
+
+        priceDate: input.priceDate,
+
+        price: input.price,
+      })
+
+      .onConflictDoUpdate({
+        target: [investmentPrices.instrumentId, investmentPrices.priceDate],
+
+        set: { price: input.price },
+      })
+
+      .returning()
+
+    return result[0]
+  }
+
+  /**
+   * Record many prices at once, replacing prices on the same dates
+   * Rows are written in batches within one database transaction
+   * @returns Number of prices written
+   */
+
+  async importPrices(
+    env: Env,
+
+    instrumentId: string,
+
+    rows: Pick<PriceRow, "priceDate" | "price">[],
+  ): Promise<number> {
+    if (rows.length === 0) {
+      return 0
+    }
+
+    const db = getDb(env)
+
+    const values = rows.map((row) => ({
+      instrumentId,
+
+      priceDate: row.priceDate,
+
+      price: row.price,
+    }))
+
+    let written = 0
+
+    await db.transaction(async (tx) => {
+      for (let i = 0; i < values.length; i += INSERT_BATCH_SIZE) {
+        const result = await tx
+
+          .insert(investmentPrices)
+
+          .values(values.slice(i, i + INSERT_BATCH_SIZE))
+
+          .onConflictDoUpdate({
+            target: [investmentPrices.instrumentId, investmentPrices.priceDate],
+
+            set: { price: sql`excluded.price` },
+          })
+
+          .returning({ id: investmentPrices.id })
+
+        written += result.length
+      }
+    })
+
+    return written
+  }
+
+  /**
+   * Delete a price from an instrument
+   */
+
+  async deletePrice(
+    env: Env,
+
+    instrumentId: string,
+
+    priceId: string,
+  ): Promise<boolean> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .delete(investmentPrices)
+
+      .where(
+        and(
+          eq(investmentPrices.id, priceId),
+
+          eq(investmentPrices.instrumentId, instrumentId),
+        ),
+      )
+
+      .returning()
+
+    return result.length > 0
+  }
+
+  /**
+   * Get trades up to a date for FIFO matching, grouped by instrument
+   */
+
+  private async loadLotTrades(
+    env: Env,
+
+    asOf: string,
+  ): Promise<Map<string, LotTrade[]>> {
+    const db = getDb(env)
+
+    const rows = await db
+
+      .select({
+        id: investmentTrades.id,
+
+        instrumentId: investmentTrades.instrumentId,
+
+        side: investmentTrades.side,
+
+        tradeDate: investmentTrades.tradeDate,
+
+        quantity: investmentTrades.quantity,
+
+        amountRupiah: investmentTrades.amountRupiah,
+      })
+
+      .from(investmentTrades)
+
+      .where(lte(investmentTrades.tradeDate, asOf))
+
+      .orderBy(asc(investmentTrades.tradeDate), asc(investmentTrades.createdAt))
+
+    return groupByInstrument(rows)
+  }
+
+  /**
+   * Get every instrument held or traded up to a date, valued at its latest
+   * known price
+   */
+
+  async getHoldings(env: Env, asOf: string): Promise<HoldingsReport> {
+    const db = getDb(env)
+
+    const [instruments, tradesByInstrument, priceRows] = await Promise.all([
+      this.listInstruments(env),
+
+      this.loadLotTrades(env, asOf),
+
+      db
+
+        .select({
+          instrumentId: investmentPrices.instrumentId,
+
+          date: investmentPrices.priceDate,
+
+          price: investmentPrices.price,
+        })
+
+        .from(investmentPrices)
+
+        .where(lte(investmentPrices.priceDate, asOf)),
+    ])
+
+    const pricesByInstrument = groupByInstrument<PricePoint & {
+      instrumentId: string
+    }>(priceRows)
+
+    const holdings: Holding[] = []
+
+    for (const instrument of instruments) {
+      const trades = tradesByInstrument.get(instrument.id)
+
+      if (!trades) {
+        continue
+      }
+
+      const value = valueHolding(
+        trades,
+
+        pricesByInstrument.get(instrument.id) ?? [],
+
+        asOf,
+      )
+
+      holdings.push({
+        instrumentId: instrument.id,
+
+        name: instrument.name,
+
+        code: instrument.code,
+
+        type: instrument.type,
+
+        unit: instrument.unit,
+
+        ...value,
+      })
+    }
+
+    const sum = (pick: (holding: Holding) => number): number =>
+      holdings.reduce((total, holding) => total + pick(holding), 0)
+
+    return {
+      date: asOf,
+
+      holdings,
+
+      totals: {
+        costBasisRupiah: sum((holding) => holding.costBasisRupiah),
+
+        marketValueRupiah: sum((holding) => holding.marketValueRupiah),
+
+        unrealizedGainRupiah: sum((holding) => holding.unrealizedGainRupiah),
+
+        realizedGainRupiah: sum((holding) => holding.realizedGainRupiah),
+      },
+    }
+  }
+
+  /**
+   * Get the gain on each sell in a date range against the FIFO cost of
+   * the units sold
+   */
+
+  async getRealizedGains(
+    env: Env,
+
+    filter: RealizedGainsFilter,
+  ): Promise<RealizedGainsReport> {
+    const [instruments, tradesByInstrument] = await Promise.all([
+      this.listInstruments(env),
+
+      this.loadLotTrades(env, filter.to),
+    ])
+
+    const gains: RealizedGain[] = []
+
+    for (const instrument of instruments) {
+      const trades = tradesByInstrument.get(instrument.id) ?? []
+
+      for (const sale of computeFifo(trades).sales) {
+        if (sale.tradeDate < filter.from) {
+          continue
+        }
+
+        gains.push({
+          ...sale,
+
+          instrumentId: instrument.id,
+
+          instrumentName: instrument.name,
+        })
+      }
+    }
+
+    gains.sort(
+      (a, b) =>
+        a.tradeDate.localeCompare(b.tradeDate) ||
+        a.instrumentName.localeCompare(b.instrumentName),
+    )
+
+    const sum = (pick: (gain: RealizedGain) => number): number =>
+      gains.reduce((total, gain) => total + pick(gain), 0)
+
+    return {
+      from: filter.from,
+
+      to: filter.to,
+
+      gains,
+
+      totals: {
+        proceedsRupiah: sum((gain) => gain.proceedsRupiah),
+
+        costRupiah: sum((gain) => gain.costRupiah),
+
+        gainRupiah: sum((gain) => gain.gainRupiah),
+      },
+    }
+  }
+}
+
+export const investmentService = new InvestmentService()
@@ -0,0 +1,209 @@
+import { createApp } from "../../factory"
+
+import { zValidator } from "@hono/zod-validator"
+
+import { ownerOnlyMiddleware } from "../auth"
+
+import { recurringService } from "./service"
+
+import {
+  createRecurringRuleSchema,
+  updateRecurringRuleSchema,
+  recurringPreviewSchema,
+} from "./schema"
+
+import { success, error } from "../../lib/response"
+
+import type { AppEnv } from "../../factory"
+
+const app = createApp<AppEnv>()
+
+// Apply owner-only middleware to all routes
+
+app.use("*", ownerOnlyMiddleware)
+
+/**
+ * GET /recurring
+ * List all recurring rules
+ */
+
+app.get("/", async (c) => {
+  const rules = await recurringService.list(c.env)
+
+  return success(c, rules)
+})
+
+/**
+ * POST /recurring
+ * Create a new recurring rule
+ */
+
+app.post("/", zValidator("json", createRecurringRuleSchema), async (c) => {
+  const input = c.req.valid("json")
+
+  const rule = await recurringService.create(c.env, input)
+
+  return success(c, rule)
+})
+
+/**
+ * GET /recurring/:id
+ * Get a single recurring rule
+ */
+
+app.get("/:id", async (c) => {
+  const id = c.req.param("id")
+
+  const rule = await recurringService.getById(c.env, id)
+
+  if (!rule) {
+    return error(c, "NOT_FOUND", "Recurring rule not found", 404)
+  }
+
+  return success(c, rule)
+})
+
+/**
+ * PUT /recurring/:id
+ * Update a recurring rule
+ */
+
+app.put("/:id", zValidator("json", updateRecurringRuleSchema), async (c) => {
+  const id = c.req.param("id")
+
+  const input = c.req.valid("json")
+
+  const existing = await recurringService.getById(c.env, id)
+
+  if (!existing) {
+    return error(c, "NOT_FOUND", "Recurring rule not found", 404)
+  }
+
+  // The start date cannot change, so check a new end date against it
+
+  if (input.endDate && input.endDate < existing.startDate) {
+    return error(
+      c,
+
+      "VALIDATION_ERROR",
+
+      "End date must not be before start date",
+
+      400,
+    )
+  }
+
+  const rule = await recurringService.update(c.env, id, input)
+
+  if (!rule) {
+    return error(c, "NOT_FOUND", "Recurring rule not found", 404)
+  }
+
+  return success(c, rule)
+})
+
+/**
+ * DELETE /recurring/:id
+ * Delete a recurring rule
+ */
+
+app.delete("/:id", async (c) => {
+  const id = c.req.param("id")
+
+  const deleted = await recurringService.delete(c.env, id)
+
+  if (!deleted) {
+    return error(c, "NOT_FOUND", "Recurring rule not found", 404)
+  }
+
+  return success(c, null)
+})
+
+/**
+ * POST /recurring/:id/pause
+ * Stop creating transactions for a rule
+ */
+
+app.post("/:id/pause", async (c) => {
+  const id = c.req.param("id")
+
+  const rule = await recurringService.setPaused(c.env, id, true)
+
+  if (!rule) {
+    return error(c, "NOT_FOUND", "Recurring rule not found", 404)
+  }
+
+  return success(c, rule)
+})
+
+/**
+ * POST /recurring/:id/resume
+ * Resume a paused rule
+ */
+
+app.post("/:id/resume", async (c) => {
+  const id = c.req.param("id")
+
+  const rule = await recurringService.setPaused(c.env, id, false)
+
+  if (!rule) {
+    return error(c, "NOT_FOUND", "Recurring rule not found", 404)
+  }
+
+  return success(c, rule)
+})
+
+/**
+ * POST /recurring/:id/skip
+ * Skip the next occurrence
+ */
+
+app.post("/:id/skip", async (c) => {
+  const id = c.req.param("id")
+
+  const existing = await recurringService.getById(c.env, id)
+
+  if (!existing) {
+    return error(c, "NOT_FOUND", "Recurring rule not found", 404)
+  }
+
+  const rule = await recurringService.skipNext(c.env, id)
+
+  if (!rule) {
+    return error(
+      c,
+      "CONFLICT",
+      "Recurring rule has no upcoming occurrence",
+      409,
+    )
+  }
+
+  return success(c, rule)
+})
+
+/**
+ * GET /recurring/:id/preview
+ * List upcoming occurrence dates
+ */
+
+app.get(
+  "/:id/preview",
+
+  zValidator("query", recurringPreviewSchema),
+
+  async (c) => {
+    const id = c.req.param("id")
+
+    const { count } = c.req.valid("query")
+
+    const dates = await recurringService.preview(c.env, id, count)
+
+    if (!dates) {
+      return error(c, "NOT_FOUND", "Recurring rule not found", 404)
+    }
+
+    return success(c, dates)
+  },
+)
+
+export default app
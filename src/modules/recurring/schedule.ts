@@ -0,0 +1,114 @@
+import { parseDate, addDays, shiftMonth, clampedDate } from "../../lib/date"
+
+import type { RecurrenceFrequency } from "./schema"
+
+/**
+ * Fields of a recurring rule that determine its occurrence dates
+ */
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency
+
+  interval: number
+
+  dayOfMonth: number | null
+
+  startDate: string
+
+  endDate: string | null
+
+  occurrenceLimit: number | null
+}
+
+/**
+ * Date of the occurrence at a zero-based index
+ * Every occurrence is derived from the start date rather than the previous
+ * occurrence, so a rule on the 31st returns to the 31st after February
+ */
+
+export function getOccurrenceDate(rule: RecurrenceRule, index: number): string {
+  const { frequency, interval, dayOfMonth, startDate } = rule
+
+  if (frequency === "daily") {
+    return addDays(startDate, index * interval)
+  }
+
+  if (frequency === "weekly") {
+    return addDays(startDate, index * interval * 7)
+  }
+
+  const start = parseDate(startDate)
+
+  const anchorDay = dayOfMonth ?? start.day
+
+  const monthsPerStep = frequency === "monthly" ? interval : interval * 12
+
+  // Skip the start month when its anchor day falls before the start date
+
+  const firstInStartMonth = clampedDate(start.year, start.month, anchorDay)
+
+  const firstOffset =
+    firstInStartMonth < startDate ? (frequency === "monthly" ? 1 : 12) : 0
+
+  const target = shiftMonth(
+    start.year,
+
+    start.month,
+
+    firstOffset + index * monthsPerStep,
+  )
+
+  return clampedDate(target.year, target.month, anchorDay)
+}
+
+/**
+ * Next occurrence after `occurrenceCount` occurrences have been consumed
+ * Returns null once the end date or occurrence limit has been reached
+ */
+
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+
+  occurrenceCount: number,
+): string | null {
+  if (
+    rule.occurrenceLimit !== null &&
+    occurrenceCount >= rule.occurrenceLimit
+  ) {
+    return null
+  }
+
+  const next = getOccurrenceDate(rule, occurrenceCount)
+
+  if (rule.endDate !== null && next > rule.endDate) {
+    return null
+  }
+
+  return next
+}
+
+/**
+ * Upcoming occurrence dates, starting after `occurrenceCount` occurrences
+ */
+
+export function listUpcomingOccurrences(
+  rule: RecurrenceRule,
+
+  occurrenceCount: number,
+
+  limit: number,
+): string[] {
+  const dates: string[] = []
+
+  for (let index = occurrenceCount; dates.length < limit; index++) {
+    const next = getNextOccurrence(rule, index)
+
+    if (next === null) {
+      break
+    }
+
+    dates.push(next)
+  }
+
+  return dates
+}
@@ -0,0 +1,163 @@
+import { z } from "zod"
+
+import { MAX_AMOUNT_RUPIAH } from "../../lib/currency"
+
+const dateSchema = z
+
+  .string()
+
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+
+// Recurrence frequency enum
+
+export const recurrenceFrequencySchema = z.enum([
+  "daily",
+
+  "weekly",
+
+  "monthly",
+
+  "yearly",
+])
+
+// Shared recurring rule fields
+
+const recurringRuleFieldsSchema = z.object({
+  accountId: z.string().uuid("Invalid account ID"),
+
+  categoryId: z.string().uuid("Invalid category ID"),
+
+  amount: z
+
+    .number()
+
+    .positive("Amount must be positive")
+
+    .max(MAX_AMOUNT_RUPIAH, "Amount is too large"),
+
+  description: z
+
+    .string()
+
+    .min(1, "Description is required")
+
+    .max(500, "Description must be less than 500 characters"),
+
+  frequency: recurrenceFrequencySchema,
+
+  interval: z.number().int().min(1).max(365).default(1),
+
+  dayOfMonth: z.number().int().min(1).max(31).nullable().default(null),
+
+  startDate: dateSchema,
+
+  endDate: dateSchema.nullable().default(null),
+
+  occurrenceLimit: z.number().int().positive().nullable().default(null),
+})
+
+// Create recurring rule schema
+
+export const createRecurringRuleSchema = recurringRuleFieldsSchema
+
+  .refine(
+    (input) =>
+      input.dayOfMonth === null ||
+      input.frequency === "monthly" ||
+      input.frequency === "yearly",
+
+    {
+      message: "Day of month only applies to monthly and yearly rules",
+
+      path: ["dayOfMonth"],
+    },
+  )
+
+  .refine(
+    (input) => input.endDate === null || input.endDate >= input.startDate,
+    {
+      message: "End date must not be before start date",
+
+      path: ["endDate"],
+    },
+  )
+
+// Update recurring rule schema
+// The schedule itself (frequency, interval, anchor day, start) is fixed;
+// create a new rule to change it
+
+export const updateRecurringRuleSchema = z
+
+  .object({
+    accountId: recurringRuleFieldsSchema.shape.accountId,
+
+    categoryId: recurringRuleFieldsSchema.shape.categoryId,
+
+    amount: recurringRuleFieldsSchema.shape.amount,
+
+    description: recurringRuleFieldsSchema.shape.description,
+
+    endDate: dateSchema.nullable(),
+
+    occurrenceLimit: z.number().int().positive().nullable(),
+  })
+
+  .partial()
+
+// Preview query schema
+
+export const recurringPreviewSchema = z.object({
+  count: z.coerce.number().int().positive().max(60).default(12),
+})
+
+// Recurring rule response schema
+
+export const recurringRuleSchema = z.object({
+  id: z.string().uuid(),
+
+  accountId: z.string().uuid(),
+
+  accountName: z.string().nullable(),
+
+  categoryId: z.string().uuid(),
+
+  categoryName: z.string().nullable(),
+
+  amountRupiah: z.number().int().positive(),
+
+  description: z.string(),
+
+  frequency: recurrenceFrequencySchema,
+
+  interval: z.number().int().positive(),
+
+  dayOfMonth: z.number().int().nullable(),
+
+  startDate: dateSchema,
+
+  endDate: dateSchema.nullable(),
+
+  occurrenceLimit: z.number().int().nullable(),
+
+  occurrenceCount: z.number().int().nonnegative(),
+
+  nextOccurrenceDate: dateSchema.nullable(),
+
+  isPaused: z.boolean(),
+
+  createdAt: z.date(),
+
+  updatedAt: z.date(),
+})
+
+// Types
+
+export type RecurrenceFrequency = z.infer<typeof recurrenceFrequencySchema>
+
+export type CreateRecurringRuleInput = z.infer<typeof createRecurringRuleSchema>
+
+export type UpdateRecurringRuleInput = z.infer<typeof updateRecurringRuleSchema>
+
+export type RecurringPreviewFilter = z.infer<typeof recurringPreviewSchema>
+
+export type RecurringRule = z.infer<typeof recurringRuleSchema>
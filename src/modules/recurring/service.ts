@@ -0,0 +1,512 @@
+import { getDb } from "../../db"
+
+import {
+  recurringRules,
+  transactions,
+  accounts,
+  categories,
+} from "../../db/schema"
+
+import type { Env } from "../../env"
+
+import type {
+  CreateRecurringRuleInput,
+  UpdateRecurringRuleInput,
+  RecurringRule,
+} from "./schema"
+
+import { getNextOccurrence, listUpcomingOccurrences } from "./schedule"
+
+import { toRupiah } from "../../lib/currency"
+
+import { eq, and, lte, desc } from "drizzle-orm"
+
+// Upper bound on occurrences materialized per rule in one cron run,
+// so a long-paused daily rule cannot stall the scheduled handler
+
+const MAX_OCCURRENCES_PER_RUN = 400
+
+export class RecurringService {
+  /**
+   * Get all recurring rules
+   */
+
+  async list(env: Env): Promise<RecurringRule[]> {
+    const db = getDb(env)
+
+    return db
+
+      .select({
+        id: recurringRules.id,
+
+        accountId: recurringRules.accountId,
+
+        accountName: accounts.name,
+
+        categoryId: recurringRules.categoryId,
+
+        categoryName: categories.name,
+
+        amountRupiah: recurringRules.amountRupiah,
+
+        description: recurringRules.description,
+
+        frequency: recurringRules.frequency,
+
+        interval: recurringRules.interval,
+
+        dayOfMonth: recurringRules.dayOfMonth,
+
+        startDate: recurringRules.startDate,
+
+        endDate: recurringRules.endDate,
+
+        occurrenceLimit: recurringRules.occurrenceLimit,
+
+        occurrenceCount: recurringRules.occurrenceCount,
+
+        nextOccurrenceDate: recurringRules.nextOccurrenceDate,
+
+        isPaused: recurringRules.isPaused,
+
+        createdAt: recurringRules.createdAt,
+
+        updatedAt: recurringRules.updatedAt,
+      })
+
+      .from(recurringRules)
+
+      .leftJoin(accounts, eq(recurringRules.accountId, accounts.id))
+
+      .leftJoin(categories, eq(recurringRules.categoryId, categories.id))
+
+      .orderBy(desc(recurringRules.createdAt))
+  }
+
+  /**
+   * Get a single recurring rule by ID
+   */
+
+  async getById(env: Env, id: string): Promise<RecurringRule | null> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .select({
+        id: recurringRules.id,
+
+        accountId: recurringRules.accountId,
+
+        accountName: accounts.name,
+
+        categoryId: recurringRules.categoryId,
+
+        categoryName: categories.name,
+
+        amountRupiah: recurringRules.amountRupiah,
+
+        description: recurringRules.description,
+
+        frequency: recurringRules.frequency,
+
+        interval: recurringRules.interval,
+
+        dayOfMonth: recurringRules.dayOfMonth,
+
+        startDate: recurringRules.startDate,
+
+        endDate: recurringRules.endDate,
+
+        occurrenceLimit: recurringRules.occurrenceLimit,
+
+        occurrenceCount: recurringRules.occurrenceCount,
+
+        nextOccurrenceDate: recurringRules.nextOccurrenceDate,
+
+        isPaused: recurringRules.isPaused,
+
+        createdAt: recurringRules.createdAt,
+
+        updatedAt: recurringRules.updatedAt,
+      })
+
+      .from(recurringRules)
+
+      .leftJoin(accounts, eq(recurringRules.accountId, accounts.id))
+
+      .leftJoin(categories, eq(recurringRules.categoryId, categories.id))
+
+      .where(eq(recurringRules.id, id))
+
+      .limit(1)
+
+    return result[0] ?? null
+  }
+
+  /**
+   * Create a new recurring rule
+   */
+
+  async create(
+    env: Env,
+
+    input: CreateRecurringRuleInput,
+  ): Promise<RecurringRule> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .insert(recurringRules)
+
+      .values({
+        accountId: input.accountId,
+
+        categoryId: input.categoryId,
+
+        amountRupiah: toRupiah(input.amount),
+
+        description: input.description,
+
+        frequency: input.frequency,
+
+        interval: input.interval,
+
+        dayOfMonth: input.dayOfMonth,
+
+        startDate: input.startDate,
+
+        endDate: input.endDate,
+
+        occurrenceLimit: input.occurrenceLimit,
+
+        nextOccurrenceDate: getNextOccurrence(input, 0),
+      })
+
+      .returning()
+
+    const created = await this.getById(env, result[0].id)
+
+    if (!created) {
+      throw new Error("Failed to create recurring rule")
+    }
+
+    return created
+  }
+
+  /**
+   * Update a recurring rule
+   * Changing the end date or occurrence limit recomputes the next occurrence
+   */
+
+  async update(
+    env: Env,
+
+    id: string,
+
+    input: UpdateRecurringRuleInput,
+  ): Promise<RecurringRule | null> {
+    const db = getDb(env)
+
+    const existing = await db
+
+      .select()
+
+      .from(recurringRules)
+
+      .where(eq(recurringRules.id, id))
+
+      .limit(1)
+
+    const rule = existing[0]
+
+    if (!rule) {
+      return null
+    }
+
+    const updateData: Record<string, unknown> = { updatedAt: new Date() }
+
+    if (input.accountId !== undefined) {
+      updateData.accountId = input.accountId
+    }
+
+    if (input.categoryId !== undefined) {
+      updateData.categoryId = input.categoryId
+    }
+
+    if (input.amount !== undefined) {
+      updateData.amountRupiah = toRupiah(input.amount)
+    }
+
+    if (input.description !== undefined) {
+      updateData.description = input.description
+    }
+
+    if (input.endDate !== undefined || input.occurrenceLimit !== undefined) {
+      const merged = {
+        ...rule,
+
+        endDate: input.endDate !== undefined ? input.endDate : rule.endDate,
+
+        occurrenceLimit:
+          input.occurrenceLimit !== undefined
+            ? input.occurrenceLimit
+            : rule.occurrenceLimit,
+      }
+
+      updateData.endDate = merged.endDate
+
+      updateData.occurrenceLimit = merged.occurrenceLimit
+
+      updateData.nextOccurrenceDate = getNextOccurrence(
+        merged,
+
+        rule.occurrenceCount,
+      )
+    }
+
+    await db
+
+      .update(recurringRules)
+
+      .set(updateData)
+
+      .where(eq(recurringRules.id, id))
+
+    return this.getById(env, id)
+  }
+
+  /**
+   * Delete a recurring rule
+   * Transactions it already created are kept
+   */
+
+  async delete(env: Env, id: string): Promise<boolean> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .delete(recurringRules)
+
+      .where(eq(recurringRules.id, id))
+
+      .returning()
+
+    return result.length > 0
+  }
+
+  /**
+   * Pause or resume a recurring rule
+   * Occurrences that fall due while paused are created on resume
+   */
+
+  async setPaused(
+    env: Env,
+
+    id: string,
+
+    isPaused: boolean,
+  ): Promise<RecurringRule | null> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .update(recurringRules)
+
+      .set({ isPaused, updatedAt: new Date() })
+
+      .where(eq(recurringRules.id, id))
+
+      .returning()
+
+    if (result.length === 0) {
+      return null
+    }
+
+    return this.getById(env, id)
+  }
+
+  /**
+   * Skip the next occurrence without creating a transaction
+   * Returns null if the rule does not exist or has no upcoming occurrence
+   */
+
+  async skipNext(env: Env, id: string): Promise<RecurringRule | null> {
+    const db = getDb(env)
+
+    const existing = await db
+
+      .select()
+
+      .from(recurringRules)
+
+      .where(eq(recurringRules.id, id))
+
+      .limit(1)
+
+    const rule = existing[0]
+
+    if (!rule || rule.nextOccurrenceDate === null) {
+      return null
+    }
+
+    const occurrenceCount = rule.occurrenceCount + 1
+
+    await db
+
+      .update(recurringRules)
+
+      .set({
+        occurrenceCount,
+
+        nextOccurrenceDate: getNextOccurrence(rule, occurrenceCount),
+
+        updatedAt: new Date(),
+      })
+
+      .where(
+        and(
+          eq(recurringRules.id, id),
+
+          eq(recurringRules.occurrenceCount, rule.occurrenceCount),
+        ),
+      )
+
+    return this.getById(env, id)
+  }
+
+  /**
+   * Upcoming occurrence dates for a rule
+   */
+
+  async preview(env: Env, id: string, count: number): Promise<string[] | null> {
+    const db = getDb(env)
+
+    const existing = await db
+
+      .select()
+
+      .from(recurringRules)
+
+      .where(eq(recurringRules.id, id))
+
+      .limit(1)
+
+    const rule = existing[0]
+
+    if (!rule) {
+      return null
+    }
+
+    return listUpcomingOccurrences(rule, rule.occurrenceCount, count)
+  }
+
+  /**
+   * Create transactions for every occurrence due on or before `today`
+   * Safe to run repeatedly: the unique (rule, date) index on transactions
+   * and the occurrence counter guard make re-runs no-ops. Each rule runs in
+   * its own database transaction; a rule that fails is logged and left
+   * due, and the remaining rules still run.
+   * @returns Number of transactions created
+   */
+
+  async materializeDue(env: Env, today: string): Promise<number> {
+    const db = getDb(env)
+
+    const dueRules = await db
+
+      .select()
+
+      .from(recurringRules)
+
+      .where(
+        and(
+          eq(recurringRules.isPaused, false),
+
+          lte(recurringRules.nextOccurrenceDate, today),
+        ),
+      )
+
+    let created = 0
+
+    for (const rule of dueRules) {
+      try {
+        created += await db.transaction(async (tx) => {
+          let occurrenceCount = rule.occurrenceCount
+
+          let nextOccurrenceDate = rule.nextOccurrenceDate
+
+          const rows = []
+
+          while (
+            nextOccurrenceDate !== null &&
+            nextOccurrenceDate <= today &&
+            rows.length < MAX_OCCURRENCES_PER_RUN
+          ) {
+            rows.push({
+              accountId: rule.accountId,
+
+              categoryId: rule.categoryId,
+
+              amountRupiah: rule.amountRupiah,
+
+              description: rule.description,
+
+              transactionDate: nextOccurrenceDate,
+
+              recurringRuleId: rule.id,
+            })
+
+            occurrenceCount++
+
+            nextOccurrenceDate = getNextOccurrence(rule, occurrenceCount)
+          }
+
+          const advanced = await tx
+
+            .update(recurringRules)
+
+            .set({ occurrenceCount, nextOccurrenceDate, updatedAt: new Date() })
+
+            .where(
+              and(
+                eq(recurringRules.id, rule.id),
+
+                eq(recurringRules.occurrenceCount, rule.occurrenceCount),
+              ),
+            )
+
+            .returning({ id: recurringRules.id })
+
+          // Another run already advanced this rule
+
+          if (advanced.length === 0 || rows.length === 0) {
+            return 0
+          }
+
+          const inserted = await tx
+
+            .insert(transactions)
+
+            .values(rows)
+
+            .onConflictDoNothing({
+              target: [
+                transactions.recurringRuleId,
+                transactions.transactionDate,
+              ],
+            })
+
+            .returning({ id: transactions.id })
+
+          return inserted.length
+        })
+      } catch (err) {
+        console.error(`Recurring rule ${rule.id} failed:`, err)
+      }
+    }
+
+    return created
+  }
+}
+
+export const recurringService = new RecurringService()
@@ -0,0 +1,45 @@
+import { createApp } from "../../factory"
+
+import { zValidator } from "@hono/zod-validator"
+
+import { ownerOnlyMiddleware } from "../auth"
+
+import { settingsService } from "./service"
+
+import { updateSettingsSchema } from "./schema"
+
+import { success } from "../../lib/response"
+
+import type { AppEnv } from "../../factory"
+
+const app = createApp<AppEnv>()
+
+// Apply owner-only middleware to all routes
+
+app.use("*", ownerOnlyMiddleware)
+
+/**
+ * GET /settings
+ * Get owner settings
+ */
+
+app.get("/", async (c) => {
+  const current = await settingsService.get(c.env)
+
+  return success(c, current)
+})
+
+/**
+ * PUT /settings
+ * Update owner settings
+ */
+
+app.put("/", zValidator("json", updateSettingsSchema), async (c) => {
+  const input = c.req.valid("json")
+
+  const updated = await settingsService.update(c.env, input)
+
+  return success(c, updated)
+})
+
+export default app
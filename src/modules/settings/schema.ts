@@ -0,0 +1,66 @@
+import { z } from "zod"
+
+import { MAX_AMOUNT_RUPIAH } from "../../lib/currency"
+
+// Update settings schema
+
+export const updateSettingsSchema = z
+
+  .object({
+    // Day of the month the financial month starts on; days past the end of
+    // a shorter month fall back to its last day
+
+    monthStartDay: z
+
+      .number()
+
+      .int()
+
+      .min(1, "Month start day must be between 1 and 31")
+
+      .max(31, "Month start day must be between 1 and 31"),
+
+    // Transactions with the same account, amount and description this many
+    // days apart are flagged as likely duplicates
+
+    duplicateWindowDays: z
+
+      .number()
+
+      .int()
+
+      .min(0, "Duplicate window must be between 0 and 30 days")
+
+      .max(30, "Duplicate window must be between 0 and 30 days"),
+
+    // Cash-flow forecasts warn when the balance is projected to drop
+    // below this
+
+    lowBalanceThreshold: z
+
+      .number()
+
+      .nonnegative("Low balance threshold must not be negative")
+
+      .max(MAX_AMOUNT_RUPIAH, "Low balance threshold is too large"),
+  })
+
+  .partial()
+
+// Settings response schema
+
+export const settingsSchema = z.object({
+  monthStartDay: z.number().int().min(1).max(31),
+
+  duplicateWindowDays: z.number().int().min(0).max(30),
+
+  lowBalanceThresholdRupiah: z.number().int().nonnegative(),
+
+  updatedAt: z.date().nullable(),
+})
+
+// Types
+
+export type UpdateSettingsInput = z.infer<typeof updateSettingsSchema>
+
+export type Settings = z.infer<typeof settingsSchema>
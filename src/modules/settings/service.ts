@@ -0,0 +1,101 @@
+import { getDb } from "../../db"
+
+import { settings } from "../../db/schema"
+
+import type { Env } from "../../env"
+
+import type { UpdateSettingsInput, Settings } from "./schema"
+
+import { toRupiah } from "../../lib/currency"
+
+import { eq } from "drizzle-orm"
+
+// The settings table holds a single row
+
+const SETTINGS_ID = 1
+
+export const DEFAULT_SETTINGS: Settings = {
+  monthStartDay: 1,
+
+  duplicateWindowDays: 3,
+
+  lowBalanceThresholdRupiah: 0,
+
+  updatedAt: null,
+}
+
+export class SettingsService {
+  /**
+   * Get owner settings, falling back to defaults before the first save
+   */
+
+  async get(env: Env): Promise<Settings> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .select({
+        monthStartDay: settings.monthStartDay,
+
+        duplicateWindowDays: settings.duplicateWindowDays,
+
+        lowBalanceThresholdRupiah: settings.lowBalanceThresholdRupiah,
+
+        updatedAt: settings.updatedAt,
+      })
+
+      .from(settings)
+
+      .where(eq(settings.id, SETTINGS_ID))
+
+      .limit(1)
+
+    return result[0] ?? DEFAULT_SETTINGS
+  }
+
+  /**
+   * Update owner settings
+   */
+
+  async update(env: Env, input: UpdateSettingsInput): Promise<Settings> {
+    const db = getDb(env)
+
+    const current = await this.get(env)
+
+    const next = {
+      monthStartDay: input.monthStartDay ?? current.monthStartDay,
+
+      duplicateWindowDays:
+        input.duplicateWindowDays ?? current.duplicateWindowDays,
+
+      lowBalanceThresholdRupiah:
+        input.lowBalanceThreshold !== undefined
+          ? toRupiah(input.lowBalanceThreshold)
+          : current.lowBalanceThresholdRupiah,
+
+      updatedAt: new Date(),
+    }
+
+    const result = await db
+
+      .insert(settings)
+
+      .values({ id: SETTINGS_ID, ...next })
+
+      .onConflictDoUpdate({ target: settings.id, set: next })
+
+      .returning({
+        monthStartDay: settings.monthStartDay,
+
+        duplicateWindowDays: settings.duplicateWindowDays,
+
+        lowBalanceThresholdRupiah: settings.lowBalanceThresholdRupiah,
+
+        updatedAt: settings.updatedAt,
+      })
+
+    return result[0]
+  }
+}
+
+export const settingsService = new SettingsService()
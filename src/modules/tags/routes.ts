@@ -0,0 +1,98 @@
+import { createApp } from "../../factory"
+
+import { zValidator } from "@hono/zod-validator"
+
+import { ownerOnlyMiddleware } from "../auth"
+
+import { tagService } from "./service"
+
+import { createTagSchema, updateTagSchema } from "./schema"
+
+import { success, error } from "../../lib/response"
+
+import type { AppEnv } from "../../factory"
+
+const app = createApp<AppEnv>()
+
+// Apply owner-only middleware to all routes
+
+app.use("*", ownerOnlyMiddleware)
+
+/**
+ * GET /tags
+ * List all tags with usage counts
+ */
+
+app.get("/", async (c) => {
+  const tags = await tagService.list(c.env)
+
+  return success(c, tags)
+})
+
+/**
+ * GET /tags/:id
+ * Get a single tag
+ */
+
+app.get("/:id", async (c) => {
+  const id = c.req.param("id")
+
+  const tag = await tagService.getById(c.env, id)
+
+  if (!tag) {
+    return error(c, "NOT_FOUND", "Tag not found", 404)
+  }
+
+  return success(c, tag)
+})
+
+/**
+ * POST /tags
+ * Create a new tag
+ */
+
+app.post("/", zValidator("json", createTagSchema), async (c) => {
+  const input = c.req.valid("json")
+
+  const tag = await tagService.create(c.env, input)
+
+  return success(c, tag)
+})
+
+/**
+ * PUT /tags/:id
+ * Rename a tag
+ */
+
+app.put("/:id", zValidator("json", updateTagSchema), async (c) => {
+  const id = c.req.param("id")
+
+  const input = c.req.valid("json")
+
+  const tag = await tagService.update(c.env, id, input)
+
+  if (!tag) {
+    return error(c, "NOT_FOUND", "Tag not found", 404)
+  }
+
+  return success(c, tag)
+})
+
+/**
+ * DELETE /tags/:id
+ * Delete a tag and unlink it from its transactions
+ */
+
+app.delete("/:id", async (c) => {
+  const id = c.req.param("id")
+
+  const deleted = await tagService.delete(c.env, id)
+
+  if (!deleted) {
+    return error(c, "NOT_FOUND", "Tag not found", 404)
+  }
+
+  return success(c, null)
+})
+
+export default app
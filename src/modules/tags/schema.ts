@@ -0,0 +1,51 @@
+import { z } from "zod"
+
+// Create tag schema (names are stored lowercase so "Bali" and "bali" match)
+
+export const createTagSchema = z.object({
+  name: z
+
+    .string()
+
+    .trim()
+
+    .min(1, "Tag name is required")
+
+    .max(50, "Tag name must be less than 50 characters")
+
+    .transform((name) => name.toLowerCase()),
+})
+
+// Update tag schema (renaming is the only change)
+
+export const updateTagSchema = createTagSchema
+
+// Tag reference embedded in transactions
+
+export const tagSummarySchema = z.object({
+  id: z.string().uuid(),
+
+  name: z.string(),
+})
+
+// Tag response schema
+
+export const tagSchema = z.object({
+  id: z.string().uuid(),
+
+  name: z.string(),
+
+  transactionCount: z.number().int().nonnegative(),
+
+  createdAt: z.date(),
+})
+
+// Types
+
+export type CreateTagInput = z.infer<typeof createTagSchema>
+
+export type UpdateTagInput = z.infer<typeof updateTagSchema>
+
+export type TagSummary = z.infer<typeof tagSummarySchema>
+
+export type Tag = z.infer<typeof tagSchema>
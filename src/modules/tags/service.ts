@@ -0,0 +1,141 @@
+import { getDb } from "../../db"
+
+import { tags, transactionTags } from "../../db/schema"
+
+import type { Env } from "../../env"
+
+import type { CreateTagInput, UpdateTagInput, Tag } from "./schema"
+
+import { toSafeInteger } from "../../lib/currency"
+
+import { eq, sql } from "drizzle-orm"
+
+// Number of transactions carrying the tag
+
+const transactionCount =
+  sql<number>`COUNT(${transactionTags.transactionId})`.mapWith(toSafeInteger)
+
+export class TagService {
+  /**
+   * Get all tags with usage counts
+   */
+
+  async list(env: Env): Promise<Tag[]> {
+    const db = getDb(env)
+
+    return db
+
+      .select({
+        id: tags.id,
+
+        name: tags.name,
+
+        transactionCount,
+
+        createdAt: tags.createdAt,
+      })
+
+      .from(tags)
+
+      .leftJoin(transactionTags, eq(transactionTags.tagId, tags.id))
+
+      .groupBy(tags.id)
+
+      .orderBy(tags.name)
+  }
+
+  /**
+   * Get a single tag by ID
+   */
+
+  async getById(env: Env, id: string): Promise<Tag | null> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .select({
+        id: tags.id,
+
+        name: tags.name,
+
+        transactionCount,
+
+        createdAt: tags.createdAt,
+      })
+
+      .from(tags)
+
+      .leftJoin(transactionTags, eq(transactionTags.tagId, tags.id))
+
+      .where(eq(tags.id, id))
+
+      .groupBy(tags.id)
+
+      .limit(1)
+
+    return result[0] ?? null
+  }
+
+  /**
+   * Create a new tag
+   */
+
+  async create(env: Env, input: CreateTagInput): Promise<Tag> {
+    const db = getDb(env)
+
+    const result = await db.insert(tags).values(input).returning()
+
+    return { ...result[0], transactionCount: 0 }
+  }
+
+  /**
+   * Rename a tag
+   */
+
+  async update(
+    env: Env,
+
+    id: string,
+
+    input: UpdateTagInput,
+  ): Promise<Tag | null> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .update(tags)
+
+      .set(input)
+
+      .where(eq(tags.id, id))
+
+      .returning({ id: tags.id })
+
+    if (result.length === 0) {
+      return null
+    }
+
+    return this.getById(env, id)
+  }
+
+  /**
+   * Delete a tag
+   * Transactions keep existing; only their link to the tag is removed
+   */
+
+  async delete(env: Env, id: string): Promise<boolean> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .delete(tags)
+
+      .where(eq(tags.id, id))
+
+      .returning()
+
+    return result.length > 0
+  }
+}
+
+export const tagService = new TagService()
@@ -6,14 +6,39 @@ import { ownerOnlyMiddleware } from "../auth"
 
 import { transactionService } from "./service"
 
+import type { AmountEntry, TransactionAmount } from "./service"
+
+import { categoryService } from "../categories/service"
+
 import {
   createTransactionSchema,
   updateTransactionSchema,
   transactionFilterSchema,
+  transactionExportFilterSchema,
+  duplicateFilterSchema,
+  dismissDuplicateSchema,
+  mergeDuplicateSchema,
+  splitsMatchAmount,
 } from "./schema"
 
+import type { TransactionExportRow, TransactionListMeta } from "./schema"
+
+import type { Env } from "../../env"
+
 import { success, error } from "../../lib/response"
 
+import { createCsvStream } from "../../lib/csv"
+
+import { createXlsxStream, type XlsxCell } from "../../lib/xlsx"
+
+import {
+  formatCurrencyPlain,
+  IDR_CURRENCY,
+  MAX_AMOUNT_RUPIAH,
+} from "../../lib/currency"
+
+import { toLocalDateString } from "../../lib/date"
+
 import type { AppEnv } from "../../factory"
 
 const app = createApp<AppEnv>()
@@ -24,36 +49,345 @@ app.use("*", ownerOnlyMiddleware)
 
 /**
  * GET /transactions
- * List transactions with pagination and filters
+ * List transactions with filters and sorting, by page or by cursor
+ * Date-ordered lists return meta.nextCursor/prevCursor; meta.total and
+ * meta.totals (income and expense over every match) come with counting,
+ * which is on for pages and off for cursors unless count is set
  */
 
 app.get("/", zValidator("query", transactionFilterSchema), async (c) => {
   const filter = c.req.valid("query")
 
-  const { data, total } = await transactionService.list(c.env, filter)
+  const { data, total, totals, nextCursor, prevCursor } =
+    await transactionService.list(c.env, filter)
 
-  const totalPages = Math.ceil(total / filter.limit)
+  const meta: TransactionListMeta = {
+    limit: filter.limit,
 
-  return success(c, data, {
-    page: filter.page,
+    nextCursor,
 
-    limit: filter.limit,
+    prevCursor,
+  }
 
-    total,
+  if (!filter.cursor) {
+    meta.page = filter.page
+  }
 
-    totalPages,
-  })
+  if (total !== undefined) {
+    meta.total = total
+
+    meta.totalPages = Math.ceil(total / filter.limit)
+
+    meta.totals = totals
+  }
+
+  return success(c, data, meta)
 })
 
+/**
+ * Check that split lines use existing categories of the parent's type,
+ * so income/expense totals are the same with or without the split
+ * @returns Error message, or null when the lines are usable
+ */
+
+async function checkSplitCategories(
+  env: Env,
+
+  parentCategoryId: string | null,
+
+  splitCategoryIds: string[],
+): Promise<string | null> {
+  if (splitCategoryIds.length === 0) {
+    return null
+  }
+
+  const parent = parentCategoryId
+    ? await categoryService.getById(env, parentCategoryId)
+    : null
+
+  if (!parent) {
+    return "Category not found"
+  }
+
+  for (const categoryId of new Set(splitCategoryIds)) {
+    const category = await categoryService.getById(env, categoryId)
+
+    if (!category) {
+      return "Split category not found"
+    }
+
+    if (category.type !== parent.type) {
+      return `Split lines must use ${parent.type} categories`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Convert an entered amount to rupiah
+ * @returns Amount columns, or an error message
+ */
+
+async function convertAmount(
+  env: Env,
+
+  entry: AmountEntry,
+): Promise<TransactionAmount | string> {
+  const amount = await transactionService.resolveAmount(env, entry)
+
+  if (!amount) {
+    return `No ${entry.currency} exchange rate on or before ${entry.transactionDate}`
+  }
+
+  if (amount.amountRupiah < 1) {
+    return "Amount is less than Rp1 after conversion"
+  }
+
+  if (amount.amountRupiah > MAX_AMOUNT_RUPIAH) {
+    return "Amount is too large after conversion"
+  }
+
+  return amount
+}
+
+const EXPORT_HEADER = [
+  "Date",
+
+  "Description",
+
+  "Category",
+
+  "Type",
+
+  "Account",
+
+  "Tags",
+
+  "Amount (Rp)",
+
+  "Amount",
+
+  "Currency",
+
+  "Original Amount",
+
+  "Exchange Rate",
+]
+
+/**
+ * Turn exported transactions into spreadsheet rows, header first
+ * Transfer legs have no category and are typed by their direction;
+ * original amounts are only filled for foreign-currency transactions
+ */
+
+async function* exportTable(
+  rows: AsyncIterable<TransactionExportRow>,
+): AsyncGenerator<XlsxCell[]> {
+  yield EXPORT_HEADER
+
+  for await (const row of rows) {
+    yield [
+      row.transactionDate,
+
+      row.description,
+
+      row.categoryName,
+
+      row.categoryType ?? `transfer_${row.direction}`,
+
+      row.accountName,
+
+      row.tags.map((tag) => tag.name).join(", "),
+
+      formatCurrencyPlain(row.amountRupiah),
+
+      row.amountRupiah,
+
+      row.originalCurrency ?? IDR_CURRENCY,
+
+      row.originalAmount,
+
+      row.exchangeRate,
+    ]
+  }
+}
+
+/**
+ * GET /transactions/export
+ * Download every transaction matching the list filters as CSV or XLSX
+ */
+
+app.get(
+  "/export",
+
+  zValidator("query", transactionExportFilterSchema),
+
+  async (c) => {
+    const filter = c.req.valid("query")
+
+    const table = exportTable(transactionService.exportRows(c.env, filter))
+
+    const fileName = `artha-transactions-${toLocalDateString(new Date())}`
+
+    if (filter.format === "xlsx") {
+      return c.body(createXlsxStream(table, "Transactions"), 200, {
+        "Content-Type":
+          "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+
+        "Content-Disposition": `attachment; filename="${fileName}.xlsx"`,
+      })
+    }
+
+    return c.body(createCsvStream(table), 200, {
+      "Content-Type": "text/csv; charset=utf-8",
+
+      "Content-Disposition": `attachment; filename="${fileName}.csv"`,
+    })
+  },
+)
+
+/**
+ * GET /transactions/duplicates
+ * List suspected duplicate pairs that have not been dismissed
+ */
+
+app.get(
+  "/duplicates",
+
+  zValidator("query", duplicateFilterSchema),
+
+  async (c) => {
+    const filter = c.req.valid("query")
+
+    const { data, total } = await transactionService.listDuplicates(
+      c.env,
+
+      filter,
+    )
+
+    const totalPages = Math.ceil(total / filter.limit)
+
+    return success(c, data, {
+      page: filter.page,
+
+      limit: filter.limit,
+
+      total,
+
+      totalPages,
+    })
+  },
+)
+
+/**
+ * POST /transactions/duplicates/dismiss
+ * Mark a suspected pair as not a duplicate
+ */
+
+app.post(
+  "/duplicates/dismiss",
+
+  zValidator("json", dismissDuplicateSchema),
+
+  async (c) => {
+    const input = c.req.valid("json")
+
+    const [transaction, duplicate] = await Promise.all([
+      transactionService.getById(c.env, input.transactionId),
+
+      transactionService.getById(c.env, input.duplicateId),
+    ])
+
+    if (!transaction || !duplicate) {
+      return error(c, "NOT_FOUND", "Transaction not found", 404)
+    }
+
+    await transactionService.dismissDuplicate(c.env, input)
+
+    return success(c, null)
+  },
+)
+
+/**
+ * POST /transactions/duplicates/merge
+ * Keep one transaction of a suspected pair and delete the other
+ */
+
+app.post(
+  "/duplicates/merge",
+
+  zValidator("json", mergeDuplicateSchema),
+
+  async (c) => {
+    const input = c.req.valid("json")
+
+    const [kept, removed] = await Promise.all([
+      transactionService.getById(c.env, input.keepId),
+
+      transactionService.getById(c.env, input.removeId),
+    ])
+
+    if (!kept || !removed) {
+      return error(c, "NOT_FOUND", "Transaction not found", 404)
+    }
+
+    if (kept.transferId || removed.transferId) {
+      return error(
+        c,
+
+        "CONFLICT",
+
+        "Transfer entries must be managed through /api/transfers",
+
+        409,
+      )
+    }
+
+    await transactionService.delete(c.env, input.removeId)
+
+    const transaction = await transactionService.getById(c.env, input.keepId)
+
+    return success(c, transaction)
+  },
+)
+
 /**
  * POST /transactions
  * Create a new transaction
+ * The response lists existing transactions that look like duplicates
  */
 
 app.post("/", zValidator("json", createTransactionSchema), async (c) => {
   const input = c.req.valid("json")
 
-  const transaction = await transactionService.create(c.env, input)
+  const splitError = await checkSplitCategories(
+    c.env,
+
+    input.categoryId,
+
+    (input.splits ?? []).map((line) => line.categoryId),
+  )
+
+  if (splitError) {
+    return error(c, "VALIDATION_ERROR", splitError, 400)
+  }
+
+  const amount = await convertAmount(c.env, {
+    amount: input.amount,
+
+    currency: input.currency ?? "IDR",
+
+    exchangeRate: input.exchangeRate ?? null,
+
+    transactionDate: input.transactionDate,
+  })
+
+  if (typeof amount === "string") {
+    return error(c, "VALIDATION_ERROR", amount, 400)
+  }
+
+  const transaction = await transactionService.create(c.env, input, amount)
 
   return success(c, transaction)
 })
@@ -85,7 +419,169 @@ app.put("/:id", zValidator("json", updateTransactionSchema), async (c) => {
 
   const input = c.req.valid("json")
 
-  const transaction = await transactionService.update(c.env, id, input)
+  const existing = await transactionService.getById(c.env, id)
+
+  if (existing?.transferId) {
+    return error(
+      c,
+
+      "CONFLICT",
+
+      "Transfer entries must be edited through /api/transfers",
+
+      409,
+    )
+  }
+
+  if (!existing) {
+    return error(c, "NOT_FOUND", "Transaction not found", 404)
+  }
+
+  const existingCurrency = existing.originalCurrency ?? "IDR"
+
+  const currency = input.currency ?? existingCurrency
+
+  if (currency === "IDR" && input.exchangeRate !== undefined) {
+    return error(
+      c,
+
+      "VALIDATION_ERROR",
+
+      "Exchange rates only apply to foreign currencies",
+
+      400,
+    )
+  }
+
+  if (currency !== existingCurrency && input.amount === undefined) {
+    return error(
+      c,
+
+      "VALIDATION_ERROR",
+
+      "The amount is required when changing the currency",
+
+      400,
+    )
+  }
+
+  // A changed amount, currency or rate is converted again; the stored
+  // rate is kept while the currency stays the same
+
+  let amount: TransactionAmount = {
+    amountRupiah: existing.amountRupiah,
+
+    originalCurrency: existing.originalCurrency,
+
+    originalAmount: existing.originalAmount,
+
+    exchangeRate: existing.exchangeRate,
+  }
+
+  if (
+    input.amount !== undefined ||
+    input.currency !== undefined ||
+    input.exchangeRate !== undefined
+  ) {
+    const converted = await convertAmount(c.env, {
+      amount: input.amount ?? existing.originalAmount ?? existing.amountRupiah,
+
+      currency,
+
+      exchangeRate:
+        input.exchangeRate ??
+        (currency === existingCurrency ? existing.exchangeRate : null),
+
+      transactionDate: input.transactionDate ?? existing.transactionDate,
+    })
+
+    if (typeof converted === "string") {
+      return error(c, "VALIDATION_ERROR", converted, 400)
+    }
+
+    amount = converted
+  }
+
+  // A new rate (or date) on a foreign amount changes the rupiah total but
+  // not the lines' shares; existing lines are shared out again by their
+  // stored rupiah amounts
+
+  const reallocateSplits =
+    input.splits === undefined &&
+    existing.splits.length > 0 &&
+    amount.originalCurrency !== null &&
+    amount.originalCurrency === existing.originalCurrency &&
+    amount.originalAmount === existing.originalAmount &&
+    amount.amountRupiah !== existing.amountRupiah
+
+  // New split lines are in the transaction's currency; existing ones
+  // (stored in rupiah) must still fit a changed amount
+
+  const splitsMatch =
+    reallocateSplits ||
+    (input.splits
+      ? splitsMatchAmount(
+          input.amount ?? existing.originalAmount ?? existing.amountRupiah,
+
+          input.splits,
+
+          currency,
+        )
+      : splitsMatchAmount(
+          amount.amountRupiah,
+
+          existing.splits.map((line) => ({ amount: line.amountRupiah })),
+        ))
+
+  const splits = input.splits ?? existing.splits
+
+  if (!splitsMatch) {
+    return error(
+      c,
+
+      "VALIDATION_ERROR",
+
+      "Split amounts must add up to the transaction amount",
+
+      400,
+    )
+  }
+
+  if (input.splits !== undefined || input.categoryId !== undefined) {
+    const splitError = await checkSplitCategories(
+      c.env,
+
+      input.categoryId ?? existing.categoryId,
+
+      splits.map((line) => line.categoryId),
+    )
+
+    if (splitError) {
+      return error(c, "VALIDATION_ERROR", splitError, 400)
+    }
+  }
+
+  const transaction = await transactionService.update(
+    c.env,
+
+    id,
+
+    reallocateSplits
+      ? {
+          ...input,
+
+          splits: existing.splits.map((line) => ({
+            categoryId: line.categoryId,
+
+            amount: line.amountRupiah,
+
+            memo: line.memo ?? undefined,
+          })),
+        }
+      : input,
+
+    amount,
+  )
 
   if (!transaction) {
     return error(c, "NOT_FOUND", "Transaction not found", 404)
@@ -102,6 +598,20 @@ app.put("/:id", zValidator("json", updateTransactionSchema), async (c) => {
 app.delete("/:id", async (c) => {
   const id = c.req.param("id")
 
+  const existing = await transactionService.getById(c.env, id)
+
+  if (existing?.transferId) {
+    return error(
+      c,
+
+      "CONFLICT",
+
+      "Transfer entries must be deleted through /api/transfers",
+
+      409,
+    )
+  }
+
   const deleted = await transactionService.delete(c.env, id)
 
   if (!deleted) {
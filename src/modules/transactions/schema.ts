@@ -1,21 +1,108 @@
 import { z } from "zod"
 
+import {
+  MAX_AMOUNT_RUPIAH,
+  CURRENCY_CODES,
+  toMinorUnits,
+} from "../../lib/currency"
+
+import type { CurrencyCode } from "../../lib/currency"
+
+import { currencySchema, MAX_EXCHANGE_RATE } from "../exchange-rates/schema"
+
+import { tagSummarySchema } from "../tags/schema"
+
+import { toSearchQuery } from "../../lib/search"
+
+import { decodeCursor } from "../../lib/cursor"
+
+import { paginationMetaSchema } from "../../schemas/common"
+
 // Transaction type enum
 
 export const transactionTypeSchema = z.enum(["income", "expense"])
 
-// Create transaction schema
+const amountSchema = z
 
-export const createTransactionSchema = z.object({
+  .number()
+
+  .positive("Amount must be positive")
+
+  .max(MAX_AMOUNT_RUPIAH, "Amount is too large")
+
+// Split line: part of a transaction booked to its own category
+
+export const transactionSplitInputSchema = z.object({
   categoryId: z.string().uuid("Invalid category ID"),
 
-  amount: z
+  amount: amountSchema,
+
+  memo: z
+
+    .string()
+
+    .max(200, "Memo must be less than 200 characters")
+
+    .optional(),
+})
+
+/**
+ * Split lines must add up to the parent amount (compared in the
+ * currency's minor units, whole rupiah by default)
+ * An empty list means the transaction is not split
+ */
+
+export function splitsMatchAmount(
+  amount: number,
+
+  splits: Array<{ amount: number }>,
+
+  currency: CurrencyCode = "IDR",
+): boolean {
+  if (splits.length === 0) {
+    return true
+  }
+
+  const total = splits.reduce(
+    (sum, line) => sum + toMinorUnits(line.amount, currency),
+
+    0,
+  )
+
+  return total === toMinorUnits(amount, currency)
+}
+
+const splitsMessage = "Split amounts must add up to the transaction amount"
+
+const exchangeRateMessage = "Exchange rates only apply to foreign currencies"
+
+// Transaction fields shared by create and update
+
+const transactionFieldsSchema = z.object({
+  categoryId: z.string().uuid("Invalid category ID"),
+
+  accountId: z.string().uuid("Invalid account ID"),
+
+  // In currency; split line amounts are too
+
+  amount: amountSchema,
+
+  // IDR when left out; other currencies are converted to rupiah
+
+  currency: currencySchema.optional(),
+
+  // Rupiah per unit of currency; defaults to the stored rate in effect
+  // on the transaction date
+
+  exchangeRate: z
 
     .number()
 
-    .positive("Amount must be positive")
+    .positive("Exchange rate must be positive")
 
-    .max(999999999.99, "Amount is too large"),
+    .max(MAX_EXCHANGE_RATE, "Exchange rate is too large")
+
+    .optional(),
 
   description: z
 
@@ -30,15 +117,114 @@ export const createTransactionSchema = z.object({
     .string()
 
     .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+
+  // Replaces the transaction's tags when given
+
+  tagIds: z
+
+    .array(z.string().uuid("Invalid tag ID"))
+
+    .max(20, "A transaction can have at most 20 tags")
+
+    .optional(),
+
+  // Replaces the transaction's split lines when given; [] removes the split
+
+  splits: z
+
+    .array(transactionSplitInputSchema)
+
+    .max(20, "A transaction can have at most 20 split lines")
+
+    .refine((lines) => lines.length !== 1, "A split needs at least two lines")
+
+    .optional(),
 })
 
+// Create transaction schema
+
+export const createTransactionSchema = transactionFieldsSchema
+
+  .refine(
+    (input) =>
+      splitsMatchAmount(input.amount, input.splits ?? [], input.currency),
+
+    { message: splitsMessage, path: ["splits"] },
+  )
+
+  .refine(
+    (input) =>
+      input.exchangeRate === undefined ||
+      (input.currency !== undefined && input.currency !== "IDR"),
+
+    { message: exchangeRateMessage, path: ["exchangeRate"] },
+  )
+
 // Update transaction schema (all fields optional)
+// When only one of amount/splits changes, or the currency is left out
+// (and so known only from the stored transaction), the route re-checks
+// the total
 
-export const updateTransactionSchema = createTransactionSchema.partial()
+export const updateTransactionSchema = transactionFieldsSchema
 
-// Transaction filter/query schema
+  .partial()
+
+  .refine(
+    ({ amount, splits, currency }) => {
+      if (amount === undefined || splits === undefined) {
+        return true
+      }
+
+      // Without a currency, a total that fits any currency's precision
+      // passes here
+
+      return (currency ? [currency] : CURRENCY_CODES).some((code) =>
+        splitsMatchAmount(amount, splits, code),
+      )
+    },
+
+    { message: splitsMessage, path: ["splits"] },
+  )
+
+  .refine(
+    (input) => input.exchangeRate === undefined || input.currency !== "IDR",
+
+    { message: exchangeRateMessage, path: ["exchangeRate"] },
+  )
+
+// Query parameter list: repeated (?ids=a&ids=b) or comma-separated (?ids=a,b)
+
+function idListSchema(message: string, max: number) {
+  return z.preprocess(
+    (value) => (typeof value === "string" ? value.split(",") : value),
+
+    z.array(z.string().uuid(message)).min(1).max(max),
+  )
+}
+
+const filterAmountSchema = z.coerce
+
+  .number()
+
+  .int("Amount filters are whole rupiah")
+
+  .min(0)
 
-export const transactionFilterSchema = z.object({
+  .max(MAX_AMOUNT_RUPIAH)
+
+// Position in a date-ordered list: rows after (or before) this one
+
+export const transactionCursorSchema = z.object({
+  transactionDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+
+  id: z.string().uuid(),
+
+  before: z.boolean(),
+})
+
+// Transaction filter fields (refined below)
+
+const transactionFilterFieldsSchema = z.object({
   page: z.coerce.number().int().positive().default(1),
 
   limit: z.coerce.number().int().positive().max(100).default(20),
@@ -61,7 +247,179 @@ export const transactionFilterSchema = z.object({
 
   categoryId: z.string().uuid().optional(),
 
+  // Matches any of the categories (combined with categoryId)
+
+  categoryIds: idListSchema("Invalid category ID", 50).optional(),
+
+  accountId: z.string().uuid().optional(),
+
   type: transactionTypeSchema.optional(),
+
+  tagIds: idListSchema("Invalid tag ID", 20).optional(),
+
+  // "any" matches transactions with at least one tag, "all" with every tag
+
+  tagMatch: z.enum(["any", "all"]).default("any"),
+
+  // Description search; results are ranked by relevance when set
+  // (an empty value means no search)
+
+  q: z
+
+    .string()
+
+    .trim()
+
+    .max(200, "Search must be 200 characters or fewer")
+
+    .refine(
+      (q) => q === "" || toSearchQuery(q) !== null,
+
+      "Search must contain letters or digits",
+    )
+
+    .optional(),
+
+  // Inclusive amount range in whole rupiah
+
+  minAmount: filterAmountSchema.optional(),
+
+  maxAmount: filterAmountSchema.optional(),
+
+  // Case-insensitive substring of the description
+
+  description: z.string().trim().min(1).max(200).optional(),
+
+  // Defaults to date, or to relevance when searching with q
+
+  sort: z.enum(["date", "amount", "createdAt", "description"]).optional(),
+
+  order: z.enum(["asc", "desc"]).default("desc"),
+
+  // Keyset cursor from meta.nextCursor/prevCursor, instead of page
+
+  cursor: z
+
+    .string()
+
+    .max(500)
+
+    .transform((text, ctx) => {
+      const parsed = transactionCursorSchema.safeParse(decodeCursor(text))
+
+      if (!parsed.success) {
+        ctx.addIssue({ code: "custom", message: "Invalid cursor" })
+
+        return z.NEVER
+      }
+
+      return parsed.data
+    })
+
+    .optional(),
+
+  // Whether to count the filtered set (meta.total and meta.totals);
+  // defaults to true for pages and false for cursors
+
+  count: z
+
+    .enum(["true", "false"])
+
+    .transform((value) => value === "true")
+
+    .optional(),
+})
+
+interface AmountRange {
+  minAmount?: number
+
+  maxAmount?: number
+}
+
+function isValidAmountRange(range: AmountRange): boolean {
+  return (
+    range.minAmount === undefined ||
+    range.maxAmount === undefined ||
+    range.minAmount <= range.maxAmount
+  )
+}
+
+const amountRangeMessage = {
+  message: "minAmount must not be greater than maxAmount",
+
+  path: ["maxAmount"],
+}
+
+interface ListOrder {
+  sort?: "date" | "amount" | "createdAt" | "description"
+
+  q?: string
+}
+
+/**
+ * Whether a list is ordered by date, the only order cursors support
+ * (searches without an explicit sort are ordered by relevance)
+ */
+
+export function isDateOrdered(filter: ListOrder): boolean {
+  return filter.sort === undefined ? !filter.q : filter.sort === "date"
+}
+
+// Transaction filter/query schema
+
+export const transactionFilterSchema = transactionFilterFieldsSchema
+
+  .refine(isValidAmountRange, amountRangeMessage)
+
+  .refine((filter) => !filter.cursor || filter.page === 1, {
+    message: "Use either page or cursor",
+
+    path: ["cursor"],
+  })
+
+  .refine((filter) => !filter.cursor || isDateOrdered(filter), {
+    message: "Cursors only work with the date sort",
+
+    path: ["cursor"],
+  })
+
+// Export query schema: every list filter, without paging or sorting
+// (exports are always newest first)
+
+export const transactionExportFilterSchema = transactionFilterFieldsSchema
+
+  .omit({
+    page: true,
+
+    limit: true,
+
+    sort: true,
+
+    order: true,
+
+    cursor: true,
+
+    count: true,
+  })
+
+  .extend({
+    format: z.enum(["csv", "xlsx"]).default("csv"),
+  })
+
+  .refine(isValidAmountRange, amountRangeMessage)
+
+// Split line response schema
+
+export const transactionSplitSchema = z.object({
+  id: z.string().uuid(),
+
+  categoryId: z.string().uuid(),
+
+  categoryName: z.string().nullable(),
+
+  amountRupiah: z.number().int().positive(),
+
+  memo: z.string().nullable(),
 })
 
 // Transaction response schema
@@ -69,23 +427,150 @@ export const transactionFilterSchema = z.object({
 export const transactionSchema = z.object({
   id: z.string().uuid(),
 
-  categoryId: z.string().uuid(),
+  // Null for transfer legs, which carry no category
+
+  categoryId: z.string().uuid().nullable(),
 
   categoryName: z.string().nullable(),
 
   categoryType: transactionTypeSchema.nullable(),
 
+  accountId: z.string().uuid(),
+
+  accountName: z.string().nullable(),
+
+  // Always in rupiah; every total is built from it
+
   amountRupiah: z.number().int().positive(),
 
+  // Null unless entered in another currency
+
+  originalCurrency: currencySchema.nullable(),
+
+  originalAmount: z.number().positive().nullable(),
+
+  exchangeRate: z.number().positive().nullable(),
+
   description: z.string(),
 
   transactionDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
 
+  transferId: z.string().uuid().nullable(),
+
+  recurringRuleId: z.string().uuid().nullable(),
+
+  tags: z.array(tagSummarySchema),
+
+  // Empty unless the transaction is split across categories
+
+  splits: z.array(transactionSplitSchema),
+
+  // Search hits only: matching description fragment, HTML-escaped with
+  // matches wrapped in <mark>
+
+  snippet: z.string().optional(),
+
   createdAt: z.date(),
 
   updatedAt: z.date(),
 })
 
+// Totals of every transaction matching a list filter (transfers excluded)
+
+export const transactionTotalsSchema = z.object({
+  incomeRupiah: z.number().int().nonnegative(),
+
+  expenseRupiah: z.number().int().nonnegative(),
+
+  netRupiah: z.number().int(),
+})
+
+// List response meta
+
+export const transactionListMetaSchema = z.object({
+  limit: paginationMetaSchema.shape.limit,
+
+  // Page requests only
+
+  page: paginationMetaSchema.shape.page.optional(),
+
+  // Only when counted
+
+  total: paginationMetaSchema.shape.total.optional(),
+
+  totalPages: paginationMetaSchema.shape.totalPages.optional(),
+
+  totals: transactionTotalsSchema.optional(),
+
+  // Null at either end of the list, and for sorts other than date
+
+  nextCursor: z.string().nullable(),
+
+  prevCursor: z.string().nullable(),
+})
+
+// Exported row; direction labels transfer legs, which have no category
+
+export const transactionExportRowSchema = transactionSchema.extend({
+  direction: z.enum(["in", "out"]).nullable(),
+})
+
+// Created transaction with likely duplicates already in the ledger
+
+export const createdTransactionSchema = transactionSchema.extend({
+  possibleDuplicateIds: z.array(z.string().uuid()),
+})
+
+// Duplicate pairs query schema
+
+export const duplicateFilterSchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+
+  limit: z.coerce.number().int().positive().max(100).default(20),
+})
+
+// Dismiss a suspected duplicate pair
+
+export const dismissDuplicateSchema = z
+
+  .object({
+    transactionId: z.string().uuid("Invalid transaction ID"),
+
+    duplicateId: z.string().uuid("Invalid transaction ID"),
+  })
+
+  .refine((pair) => pair.transactionId !== pair.duplicateId, {
+    message: "A transaction cannot duplicate itself",
+
+    path: ["duplicateId"],
+  })
+
+// Merge a suspected duplicate pair by deleting one side
+
+export const mergeDuplicateSchema = z
+
+  .object({
+    keepId: z.string().uuid("Invalid transaction ID"),
+
+    removeId: z.string().uuid("Invalid transaction ID"),
+  })
+
+  .refine((pair) => pair.keepId !== pair.removeId, {
+    message: "Keep and remove must be different transactions",
+
+    path: ["removeId"],
+  })
+
+// Suspected duplicate pair response
+
+export const duplicatePairSchema = z.object({
+  transaction: transactionSchema,
+
+  duplicate: transactionSchema,
+
+  daysApart: z.number().int().nonnegative(),
+})
+
 // Types
 
 export type TransactionType = z.infer<typeof transactionTypeSchema>
@@ -94,6 +579,30 @@ export type CreateTransactionInput = z.infer<typeof createTransactionSchema>
 
 export type UpdateTransactionInput = z.infer<typeof updateTransactionSchema>
 
+export type TransactionSplitInput = z.infer<typeof transactionSplitInputSchema>
+
+export type TransactionSplit = z.infer<typeof transactionSplitSchema>
+
 export type TransactionFilter = z.infer<typeof transactionFilterSchema>
 
+export type TransactionCursor = z.infer<typeof transactionCursorSchema>
+
+export type TransactionExportFilter = z.infer<typeof transactionExportFilterSchema>
+
 export type Transaction = z.infer<typeof transactionSchema>
+
+export type TransactionTotals = z.infer<typeof transactionTotalsSchema>
+
+export type TransactionListMeta = z.infer<typeof transactionListMetaSchema>
+
+export type TransactionExportRow = z.infer<typeof transactionExportRowSchema>
+
+export type CreatedTransaction = z.infer<typeof createdTransactionSchema>
+
+export type DuplicateFilter = z.infer<typeof duplicateFilterSchema>
+
+export type DismissDuplicateInput = z.infer<typeof dismissDuplicateSchema>
+
+export type MergeDuplicateInput = z.infer<typeof mergeDuplicateSchema>
+
+export type DuplicatePair = z.infer<typeof duplicatePairSchema>
@@ -1,6 +1,17 @@
 import { getDb } from "../../db"
 
-import { transactions, categories } from "../../db/schema"
+import {
+  transactions,
+  categories,
+  accounts,
+  duplicateDismissals,
+  tags,
+  transactionTags,
+  transactionSplits,
+  investmentTrades,
+} from "../../db/schema"
+
+import type { NewTransactionSplit } from "../../db/schema"
 
 import type { Env } from "../../env"
 
@@ -8,165 +19,862 @@ import type {
   CreateTransactionInput,
   UpdateTransactionInput,
   Transaction,
+  TransactionSplit,
+  TransactionSplitInput,
+  TransactionExportRow,
+  TransactionTotals,
+  TransactionCursor,
+  CreatedTransaction,
+  DuplicateFilter,
+  DuplicatePair,
+  DismissDuplicateInput,
 } from "./schema"
 
-import type { TransactionFilter } from "./schema"
+import type { TransactionFilter, TransactionExportFilter } from "./schema"
 
-import { toRupiah } from "../../lib/currency"
+import { isDateOrdered } from "./schema"
 
-import { eq, desc, and, gte, lte, sql } from "drizzle-orm"
+import type { TagSummary } from "../tags/schema"
 
-export class TransactionService {
-  /**
-   * Get transactions with pagination and filters
-   */
+import { settingsService } from "../settings/service"
 
-  async list(env: Env, filter: TransactionFilter): Promise<{
-    data: Transaction[]
+import { exchangeRateService } from "../exchange-rates/service"
 
-    total: number
-  }> {
-    const db = getDb(env)
+import {
+  toRupiah,
+  toSafeInteger,
+  roundToMinorUnits,
+  convertToRupiah,
+  allocateRupiah,
+} from "../../lib/currency"
 
-    const { page, limit, startDate, endDate, categoryId, type } = filter
+import type { CurrencyCode } from "../../lib/currency"
 
-    const offset = (page - 1) * limit
+import { daysBetween } from "../../lib/date"
 
-    const conditions = []
+import { encodeCursor } from "../../lib/cursor"
 
-    if (startDate) {
-      conditions.push(gte(transactions.transactionDate, startDate))
-    }
+import { transactionFingerprint } from "../../lib/fingerprint"
 
-    if (endDate) {
-      conditions.push(lte(transactions.transactionDate, endDate))
-    }
+import {
+  searchMatches,
+  searchRank,
+  searchSnippet,
+  toSearchQuery,
+} from "../../lib/search"
 
-    if (categoryId) {
-      conditions.push(eq(transactions.categoryId, categoryId))
-    }
+import {
+  eq,
+  asc,
+  desc,
+  and,
+  gte,
+  lte,
+  isNull,
+  sql,
+  between,
+  inArray,
+  or,
+  lt,
+  ilike,
+  type SQL,
+} from "drizzle-orm"
 
-    if (type) {
-      conditions.push(eq(categories.type, type))
-    }
+import { alias } from "drizzle-orm/pg-core"
+
+// Columns selected for every transaction response
+
+const transactionColumns = {
+  id: transactions.id,
+
+  categoryId: transactions.categoryId,
+
+  categoryName: categories.name,
+
+  categoryType: categories.type,
+
+  accountId: transactions.accountId,
+
+  accountName: accounts.name,
+
+  amountRupiah: transactions.amountRupiah,
+
+  originalCurrency: transactions.originalCurrency,
+
+  originalAmount: transactions.originalAmount,
+
+  exchangeRate: transactions.exchangeRate,
+
+  description: transactions.description,
+
+  transactionDate: transactions.transactionDate,
+
+  transferId: transactions.transferId,
+
+  recurringRuleId: transactions.recurringRuleId,
+
+  createdAt: transactions.createdAt,
+
+  updatedAt: transactions.updatedAt,
+}
 
-    const whereClause = conditions.length > 0 ? and(...conditions) : undefined
+// Transfers move money between accounts and investment trades swap cash
+// for units; neither is income nor expense
+
+export const isInvestmentTrade: SQL = sql`EXISTS (SELECT 1 FROM ${investmentTrades} WHERE ${investmentTrades.transactionId} = ${transactions.id})`
+
+export const isConsumption: SQL = sql`(${isNull(transactions.transferId)} AND NOT ${isInvestmentTrade})`
+
+// Split lines replace their parent in category aggregations; unsplit
+// transactions have no lines and count as a single line. Both need a
+// left join of transactionSplits on the transaction.
+
+export const lineAmount: SQL = sql`COALESCE(${transactionSplits.amountRupiah}, ${transactions.amountRupiah})`
+
+export const lineCategoryId: SQL = sql`COALESCE(${transactionSplits.categoryId}, ${transactions.categoryId})`
+
+// Rows fetched per query while streaming an export
+
+const EXPORT_BATCH_SIZE = 500
+
+// Unsaved rows checked per duplicate lookup query
+
+const PROBE_BATCH_SIZE = 1000
+
+/**
+ * A row that is about to be written, checked against the ledger
+ */
+
+export interface DuplicateProbe {
+  accountId: string
+
+  amountRupiah: number
+
+  description: string
+
+  transactionDate: string
+}
+
+/**
+ * An amount as entered, before conversion to rupiah
+ */
+
+export interface AmountEntry {
+  amount: number
+
+  currency: CurrencyCode
+
+  // Looked up from the stored rates when null
+
+  exchangeRate: number | null
+
+  transactionDate: string
+}
+
+/**
+ * Amount columns of a transaction; the original* fields are null for
+ * rupiah amounts
+ */
+
+export interface TransactionAmount {
+  amountRupiah: number
+
+  originalCurrency: CurrencyCode | null
+
+  originalAmount: number | null
+
+  exchangeRate: number | null
+}
 
-    const data = await db
+type Database = ReturnType<typeof getDb>
+
+interface TransactionPage {
+  data: Transaction[]
+
+  nextCursor: string | null
+
+  prevCursor: string | null
+
+  // Only when the filtered set is counted
+
+  total?: number
+
+  totals?: TransactionTotals
+}
+
+interface TransactionDetails {
+  tags: TagSummary[]
+
+  splits: TransactionSplit[]
+}
+
+/**
+ * Attach each transaction's tags and split lines with two extra queries
+ */
+
+async function withDetails<T extends { id: string }>(
+  db: Database,
+
+  rows: T[],
+): Promise<Array<T & TransactionDetails>> {
+  const tagsByTransaction = new Map<string, TagSummary[]>()
+
+  const splitsByTransaction = new Map<string, TransactionSplit[]>()
+
+  if (rows.length > 0) {
+    const ids = rows.map((row) => row.id)
+
+    const links = await db
+
+      .select({
+        transactionId: transactionTags.transactionId,
+
+        id: tags.id,
+
+        name: tags.name,
+      })
+
+      .from(transactionTags)
+
+      .innerJoin(tags, eq(transactionTags.tagId, tags.id))
+
+      .where(inArray(transactionTags.transactionId, ids))
+
+      .orderBy(tags.name)
+
+    for (const { transactionId, ...tag } of links) {
+      const list = tagsByTransaction.get(transactionId) ?? []
+
+      list.push(tag)
+
+      tagsByTransaction.set(transactionId, list)
+    }
+
+    const lines = await db
 
       .select({
-        id: transactions.id,
+        transactionId: transactionSplits.transactionId,
 
-        categoryId: transactions.categoryId,
+        id: transactionSplits.id,
+
+        categoryId: transactionSplits.categoryId,
 
         categoryName: categories.name,
 
-        categoryType: categories.type,
+        amountRupiah: transactionSplits.amountRupiah,
+
+        memo: transactionSplits.memo,
+      })
+
+      .from(transactionSplits)
+
+      .leftJoin(categories, eq(transactionSplits.categoryId, categories.id))
+
+      .where(inArray(transactionSplits.transactionId, ids))
+
+      .orderBy(desc(transactionSplits.amountRupiah), transactionSplits.id)
+
+    for (const { transactionId, ...line } of lines) {
+      const list = splitsByTransaction.get(transactionId) ?? []
+
+      list.push(line)
+
+      splitsByTransaction.set(transactionId, list)
+    }
+  }
+
+  return rows.map((row) => ({
+    ...row,
+
+    tags: tagsByTransaction.get(row.id) ?? [],
+
+    splits: splitsByTransaction.get(row.id) ?? [],
+  }))
+}
+
+/**
+ * Rows to insert for a transaction's split lines
+ * Lines in another currency share the converted amount in proportion
+ */
+
+function splitRows(
+  transactionId: string,
+
+  splits: TransactionSplitInput[],
 
-        amountRupiah: transactions.amountRupiah,
+  amount: TransactionAmount,
+): NewTransactionSplit[] {
+  const converted = amount.originalCurrency
+    ? allocateRupiah(
+        amount.amountRupiah,
 
-        description: transactions.description,
+        splits.map((line) => line.amount),
+      )
+    : null
 
-        transactionDate: transactions.transactionDate,
+  return splits.map((line, index) => ({
+    transactionId,
+
+    categoryId: line.categoryId,
+
+    amountRupiah: converted ? converted[index] : toRupiah(line.amount),
+
+    memo: line.memo ?? null,
+  }))
+}
+
+/**
+ * Escape LIKE wildcards so user input matches literally
+ */
+
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&")
+}
 
-        createdAt: transactions.createdAt,
+/**
+ * ORDER BY for a transaction list
+ * Ties break on ID (and creation time for non-date sorts) in the same
+ * direction, so pages never shuffle rows with equal sort values.
+ * Searches without an explicit sort are ordered by relevance.
+ * @param reverse - Flip the direction (for reading backwards from a cursor)
+ */
 
-        updatedAt: transactions.updatedAt,
+function listOrder(
+  filter: Pick<TransactionFilter, "sort" | "order" | "q">,
+
+  reverse: boolean,
+): SQL[] {
+  const descending = (filter.order === "desc") !== reverse
+
+  const direction = descending ? desc : asc
+
+  const query = filter.q ? toSearchQuery(filter.q) : null
+
+  if (!filter.sort && query) {
+    return [
+      desc(searchRank(sql`${transactions.searchVector}`, query)),
+
+      desc(transactions.transactionDate),
+
+      desc(transactions.id),
+    ]
+  }
+
+  if (!filter.sort || filter.sort === "date") {
+    return [direction(transactions.transactionDate), direction(transactions.id)]
+  }
+
+  const sortColumns = {
+    amount: sql`${transactions.amountRupiah}`,
+
+    createdAt: sql`${transactions.createdAt}`,
+
+    description: sql`lower(${transactions.description})`,
+  }
+
+  return [
+    direction(sortColumns[filter.sort]),
+
+    direction(transactions.createdAt),
+
+    direction(transactions.id),
+  ]
+}
+
+/**
+ * Keyset condition for rows after (or before) a cursor in date order
+ */
+
+function cursorCondition(
+  cursor: TransactionCursor,
+
+  order: TransactionFilter["order"],
+): SQL {
+  const row = sql`(${transactions.transactionDate}, ${transactions.id})`
+
+  const position = sql`(${cursor.transactionDate}::date, ${cursor.id}::uuid)`
+
+  // Descending lists continue with smaller keys, ascending with larger
+
+  return (order === "desc") !== cursor.before
+    ? sql`${row} < ${position}`
+    : sql`${row} > ${position}`
+}
+
+/**
+ * Cursor pointing just after or before a row
+ */
+
+function cursorFor(row: Transaction, before: boolean): string {
+  const cursor: TransactionCursor = {
+    transactionDate: row.transactionDate,
+
+    id: row.id,
+
+    before,
+  }
+
+  return encodeCursor(cursor)
+}
+
+/**
+ * Categories filtered on, from both categoryId and categoryIds
+ */
+
+function filterCategoryIds(
+  filter: Pick<TransactionFilter, "categoryId" | "categoryIds">,
+): string[] {
+  return [
+    ...new Set([
+      ...(filter.categoryId ? [filter.categoryId] : []),
+
+      ...(filter.categoryIds ?? []),
+    ]),
+  ]
+}
+
+/**
+ * Build the WHERE clause shared by listing and exporting
+ * The type condition needs categories joined in the query
+ */
+
+function filterConditions(
+  filter: Omit<TransactionFilter, "page" | "limit" | "sort" | "order">,
+): SQL | undefined {
+  const { startDate, endDate, accountId, type, tagIds, q } = filter
+
+  const { minAmount, maxAmount, description } = filter
+
+  const conditions = []
+
+  if (startDate) {
+    conditions.push(gte(transactions.transactionDate, startDate))
+  }
+
+  if (endDate) {
+    conditions.push(lte(transactions.transactionDate, endDate))
+  }
+
+  const categoryIds = filterCategoryIds(filter)
+
+  // A split transaction matches any of its line categories too
+
+  if (categoryIds.length > 0) {
+    conditions.push(
+      or(
+        inArray(transactions.categoryId, categoryIds),
+
+        sql`EXISTS (SELECT 1 FROM ${transactionSplits} WHERE ${transactionSplits.transactionId} = ${transactions.id} AND ${inArray(transactionSplits.categoryId, categoryIds)})`,
+      ),
+    )
+  }
+
+  if (accountId) {
+    conditions.push(eq(transactions.accountId, accountId))
+  }
+
+  if (type) {
+    conditions.push(eq(categories.type, type))
+  }
+
+  if (tagIds) {
+    const uniqueTagIds = [...new Set(tagIds)]
+
+    const matchingTags = sql`SELECT COUNT(*) FROM ${transactionTags} WHERE ${transactionTags.transactionId} = ${transactions.id} AND ${inArray(transactionTags.tagId, uniqueTagIds)}`
+
+    conditions.push(
+      filter.tagMatch === "all"
+        ? sql`(${matchingTags}) = ${uniqueTagIds.length}`
+        : sql`(${matchingTags}) > 0`,
+    )
+  }
+
+  if (minAmount !== undefined) {
+    conditions.push(gte(transactions.amountRupiah, minAmount))
+  }
+
+  if (maxAmount !== undefined) {
+    conditions.push(lte(transactions.amountRupiah, maxAmount))
+  }
+
+  if (description) {
+    conditions.push(
+      ilike(transactions.description, `%${escapeLikePattern(description)}%`),
+    )
+  }
+
+  const query = q ? toSearchQuery(q) : null
+
+  if (query) {
+    conditions.push(searchMatches(sql`${transactions.searchVector}`, query))
+  }
+
+  return conditions.length > 0 ? and(...conditions) : undefined
+}
+
+export class TransactionService {
+  /**
+   * Get transactions with pagination and filters
+   * With a search query, results are ordered by relevance and carry a
+   * highlighted snippet; otherwise newest first
+   */
+
+  async list(env: Env, filter: TransactionFilter): Promise<TransactionPage> {
+    const db = getDb(env)
+
+    const { page, limit, cursor } = filter
+
+    const offset = cursor ? 0 : (page - 1) * limit
+
+    const whereClause = filterConditions(filter)
+
+    const query = filter.q ? toSearchQuery(filter.q) : null
+
+    const backward = cursor?.before ?? false
+
+    // One extra row tells whether another page follows
+
+    const rows = await db
+
+      .select({
+        ...transactionColumns,
+
+        snippet: query
+          ? searchSnippet(sql`${transactions.description}`, query)
+          : sql<string | null>`NULL`,
       })
 
       .from(transactions)
 
       .leftJoin(categories, eq(transactions.categoryId, categories.id))
 
-      .where(whereClause)
+      .leftJoin(accounts, eq(transactions.accountId, accounts.id))
+
+      .where(
+        and(
+          whereClause,
 
-      .orderBy(desc(transactions.transactionDate))
+          cursor ? cursorCondition(cursor, filter.order) : undefined,
+        ),
+      )
 
-      .limit(limit)
+      .orderBy(...listOrder(filter, backward))
+
+      .limit(limit + 1)
 
       .offset(offset)
 
-    // Get total count
+    const hasMore = rows.length > limit
 
-    const countResult = await db
+    const pageRows = rows.slice(0, limit)
+
+    if (backward) {
+      pageRows.reverse()
+    }
+
+    const data = await withDetails(
+      db,
+
+      pageRows.map(({ snippet, ...row }) =>
+        snippet === null ? row : { ...row, snippet },
+      ),
+    )
+
+    let nextCursor: string | null = null
+
+    let prevCursor: string | null = null
+
+    if (isDateOrdered(filter) && data.length > 0) {
+      const first = data[0]
+
+      const last = data[data.length - 1]
+
+      const hasNext = backward || hasMore
+
+      const hasPrev = backward ? hasMore : cursor !== undefined || page > 1
 
-      .select({ count: sql<number>`count(*)` })
+      nextCursor = hasNext ? cursorFor(last, false) : null
+
+      prevCursor = hasPrev ? cursorFor(first, true) : null
+    }
+
+    if (!(filter.count ?? !cursor)) {
+      return { data, nextCursor, prevCursor }
+    }
+
+    // Count of the whole filtered set; totals leave out transfers and
+    // investment trades, as the dashboard does. Totals are summed per
+    // split line so that a category filter counts only the matching lines.
+
+    const categoryIds = filterCategoryIds(filter)
+
+    const totalled =
+      categoryIds.length > 0
+        ? sql`${isConsumption} AND ${inArray(lineCategoryId, categoryIds)}`
+        : isConsumption
+
+    const [aggregate] = await db
+
+      .select({
+        count: sql<number>`count(DISTINCT ${transactions.id})`.mapWith(
+          toSafeInteger,
+        ),
+
+        incomeRupiah:
+          sql<number>`COALESCE(SUM(CASE WHEN ${categories.type} = 'income' AND ${totalled} THEN ${lineAmount} ELSE 0 END), 0)`.mapWith(
+            toSafeInteger,
+          ),
+
+        expenseRupiah:
+          sql<number>`COALESCE(SUM(CASE WHEN ${categories.type} = 'expense' AND ${totalled} THEN ${lineAmount} ELSE 0 END), 0)`.mapWith(
+            toSafeInteger,
+          ),
+      })
 
       .from(transactions)
 
+      .leftJoin(
+        transactionSplits,
+
+        eq(transactionSplits.transactionId, transactions.id),
+      )
+
+      .leftJoin(categories, eq(transactions.categoryId, categories.id))
+
       .where(whereClause)
 
-    const total = countResult[0]?.count ?? 0
+    const incomeRupiah = aggregate?.incomeRupiah ?? 0
 
-    return { data, total }
+    const expenseRupiah = aggregate?.expenseRupiah ?? 0
+
+    return {
+      data,
+
+      nextCursor,
+
+      prevCursor,
+
+      total: aggregate?.count ?? 0,
+
+      totals: {
+        incomeRupiah,
+
+        expenseRupiah,
+
+        netRupiah: incomeRupiah - expenseRupiah,
+      },
+    }
   }
 
   /**
-   * Get a single transaction by ID
+   * Stream every transaction matching the filter, newest first
+   * Rows are read in keyset-paginated batches on (date, id), so memory
+   * use stays flat however many rows match
    */
 
-  async getById(env: Env, id: string): Promise<Transaction | null> {
+  async *exportRows(
+    env: Env,
+
+    filter: TransactionExportFilter,
+  ): AsyncGenerator<TransactionExportRow> {
     const db = getDb(env)
 
-    const result = await db
+    const whereClause = filterConditions(filter)
 
-      .select({
-        id: transactions.id,
+    let last: TransactionExportRow | undefined
 
-        categoryId: transactions.categoryId,
+    while (true) {
+      const after = last
+        ? or(
+            lt(transactions.transactionDate, last.transactionDate),
 
-        categoryName: categories.name,
+            and(
+              eq(transactions.transactionDate, last.transactionDate),
 
-        categoryType: categories.type,
+              lt(transactions.id, last.id),
+            ),
+          )
+        : undefined
 
-        amountRupiah: transactions.amountRupiah,
+      const rows = await db
 
-        description: transactions.description,
+        .select({ ...transactionColumns, direction: transactions.direction })
 
-        transactionDate: transactions.transactionDate,
+        .from(transactions)
 
-        createdAt: transactions.createdAt,
+        .leftJoin(categories, eq(transactions.categoryId, categories.id))
 
-        updatedAt: transactions.updatedAt,
-      })
+        .leftJoin(accounts, eq(transactions.accountId, accounts.id))
+
+        .where(and(whereClause, after))
+
+        .orderBy(desc(transactions.transactionDate), desc(transactions.id))
+
+        .limit(EXPORT_BATCH_SIZE)
+
+      const batch = await withDetails(db, rows)
+
+      yield* batch
+
+      if (batch.length < EXPORT_BATCH_SIZE) {
+        return
+      }
+
+      last = batch[batch.length - 1]
+    }
+  }
+
+  /**
+   * Get a single transaction by ID
+   */
+
+  async getById(env: Env, id: string): Promise<Transaction | null> {
+    const db = getDb(env)
+
+    const rows = await db
+
+      .select(transactionColumns)
 
       .from(transactions)
 
       .leftJoin(categories, eq(transactions.categoryId, categories.id))
 
+      .leftJoin(accounts, eq(transactions.accountId, accounts.id))
+
       .where(eq(transactions.id, id))
 
       .limit(1)
 
+    const result = await withDetails(db, rows)
+
     return result[0] ?? null
   }
 
+  /**
+   * Convert an entered amount to rupiah
+   * Foreign amounts are rounded to their currency's minor units first
+   * @returns Amount columns, or null when no rate is stored on or before
+   * the transaction date
+   */
+
+  async resolveAmount(
+    env: Env,
+
+    entry: AmountEntry,
+  ): Promise<TransactionAmount | null> {
+    if (entry.currency === "IDR") {
+      return {
+        amountRupiah: toRupiah(entry.amount),
+
+        originalCurrency: null,
+
+        originalAmount: null,
+
+        exchangeRate: null,
+      }
+    }
+
+    const exchangeRate =
+      entry.exchangeRate ??
+      (
+        await exchangeRateService.findRate(
+          env,
+
+          entry.currency,
+
+          entry.transactionDate,
+        )
+      )?.rateRupiah
+
+    if (exchangeRate === undefined) {
+      return null
+    }
+
+    const originalAmount = roundToMinorUnits(entry.amount, entry.currency)
+
+    return {
+      amountRupiah: convertToRupiah(originalAmount, exchangeRate),
+
+      originalCurrency: entry.currency,
+
+      originalAmount,
+
+      exchangeRate,
+    }
+  }
+
   /**
    * Create a new transaction
    */
 
-  async create(env: Env, input: CreateTransactionInput): Promise<Transaction> {
+  async create(
+    env: Env,
+
+    input: CreateTransactionInput,
+
+    amount: TransactionAmount,
+  ): Promise<CreatedTransaction> {
     const db = getDb(env)
 
-    const amountRupiah = toRupiah(input.amount)
+    const { duplicateWindowDays } = await settingsService.get(env)
 
-    const result = await db
+    // Look before inserting so the new row does not match itself
 
-      .insert(transactions)
+    const [possibleDuplicateIds] = await this.findDuplicateCandidates(
+      env,
 
-      .values({
-        categoryId: input.categoryId,
+      [{ ...input, amountRupiah: amount.amountRupiah }],
 
-        amountRupiah,
+      duplicateWindowDays,
+    )
 
-        description: input.description,
+    const created = await db.transaction(async (tx) => {
+      const result = await tx
 
-        transactionDate: input.transactionDate,
-      })
+        .insert(transactions)
 
-      .returning()
+        .values({
+          categoryId: input.categoryId,
+
+          accountId: input.accountId,
+
+          amountRupiah: amount.amountRupiah,
+
+          originalCurrency: amount.originalCurrency,
 
-    const created = result[0]
+          originalAmount: amount.originalAmount,
+
+          exchangeRate: amount.exchangeRate,
+
+          description: input.description,
+
+          transactionDate: input.transactionDate,
+        })
+
+        .returning()
+
+      const tagIds = [...new Set(input.tagIds ?? [])]
+
+      if (tagIds.length > 0) {
+        await tx
+
+          .insert(transactionTags)
+
+          .values(
+            tagIds.map((tagId) => ({ transactionId: result[0].id, tagId })),
+          )
+      }
+
+      if (input.splits && input.splits.length > 0) {
+        await tx
+
+          .insert(transactionSplits)
+
+          .values(splitRows(result[0].id, input.splits, amount))
+      }
+
+      return result[0]
+    })
 
     // Fetch with category details
 
@@ -176,11 +884,14 @@ export class TransactionService {
       throw new Error("Failed to create transaction")
     }
 
-    return withCategory
+    return { ...withCategory, possibleDuplicateIds }
   }
 
   /**
    * Update a transaction
+   * Transfer legs are left untouched; they change through TransferService
+   * @param amount - Amount columns after the update, which new split lines
+   * are converted with
    */
 
   async update(
@@ -189,13 +900,21 @@ export class TransactionService {
     id: string,
 
     input: UpdateTransactionInput,
+
+    amount: TransactionAmount,
   ): Promise<Transaction | null> {
     const db = getDb(env)
 
-    const updateData: Record<string, unknown> = {}
+    const updateData: Record<string, unknown> = {
+      amountRupiah: amount.amountRupiah,
+
+      originalCurrency: amount.originalCurrency,
 
-    if (input.amount !== undefined) {
-      updateData.amountRupiah = toRupiah(input.amount)
+      originalAmount: amount.originalAmount,
+
+      exchangeRate: amount.exchangeRate,
+
+      updatedAt: new Date(),
     }
 
     if (input.description !== undefined) {
@@ -210,17 +929,63 @@ export class TransactionService {
       updateData.categoryId = input.categoryId
     }
 
-    const result = await db
+    if (input.accountId !== undefined) {
+      updateData.accountId = input.accountId
+    }
 
-      .update(transactions)
+    const updated = await db.transaction(async (tx) => {
+      const result = await tx
 
-      .set(updateData)
+        .update(transactions)
 
-      .where(eq(transactions.id, id))
+        .set(updateData)
 
-      .returning()
+        .where(and(eq(transactions.id, id), isNull(transactions.transferId)))
+
+        .returning({ id: transactions.id })
+
+      if (result.length === 0) {
+        return false
+      }
+
+      if (input.tagIds !== undefined) {
+        const tagIds = [...new Set(input.tagIds)]
+
+        await tx
+
+          .delete(transactionTags)
+
+          .where(eq(transactionTags.transactionId, id))
+
+        if (tagIds.length > 0) {
+          await tx
+
+            .insert(transactionTags)
 
-    if (result.length === 0) {
+            .values(tagIds.map((tagId) => ({ transactionId: id, tagId })))
+        }
+      }
+
+      if (input.splits !== undefined) {
+        await tx
+
+          .delete(transactionSplits)
+
+          .where(eq(transactionSplits.transactionId, id))
+
+        if (input.splits.length > 0) {
+          await tx
+
+            .insert(transactionSplits)
+
+            .values(splitRows(id, input.splits, amount))
+        }
+      }
+
+      return true
+    })
+
+    if (!updated) {
       return null
     }
 
@@ -229,6 +994,7 @@ export class TransactionService {
 
   /**
    * Delete a transaction
+   * Transfer legs are left untouched; they are deleted with their transfer
    */
 
   async delete(env: Env, id: string): Promise<boolean> {
@@ -238,12 +1004,251 @@ export class TransactionService {
 
       .delete(transactions)
 
-      .where(eq(transactions.id, id))
+      .where(and(eq(transactions.id, id), isNull(transactions.transferId)))
 
       .returning()
 
     return result.length > 0
   }
+
+  /**
+   * Find existing transactions that look like each unsaved row: same
+   * fingerprint (account, amount, normalized description) and a date
+   * within the duplicate window. Transfer legs are never candidates.
+   * @returns Candidate IDs per probe, in probe order
+   */
+
+  async findDuplicateCandidates(
+    env: Env,
+
+    probes: DuplicateProbe[],
+
+    windowDays: number,
+  ): Promise<string[][]> {
+    const db = getDb(env)
+
+    const candidates: string[][] = probes.map(() => [])
+
+    for (let start = 0; start < probes.length; start += PROBE_BATCH_SIZE) {
+      const rows = sql.join(
+        probes
+
+          .slice(start, start + PROBE_BATCH_SIZE)
+
+          .map(
+            (probe, i) =>
+              sql`(${start + i}::int, ${probe.accountId}::uuid, ${probe.amountRupiah}::bigint, ${probe.description}::text, ${probe.transactionDate}::date)`,
+          ),
+
+        sql`, `,
+      )
+
+      const matches = await db
+
+        .select({
+          probeIndex: sql<number>`probe.probe_index`,
+
+          id: transactions.id,
+        })
+
+        .from(transactions)
+
+        .innerJoin(
+          sql`(VALUES ${rows}) AS probe(probe_index, account_id, amount_rupiah, description, transaction_date)`,
+
+          and(
+            eq(
+              transactions.fingerprint,
+
+              transactionFingerprint(
+                sql`probe.account_id`,
+
+                sql`probe.amount_rupiah`,
+
+                sql`probe.description`,
+              ),
+            ),
+
+            between(
+              transactions.transactionDate,
+
+              sql`probe.transaction_date - ${windowDays}::int`,
+
+              sql`probe.transaction_date + ${windowDays}::int`,
+            ),
+          ),
+        )
+
+        .where(isNull(transactions.transferId))
+
+        .orderBy(transactions.transactionDate)
+
+      for (const match of matches) {
+        candidates[match.probeIndex].push(match.id)
+      }
+    }
+
+    return candidates
+  }
+
+  /**
+   * List suspected duplicate pairs that have not been dismissed
+   * Each pair is reported once, newest first
+   */
+
+  async listDuplicates(
+    env: Env,
+
+    filter: DuplicateFilter,
+  ): Promise<{
+    data: DuplicatePair[]
+
+    total: number
+  }> {
+    const db = getDb(env)
+
+    const { duplicateWindowDays } = await settingsService.get(env)
+
+    const other = alias(transactions, "duplicate_transactions")
+
+    const pairCondition = and(
+      eq(other.fingerprint, transactions.fingerprint),
+
+      // Report each pair once, in the same order dismissals are stored
+
+      sql`${transactions.id} < ${other.id}`,
+
+      between(
+        other.transactionDate,
+
+        sql`${transactions.transactionDate} - ${duplicateWindowDays}::int`,
+
+        sql`${transactions.transactionDate} + ${duplicateWindowDays}::int`,
+      ),
+
+      isNull(other.transferId),
+    )
+
+    const dismissalCondition = and(
+      eq(duplicateDismissals.transactionId, transactions.id),
+
+      eq(duplicateDismissals.duplicateId, other.id),
+    )
+
+    const whereClause = and(
+      isNull(transactions.transferId),
+
+      isNull(duplicateDismissals.id),
+    )
+
+    const pairs = await db
+
+      .select({ transactionId: transactions.id, duplicateId: other.id })
+
+      .from(transactions)
+
+      .innerJoin(other, pairCondition)
+
+      .leftJoin(duplicateDismissals, dismissalCondition)
+
+      .where(whereClause)
+
+      .orderBy(desc(transactions.transactionDate), transactions.id, other.id)
+
+      .limit(filter.limit)
+
+      .offset((filter.page - 1) * filter.limit)
+
+    const countResult = await db
+
+      .select({ count: sql<number>`count(*)`.mapWith(toSafeInteger) })
+
+      .from(transactions)
+
+      .innerJoin(other, pairCondition)
+
+      .leftJoin(duplicateDismissals, dismissalCondition)
+
+      .where(whereClause)
+
+    const total = countResult[0]?.count ?? 0
+
+    if (pairs.length === 0) {
+      return { data: [], total }
+    }
+
+    const ids = pairs.flatMap((pair) => [pair.transactionId, pair.duplicateId])
+
+    const rows = await db
+
+      .select(transactionColumns)
+
+      .from(transactions)
+
+      .leftJoin(categories, eq(transactions.categoryId, categories.id))
+
+      .leftJoin(accounts, eq(transactions.accountId, accounts.id))
+
+      .where(inArray(transactions.id, ids))
+
+    const tagged = await withDetails(db, rows)
+
+    const byId = new Map(tagged.map((row) => [row.id, row]))
+
+    const data: DuplicatePair[] = []
+
+    for (const pair of pairs) {
+      const transaction = byId.get(pair.transactionId)
+
+      const duplicate = byId.get(pair.duplicateId)
+
+      // Either side may have been deleted between the two queries
+
+      if (!transaction || !duplicate) {
+        continue
+      }
+
+      data.push({
+        transaction,
+
+        duplicate,
+
+        daysApart: Math.abs(
+          daysBetween(transaction.transactionDate, duplicate.transactionDate),
+        ),
+      })
+    }
+
+    return { data, total }
+  }
+
+  /**
+   * Mark a pair as "not a duplicate" so it stops being listed
+   */
+
+  async dismissDuplicate(
+    env: Env,
+
+    input: DismissDuplicateInput,
+  ): Promise<void> {
+    const db = getDb(env)
+
+    // Stored smaller ID first; lowercase hex sorts like Postgres uuids
+
+    const [transactionId, duplicateId] = [
+      input.transactionId.toLowerCase(),
+
+      input.duplicateId.toLowerCase(),
+    ].sort()
+
+    await db
+
+      .insert(duplicateDismissals)
+
+      .values({ transactionId, duplicateId })
+
+      .onConflictDoNothing()
+  }
 }
 
 export const transactionService = new TransactionService()
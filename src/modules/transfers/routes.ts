@@ -0,0 +1,136 @@
+import { createApp } from "../../factory"
+
+import { zValidator } from "@hono/zod-validator"
+
+import { ownerOnlyMiddleware } from "../auth"
+
+import { transferService } from "./service"
+
+import {
+  createTransferSchema,
+  updateTransferSchema,
+  transferFilterSchema,
+} from "./schema"
+
+import { success, error } from "../../lib/response"
+
+import type { AppEnv } from "../../factory"
+
+const app = createApp<AppEnv>()
+
+// Apply owner-only middleware to all routes
+
+app.use("*", ownerOnlyMiddleware)
+
+/**
+ * GET /transfers
+ * List transfers with pagination and filters
+ */
+
+app.get("/", zValidator("query", transferFilterSchema), async (c) => {
+  const filter = c.req.valid("query")
+
+  const { data, total } = await transferService.list(c.env, filter)
+
+  const totalPages = Math.ceil(total / filter.limit)
+
+  return success(c, data, {
+    page: filter.page,
+
+    limit: filter.limit,
+
+    total,
+
+    totalPages,
+  })
+})
+
+/**
+ * POST /transfers
+ * Move money between two accounts
+ */
+
+app.post("/", zValidator("json", createTransferSchema), async (c) => {
+  const input = c.req.valid("json")
+
+  const transfer = await transferService.create(c.env, input)
+
+  return success(c, transfer)
+})
+
+/**
+ * GET /transfers/:id
+ * Get a single transfer
+ */
+
+app.get("/:id", async (c) => {
+  const id = c.req.param("id")
+
+  const transfer = await transferService.getById(c.env, id)
+
+  if (!transfer) {
+    return error(c, "NOT_FOUND", "Transfer not found", 404)
+  }
+
+  return success(c, transfer)
+})
+
+/**
+ * PUT /transfers/:id
+ * Update a transfer and both of its ledger entries
+ */
+
+app.put("/:id", zValidator("json", updateTransferSchema), async (c) => {
+  const id = c.req.param("id")
+
+  const input = c.req.valid("json")
+
+  const existing = await transferService.getById(c.env, id)
+
+  if (!existing) {
+    return error(c, "NOT_FOUND", "Transfer not found", 404)
+  }
+
+  const fromAccountId = input.fromAccountId ?? existing.fromAccountId
+
+  const toAccountId = input.toAccountId ?? existing.toAccountId
+
+  if (fromAccountId === toAccountId) {
+    return error(
+      c,
+
+      "VALIDATION_ERROR",
+
+      "Source and destination accounts must differ",
+
+      400,
+    )
+  }
+
+  const transfer = await transferService.update(c.env, id, input)
+
+  if (!transfer) {
+    return error(c, "NOT_FOUND", "Transfer not found", 404)
+  }
+
+  return success(c, transfer)
+})
+
+/**
+ * DELETE /transfers/:id
+ * Delete a transfer and both of its ledger entries
+ */
+
+app.delete("/:id", async (c) => {
+  const id = c.req.param("id")
+
+  const deleted = await transferService.delete(c.env, id)
+
+  if (!deleted) {
+    return error(c, "NOT_FOUND", "Transfer not found", 404)
+  }
+
+  return success(c, null)
+})
+
+export default app
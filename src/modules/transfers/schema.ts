@@ -0,0 +1,123 @@
+import { z } from "zod"
+
+import { MAX_AMOUNT_RUPIAH } from "../../lib/currency"
+
+// Shared transfer fields
+
+const transferFieldsSchema = z.object({
+  fromAccountId: z.string().uuid("Invalid source account ID"),
+
+  toAccountId: z.string().uuid("Invalid destination account ID"),
+
+  amount: z
+
+    .number()
+
+    .positive("Amount must be positive")
+
+    .max(MAX_AMOUNT_RUPIAH, "Amount is too large"),
+
+  description: z
+
+    .string()
+
+    .min(1, "Description is required")
+
+    .max(500, "Description must be less than 500 characters"),
+
+  transferDate: z
+
+    .string()
+
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+})
+
+const distinctAccounts = {
+  message: "Source and destination accounts must differ",
+
+  path: ["toAccountId"],
+}
+
+// Create transfer schema
+
+export const createTransferSchema = transferFieldsSchema.refine(
+  (input) => input.fromAccountId !== input.toAccountId,
+
+  distinctAccounts,
+)
+
+// Update transfer schema (all fields optional)
+
+export const updateTransferSchema = transferFieldsSchema
+
+  .partial()
+
+  .refine(
+    (input) =>
+      input.fromAccountId === undefined ||
+      input.fromAccountId !== input.toAccountId,
+
+    distinctAccounts,
+  )
+
+// Transfer filter/query schema
+
+export const transferFilterSchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+
+  limit: z.coerce.number().int().positive().max(100).default(20),
+
+  startDate: z
+
+    .string()
+
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+
+    .optional(),
+
+  endDate: z
+
+    .string()
+
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+
+    .optional(),
+
+  // Matches transfers on either side
+
+  accountId: z.string().uuid().optional(),
+})
+
+// Transfer response schema
+
+export const transferSchema = z.object({
+  id: z.string().uuid(),
+
+  fromAccountId: z.string().uuid(),
+
+  fromAccountName: z.string().nullable(),
+
+  toAccountId: z.string().uuid(),
+
+  toAccountName: z.string().nullable(),
+
+  amountRupiah: z.number().int().positive(),
+
+  description: z.string(),
+
+  transferDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+
+  createdAt: z.date(),
+
+  updatedAt: z.date(),
+})
+
+// Types
+
+export type CreateTransferInput = z.infer<typeof createTransferSchema>
+
+export type UpdateTransferInput = z.infer<typeof updateTransferSchema>
+
+export type TransferFilter = z.infer<typeof transferFilterSchema>
+
+export type Transfer = z.infer<typeof transferSchema>
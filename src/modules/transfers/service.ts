@@ -0,0 +1,353 @@
+import { getDb } from "../../db"
+
+import { transfers, transactions, accounts } from "../../db/schema"
+
+import type { Env } from "../../env"
+
+import type {
+  CreateTransferInput,
+  UpdateTransferInput,
+  TransferFilter,
+  Transfer,
+} from "./schema"
+
+import { toRupiah, toSafeInteger } from "../../lib/currency"
+
+import { alias } from "drizzle-orm/pg-core"
+
+import { eq, desc, and, or, gte, lte, sql } from "drizzle-orm"
+
+const fromAccounts = alias(accounts, "from_accounts")
+
+const toAccounts = alias(accounts, "to_accounts")
+
+export class TransferService {
+  /**
+   * Get transfers with pagination and filters
+   */
+
+  async list(env: Env, filter: TransferFilter): Promise<{
+    data: Transfer[]
+
+    total: number
+  }> {
+    const db = getDb(env)
+
+    const { page, limit, startDate, endDate, accountId } = filter
+
+    const offset = (page - 1) * limit
+
+    const conditions = []
+
+    if (startDate) {
+      conditions.push(gte(transfers.transferDate, startDate))
+    }
+
+    if (endDate) {
+      conditions.push(lte(transfers.transferDate, endDate))
+    }
+
+    if (accountId) {
+      conditions.push(
+        or(
+          eq(transfers.fromAccountId, accountId),
+
+          eq(transfers.toAccountId, accountId),
+        ),
+      )
+    }
+
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined
+
+    const data = await db
+
+      .select({
+        id: transfers.id,
+
+        fromAccountId: transfers.fromAccountId,
+
+        fromAccountName: fromAccounts.name,
+
+        toAccountId: transfers.toAccountId,
+
+        toAccountName: toAccounts.name,
+
+        amountRupiah: transfers.amountRupiah,
+
+        description: transfers.description,
+
+        transferDate: transfers.transferDate,
+
+        createdAt: transfers.createdAt,
+
+        updatedAt: transfers.updatedAt,
+      })
+
+      .from(transfers)
+
+      .leftJoin(fromAccounts, eq(transfers.fromAccountId, fromAccounts.id))
+
+      .leftJoin(toAccounts, eq(transfers.toAccountId, toAccounts.id))
+
+      .where(whereClause)
+
+      .orderBy(desc(transfers.transferDate))
+
+      .limit(limit)
+
+      .offset(offset)
+
+    // Get total count
+
+    const countResult = await db
+
+      .select({ count: sql<number>`count(*)`.mapWith(toSafeInteger) })
+
+      .from(transfers)
+
+      .where(whereClause)
+
+    const total = countResult[0]?.count ?? 0
+
+    return { data, total }
+  }
+
+  /**
+   * Get a single transfer by ID
+   */
+
+  async getById(env: Env, id: string): Promise<Transfer | null> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .select({
+        id: transfers.id,
+
+        fromAccountId: transfers.fromAccountId,
+
+        fromAccountName: fromAccounts.name,
+
+        toAccountId: transfers.toAccountId,
+
+        toAccountName: toAccounts.name,
+
+        amountRupiah: transfers.amountRupiah,
+
+        description: transfers.description,
+
+        transferDate: transfers.transferDate,
+
+        createdAt: transfers.createdAt,
+
+        updatedAt: transfers.updatedAt,
+      })
+
+      .from(transfers)
+
+      .leftJoin(fromAccounts, eq(transfers.fromAccountId, fromAccounts.id))
+
+      .leftJoin(toAccounts, eq(transfers.toAccountId, toAccounts.id))
+
+      .where(eq(transfers.id, id))
+
+      .limit(1)
+
+    return result[0] ?? null
+  }
+
+  /**
+   * Create a transfer together with its outgoing and incoming ledger entries
+   */
+
+  async create(env: Env, input: CreateTransferInput): Promise<Transfer> {
+    const db = getDb(env)
+
+    const amountRupiah = toRupiah(input.amount)
+
+    const created = await db.transaction(async (tx) => {
+      const result = await tx
+
+        .insert(transfers)
+
+        .values({
+          fromAccountId: input.fromAccountId,
+
+          toAccountId: input.toAccountId,
+
+          amountRupiah,
+
+          description: input.description,
+
+          transferDate: input.transferDate,
+        })
+
+        .returning()
+
+      const transfer = result[0]
+
+      await tx.insert(transactions).values([
+        {
+          accountId: transfer.fromAccountId,
+
+          amountRupiah,
+
+          description: transfer.description,
+
+          transactionDate: transfer.transferDate,
+
+          transferId: transfer.id,
+
+          direction: "out",
+        },
+
+        {
+          accountId: transfer.toAccountId,
+
+          amountRupiah,
+
+          description: transfer.description,
+
+          transactionDate: transfer.transferDate,
+
+          transferId: transfer.id,
+
+          direction: "in",
+        },
+      ])
+
+      return transfer
+    })
+
+    // Fetch with account details
+
+    const withAccounts = await this.getById(env, created.id)
+
+    if (!withAccounts) {
+      throw new Error("Failed to create transfer")
+    }
+
+    return withAccounts
+  }
+
+  /**
+   * Update a transfer and both of its ledger entries
+   */
+
+  async update(
+    env: Env,
+
+    id: string,
+
+    input: UpdateTransferInput,
+  ): Promise<Transfer | null> {
+    const db = getDb(env)
+
+    const updateData: Record<string, unknown> = { updatedAt: new Date() }
+
+    if (input.fromAccountId !== undefined) {
+      updateData.fromAccountId = input.fromAccountId
+    }
+
+    if (input.toAccountId !== undefined) {
+      updateData.toAccountId = input.toAccountId
+    }
+
+    if (input.amount !== undefined) {
+      updateData.amountRupiah = toRupiah(input.amount)
+    }
+
+    if (input.description !== undefined) {
+      updateData.description = input.description
+    }
+
+    if (input.transferDate !== undefined) {
+      updateData.transferDate = input.transferDate
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      const result = await tx
+
+        .update(transfers)
+
+        .set(updateData)
+
+        .where(eq(transfers.id, id))
+
+        .returning()
+
+      const transfer = result[0]
+
+      if (!transfer) {
+        return null
+      }
+
+      const legData = {
+        amountRupiah: transfer.amountRupiah,
+
+        description: transfer.description,
+
+        transactionDate: transfer.transferDate,
+
+        updatedAt: new Date(),
+      }
+
+      await tx
+
+        .update(transactions)
+
+        .set({ ...legData, accountId: transfer.fromAccountId })
+
+        .where(
+          and(
+            eq(transactions.transferId, id),
+
+            eq(transactions.direction, "out"),
+          ),
+        )
+
+      await tx
+
+        .update(transactions)
+
+        .set({ ...legData, accountId: transfer.toAccountId })
+
+        .where(
+          and(
+            eq(transactions.transferId, id),
+
+            eq(transactions.direction, "in"),
+          ),
+        )
+
+      return transfer
+    })
+
+    if (!updated) {
+      return null
+    }
+
+    return this.getById(env, id)
+  }
+
+  /**
+   * Delete a transfer
+   * Its ledger entries are removed by the cascading foreign key
+   */
+
+  async delete(env: Env, id: string): Promise<boolean> {
+    const db = getDb(env)
+
+    const result = await db
+
+      .delete(transfers)
+
+      .where(eq(transfers.id, id))
+
+      .returning()
+
+    return result.length > 0
+  }
+}
+
+export const transferService = new TransferService()
@@ -0,0 +1,100 @@
+/**
+ * CSV Utility Tests
+ * Following TDD: Tests for RFC 4180 CSV parsing
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  parseCsv,
+  escapeCsvField,
+  formatCsvRow,
+  createCsvStream,
+} from "@/lib/csv"
+
+describe("parseCsv", () => {
+  it("should split rows and fields", () => {
+    expect(parseCsv("a,b\nc,d")).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+    ])
+  })
+
+  it("should handle CRLF line endings and a trailing newline", () => {
+    expect(parseCsv("a,b\r\nc,d\r\n")).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+    ])
+  })
+
+  it("should keep delimiters and newlines inside quoted fields", () => {
+    expect(parseCsv('"1.500.000,00","Bayar\nlistrik"')).toEqual([
+      ["1.500.000,00", "Bayar\nlistrik"],
+    ])
+  })
+
+  it("should unescape doubled quotes", () => {
+    expect(parseCsv('"Toko ""Maju""",1')).toEqual([['Toko "Maju"', "1"]])
+  })
+
+  it("should support other delimiters", () => {
+    expect(parseCsv("a;b;c", ";")).toEqual([["a", "b", "c"]])
+  })
+
+  it("should skip a byte order mark and blank lines", () => {
+    expect(parseCsv("\uFEFFa,b\n\n\nc,d")).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+    ])
+  })
+
+  it("should keep empty fields", () => {
+    expect(parseCsv("a,,c\n,,")).toEqual([
+      ["a", "", "c"],
+      ["", "", ""],
+    ])
+  })
+})
+
+describe("escapeCsvField", () => {
+  it("should leave plain values alone", () => {
+    expect(escapeCsvField("Kopi")).toBe("Kopi")
+    expect(escapeCsvField(150000)).toBe("150000")
+    expect(escapeCsvField(null)).toBe("")
+  })
+
+  it("should quote delimiters, quotes and line breaks", () => {
+    expect(escapeCsvField("1.500,00")).toBe('"1.500,00"')
+    expect(escapeCsvField('Toko "Maju"')).toBe('"Toko ""Maju"""')
+    expect(escapeCsvField("a\nb")).toBe('"a\nb"')
+  })
+
+  it("should neutralize spreadsheet formulas", () => {
+    expect(escapeCsvField("=SUM(A1)")).toBe("'=SUM(A1)")
+    expect(escapeCsvField("-5")).toBe("'-5")
+    expect(escapeCsvField(-5)).toBe("-5")
+  })
+})
+
+describe("formatCsvRow", () => {
+  it("should join fields and end with CRLF", () => {
+    expect(formatCsvRow(["2024-03-01", "Kopi, susu", 20000])).toBe(
+      '2024-03-01,"Kopi, susu",20000\r\n',
+    )
+  })
+})
+
+describe("createCsvStream", () => {
+  it("should stream a BOM followed by every row", async () => {
+    async function* rows() {
+      yield ["Date", "Amount"]
+      yield ["2024-03-01", 20000]
+    }
+    const bytes = new Uint8Array(
+      await new Response(createCsvStream(rows())).arrayBuffer(),
+    )
+    expect([...bytes.slice(0, 3)]).toEqual([0xef, 0xbb, 0xbf])
+    expect(new TextDecoder().decode(bytes.slice(3))).toBe(
+      "Date,Amount\r\n2024-03-01,20000\r\n",
+    )
+  })
+})
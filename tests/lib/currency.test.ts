@@ -12,6 +12,12 @@ import {
   parseRupiahInput,
   IDR_LOCALE,
   IDR_CURRENCY,
+  MAX_AMOUNT_RUPIAH,
+  toSafeInteger,
+  toMinorUnits,
+  roundToMinorUnits,
+  convertToRupiah,
+  allocateRupiah,
   dollarsToCents,
   centsToDollars,
   formatCurrencyLegacy,
@@ -138,3 +144,96 @@ describe("Legacy Aliases", () => {
     expect(formatCurrencyLegacy(150000)).toBe(formatCurrency(150000))
   })
 })
+
+describe("MAX_AMOUNT_RUPIAH", () => {
+  it("should exceed the 32-bit integer ceiling", () => {
+    expect(MAX_AMOUNT_RUPIAH).toBeGreaterThan(2147483647)
+  })
+
+  it("should leave headroom for summing many maximum amounts", () => {
+    expect(Number.isSafeInteger(MAX_AMOUNT_RUPIAH * 9000)).toBe(true)
+  })
+})
+
+describe("toMinorUnits", () => {
+  it("should count cents for two-decimal currencies", () => {
+    expect(toMinorUnits(12.34, "USD")).toBe(1234)
+    expect(toMinorUnits(0.29, "SGD")).toBe(29)
+  })
+
+  it("should round half up despite binary floating point", () => {
+    expect(toMinorUnits(1.005, "USD")).toBe(101)
+    expect(toMinorUnits(1.004, "USD")).toBe(100)
+  })
+
+  it("should round zero-decimal currencies to whole units", () => {
+    expect(toMinorUnits(1500.5, "JPY")).toBe(1501)
+    expect(toMinorUnits(150000.4, "IDR")).toBe(150000)
+  })
+})
+
+describe("roundToMinorUnits", () => {
+  it("should round to the currency's precision", () => {
+    expect(roundToMinorUnits(12.345, "MYR")).toBe(12.35)
+    expect(roundToMinorUnits(980.6, "KRW")).toBe(981)
+  })
+})
+
+describe("convertToRupiah", () => {
+  it("should convert at the rate and round to whole rupiah", () => {
+    expect(convertToRupiah(12.35, 16250.5)).toBe(200694)
+    expect(convertToRupiah(100, 12150)).toBe(1215000)
+  })
+})
+
+describe("allocateRupiah", () => {
+  it("should share the total in proportion", () => {
+    expect(allocateRupiah(200694, [10, 2.35])).toEqual([162505, 38189])
+  })
+
+  it("should always add up to the total", () => {
+    const lines = allocateRupiah(100000, [1, 1, 1])
+    expect(lines).toEqual([33334, 33333, 33333])
+    expect(lines.reduce((sum, line) => sum + line, 0)).toBe(100000)
+  })
+})
+
+describe("allocateRupiah rounding", () => {
+  it("should never leave a line with a zero or negative remainder", () => {
+    // Rounding each of the first six shares (1.57) up would take 12 of 11
+    const lines = allocateRupiah(11, [1, 1, 1, 1, 1, 1, 1])
+    expect(lines).toEqual([2, 2, 2, 2, 1, 1, 1])
+    expect(lines.every((line) => line >= 1)).toBe(true)
+  })
+
+  it("should give leftover rupiah to the largest fractions", () => {
+    expect(allocateRupiah(100, [0.5, 0.3, 0.2, 0.7])).toEqual([29, 18, 12, 41])
+  })
+})
+
+describe("toSafeInteger", () => {
+  it("should parse bigint aggregates returned as strings", () => {
+    expect(toSafeInteger("12500000000")).toBe(12500000000)
+  })
+
+  it("should pass numbers through", () => {
+    expect(toSafeInteger(150000)).toBe(150000)
+  })
+
+  it("should treat null as zero", () => {
+    expect(toSafeInteger(null)).toBe(0)
+    expect(toSafeInteger(undefined)).toBe(0)
+  })
+
+  it("should handle negative totals", () => {
+    expect(toSafeInteger("-750000")).toBe(-750000)
+  })
+
+  it("should reject values beyond the safe integer range", () => {
+    expect(() => toSafeInteger("9007199254740993")).toThrow()
+  })
+
+  it("should reject non-numeric strings", () => {
+    expect(() => toSafeInteger("abc")).toThrow()
+  })
+})
@@ -0,0 +1,45 @@
+/**
+ * Cursor Tests
+ * Following TDD: Tests for opaque pagination cursors
+ */
+
+import { describe, it, expect } from "bun:test"
+import { decodeCursor, encodeCursor } from "@/lib/cursor"
+
+describe("encodeCursor", () => {
+  it("should produce URL-safe text without padding", () => {
+    const cursor = encodeCursor({
+      transactionDate: "2026-03-05",
+      id: "a?b>c",
+      before: false,
+    })
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/)
+  })
+
+  it("should round-trip through decodeCursor", () => {
+    const value = {
+      transactionDate: "2026-03-05",
+      id: "550e8400-e29b-41d4-a716-446655440000",
+      before: true,
+    }
+    expect(decodeCursor(encodeCursor(value))).toEqual(value)
+  })
+
+  it("should round-trip non-ASCII text", () => {
+    expect(decodeCursor(encodeCursor({ note: "Kopi ☕ café" }))).toEqual({
+      note: "Kopi ☕ café",
+    })
+  })
+})
+
+describe("decodeCursor", () => {
+  it("should reject text outside the base64url alphabet", () => {
+    expect(decodeCursor("abc=")).toBeUndefined()
+    expect(decodeCursor("a+b/")).toBeUndefined()
+  })
+
+  it("should reject text that is not encoded JSON", () => {
+    expect(decodeCursor("not-a-cursor")).toBeUndefined()
+    expect(decodeCursor("A")).toBeUndefined()
+  })
+})
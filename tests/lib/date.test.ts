@@ -0,0 +1,99 @@
+/**
+ * Date Utility Tests
+ * Following TDD: Tests for calendar date helpers
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  parseDate,
+  formatDate,
+  isLeapYear,
+  daysInMonth,
+  shiftMonth,
+  clampedDate,
+  addDays,
+  addMonths,
+  daysBetween,
+  toLocalDateString,
+} from "@/lib/date"
+
+describe("parseDate / formatDate", () => {
+  it("should round-trip a date string", () => {
+    const { year, month, day } = parseDate("2024-02-29")
+    expect(formatDate(year, month, day)).toBe("2024-02-29")
+  })
+
+  it("should zero-pad month and day", () => {
+    expect(formatDate(2024, 3, 5)).toBe("2024-03-05")
+  })
+})
+
+describe("isLeapYear", () => {
+  it("should follow Gregorian rules", () => {
+    expect(isLeapYear(2024)).toBe(true)
+    expect(isLeapYear(2023)).toBe(false)
+    expect(isLeapYear(1900)).toBe(false)
+    expect(isLeapYear(2000)).toBe(true)
+  })
+})
+
+describe("daysInMonth", () => {
+  it("should handle February in leap and common years", () => {
+    expect(daysInMonth(2024, 2)).toBe(29)
+    expect(daysInMonth(2023, 2)).toBe(28)
+  })
+
+  it("should handle 30 and 31 day months", () => {
+    expect(daysInMonth(2024, 4)).toBe(30)
+    expect(daysInMonth(2024, 12)).toBe(31)
+  })
+})
+
+describe("shiftMonth", () => {
+  it("should cross year boundaries forwards and backwards", () => {
+    expect(shiftMonth(2024, 11, 3)).toEqual({ year: 2025, month: 2 })
+    expect(shiftMonth(2024, 1, -1)).toEqual({ year: 2023, month: 12 })
+  })
+})
+
+describe("clampedDate", () => {
+  it("should clamp to the last day of the month", () => {
+    expect(clampedDate(2023, 2, 31)).toBe("2023-02-28")
+    expect(clampedDate(2024, 2, 31)).toBe("2024-02-29")
+    expect(clampedDate(2024, 3, 31)).toBe("2024-03-31")
+  })
+})
+
+describe("addDays / addMonths", () => {
+  it("should add days across month ends", () => {
+    expect(addDays("2024-02-28", 1)).toBe("2024-02-29")
+    expect(addDays("2023-02-28", 1)).toBe("2023-03-01")
+    expect(addDays("2024-01-01", -1)).toBe("2023-12-31")
+  })
+
+  it("should clamp when adding months", () => {
+    expect(addMonths("2024-01-31", 1)).toBe("2024-02-29")
+    expect(addMonths("2024-03-31", -1)).toBe("2024-02-29")
+  })
+})
+
+describe("daysBetween", () => {
+  it("should count whole days", () => {
+    expect(daysBetween("2024-01-01", "2024-03-01")).toBe(60)
+    expect(daysBetween("2024-03-01", "2024-01-01")).toBe(-60)
+  })
+})
+
+describe("toLocalDateString", () => {
+  it("should use Jakarta time by default", () => {
+    expect(toLocalDateString(new Date("2024-02-29T18:00:00Z"))).toBe(
+      "2024-03-01",
+    )
+  })
+
+  it("should accept another time zone", () => {
+    expect(toLocalDateString(new Date("2024-02-29T18:00:00Z"), "UTC")).toBe(
+      "2024-02-29",
+    )
+  })
+})
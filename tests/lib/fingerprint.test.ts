@@ -0,0 +1,42 @@
+/**
+ * Fingerprint Tests
+ * Following TDD: Tests for the duplicate-detection fingerprint expression
+ */
+
+import { describe, it, expect } from "bun:test"
+import { sql } from "drizzle-orm"
+import { PgDialect } from "drizzle-orm/pg-core"
+import { transactionFingerprint } from "@/lib/fingerprint"
+
+const dialect = new PgDialect()
+
+describe("transactionFingerprint", () => {
+  it("should hash account, amount and normalized description", () => {
+    const query = dialect.sqlToQuery(
+      transactionFingerprint(
+        sql`account_id`,
+        sql`amount_rupiah`,
+        sql`description`,
+      ),
+    )
+    expect(query.sql).toBe(
+      "md5(account_id::text || '|' || amount_rupiah::text || '|' || btrim(regexp_replace(lower(description), '[^a-z0-9]+', ' ', 'g')))",
+    )
+    expect(query.params).toEqual([])
+  })
+
+  it("should bind values for unsaved rows as parameters", () => {
+    const query = dialect.sqlToQuery(
+      transactionFingerprint(
+        sql`${"550e8400-e29b-41d4-a716-446655440000"}`,
+        sql`${150000}`,
+        sql`${"Kopi"}`,
+      ),
+    )
+    expect(query.params).toEqual([
+      "550e8400-e29b-41d4-a716-446655440000",
+      150000,
+      "Kopi",
+    ])
+  })
+})
@@ -0,0 +1,253 @@
+/**
+ * Period Utility Tests
+ * Following TDD: Tests for reporting period bounds
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  monthPeriod,
+  monthContaining,
+  quarterPeriod,
+  yearPeriod,
+  isoWeekPeriod,
+  isoWeeksInYear,
+  resolvePeriod,
+  intervalEndDates,
+} from "@/lib/period"
+
+describe("monthPeriod", () => {
+  it("should end February on the 29th in leap years", () => {
+    expect(monthPeriod(2024, 2)).toEqual({
+      startDate: "2024-02-01",
+      endDate: "2024-02-29",
+    })
+    expect(monthPeriod(2000, 2).endDate).toBe("2000-02-29")
+  })
+
+  it("should end February on the 28th in common years", () => {
+    expect(monthPeriod(2023, 2).endDate).toBe("2023-02-28")
+    expect(monthPeriod(2100, 2).endDate).toBe("2100-02-28")
+  })
+
+  it("should end 30-day months on the 30th", () => {
+    ;[4, 6, 9, 11].forEach((month) => {
+      expect(monthPeriod(2024, month).endDate.endsWith("-30")).toBe(true)
+    })
+  })
+
+  it("should end December on the 31st", () => {
+    expect(monthPeriod(2024, 12).endDate).toBe("2024-12-31")
+  })
+})
+
+describe("monthPeriod with a financial month start day", () => {
+  it("should run from day N of the previous month", () => {
+    expect(monthPeriod(2024, 3, 25)).toEqual({
+      startDate: "2024-02-25",
+      endDate: "2024-03-24",
+    })
+  })
+
+  it("should cross the year boundary for January", () => {
+    expect(monthPeriod(2024, 1, 25)).toEqual({
+      startDate: "2023-12-25",
+      endDate: "2024-01-24",
+    })
+  })
+
+  it("should clamp start days past the end of February", () => {
+    expect(monthPeriod(2024, 3, 31)).toEqual({
+      startDate: "2024-02-29",
+      endDate: "2024-03-30",
+    })
+    expect(monthPeriod(2023, 3, 30)).toEqual({
+      startDate: "2023-02-28",
+      endDate: "2023-03-29",
+    })
+  })
+
+  it("should leave consecutive months contiguous", () => {
+    for (const day of [25, 29, 30, 31]) {
+      for (let month = 1; month < 12; month++) {
+        const current = monthPeriod(2024, month, day)
+        const next = monthPeriod(2024, month + 1, day)
+        const dayAfter = new Date(`${current.endDate}T00:00:00Z`)
+        dayAfter.setUTCDate(dayAfter.getUTCDate() + 1)
+        expect(dayAfter.toISOString().slice(0, 10)).toBe(next.startDate)
+      }
+    }
+  })
+
+  it("should treat day 1 as the calendar month", () => {
+    expect(monthPeriod(2024, 2, 1)).toEqual(monthPeriod(2024, 2))
+  })
+})
+
+describe("monthContaining", () => {
+  it("should return the calendar month by default", () => {
+    expect(monthContaining("2024-03-31")).toEqual({ year: 2024, month: 3 })
+  })
+
+  it("should move to the next month from the start day", () => {
+    expect(monthContaining("2024-03-24", 25)).toEqual({ year: 2024, month: 3 })
+    expect(monthContaining("2024-03-25", 25)).toEqual({ year: 2024, month: 4 })
+  })
+
+  it("should cross the year boundary in late December", () => {
+    expect(monthContaining("2024-12-28", 25)).toEqual({ year: 2025, month: 1 })
+  })
+})
+
+describe("quarterPeriod", () => {
+  it("should cover three months", () => {
+    expect(quarterPeriod(2024, 1)).toEqual({
+      startDate: "2024-01-01",
+      endDate: "2024-03-31",
+    })
+    expect(quarterPeriod(2024, 2)).toEqual({
+      startDate: "2024-04-01",
+      endDate: "2024-06-30",
+    })
+    expect(quarterPeriod(2024, 4)).toEqual({
+      startDate: "2024-10-01",
+      endDate: "2024-12-31",
+    })
+  })
+})
+
+describe("yearPeriod", () => {
+  it("should cover the whole year", () => {
+    expect(yearPeriod(2024)).toEqual({
+      startDate: "2024-01-01",
+      endDate: "2024-12-31",
+    })
+  })
+})
+
+describe("yearPeriod with a financial month start day", () => {
+  it("should start in the previous December", () => {
+    expect(yearPeriod(2024, 25)).toEqual({
+      startDate: "2023-12-25",
+      endDate: "2024-12-24",
+    })
+  })
+})
+
+describe("isoWeekPeriod", () => {
+  it("should run Monday to Sunday", () => {
+    expect(isoWeekPeriod(2024, 1)).toEqual({
+      startDate: "2024-01-01",
+      endDate: "2024-01-07",
+    })
+  })
+
+  it("should start week 1 in the previous December when needed", () => {
+    expect(isoWeekPeriod(2026, 1)).toEqual({
+      startDate: "2025-12-29",
+      endDate: "2026-01-04",
+    })
+  })
+
+  it("should handle week 53 spanning the new year", () => {
+    expect(isoWeekPeriod(2020, 53)).toEqual({
+      startDate: "2020-12-28",
+      endDate: "2021-01-03",
+    })
+  })
+
+  it("should span leap day", () => {
+    expect(isoWeekPeriod(2024, 9)).toEqual({
+      startDate: "2024-02-26",
+      endDate: "2024-03-03",
+    })
+  })
+})
+
+describe("isoWeeksInYear", () => {
+  it("should detect 53-week years", () => {
+    expect(isoWeeksInYear(2020)).toBe(53)
+    expect(isoWeeksInYear(2026)).toBe(53)
+  })
+
+  it("should detect 52-week years", () => {
+    expect(isoWeeksInYear(2024)).toBe(52)
+    expect(isoWeeksInYear(2025)).toBe(52)
+  })
+})
+
+describe("resolvePeriod", () => {
+  it("should prefer a custom range", () => {
+    const period = resolvePeriod({ from: "2024-02-10", to: "2024-03-09" })
+    expect(period).toEqual({ startDate: "2024-02-10", endDate: "2024-03-09" })
+  })
+
+  it("should resolve month, quarter, week and year", () => {
+    expect(resolvePeriod({ year: 2024, month: 2 }).endDate).toBe("2024-02-29")
+    expect(resolvePeriod({ year: 2024, quarter: 1 }).endDate).toBe("2024-03-31")
+    expect(resolvePeriod({ year: 2024, week: 1 }).startDate).toBe("2024-01-01")
+    expect(resolvePeriod({ year: 2024 }).endDate).toBe("2024-12-31")
+  })
+
+  it("should apply the month start day to months but not weeks or ranges", () => {
+    expect(resolvePeriod({ year: 2024, month: 3 }, 25).startDate).toBe(
+      "2024-02-25",
+    )
+    expect(resolvePeriod({ year: 2024, quarter: 1 }, 25).endDate).toBe(
+      "2024-03-24",
+    )
+    expect(resolvePeriod({ year: 2024, week: 1 }, 25).startDate).toBe(
+      "2024-01-01",
+    )
+    expect(
+      resolvePeriod({ from: "2024-03-01", to: "2024-03-31" }, 25).startDate,
+    ).toBe("2024-03-01")
+  })
+
+  it("should throw without a year or range", () => {
+    expect(() => resolvePeriod({ month: 2 })).toThrow()
+  })
+})
+
+describe("intervalEndDates", () => {
+  it("should close each calendar month, clamping the last to the range", () => {
+    const range = { startDate: "2024-01-15", endDate: "2024-03-10" }
+    expect(intervalEndDates(range, "month")).toEqual([
+      "2024-01-31",
+      "2024-02-29",
+      "2024-03-10",
+    ])
+  })
+
+  it("should close financial months on the day before the start day", () => {
+    const range = { startDate: "2024-01-10", endDate: "2024-03-31" }
+    expect(intervalEndDates(range, "month", 25)).toEqual([
+      "2024-01-24",
+      "2024-02-24",
+      "2024-03-24",
+      "2024-03-31",
+    ])
+  })
+
+  it("should close weeks on Sunday", () => {
+    const range = { startDate: "2024-01-03", endDate: "2024-01-20" }
+    expect(intervalEndDates(range, "week")).toEqual([
+      "2024-01-07",
+      "2024-01-14",
+      "2024-01-20",
+    ])
+  })
+
+  it("should list every day", () => {
+    const range = { startDate: "2024-02-28", endDate: "2024-03-01" }
+    expect(intervalEndDates(range, "day")).toEqual([
+      "2024-02-28",
+      "2024-02-29",
+      "2024-03-01",
+    ])
+  })
+
+  it("should return a single point for a one-day range", () => {
+    const range = { startDate: "2024-05-31", endDate: "2024-05-31" }
+    expect(intervalEndDates(range, "month")).toEqual(["2024-05-31"])
+  })
+})
@@ -0,0 +1,77 @@
+/**
+ * Search Tests
+ * Following TDD: Tests for full-text search query building
+ */
+
+import { describe, it, expect } from "bun:test"
+import { sql } from "drizzle-orm"
+import { PgDialect } from "drizzle-orm/pg-core"
+import {
+  searchDocument,
+  searchMatches,
+  searchRank,
+  searchSnippet,
+  toSearchQuery,
+} from "@/lib/search"
+
+const dialect = new PgDialect()
+
+describe("toSearchQuery", () => {
+  it("should match every word as a prefix", () => {
+    expect(toSearchQuery("Tokopedia sepatu")).toBe("tokopedia:* & sepatu:*")
+  })
+
+  it("should drop punctuation and extra whitespace", () => {
+    expect(toSearchQuery("  TRF  ke-Budi! ")).toBe("trf:* & ke:* & budi:*")
+  })
+
+  it("should keep digits and non-ASCII letters", () => {
+    expect(toSearchQuery("Pembayaran 0503 café")).toBe(
+      "pembayaran:* & 0503:* & café:*",
+    )
+  })
+
+  it("should neutralize tsquery operators", () => {
+    expect(toSearchQuery("kopi | !teh & (susu)")).toBe(
+      "kopi:* & teh:* & susu:*",
+    )
+  })
+
+  it("should return null without letters or digits", () => {
+    expect(toSearchQuery("")).toBeNull()
+    expect(toSearchQuery("!!! --")).toBeNull()
+  })
+})
+
+describe("search expressions", () => {
+  it("should index descriptions with the simple configuration", () => {
+    const query = dialect.sqlToQuery(searchDocument(sql`description`))
+    expect(query.sql).toBe("to_tsvector('simple'::regconfig, description)")
+  })
+
+  it("should bind the search query as a parameter", () => {
+    const query = dialect.sqlToQuery(
+      searchMatches(sql`search_vector`, "kopi:*"),
+    )
+    expect(query.sql).toBe(
+      "search_vector @@ to_tsquery('simple'::regconfig, $1)",
+    )
+    expect(query.params).toEqual(["kopi:*"])
+  })
+
+  it("should rank by length-normalized relevance", () => {
+    const query = dialect.sqlToQuery(searchRank(sql`search_vector`, "kopi:*"))
+    expect(query.sql).toBe(
+      "ts_rank(search_vector, to_tsquery('simple'::regconfig, $1), 1)",
+    )
+  })
+
+  it("should escape HTML before highlighting", () => {
+    const query = dialect.sqlToQuery(searchSnippet(sql`description`, "kopi:*"))
+    expect(query.sql).toContain(
+      "replace(replace(replace(description, '&', '&amp;'), '<', '&lt;'), '>', '&gt;')",
+    )
+    expect(query.sql).toContain("StartSel=<mark>, StopSel=</mark>")
+    expect(query.params).toEqual(["kopi:*"])
+  })
+})
@@ -0,0 +1,71 @@
+/**
+ * XLSX Writer Tests
+ * Following TDD: Tests for the streaming workbook writer
+ */
+
+import { describe, it, expect } from "bun:test"
+import { crc32, escapeXml, formatXlsxRow, createXlsxStream } from "@/lib/xlsx"
+
+const encoder = new TextEncoder()
+
+describe("crc32", () => {
+  it("should match the standard check value", () => {
+    expect(crc32(encoder.encode("123456789"))).toBe(0xcbf43926)
+  })
+
+  it("should continue across chunks", () => {
+    const whole = crc32(encoder.encode("123456789"))
+    const chunked = crc32(
+      encoder.encode("6789"),
+      crc32(encoder.encode("12345")),
+    )
+    expect(chunked).toBe(whole)
+  })
+})
+
+describe("escapeXml", () => {
+  it("should escape markup characters", () => {
+    expect(escapeXml('<Toko "A" & B>')).toBe(
+      "&lt;Toko &quot;A&quot; &amp; B&gt;",
+    )
+  })
+
+  it("should drop control characters", () => {
+    expect(escapeXml("a\u0001b\tc")).toBe("ab\tc")
+  })
+})
+
+describe("formatXlsxRow", () => {
+  it("should keep numbers numeric and inline text", () => {
+    expect(formatXlsxRow([150000, "Kopi", null])).toBe(
+      '<row><c><v>150000</v></c><c t="inlineStr"><is><t xml:space="preserve">Kopi</t></is></c><c/></row>',
+    )
+  })
+})
+
+describe("createXlsxStream", () => {
+  async function* rows() {
+    yield ["Date", "Amount"]
+    yield ["2024-03-01", 20000]
+  }
+
+  it("should produce a ZIP with all workbook parts", async () => {
+    const bytes = new Uint8Array(
+      await new Response(
+        createXlsxStream(rows(), "Transactions"),
+      ).arrayBuffer(),
+    )
+    const view = new DataView(bytes.buffer)
+    const text = new TextDecoder().decode(bytes)
+
+    // Local file header first, end of central directory last
+    expect(view.getUint32(0, true)).toBe(0x04034b50)
+    expect(view.getUint32(bytes.length - 22, true)).toBe(0x06054b50)
+    expect(view.getUint16(bytes.length - 12, true)).toBe(5)
+
+    expect(text).toContain("[Content_Types].xml")
+    expect(text).toContain("xl/worksheets/sheet1.xml")
+    expect(text).toContain('<sheet name="Transactions"')
+    expect(text).toContain("<c><v>20000</v></c>")
+  })
+})
@@ -0,0 +1,165 @@
+/**
+ * Budgets Service Tests
+ * Following TDD: Tests for budget business logic
+ * Note: Database integration tests require actual DB connection
+ */
+
+import { describe, it, expect, spyOn, mock, afterEach } from "bun:test"
+import { budgetService, computeBudgetProgress } from "@/modules/budgets/service"
+import { dashboardService } from "@/modules/dashboard/service"
+import type { Env } from "@/env"
+
+describe("computeBudgetProgress", () => {
+  it("should compute remaining and percent used", () => {
+    const progress = computeBudgetProgress(2000000, 0, 500000)
+    expect(progress.remainingRupiah).toBe(1500000)
+    expect(progress.percentUsed).toBe(25)
+  })
+
+  it("should include rollover in the available amount", () => {
+    const progress = computeBudgetProgress(2000000, 500000, 1250000)
+    expect(progress.remainingRupiah).toBe(1250000)
+    expect(progress.percentUsed).toBe(50)
+  })
+
+  it("should report overspending as negative remaining", () => {
+    const progress = computeBudgetProgress(3000000, 0, 3500000)
+    expect(progress.remainingRupiah).toBe(-500000)
+    expect(progress.percentUsed).toBe(116.67)
+  })
+
+  it("should handle nothing spent", () => {
+    const progress = computeBudgetProgress(1000000, 0, 0)
+    expect(progress.remainingRupiah).toBe(1000000)
+    expect(progress.percentUsed).toBe(0)
+  })
+})
+
+describe("BudgetService.getStatus", () => {
+  const makan = "550e8400-e29b-41d4-a716-446655440001"
+  const restoran = "550e8400-e29b-41d4-a716-446655440002"
+  const kopi = "550e8400-e29b-41d4-a716-446655440003"
+
+  const aggregation = (
+    categoryId: string,
+    categoryName: string,
+    parentId: string | null,
+    totalRupiah: number,
+  ) => ({
+    categoryId,
+    categoryName,
+    parentId,
+    type: "expense" as const,
+    totalRupiah,
+    transactionCount: 1,
+  })
+
+  afterEach(() => {
+    mock.restore()
+  })
+
+  it("should count sub-category spending toward a parent budget", async () => {
+    spyOn(budgetService, "list").mockResolvedValue([
+      {
+        id: "550e8400-e29b-41d4-a716-446655440010",
+        categoryId: makan,
+        categoryName: "Makan",
+        amountRupiah: 2000000,
+        rollover: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+    ])
+    spyOn(dashboardService, "getByCategory").mockResolvedValue({
+      year: 2025,
+      month: 3,
+      quarter: undefined,
+      week: undefined,
+      startDate: "2025-03-01",
+      endDate: "2025-03-31",
+      income: [],
+      expense: [
+        aggregation(restoran, "Restoran", makan, 600000),
+        aggregation(kopi, "Kopi", makan, 150000),
+      ],
+      rolledUp: {
+        income: [],
+        expense: [
+          aggregation(makan, "Makan", null, 750000),
+          aggregation(restoran, "Restoran", makan, 600000),
+          aggregation(kopi, "Kopi", makan, 150000),
+        ],
+      },
+    })
+
+    const status = await budgetService.getStatus({} as Env, {
+      year: 2025,
+      month: 3,
+    })
+    expect(status.budgets[0].spentRupiah).toBe(750000)
+    expect(status.budgets[0].remainingRupiah).toBe(1250000)
+  })
+
+  describe("rollover", () => {
+    // Created 10 March 2025 (Jakarta time); 400000 spent in each month
+    const stubRolloverBudget = () => {
+      spyOn(budgetService, "list").mockResolvedValue([
+        {
+          id: "550e8400-e29b-41d4-a716-446655440011",
+          categoryId: makan,
+          categoryName: "Makan",
+          amountRupiah: 1000000,
+          rollover: true,
+          createdAt: new Date("2025-03-10T03:00:00Z"),
+          updatedAt: new Date("2025-03-10T03:00:00Z"),
+        },
+      ])
+      spyOn(dashboardService, "getByCategory").mockImplementation(
+        async (_env, filter) => {
+          const month = String(filter.month).padStart(2, "0")
+          return {
+            year: filter.year ?? null,
+            month: filter.month,
+            quarter: undefined,
+            week: undefined,
+            startDate: `${filter.year}-${month}-01`,
+            endDate: `${filter.year}-${month}-28`,
+            income: [],
+            expense: [aggregation(makan, "Makan", null, 400000)],
+            rolledUp: {
+              income: [],
+              expense: [aggregation(makan, "Makan", null, 400000)],
+            },
+          }
+        },
+      )
+    }
+
+    it("should not roll over into the month the budget was created", async () => {
+      stubRolloverBudget()
+      const status = await budgetService.getStatus({} as Env, {
+        year: 2025,
+        month: 3,
+      })
+      expect(status.budgets[0].rolloverRupiah).toBe(0)
+    })
+
+    it("should not roll over into months before the budget existed", async () => {
+      stubRolloverBudget()
+      const status = await budgetService.getStatus({} as Env, {
+        year: 2025,
+        month: 1,
+      })
+      expect(status.budgets[0].rolloverRupiah).toBe(0)
+    })
+
+    it("should roll over what was left of the first month", async () => {
+      stubRolloverBudget()
+      const status = await budgetService.getStatus({} as Env, {
+        year: 2025,
+        month: 4,
+      })
+      expect(status.budgets[0].rolloverRupiah).toBe(600000)
+    })
+  })
+})
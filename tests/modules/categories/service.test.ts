@@ -4,7 +4,11 @@
  * Note: Database integration tests require actual DB connection
  */
 
-import { describe, it, expect } from "bun:test"
+import { describe, it, expect, spyOn, mock, afterEach } from "bun:test"
+import * as db from "@/db"
+import { categoryTypeChanges } from "@/db/schema"
+import { categoryService } from "@/modules/categories/service"
+import type { Env } from "@/env"
 
 describe("CategoryService business logic", () => {
   // Test the category input validation logic without DB
@@ -25,3 +29,49 @@ describe("CategoryService business logic", () => {
     })
   })
 })
+
+interface RecordedUpdate {
+  table: unknown
+
+  values: unknown
+}
+
+// Records which tables the merge updates and with what values
+function fakeDb(updates: RecordedUpdate[]) {
+  const tx = {
+    update: (table: unknown) => ({
+      set: (values: unknown) => {
+        updates.push({ table, values })
+        const result = Object.assign(Promise.resolve(), {
+          returning: async () => [],
+        })
+        return { where: () => result }
+      },
+    }),
+    delete: () => ({ where: async () => {} }),
+  }
+  return {
+    transaction: async <T>(run: (client: typeof tx) => Promise<T>) => run(tx),
+  }
+}
+
+describe("CategoryService.merge", () => {
+  afterEach(() => {
+    mock.restore()
+  })
+
+  it("should move recorded type changes to the target", async () => {
+    const updates: RecordedUpdate[] = []
+    spyOn(db, "getDb").mockReturnValue(
+      fakeDb(updates) as unknown as ReturnType<typeof db.getDb>,
+    )
+
+    await categoryService.merge({} as Env, "source", "target")
+
+    const moved = updates.filter(
+      (update) => update.table === categoryTypeChanges,
+    )
+    expect(moved).toHaveLength(1)
+    expect(moved[0].values).toEqual({ categoryId: "target" })
+  })
+})
@@ -0,0 +1,92 @@
+/**
+ * Category Tree Tests
+ * Following TDD: Tests for category hierarchy helpers
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  buildCategoryTree,
+  createsCycle,
+  pruneCategoryTree,
+} from "@/modules/categories/tree"
+
+const categories = [
+  { id: "gaji", parentId: null },
+  { id: "groceries", parentId: "makan" },
+  { id: "kopi", parentId: "makan" },
+  { id: "makan", parentId: null },
+  { id: "susu", parentId: "kopi" },
+]
+
+describe("buildCategoryTree", () => {
+  it("should nest children under their parents", () => {
+    const tree = buildCategoryTree(categories)
+    expect(tree.map((node) => node.id)).toEqual(["gaji", "makan"])
+    expect(tree[1].children.map((node) => node.id)).toEqual([
+      "groceries",
+      "kopi",
+    ])
+    expect(tree[1].children[1].children.map((node) => node.id)).toEqual([
+      "susu",
+    ])
+  })
+
+  it("should keep extra fields on each node", () => {
+    const tree = buildCategoryTree([{ id: "a", parentId: null, name: "A" }])
+    expect(tree[0]).toEqual({
+      id: "a",
+      parentId: null,
+      name: "A",
+      children: [],
+    })
+  })
+
+  it("should treat categories with a missing parent as roots", () => {
+    const tree = buildCategoryTree([{ id: "kopi", parentId: "makan" }])
+    expect(tree.map((node) => node.id)).toEqual(["kopi"])
+  })
+
+  it("should return an empty list for no categories", () => {
+    expect(buildCategoryTree([])).toEqual([])
+  })
+})
+
+describe("pruneCategoryTree", () => {
+  it("should drop rejected nodes with their sub-categories", () => {
+    const tree = pruneCategoryTree(
+      buildCategoryTree(categories),
+      (category) => category.id !== "kopi",
+    )
+    expect(tree.map((node) => node.id)).toEqual(["gaji", "makan"])
+    expect(tree[1].children.map((node) => node.id)).toEqual(["groceries"])
+  })
+
+  it("should keep everything when all nodes pass", () => {
+    const tree = buildCategoryTree(categories)
+    expect(pruneCategoryTree(tree, () => true)).toEqual(tree)
+  })
+})
+
+describe("createsCycle", () => {
+  it("should reject a category as its own parent", () => {
+    expect(createsCycle(categories, "makan", "makan")).toBe(true)
+  })
+
+  it("should reject moving a category under its descendant", () => {
+    expect(createsCycle(categories, "makan", "kopi")).toBe(true)
+    expect(createsCycle(categories, "makan", "susu")).toBe(true)
+  })
+
+  it("should allow moving under an unrelated category", () => {
+    expect(createsCycle(categories, "kopi", "gaji")).toBe(false)
+    expect(createsCycle(categories, "susu", "makan")).toBe(false)
+  })
+
+  it("should stop on an existing cycle", () => {
+    const looped = [
+      { id: "a", parentId: "b" },
+      { id: "b", parentId: "a" },
+    ]
+    expect(createsCycle(looped, "c", "a")).toBe(false)
+  })
+})
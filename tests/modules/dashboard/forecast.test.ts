@@ -0,0 +1,117 @@
+/**
+ * Cash-Flow Forecast Tests
+ * Following TDD: Tests for projected balances and the low balance warning
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  computeForecast,
+  type ForecastInputs,
+} from "@/modules/dashboard/forecast"
+
+const base: ForecastInputs = {
+  today: "2025-01-31",
+  pointDates: ["2025-02-01", "2025-02-02", "2025-02-03"],
+  openingBalanceRupiah: 1000000,
+  thresholdRupiah: 0,
+  entries: [],
+  averages: [],
+}
+
+describe("computeForecast", () => {
+  it("should keep the balance flat without expected entries", () => {
+    const result = computeForecast(base)
+    expect(result.points.map((p) => p.balanceRupiah)).toEqual([
+      1000000, 1000000, 1000000,
+    ])
+    expect(result.lowBalanceDate).toBeNull()
+    expect(result.lowBalanceRupiah).toBeNull()
+  })
+
+  it("should apply entries on their date", () => {
+    const result = computeForecast({
+      ...base,
+      entries: [
+        { date: "2025-02-02", type: "income", amountRupiah: 500000 },
+        { date: "2025-02-03", type: "expense", amountRupiah: 200000 },
+      ],
+    })
+    expect(result.points.map((p) => p.balanceRupiah)).toEqual([
+      1000000, 1500000, 1300000,
+    ])
+    expect(result.incomeRupiah).toBe(500000)
+    expect(result.expenseRupiah).toBe(200000)
+  })
+
+  it("should count overdue entries on the first day", () => {
+    const result = computeForecast({
+      ...base,
+      entries: [{ date: "2025-01-25", type: "expense", amountRupiah: 300000 }],
+    })
+    expect(result.points[0].expenseRupiah).toBe(300000)
+    expect(result.points[0].balanceRupiah).toBe(700000)
+  })
+
+  it("should move the balance for transfers without counting them", () => {
+    const result = computeForecast({
+      ...base,
+      entries: [{ date: "2025-02-01", type: null, amountRupiah: -400000 }],
+    })
+    expect(result.points[0].balanceRupiah).toBe(600000)
+    expect(result.incomeRupiah).toBe(0)
+    expect(result.expenseRupiah).toBe(0)
+  })
+
+  it("should spread averages so rounded days add up", () => {
+    const result = computeForecast({
+      ...base,
+      averages: [{ type: "expense", totalRupiah: 100000, historyDays: 3 }],
+    })
+    expect(result.points.map((p) => p.expenseRupiah)).toEqual([
+      33333, 33334, 33333,
+    ])
+    expect(result.expenseRupiah).toBe(100000)
+  })
+
+  it("should flag the first day below the threshold", () => {
+    const result = computeForecast({
+      ...base,
+      thresholdRupiah: 500000,
+      entries: [
+        { date: "2025-02-02", type: "expense", amountRupiah: 700000 },
+        { date: "2025-02-03", type: "expense", amountRupiah: 100000 },
+      ],
+    })
+    expect(result.lowBalanceDate).toBe("2025-02-02")
+    expect(result.lowBalanceRupiah).toBe(300000)
+  })
+
+  it("should sum days into monthly points with the lowest balance", () => {
+    const result = computeForecast({
+      ...base,
+      pointDates: ["2025-02-28", "2025-03-31"],
+      entries: [
+        { date: "2025-02-10", type: "expense", amountRupiah: 1200000 },
+        { date: "2025-02-25", type: "income", amountRupiah: 5000000 },
+        { date: "2025-03-05", type: "expense", amountRupiah: 1000000 },
+      ],
+    })
+    expect(result.points).toEqual([
+      {
+        date: "2025-02-28",
+        incomeRupiah: 5000000,
+        expenseRupiah: 1200000,
+        balanceRupiah: 4800000,
+        lowestBalanceRupiah: -200000,
+      },
+      {
+        date: "2025-03-31",
+        incomeRupiah: 0,
+        expenseRupiah: 1000000,
+        balanceRupiah: 3800000,
+        lowestBalanceRupiah: 3800000,
+      },
+    ])
+    expect(result.lowBalanceDate).toBe("2025-02-10")
+  })
+})
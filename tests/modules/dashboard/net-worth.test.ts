@@ -0,0 +1,132 @@
+/**
+ * Net Worth Series Tests
+ * Following TDD: Tests for point-in-time assets, liabilities and net worth
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  computeNetWorthSeries,
+  type NetWorthInputs,
+} from "@/modules/dashboard/net-worth"
+
+const empty: NetWorthInputs = {
+  accounts: [],
+  ledger: [],
+  valuations: [],
+  debts: [],
+  payments: [],
+  trades: [],
+  prices: [],
+}
+
+describe("computeNetWorthSeries", () => {
+  it("should accumulate account balances up to each date", () => {
+    const points = computeNetWorthSeries(["2025-01-31", "2025-02-28"], {
+      ...empty,
+      accounts: [{ accountId: "bca", openingBalanceRupiah: 1000000 }],
+      ledger: [
+        { accountId: "bca", date: "2025-02-10", amountRupiah: -200000 },
+        { accountId: "bca", date: "2025-01-25", amountRupiah: 5000000 },
+        { accountId: "bca", date: "2025-03-01", amountRupiah: 9000000 },
+      ],
+    })
+    expect(points.map((p) => p.accountAssetsRupiah)).toEqual([6000000, 5800000])
+    expect(points[1].netWorthRupiah).toBe(5800000)
+  })
+
+  it("should count overdrawn accounts as liabilities", () => {
+    const points = computeNetWorthSeries(["2025-01-31"], {
+      ...empty,
+      accounts: [
+        { accountId: "bca", openingBalanceRupiah: 3000000 },
+        { accountId: "visa", openingBalanceRupiah: 0 },
+      ],
+      ledger: [
+        { accountId: "visa", date: "2025-01-05", amountRupiah: -750000 },
+      ],
+    })
+    expect(points[0].accountAssetsRupiah).toBe(3000000)
+    expect(points[0].accountLiabilitiesRupiah).toBe(750000)
+    expect(points[0].netWorthRupiah).toBe(2250000)
+  })
+
+  it("should value assets at their latest valuation", () => {
+    const points = computeNetWorthSeries(
+      ["2024-12-31", "2025-01-31", "2025-03-31"],
+      {
+        ...empty,
+        valuations: [
+          { assetId: "gold", date: "2025-03-15", valueRupiah: 0 },
+          { assetId: "gold", date: "2025-01-10", valueRupiah: 40000000 },
+        ],
+      },
+    )
+    expect(points.map((p) => p.assetValuesRupiah)).toEqual([0, 40000000, 0])
+  })
+
+  it("should count debts from their start date until repaid", () => {
+    const points = computeNetWorthSeries(
+      ["2025-01-31", "2025-02-28", "2025-03-31"],
+      {
+        ...empty,
+        debts: [
+          {
+            debtId: "motor",
+            direction: "payable",
+            startDate: "2025-02-01",
+            totalRupiah: 20000000,
+          },
+          {
+            debtId: "adik",
+            direction: "receivable",
+            startDate: "2025-01-15",
+            totalRupiah: 1000000,
+          },
+        ],
+        payments: [
+          { debtId: "motor", date: "2025-03-01", amountRupiah: 2000000 },
+          { debtId: "adik", date: "2025-02-20", amountRupiah: 1500000 },
+        ],
+      },
+    )
+    expect(points.map((p) => p.payablesRupiah)).toEqual([0, 20000000, 18000000])
+    expect(points.map((p) => p.receivablesRupiah)).toEqual([1000000, 0, 0])
+    expect(points[2].liabilitiesRupiah).toBe(18000000)
+    expect(points[2].netWorthRupiah).toBe(-18000000)
+  })
+
+  it("should leave net worth unchanged by an investment buy", () => {
+    const points = computeNetWorthSeries(
+      ["2025-01-31", "2025-02-28", "2025-03-31"],
+      {
+        ...empty,
+        accounts: [{ accountId: "bca", openingBalanceRupiah: 10000000 }],
+        ledger: [
+          { accountId: "bca", date: "2025-02-10", amountRupiah: -5000000 },
+        ],
+        trades: [
+          {
+            id: "buy",
+            instrumentId: "fund",
+            side: "buy",
+            tradeDate: "2025-02-10",
+            quantity: 2500,
+            amountRupiah: 5000000,
+          },
+        ],
+        prices: [{ instrumentId: "fund", date: "2025-03-15", price: 2200 }],
+      },
+    )
+    expect(points.map((p) => p.netWorthRupiah)).toEqual([
+      10000000, 10000000, 10500000,
+    ])
+    expect(points.map((p) => p.investmentsRupiah)).toEqual([
+      0, 5000000, 5500000,
+    ])
+    expect(points[1].assetsRupiah).toBe(10000000)
+  })
+
+  it("should return no points without dates", () => {
+    expect(computeNetWorthSeries([], empty)).toEqual([])
+  })
+})
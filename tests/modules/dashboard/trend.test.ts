@@ -0,0 +1,93 @@
+/**
+ * Trend and Comparison Tests
+ * Following TDD: Tests for interval totals and period-over-period changes
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  bucketTrend,
+  computeChange,
+  comparePeriods,
+} from "@/modules/dashboard/trend"
+
+describe("bucketTrend", () => {
+  it("should sum days into their interval", () => {
+    const points = bucketTrend("2025-01-01", ["2025-01-31", "2025-02-28"], [
+      { date: "2025-02-03", incomeRupiah: 0, expenseRupiah: 150000 },
+      { date: "2025-01-25", incomeRupiah: 5000000, expenseRupiah: 0 },
+      { date: "2025-01-31", incomeRupiah: 0, expenseRupiah: 200000 },
+    ])
+    expect(points).toEqual([
+      {
+        startDate: "2025-01-01",
+        endDate: "2025-01-31",
+        incomeRupiah: 5000000,
+        expenseRupiah: 200000,
+        balanceRupiah: 4800000,
+      },
+      {
+        startDate: "2025-02-01",
+        endDate: "2025-02-28",
+        incomeRupiah: 0,
+        expenseRupiah: 150000,
+        balanceRupiah: -150000,
+      },
+    ])
+  })
+
+  it("should return empty intervals with zero totals", () => {
+    const points = bucketTrend("2025-01-01", ["2025-01-01", "2025-01-02"], [])
+    expect(points.map((p) => p.balanceRupiah)).toEqual([0, 0])
+    expect(points[1].startDate).toBe("2025-01-02")
+  })
+
+  it("should ignore days outside the range", () => {
+    const points = bucketTrend("2025-01-10", ["2025-01-20"], [
+      { date: "2025-01-05", incomeRupiah: 100000, expenseRupiah: 0 },
+      { date: "2025-01-25", incomeRupiah: 100000, expenseRupiah: 0 },
+    ])
+    expect(points[0].incomeRupiah).toBe(0)
+  })
+})
+
+describe("computeChange", () => {
+  it("should give the percentage change", () => {
+    expect(computeChange(1320000, 1000000)).toEqual({
+      changeRupiah: 320000,
+      changePercent: 32,
+    })
+    expect(computeChange(500000, 1000000)).toEqual({
+      changeRupiah: -500000,
+      changePercent: -50,
+    })
+  })
+
+  it("should round the percentage to 2 decimals", () => {
+    expect(computeChange(400000, 300000).changePercent).toBe(33.33)
+  })
+
+  it("should leave the percentage null without an earlier amount", () => {
+    expect(computeChange(250000, 0)).toEqual({
+      changeRupiah: 250000,
+      changePercent: null,
+    })
+  })
+})
+
+describe("comparePeriods", () => {
+  it("should compare with the previous month and the previous year", () => {
+    const comparison = comparePeriods({
+      currentRupiah: 1200000,
+      previousMonthRupiah: 1000000,
+      previousYearRupiah: 1500000,
+    })
+    expect(comparison.monthOverMonth).toEqual({
+      changeRupiah: 200000,
+      changePercent: 20,
+    })
+    expect(comparison.yearOverYear).toEqual({
+      changeRupiah: -300000,
+      changePercent: -20,
+    })
+  })
+})
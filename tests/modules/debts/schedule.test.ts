@@ -0,0 +1,100 @@
+/**
+ * Debt Schedule Tests
+ * Following TDD: Tests for installments, payment allocation and overdue detection
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  buildInstallments,
+  computeDebtSchedule,
+} from "@/modules/debts/schedule"
+
+const terms = {
+  startDate: "2026-01-15",
+  dueDate: null,
+  installmentCount: null,
+  firstInstallmentDate: null,
+}
+
+const motorLoan = {
+  ...terms,
+  installmentCount: 3,
+  firstInstallmentDate: "2026-01-31",
+}
+
+describe("buildInstallments", () => {
+  it("should split the total into equal monthly installments", () => {
+    const installments = buildInstallments(motorLoan, 1000000)
+    expect(installments.map((i) => i.amountRupiah)).toEqual([
+      333333, 333333, 333334,
+    ])
+  })
+
+  it("should keep the anchor day after short months", () => {
+    const installments = buildInstallments(motorLoan, 900000)
+    expect(installments.map((i) => i.dueDate)).toEqual([
+      "2026-01-31",
+      "2026-02-28",
+      "2026-03-31",
+    ])
+  })
+
+  it("should use a single installment for a due date", () => {
+    const installments = buildInstallments(
+      { ...terms, dueDate: "2026-06-30" },
+      500000,
+    )
+    expect(installments).toEqual([
+      { number: 1, dueDate: "2026-06-30", amountRupiah: 500000 },
+    ])
+  })
+
+  it("should have no installments without a schedule", () => {
+    expect(buildInstallments(terms, 500000)).toEqual([])
+  })
+})
+
+describe("computeDebtSchedule", () => {
+  const debt = { ...motorLoan, totalRupiah: 900000, paidRupiah: 400000 }
+
+  it("should apply payments to the oldest installments first", () => {
+    const schedule = computeDebtSchedule(debt, "2026-02-01")
+    expect(schedule.installments.map((i) => i.paidRupiah)).toEqual([
+      300000, 100000, 0,
+    ])
+    expect(schedule.outstandingRupiah).toBe(500000)
+    expect(schedule.nextDueDate).toBe("2026-02-28")
+  })
+
+  it("should flag unpaid installments past their due date", () => {
+    const schedule = computeDebtSchedule(debt, "2026-03-15")
+    expect(schedule.overdueInstallmentCount).toBe(1)
+    expect(schedule.overdueRupiah).toBe(200000)
+    expect(schedule.installments[1].isOverdue).toBe(true)
+  })
+
+  it("should not flag an installment on its due date", () => {
+    const schedule = computeDebtSchedule(debt, "2026-02-28")
+    expect(schedule.overdueInstallmentCount).toBe(0)
+  })
+
+  it("should report a settled debt", () => {
+    const schedule = computeDebtSchedule(
+      { ...debt, paidRupiah: 950000 },
+      "2026-06-01",
+    )
+    expect(schedule.outstandingRupiah).toBe(0)
+    expect(schedule.overdueRupiah).toBe(0)
+    expect(schedule.nextDueDate).toBeNull()
+  })
+
+  it("should track the outstanding balance without a schedule", () => {
+    const schedule = computeDebtSchedule(
+      { ...terms, totalRupiah: 2000000, paidRupiah: 500000 },
+      "2026-06-01",
+    )
+    expect(schedule.outstandingRupiah).toBe(1500000)
+    expect(schedule.installments).toEqual([])
+    expect(schedule.nextDueDate).toBeNull()
+  })
+})
@@ -0,0 +1,105 @@
+/**
+ * Goal Projection Tests
+ * Following TDD: Tests for savings goal progress and projections
+ */
+
+import { describe, it, expect } from "bun:test"
+import { computeGoalProgress, monthsUntil } from "@/modules/goals/projection"
+
+const goal = { targetRupiah: 12000000, targetDate: "2027-04-18" }
+
+describe("monthsUntil", () => {
+  it("should count whole months", () => {
+    expect(monthsUntil("2026-10-18", "2027-04-18")).toBe(6)
+  })
+
+  it("should count a partial month as a whole one", () => {
+    expect(monthsUntil("2026-10-18", "2026-12-31")).toBe(3)
+    expect(monthsUntil("2026-10-18", "2026-10-20")).toBe(1)
+  })
+
+  it("should not count the month before the day is reached", () => {
+    expect(monthsUntil("2026-10-18", "2026-11-10")).toBe(1)
+  })
+
+  it("should clamp month ends", () => {
+    expect(monthsUntil("2026-01-31", "2026-02-28")).toBe(1)
+  })
+
+  it("should return 0 on or after the date", () => {
+    expect(monthsUntil("2026-10-18", "2026-10-18")).toBe(0)
+    expect(monthsUntil("2026-10-18", "2026-09-01")).toBe(0)
+  })
+})
+
+describe("computeGoalProgress", () => {
+  it("should report nothing saved without contributions", () => {
+    const progress = computeGoalProgress(goal, [], "2026-10-18")
+    expect(progress.savedRupiah).toBe(0)
+    expect(progress.remainingRupiah).toBe(12000000)
+    expect(progress.percentComplete).toBe(0)
+    expect(progress.monthsRemaining).toBe(6)
+    expect(progress.monthlyAmountNeededRupiah).toBe(2000000)
+    expect(progress.averageMonthlyContributionRupiah).toBe(0)
+    expect(progress.projectedCompletionDate).toBeNull()
+    expect(progress.isOnTrack).toBe(false)
+  })
+
+  it("should project completion at the average pace", () => {
+    const contributions = [
+      { amountRupiah: 1000000, contributionDate: "2026-04-18" },
+      { amountRupiah: 2000000, contributionDate: "2026-07-18" },
+    ]
+    // 3,000,000 over 183 days; 9,000,000 left takes 549 more days
+    const progress = computeGoalProgress(goal, contributions, "2026-10-18")
+    expect(progress.savedRupiah).toBe(3000000)
+    expect(progress.percentComplete).toBe(25)
+    expect(progress.monthlyAmountNeededRupiah).toBe(1500000)
+    expect(progress.averageMonthlyContributionRupiah).toBe(498975)
+    expect(progress.projectedCompletionDate).toBe("2028-04-19")
+    expect(progress.isOnTrack).toBe(false)
+  })
+
+  it("should be on track when the pace beats the target date", () => {
+    const contributions = [
+      { amountRupiah: 6000000, contributionDate: "2026-07-18" },
+    ]
+    const progress = computeGoalProgress(goal, contributions, "2026-10-18")
+    expect(progress.projectedCompletionDate).toBe("2027-01-18")
+    expect(progress.isOnTrack).toBe(true)
+  })
+
+  it("should treat a first contribution as at least a month of saving", () => {
+    const contributions = [
+      { amountRupiah: 3000000, contributionDate: "2026-10-18" },
+    ]
+    const progress = computeGoalProgress(goal, contributions, "2026-10-18")
+    expect(progress.averageMonthlyContributionRupiah).toBe(3000000)
+    expect(progress.projectedCompletionDate).toBe("2027-01-18")
+  })
+
+  it("should report the date a completed goal was reached", () => {
+    const contributions = [
+      { amountRupiah: 10000000, contributionDate: "2026-09-01" },
+      { amountRupiah: 5000000, contributionDate: "2026-10-01" },
+      { amountRupiah: 1000000, contributionDate: "2026-08-01" },
+    ]
+    const progress = computeGoalProgress(goal, contributions, "2026-10-18")
+    expect(progress.isCompleted).toBe(true)
+    expect(progress.remainingRupiah).toBe(0)
+    expect(progress.percentComplete).toBe(133.33)
+    expect(progress.monthlyAmountNeededRupiah).toBe(0)
+    expect(progress.projectedCompletionDate).toBe("2026-10-01")
+    expect(progress.isOnTrack).toBe(true)
+  })
+
+  it("should need everything left once the target date has passed", () => {
+    const contributions = [
+      { amountRupiah: 2000000, contributionDate: "2026-01-10" },
+    ]
+    const progress = computeGoalProgress(goal, contributions, "2027-05-01")
+    expect(progress.monthsRemaining).toBe(0)
+    expect(progress.monthlyAmountNeededRupiah).toBe(10000000)
+    expect(progress.isOnTrack).toBe(false)
+  })
+})
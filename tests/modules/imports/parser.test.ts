@@ -0,0 +1,170 @@
+/**
+ * Statement Parser Tests
+ * Following TDD: Tests for bank statement CSV parsing
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  parseStatement,
+  parseStatementAmount,
+  parseStatementDate,
+  type StatementMapping,
+} from "@/modules/imports/parser"
+
+const debitCreditMapping: StatementMapping = {
+  delimiter: ",",
+  decimalSeparator: ",",
+  skipRows: 0,
+  hasHeader: true,
+  dateFormat: "DD/MM/YYYY",
+  dateColumn: 0,
+  descriptionColumn: 1,
+  amountColumn: null,
+  debitColumn: 2,
+  creditColumn: 3,
+}
+
+describe("parseStatementDate", () => {
+  it("should parse each supported format", () => {
+    expect(parseStatementDate("05/03/2024", "DD/MM/YYYY")).toBe("2024-03-05")
+    expect(parseStatementDate("5-3-2024", "DD-MM-YYYY")).toBe("2024-03-05")
+    expect(parseStatementDate("05/03/24", "DD/MM/YY")).toBe("2024-03-05")
+    expect(parseStatementDate("2024-03-05", "YYYY-MM-DD")).toBe("2024-03-05")
+    expect(parseStatementDate("03/05/2024", "MM/DD/YYYY")).toBe("2024-03-05")
+  })
+
+  it("should ignore a spreadsheet apostrophe", () => {
+    expect(parseStatementDate("'29/02/2024", "DD/MM/YYYY")).toBe("2024-02-29")
+  })
+
+  it("should reject dates that do not exist", () => {
+    expect(parseStatementDate("29/02/2023", "DD/MM/YYYY")).toBeNull()
+    expect(parseStatementDate("01/13/2024", "DD/MM/YYYY")).toBeNull()
+  })
+
+  it("should reject values in another format", () => {
+    expect(parseStatementDate("2024-03-05", "DD/MM/YYYY")).toBeNull()
+    expect(parseStatementDate("PEND", "DD/MM/YYYY")).toBeNull()
+  })
+})
+
+describe("parseStatementAmount", () => {
+  it("should parse Indonesian thousand separators", () => {
+    expect(parseStatementAmount("1.500.000", ",")).toBe(1500000)
+    expect(parseStatementAmount("Rp 1.500.000,00", ",")).toBe(1500000)
+  })
+
+  it("should parse English thousand separators", () => {
+    expect(parseStatementAmount("1,500,000.00", ".")).toBe(1500000)
+  })
+
+  it("should treat three digits after the separator as thousands", () => {
+    expect(parseStatementAmount("1.500", ".")).toBe(1500)
+  })
+
+  it("should round sen half up", () => {
+    expect(parseStatementAmount("10.000,50", ",")).toBe(10001)
+    expect(parseStatementAmount("10.000,49", ",")).toBe(10000)
+    expect(parseStatementAmount("10.000,5", ",")).toBe(10001)
+  })
+
+  it("should read debit markers as negative", () => {
+    expect(parseStatementAmount("-25.000", ",")).toBe(-25000)
+    expect(parseStatementAmount("25.000-", ",")).toBe(-25000)
+    expect(parseStatementAmount("(25.000)", ",")).toBe(-25000)
+    expect(parseStatementAmount("25.000,00 DB", ",")).toBe(-25000)
+  })
+
+  it("should read credit markers as positive", () => {
+    expect(parseStatementAmount("25.000,00 CR", ",")).toBe(25000)
+  })
+
+  it("should reject text", () => {
+    expect(parseStatementAmount("abc", ",")).toBeNull()
+    expect(parseStatementAmount("", ",")).toBeNull()
+  })
+})
+
+describe("parseStatement", () => {
+  it("should read debit and credit columns", () => {
+    const csv = [
+      "Tanggal,Keterangan,Debet,Kredit",
+      '01/03/2024,Gaji Maret,,"10.000.000,00"',
+      '02/03/2024,"  Belanja   Indomaret ","150.000,00",',
+    ].join("\n")
+
+    const result = parseStatement(csv, debitCreditMapping)
+
+    expect(result.totalRows).toBe(2)
+    expect(result.errors).toEqual([])
+    expect(result.rows).toEqual([
+      {
+        row: 2,
+        transactionDate: "2024-03-01",
+        description: "Gaji Maret",
+        amountRupiah: 10000000,
+        direction: "in",
+      },
+      {
+        row: 3,
+        transactionDate: "2024-03-02",
+        description: "Belanja Indomaret",
+        amountRupiah: 150000,
+        direction: "out",
+      },
+    ])
+  })
+
+  it("should read a signed amount column after preamble rows", () => {
+    const csv = [
+      "No. Rekening;1234567890",
+      "Tanggal;Keterangan;Jumlah",
+      "2024-03-05;Transfer masuk;250.000",
+      "2024-03-06;Pulsa;-50.000",
+    ].join("\n")
+    const mapping: StatementMapping = {
+      ...debitCreditMapping,
+      delimiter: ";",
+      skipRows: 1,
+      dateFormat: "YYYY-MM-DD",
+      amountColumn: 2,
+      debitColumn: null,
+      creditColumn: null,
+    }
+
+    const result = parseStatement(csv, mapping)
+
+    expect(
+      result.rows.map((row) => [row.row, row.amountRupiah, row.direction]),
+    ).toEqual([
+      [3, 250000, "in"],
+      [4, 50000, "out"],
+    ])
+  })
+
+  it("should report bad rows without dropping good ones", () => {
+    const csv = [
+      "Tanggal,Keterangan,Debet,Kredit",
+      "31/02/2024,Tanggal salah,1.000,",
+      "01/03/2024,,1.000,",
+      "02/03/2024,Kosong,,",
+      "03/03/2024,Dua sisi,1.000,2.000",
+      "04/03/2024,Valid,1.000,",
+    ].join("\n")
+
+    const result = parseStatement(csv, debitCreditMapping)
+
+    expect(result.totalRows).toBe(5)
+    expect(result.rows).toHaveLength(1)
+    expect(result.errors.map((e) => e.row)).toEqual([2, 3, 4, 5])
+    expect(result.errors[0].message).toContain("Invalid date")
+  })
+
+  it("should read every row when there is no header", () => {
+    const result = parseStatement("01/03/2024,Kopi,20.000,", {
+      ...debitCreditMapping,
+      hasHeader: false,
+    })
+    expect(result.rows).toHaveLength(1)
+  })
+})
@@ -0,0 +1,160 @@
+/**
+ * Investment Lot Tests
+ * Following TDD: Tests for FIFO cost basis, realized gains and holding valuation
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  computeFifo,
+  latestPrice,
+  valueHolding,
+} from "@/modules/investments/lots"
+import type { LotTrade } from "@/modules/investments/lots"
+
+const buy = (
+  id: string,
+  tradeDate: string,
+  quantity: number,
+  amountRupiah: number,
+): LotTrade => ({ id, side: "buy", tradeDate, quantity, amountRupiah })
+
+const sell = (
+  id: string,
+  tradeDate: string,
+  quantity: number,
+  amountRupiah: number,
+): LotTrade => ({ id, side: "sell", tradeDate, quantity, amountRupiah })
+
+describe("computeFifo", () => {
+  it("should sell the oldest lot first", () => {
+    const result = computeFifo([
+      buy("b1", "2026-01-05", 100, 1000000),
+      buy("b2", "2026-02-05", 100, 1200000),
+      sell("s1", "2026-03-05", 150, 1950000),
+    ])
+    expect(result.sales).toEqual([
+      {
+        tradeId: "s1",
+        tradeDate: "2026-03-05",
+        quantity: 150,
+        proceedsRupiah: 1950000,
+        costRupiah: 1600000,
+        gainRupiah: 350000,
+      },
+    ])
+    expect(result.quantity).toBe(50)
+    expect(result.costBasisRupiah).toBe(600000)
+    expect(result.oversoldTradeId).toBeNull()
+  })
+
+  it("should match by date regardless of input order", () => {
+    const result = computeFifo([
+      sell("s1", "2026-03-05", 100, 1300000),
+      buy("b2", "2026-02-05", 100, 1200000),
+      buy("b1", "2026-01-05", 100, 1000000),
+    ])
+    expect(result.sales[0].costRupiah).toBe(1000000)
+    expect(result.openLots.map((lot) => lot.tradeId)).toEqual(["b2"])
+  })
+
+  it("should match fractional fund units exactly", () => {
+    const result = computeFifo([
+      buy("b1", "2026-01-05", 0.1, 150000),
+      buy("b2", "2026-01-06", 0.2, 300000),
+      sell("s1", "2026-01-07", 0.3, 480000),
+    ])
+    expect(result.quantity).toBe(0)
+    expect(result.costBasisRupiah).toBe(0)
+    expect(result.sales[0].gainRupiah).toBe(30000)
+  })
+
+  it("should spread a lot's whole cost over partial sells", () => {
+    const result = computeFifo([
+      buy("b1", "2026-01-05", 3, 1000),
+      sell("s1", "2026-01-06", 1, 500),
+      sell("s2", "2026-01-07", 1, 500),
+      sell("s3", "2026-01-08", 1, 500),
+    ])
+    expect(result.sales.map((sale) => sale.costRupiah)).toEqual([333, 334, 333])
+  })
+
+  it("should allow a buy and sell on the same day", () => {
+    const result = computeFifo([
+      sell("s1", "2026-01-05", 10, 110000),
+      buy("b1", "2026-01-05", 10, 100000),
+    ])
+    expect(result.oversoldTradeId).toBeNull()
+  })
+
+  it("should flag the first sell of more units than were held", () => {
+    const result = computeFifo([
+      buy("b1", "2026-01-05", 10, 100000),
+      sell("s1", "2026-01-04", 5, 50000),
+      sell("s2", "2026-01-06", 20, 200000),
+    ])
+    expect(result.oversoldTradeId).toBe("s1")
+  })
+})
+
+describe("latestPrice", () => {
+  const trades = [buy("b1", "2026-01-05", 100, 1500000)]
+
+  it("should use the latest entered price on or before the date", () => {
+    const prices = [
+      { date: "2026-01-10", price: 16000 },
+      { date: "2026-01-20", price: 17000 },
+    ]
+    expect(latestPrice(prices, trades, "2026-01-15")).toEqual({
+      date: "2026-01-10",
+      price: 16000,
+    })
+  })
+
+  it("should fall back to the price implied by a newer trade", () => {
+    expect(latestPrice([], trades, "2026-01-15")).toEqual({
+      date: "2026-01-05",
+      price: 15000,
+    })
+  })
+
+  it("should prefer an entered price on the trade date", () => {
+    const prices = [{ date: "2026-01-05", price: 14900 }]
+    expect(latestPrice(prices, trades, "2026-01-05")?.price).toBe(14900)
+  })
+
+  it("should be null before anything is known", () => {
+    expect(latestPrice([], trades, "2026-01-01")).toBeNull()
+  })
+})
+
+describe("valueHolding", () => {
+  const trades = [
+    buy("b1", "2026-01-05", 100, 1000000),
+    sell("s1", "2026-02-05", 50, 600000),
+  ]
+
+  it("should value remaining units at the latest price", () => {
+    const value = valueHolding(
+      trades,
+      [{ date: "2026-03-01", price: 12500 }],
+      "2026-03-31",
+    )
+    expect(value).toEqual({
+      quantity: 50,
+      costBasisRupiah: 500000,
+      price: 12500,
+      priceDate: "2026-03-01",
+      marketValueRupiah: 625000,
+      unrealizedGainRupiah: 125000,
+      unrealizedGainPercent: 25,
+      realizedGainRupiah: 100000,
+    })
+  })
+
+  it("should ignore trades after the date", () => {
+    const value = valueHolding(trades, [], "2026-01-31")
+    expect(value.quantity).toBe(100)
+    expect(value.realizedGainRupiah).toBe(0)
+    expect(value.marketValueRupiah).toBe(1000000)
+  })
+})
@@ -0,0 +1,61 @@
+/**
+ * Price History Parser Tests
+ * Following TDD: Tests for price CSV parsing
+ */
+
+import { describe, it, expect } from "bun:test"
+import { parsePrice, parsePriceHistory } from "@/modules/investments/prices"
+
+describe("parsePrice", () => {
+  it("should parse prices with either decimal separator", () => {
+    expect(parsePrice("1,523.4567", ".")).toBe(1523.4567)
+    expect(parsePrice("1.523,4567", ",")).toBe(1523.4567)
+    expect(parsePrice("Rp 9.850", ",")).toBe(9850)
+  })
+
+  it("should reject text and negative values", () => {
+    expect(parsePrice("n/a", ".")).toBeNull()
+    expect(parsePrice("-100", ".")).toBeNull()
+  })
+})
+
+describe("parsePriceHistory", () => {
+  const format = {
+    dateFormat: "YYYY-MM-DD" as const,
+    decimalSeparator: "." as const,
+  }
+
+  it("should skip a header row and read each price", () => {
+    const text = "date,nav\n2026-01-02,1523.45\n2026-01-03,1530\n"
+    expect(parsePriceHistory(text, format)).toEqual({
+      rows: [
+        { row: 2, priceDate: "2026-01-02", price: 1523.45 },
+        { row: 3, priceDate: "2026-01-03", price: 1530 },
+      ],
+      errors: [],
+    })
+  })
+
+  it("should read semicolon-separated files with decimal commas", () => {
+    const text = "02/01/2026;1.523,45\n"
+    const result = parsePriceHistory(text, {
+      dateFormat: "DD/MM/YYYY",
+      decimalSeparator: ",",
+    })
+    expect(result.rows).toEqual([
+      { row: 1, priceDate: "2026-01-02", price: 1523.45 },
+    ])
+  })
+
+  it("should report invalid rows and repeated dates", () => {
+    const text =
+      "2026-01-02,100\n2026-13-01,100\n2026-01-03,abc\n2026-01-02,101\n"
+    const result = parsePriceHistory(text, format)
+    expect(result.rows).toHaveLength(1)
+    expect(result.errors).toEqual([
+      { row: 2, message: 'Invalid date "2026-13-01"' },
+      { row: 3, message: 'Invalid price "abc"' },
+      { row: 4, message: "Duplicate date 2026-01-02" },
+    ])
+  })
+})
@@ -0,0 +1,95 @@
+/**
+ * Recurrence Schedule Tests
+ * Following TDD: Tests for recurring rule occurrence dates
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  getOccurrenceDate,
+  getNextOccurrence,
+  listUpcomingOccurrences,
+  type RecurrenceRule,
+} from "@/modules/recurring/schedule"
+
+const baseRule: RecurrenceRule = {
+  frequency: "monthly",
+  interval: 1,
+  dayOfMonth: null,
+  startDate: "2024-01-31",
+  endDate: null,
+  occurrenceLimit: null,
+}
+
+describe("getOccurrenceDate", () => {
+  it("should step daily by interval", () => {
+    const rule = { ...baseRule, frequency: "daily" as const, interval: 3 }
+    expect(getOccurrenceDate(rule, 2)).toBe("2024-02-06")
+  })
+
+  it("should step weekly", () => {
+    const rule = {
+      ...baseRule,
+      frequency: "weekly" as const,
+      startDate: "2024-02-26",
+    }
+    expect(getOccurrenceDate(rule, 1)).toBe("2024-03-04")
+  })
+
+  it("should clamp monthly rules and return to the anchor day", () => {
+    expect(getOccurrenceDate(baseRule, 0)).toBe("2024-01-31")
+    expect(getOccurrenceDate(baseRule, 1)).toBe("2024-02-29")
+    expect(getOccurrenceDate(baseRule, 2)).toBe("2024-03-31")
+    expect(getOccurrenceDate(baseRule, 3)).toBe("2024-04-30")
+  })
+
+  it("should start next month when day of month has passed", () => {
+    const rule = { ...baseRule, startDate: "2024-01-20", dayOfMonth: 5 }
+    expect(getOccurrenceDate(rule, 0)).toBe("2024-02-05")
+  })
+
+  it("should start this month when day of month is still ahead", () => {
+    const rule = { ...baseRule, startDate: "2024-01-20", dayOfMonth: 25 }
+    expect(getOccurrenceDate(rule, 0)).toBe("2024-01-25")
+  })
+
+  it("should handle yearly rules on leap day", () => {
+    const rule = {
+      ...baseRule,
+      frequency: "yearly" as const,
+      startDate: "2024-02-29",
+    }
+    expect(getOccurrenceDate(rule, 1)).toBe("2025-02-28")
+    expect(getOccurrenceDate(rule, 4)).toBe("2028-02-29")
+  })
+
+  it("should honor multi-month intervals", () => {
+    const rule = { ...baseRule, startDate: "2024-01-15", interval: 3 }
+    expect(getOccurrenceDate(rule, 1)).toBe("2024-04-15")
+  })
+})
+
+describe("getNextOccurrence", () => {
+  it("should stop after the occurrence limit", () => {
+    const rule = { ...baseRule, occurrenceLimit: 2 }
+    expect(getNextOccurrence(rule, 1)).toBe("2024-02-29")
+    expect(getNextOccurrence(rule, 2)).toBeNull()
+  })
+
+  it("should stop after the end date", () => {
+    const rule = { ...baseRule, endDate: "2024-03-15" }
+    expect(getNextOccurrence(rule, 1)).toBe("2024-02-29")
+    expect(getNextOccurrence(rule, 2)).toBeNull()
+  })
+})
+
+describe("listUpcomingOccurrences", () => {
+  it("should list dates from the current count", () => {
+    const dates = listUpcomingOccurrences(baseRule, 1, 3)
+    expect(dates).toEqual(["2024-02-29", "2024-03-31", "2024-04-30"])
+  })
+
+  it("should stop early when the rule finishes", () => {
+    const rule = { ...baseRule, occurrenceLimit: 2 }
+    expect(listUpcomingOccurrences(rule, 0, 5)).toHaveLength(2)
+  })
+})
@@ -0,0 +1,84 @@
+/**
+ * Recurring Service Tests
+ * Following TDD: Tests for materializing due recurring rules
+ * Note: The database is replaced by a minimal stand-in
+ */
+
+import { describe, it, expect, spyOn, mock, afterEach } from "bun:test"
+import * as db from "@/db"
+import { recurringService } from "@/modules/recurring/service"
+import type { Env } from "@/env"
+
+const dueRule = (id: string, accountId: string) => ({
+  id,
+  accountId,
+  categoryId: "550e8400-e29b-41d4-a716-446655440020",
+  amountRupiah: 150000,
+  description: "Internet",
+  frequency: "monthly" as const,
+  interval: 1,
+  dayOfMonth: null,
+  startDate: "2025-03-01",
+  endDate: null,
+  occurrenceLimit: null,
+  occurrenceCount: 0,
+  nextOccurrenceDate: "2025-03-01",
+  isPaused: false,
+})
+
+// Inserting for the removed account fails like a foreign key violation
+function fakeDb(rules: ReturnType<typeof dueRule>[], inserted: unknown[]) {
+  const tx = {
+    update: () => ({
+      set: () => ({
+        where: () => ({ returning: async () => [{ id: "advanced" }] }),
+      }),
+    }),
+    insert: () => ({
+      values: (rows: { accountId: string }[]) => {
+        if (rows.some((row) => row.accountId === "removed")) {
+          throw new Error("violates foreign key constraint")
+        }
+        return {
+          onConflictDoNothing: () => ({
+            returning: async () => {
+              inserted.push(...rows)
+              return rows.map((_, index) => ({ id: String(index) }))
+            },
+          }),
+        }
+      },
+    }),
+  }
+  return {
+    select: () => ({ from: () => ({ where: async () => rules }) }),
+    transaction: async <T>(run: (client: typeof tx) => Promise<T>) => run(tx),
+  }
+}
+
+describe("RecurringService.materializeDue", () => {
+  afterEach(() => {
+    mock.restore()
+  })
+
+  it("should keep going after a rule fails", async () => {
+    const inserted: unknown[] = []
+    spyOn(db, "getDb").mockReturnValue(
+      fakeDb(
+        [dueRule("broken", "removed"), dueRule("working", "bca")],
+        inserted,
+      ) as unknown as ReturnType<typeof db.getDb>,
+    )
+    const logged = spyOn(console, "error").mockImplementation(() => {})
+
+    const created = await recurringService.materializeDue(
+      {} as Env,
+      "2025-03-01",
+    )
+
+    expect(created).toBe(1)
+    expect(inserted).toHaveLength(1)
+    expect(logged.mock.calls).toHaveLength(1)
+    expect(String(logged.mock.calls[0][0])).toContain("broken")
+  })
+})
@@ -0,0 +1,121 @@
+/**
+ * Accounts Schema Tests
+ * Following TDD: Tests for account-related Zod schemas
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  accountTypeSchema,
+  createAccountSchema,
+  updateAccountSchema,
+  accountSchema,
+} from "@/modules/accounts/schema"
+
+describe("accountTypeSchema", () => {
+  it("should accept all account types", () => {
+    const types = ["bank", "ewallet", "cash", "credit_card", "other"]
+    types.forEach((type) => {
+      expect(accountTypeSchema.safeParse(type).success).toBe(true)
+    })
+  })
+
+  it("should reject invalid types", () => {
+    const result = accountTypeSchema.safeParse("crypto")
+    expect(result.success).toBe(false)
+  })
+})
+
+describe("createAccountSchema", () => {
+  const validInput = {
+    name: "BCA",
+    type: "bank" as const,
+    openingBalance: 2500000,
+  }
+
+  it("should validate correct input", () => {
+    const result = createAccountSchema.safeParse(validInput)
+    expect(result.success).toBe(true)
+  })
+
+  it("should default opening balance to zero", () => {
+    const result = createAccountSchema.safeParse({
+      name: "Dompet",
+      type: "cash",
+    })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.openingBalance).toBe(0)
+    }
+  })
+
+  it("should accept negative opening balance", () => {
+    const input = {
+      ...validInput,
+      type: "credit_card",
+      openingBalance: -750000,
+    }
+    const result = createAccountSchema.safeParse(input)
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject empty name", () => {
+    const input = { ...validInput, name: "" }
+    const result = createAccountSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject name exceeding max length", () => {
+    const input = { ...validInput, name: "a".repeat(101) }
+    const result = createAccountSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject missing type", () => {
+    const result = createAccountSchema.safeParse({ name: "GoPay" })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe("updateAccountSchema", () => {
+  it("should accept empty object", () => {
+    const result = updateAccountSchema.safeParse({})
+    expect(result.success).toBe(true)
+  })
+
+  it("should not inject a default opening balance", () => {
+    const result = updateAccountSchema.safeParse({ name: "GoPay" })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.openingBalance).toBeUndefined()
+    }
+  })
+})
+
+describe("accountSchema", () => {
+  const validAccount = {
+    id: "123e4567-e89b-12d3-a456-426614174000",
+    name: "BCA",
+    type: "bank",
+    openingBalanceRupiah: 1000000,
+    balanceRupiah: 850000,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  }
+
+  it("should validate correct account", () => {
+    const result = accountSchema.safeParse(validAccount)
+    expect(result.success).toBe(true)
+  })
+
+  it("should accept negative balance", () => {
+    const input = { ...validAccount, balanceRupiah: -150000 }
+    const result = accountSchema.safeParse(input)
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject non-integer balance", () => {
+    const input = { ...validAccount, balanceRupiah: 100.5 }
+    const result = accountSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+})
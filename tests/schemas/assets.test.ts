@@ -0,0 +1,89 @@
+/**
+ * Assets Schema Tests
+ * Following TDD: Tests for asset and valuation Zod schemas
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  createAssetSchema,
+  updateAssetSchema,
+  createAssetValuationSchema,
+  assetSchema,
+} from "@/modules/assets/schema"
+
+describe("createAssetSchema", () => {
+  const validInput = { name: "Emas Antam", type: "gold" }
+
+  it("should validate correct input", () => {
+    const result = createAssetSchema.safeParse(validInput)
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.description).toBeNull()
+    }
+  })
+
+  it("should reject an unknown type", () => {
+    const input = { ...validInput, type: "crypto" }
+    const result = createAssetSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject an empty name", () => {
+    const input = { ...validInput, name: "" }
+    const result = createAssetSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+})
+
+describe("updateAssetSchema", () => {
+  it("should accept a partial update without defaults", () => {
+    const result = updateAssetSchema.safeParse({ description: "25 gram" })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data).toEqual({ description: "25 gram" })
+    }
+  })
+})
+
+describe("createAssetValuationSchema", () => {
+  const validInput = { valuationDate: "2025-01-10", value: 40000000 }
+
+  it("should validate correct input", () => {
+    const result = createAssetValuationSchema.safeParse(validInput)
+    expect(result.success).toBe(true)
+  })
+
+  it("should accept a zero value for a sold asset", () => {
+    const input = { ...validInput, value: 0 }
+    const result = createAssetValuationSchema.safeParse(input)
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject a negative value", () => {
+    const input = { ...validInput, value: -1 }
+    const result = createAssetValuationSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject a malformed date", () => {
+    const input = { ...validInput, valuationDate: "10-01-2025" }
+    const result = createAssetValuationSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+})
+
+describe("assetSchema", () => {
+  it("should allow an asset that has not been valued", () => {
+    const result = assetSchema.safeParse({
+      id: "123e4567-e89b-12d3-a456-426614174000",
+      name: "Rumah",
+      type: "property",
+      description: null,
+      latestValueRupiah: null,
+      latestValuationDate: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+    expect(result.success).toBe(true)
+  })
+})
@@ -0,0 +1,103 @@
+/**
+ * Budgets Schema Tests
+ * Following TDD: Tests for budget-related Zod schemas
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  createBudgetSchema,
+  updateBudgetSchema,
+  budgetStatusFilterSchema,
+  budgetStatusItemSchema,
+} from "@/modules/budgets/schema"
+
+describe("createBudgetSchema", () => {
+  const validInput = {
+    categoryId: "123e4567-e89b-12d3-a456-426614174000",
+    amount: 3000000,
+  }
+
+  it("should validate correct input", () => {
+    const result = createBudgetSchema.safeParse(validInput)
+    expect(result.success).toBe(true)
+  })
+
+  it("should default rollover to false", () => {
+    const result = createBudgetSchema.safeParse(validInput)
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.rollover).toBe(false)
+    }
+  })
+
+  it("should reject zero limit", () => {
+    const input = { ...validInput, amount: 0 }
+    const result = createBudgetSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject invalid categoryId", () => {
+    const input = { ...validInput, categoryId: "food" }
+    const result = createBudgetSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+})
+
+describe("updateBudgetSchema", () => {
+  it("should accept partial update", () => {
+    const result = updateBudgetSchema.safeParse({ rollover: true })
+    expect(result.success).toBe(true)
+  })
+
+  it("should strip categoryId", () => {
+    const input = { categoryId: "123e4567-e89b-12d3-a456-426614174000" }
+    const result = updateBudgetSchema.safeParse(input)
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect("categoryId" in result.data).toBe(false)
+    }
+  })
+})
+
+describe("budgetStatusFilterSchema", () => {
+  it("should coerce year and month", () => {
+    const result = budgetStatusFilterSchema.safeParse({
+      year: "2024",
+      month: "2",
+    })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.year).toBe(2024)
+      expect(result.data.month).toBe(2)
+    }
+  })
+
+  it("should require month", () => {
+    const result = budgetStatusFilterSchema.safeParse({ year: 2024 })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe("budgetStatusItemSchema", () => {
+  const validItem = {
+    budgetId: "123e4567-e89b-12d3-a456-426614174001",
+    categoryId: "123e4567-e89b-12d3-a456-426614174000",
+    categoryName: "Food & Dining",
+    limitRupiah: 3000000,
+    rolloverRupiah: 0,
+    spentRupiah: 3500000,
+    remainingRupiah: -500000,
+    percentUsed: 116.67,
+  }
+
+  it("should accept overspent budgets", () => {
+    const result = budgetStatusItemSchema.safeParse(validItem)
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject negative spent", () => {
+    const input = { ...validItem, spentRupiah: -1 }
+    const result = budgetStatusItemSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+})
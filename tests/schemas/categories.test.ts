@@ -8,6 +8,11 @@ import {
   createCategorySchema,
   updateCategorySchema,
   categorySchema,
+  categoryTreeNodeSchema,
+  categoryListFilterSchema,
+  mergeCategorySchema,
+  categoryUsageSchema,
+  categoryTypeChangeSchema,
 } from "@/modules/categories/schema"
 
 describe("createCategorySchema", () => {
@@ -62,6 +67,22 @@ describe("createCategorySchema", () => {
     const result = createCategorySchema.safeParse(input)
     expect(result.success).toBe(true)
   })
+
+  it("should accept a parent category", () => {
+    const input = {
+      name: "Kopi",
+      type: "expense",
+      parentId: "123e4567-e89b-12d3-a456-426614174000",
+    }
+    const result = createCategorySchema.safeParse(input)
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject invalid parentId", () => {
+    const input = { name: "Kopi", type: "expense", parentId: "makan" }
+    const result = createCategorySchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
 })
 
 describe("updateCategorySchema", () => {
@@ -99,6 +120,23 @@ describe("updateCategorySchema", () => {
     const result = updateCategorySchema.safeParse(input)
     expect(result.success).toBe(false)
   })
+
+  it("should accept reclassify with a type change", () => {
+    const input = { type: "income", reclassify: true }
+    const result = updateCategorySchema.safeParse(input)
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject non-boolean reclassify", () => {
+    const input = { type: "income", reclassify: "yes" }
+    const result = updateCategorySchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+
+  it("should accept null parentId to move to the top level", () => {
+    const result = updateCategorySchema.safeParse({ parentId: null })
+    expect(result.success).toBe(true)
+  })
 })
 
 describe("categorySchema", () => {
@@ -106,6 +144,8 @@ describe("categorySchema", () => {
     id: "123e4567-e89b-12d3-a456-426614174000",
     name: "Salary",
     type: "income" as const,
+    parentId: null,
+    isArchived: false,
     createdAt: new Date(),
   }
 
@@ -154,3 +194,130 @@ describe("categorySchema", () => {
     expect(result.success).toBe(false)
   })
 })
+
+describe("categoryTreeNodeSchema", () => {
+  const makan = {
+    id: "123e4567-e89b-12d3-a456-426614174000",
+    name: "Makan",
+    type: "expense" as const,
+    parentId: null,
+    isArchived: false,
+    createdAt: new Date(),
+  }
+
+  it("should validate nested sub-categories", () => {
+    const result = categoryTreeNodeSchema.safeParse({
+      ...makan,
+      children: [
+        {
+          ...makan,
+          id: "123e4567-e89b-12d3-a456-426614174001",
+          name: "Kopi",
+          parentId: makan.id,
+          children: [],
+        },
+      ],
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject invalid children", () => {
+    const result = categoryTreeNodeSchema.safeParse({
+      ...makan,
+      children: [{ name: "Kopi" }],
+    })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe("categoryListFilterSchema", () => {
+  it("should hide archived categories by default", () => {
+    const result = categoryListFilterSchema.safeParse({})
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.includeArchived).toBe(false)
+    }
+  })
+
+  it("should parse includeArchived from the query string", () => {
+    const result = categoryListFilterSchema.safeParse({
+      includeArchived: "true",
+    })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.includeArchived).toBe(true)
+    }
+  })
+
+  it("should reject other includeArchived values", () => {
+    const result = categoryListFilterSchema.safeParse({ includeArchived: "1" })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe("mergeCategorySchema", () => {
+  it("should validate a target category", () => {
+    const result = mergeCategorySchema.safeParse({
+      targetCategoryId: "123e4567-e89b-12d3-a456-426614174000",
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject a missing or invalid target", () => {
+    expect(mergeCategorySchema.safeParse({}).success).toBe(false)
+    expect(
+      mergeCategorySchema.safeParse({ targetCategoryId: "makan" }).success,
+    ).toBe(false)
+  })
+})
+
+describe("categoryUsageSchema", () => {
+  it("should validate usage counts", () => {
+    const result = categoryUsageSchema.safeParse({
+      transactionCount: 12,
+      splitCount: 3,
+      splitTransactionCount: 2,
+      recurringRuleCount: 1,
+      subcategoryCount: 0,
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject negative counts", () => {
+    const result = categoryUsageSchema.safeParse({
+      transactionCount: -1,
+      splitCount: 0,
+      splitTransactionCount: 0,
+      recurringRuleCount: 0,
+      subcategoryCount: 0,
+    })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe("categoryTypeChangeSchema", () => {
+  const validChange = {
+    id: "123e4567-e89b-12d3-a456-426614174000",
+    categoryId: "123e4567-e89b-12d3-a456-426614174001",
+    fromType: "expense" as const,
+    toType: "income" as const,
+    transactionCount: 4,
+    categoryTotalRupiah: 600000,
+    incomeBeforeRupiah: 10000000,
+    expenseBeforeRupiah: 3000000,
+    incomeAfterRupiah: 10600000,
+    expenseAfterRupiah: 2400000,
+    createdAt: new Date(),
+  }
+
+  it("should validate a recorded change", () => {
+    const result = categoryTypeChangeSchema.safeParse(validChange)
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject an invalid type", () => {
+    const input = { ...validChange, toType: "transfer" }
+    const result = categoryTypeChangeSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+})
@@ -9,6 +9,14 @@ import {
   monthlySummarySchema,
   categoryAggregationSchema,
   dashboardByCategorySchema,
+  dashboardByTagSchema,
+  netWorthFilterSchema,
+  netWorthPointSchema,
+  trendFilterSchema,
+  compareFilterSchema,
+  comparisonSchema,
+  forecastFilterSchema,
+  forecastPointSchema,
 } from "@/modules/dashboard/schema"
 
 describe("dashboardFilterSchema", () => {
@@ -83,12 +91,76 @@ describe("dashboardFilterSchema", () => {
     const result = dashboardFilterSchema.safeParse({ year: 2024, month: 12 })
     expect(result.success).toBe(true)
   })
+
+  it("should accept a quarter", () => {
+    const result = dashboardFilterSchema.safeParse({
+      year: "2024",
+      quarter: "3",
+    })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.quarter).toBe(3)
+    }
+  })
+
+  it("should reject quarter > 4", () => {
+    const result = dashboardFilterSchema.safeParse({ year: 2024, quarter: 5 })
+    expect(result.success).toBe(false)
+  })
+
+  it("should accept week 53 in a 53-week ISO year", () => {
+    const result = dashboardFilterSchema.safeParse({ year: 2020, week: 53 })
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject week 53 in a 52-week ISO year", () => {
+    const result = dashboardFilterSchema.safeParse({ year: 2024, week: 53 })
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject combining month and quarter", () => {
+    const result = dashboardFilterSchema.safeParse({
+      year: 2024,
+      month: 1,
+      quarter: 1,
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it("should accept a custom range without year", () => {
+    const result = dashboardFilterSchema.safeParse({
+      from: "2024-02-10",
+      to: "2024-03-09",
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject a half-open custom range", () => {
+    const result = dashboardFilterSchema.safeParse({ from: "2024-02-10" })
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject from after to", () => {
+    const result = dashboardFilterSchema.safeParse({
+      from: "2024-03-10",
+      to: "2024-03-09",
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject combining a custom range with year", () => {
+    const input = { year: 2024, from: "2024-02-10", to: "2024-03-09" }
+    const result = dashboardFilterSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
 })
 
 describe("monthlySummarySchema", () => {
   const validSummary = {
     year: 2024,
     month: 6,
+    startDate: "2024-06-01",
+    endDate: "2024-06-30",
     incomeRupiah: 5000000,
     expenseRupiah: 2000000,
     balanceRupiah: 3000000,
@@ -102,6 +174,8 @@ describe("monthlySummarySchema", () => {
   it("should validate without month (yearly summary)", () => {
     const input = {
       year: 2024,
+      startDate: "2024-01-01",
+      endDate: "2024-12-31",
       incomeRupiah: 60000000,
       expenseRupiah: 24000000,
       balanceRupiah: 36000000,
@@ -128,9 +202,17 @@ describe("monthlySummarySchema", () => {
     expect(result.success).toBe(false)
   })
 
+  it("should accept null year for custom ranges", () => {
+    const input = { ...validSummary, year: null, month: undefined }
+    const result = monthlySummarySchema.safeParse(input)
+    expect(result.success).toBe(true)
+  })
+
   it("should reject missing year", () => {
     const input = {
       month: 6,
+      startDate: "2024-06-01",
+      endDate: "2024-06-30",
       incomeRupiah: 5000000,
       expenseRupiah: 2000000,
       balanceRupiah: 3000000,
@@ -143,6 +225,8 @@ describe("monthlySummarySchema", () => {
     const input = {
       year: 2024,
       month: 6,
+      startDate: "2024-06-01",
+      endDate: "2024-06-30",
       incomeRupiah: 0,
       expenseRupiah: 0,
       balanceRupiah: 0,
@@ -156,6 +240,7 @@ describe("categoryAggregationSchema", () => {
   const validAggregation = {
     categoryId: "123e4567-e89b-12d3-a456-426614174000",
     categoryName: "Salary",
+    parentId: null,
     type: "income" as const,
     totalRupiah: 5000000,
     transactionCount: 10,
@@ -213,10 +298,13 @@ describe("dashboardByCategorySchema", () => {
   const validDashboard = {
     year: 2024,
     month: 6,
+    startDate: "2024-06-01",
+    endDate: "2024-06-30",
     income: [
       {
         categoryId: "123e4567-e89b-12d3-a456-426614174000",
         categoryName: "Salary",
+        parentId: null,
         type: "income" as const,
         totalRupiah: 5000000,
         transactionCount: 10,
@@ -226,11 +314,16 @@ describe("dashboardByCategorySchema", () => {
       {
         categoryId: "123e4567-e89b-12d3-a456-426614174001",
         categoryName: "Food",
+        parentId: null,
         type: "expense" as const,
         totalRupiah: 2000000,
         transactionCount: 15,
       },
     ],
+    rolledUp: {
+      income: [],
+      expense: [],
+    },
   }
 
   it("should validate correct dashboard data", () => {
@@ -241,8 +334,11 @@ describe("dashboardByCategorySchema", () => {
   it("should validate without month (yearly)", () => {
     const input = {
       year: 2024,
+      startDate: "2024-01-01",
+      endDate: "2024-12-31",
       income: validDashboard.income,
       expense: validDashboard.expense,
+      rolledUp: validDashboard.rolledUp,
     }
     const result = dashboardByCategorySchema.safeParse(input)
     expect(result.success).toBe(true)
@@ -270,14 +366,277 @@ describe("dashboardByCategorySchema", () => {
   })
 
   it("should reject missing income array", () => {
-    const input = { year: 2024, expense: validDashboard.expense }
+    const input = { ...validDashboard, income: undefined }
     const result = dashboardByCategorySchema.safeParse(input)
     expect(result.success).toBe(false)
   })
 
   it("should reject missing expense array", () => {
-    const input = { year: 2024, income: validDashboard.income }
+    const input = { ...validDashboard, expense: undefined }
+    const result = dashboardByCategorySchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+
+  it("should accept rolled-up parent totals", () => {
+    const input = {
+      ...validDashboard,
+      rolledUp: {
+        income: validDashboard.income,
+        expense: [
+          {
+            ...validDashboard.expense[0],
+            categoryName: "Makan",
+            totalRupiah: 3500000,
+            transactionCount: 22,
+          },
+        ],
+      },
+    }
+    const result = dashboardByCategorySchema.safeParse(input)
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject missing rolledUp totals", () => {
+    const input = { ...validDashboard, rolledUp: undefined }
     const result = dashboardByCategorySchema.safeParse(input)
     expect(result.success).toBe(false)
   })
 })
+
+describe("dashboardByTagSchema", () => {
+  const tagItem = {
+    tagId: "123e4567-e89b-12d3-a456-426614174000",
+    tagName: "trip-bali-2026",
+    type: "expense" as const,
+    totalRupiah: 3500000,
+    transactionCount: 4,
+  }
+
+  it("should validate tag totals", () => {
+    const result = dashboardByTagSchema.safeParse({
+      year: 2026,
+      month: 1,
+      startDate: "2026-01-01",
+      endDate: "2026-01-31",
+      income: [],
+      expense: [tagItem],
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject items without a tag", () => {
+    const result = dashboardByTagSchema.safeParse({
+      year: 2026,
+      startDate: "2026-01-01",
+      endDate: "2026-12-31",
+      income: [],
+      expense: [{ ...tagItem, tagId: null }],
+    })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe("netWorthFilterSchema", () => {
+  it("should default the interval to month", () => {
+    const result = netWorthFilterSchema.safeParse({
+      from: "2025-01-01",
+      to: "2025-12-31",
+    })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.interval).toBe("month")
+    }
+  })
+
+  it("should require both from and to", () => {
+    const result = netWorthFilterSchema.safeParse({ from: "2025-01-01" })
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject from after to", () => {
+    const result = netWorthFilterSchema.safeParse({
+      from: "2025-12-31",
+      to: "2025-01-01",
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject an unknown interval", () => {
+    const result = netWorthFilterSchema.safeParse({
+      from: "2025-01-01",
+      to: "2025-12-31",
+      interval: "quarter",
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject a series with too many points", () => {
+    const result = netWorthFilterSchema.safeParse({
+      from: "2020-01-01",
+      to: "2025-12-31",
+      interval: "day",
+    })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual(["interval"])
+    }
+  })
+})
+
+describe("netWorthPointSchema", () => {
+  it("should allow a negative net worth", () => {
+    const result = netWorthPointSchema.safeParse({
+      date: "2025-01-31",
+      accountAssetsRupiah: 1000000,
+      assetValuesRupiah: 0,
+      investmentsRupiah: 0,
+      receivablesRupiah: 0,
+      assetsRupiah: 1000000,
+      accountLiabilitiesRupiah: 500000,
+      payablesRupiah: 15000000,
+      liabilitiesRupiah: 15500000,
+      netWorthRupiah: -14500000,
+    })
+    expect(result.success).toBe(true)
+  })
+})
+
+describe("forecastFilterSchema", () => {
+  it("should default to three months by day", () => {
+    const result = forecastFilterSchema.safeParse({})
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.months).toBe(3)
+      expect(result.data.interval).toBe("day")
+      expect(result.data.threshold).toBeUndefined()
+    }
+  })
+
+  it("should coerce query strings", () => {
+    const result = forecastFilterSchema.safeParse({
+      months: "6",
+      threshold: "1000000",
+    })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.months).toBe(6)
+      expect(result.data.threshold).toBe(1000000)
+    }
+  })
+
+  it("should reject more than twelve months", () => {
+    expect(forecastFilterSchema.safeParse({ months: "13" }).success).toBe(false)
+  })
+
+  it("should reject a negative threshold", () => {
+    expect(forecastFilterSchema.safeParse({ threshold: "-1" }).success).toBe(
+      false,
+    )
+  })
+
+  it("should reject a week interval", () => {
+    expect(forecastFilterSchema.safeParse({ interval: "week" }).success).toBe(
+      false,
+    )
+  })
+})
+
+describe("forecastPointSchema", () => {
+  it("should allow a projected overdraft", () => {
+    const result = forecastPointSchema.safeParse({
+      date: "2025-02-28",
+      incomeRupiah: 0,
+      expenseRupiah: 2500000,
+      balanceRupiah: -500000,
+      lowestBalanceRupiah: -500000,
+    })
+    expect(result.success).toBe(true)
+  })
+})
+
+describe("trendFilterSchema", () => {
+  it("should default the granularity to month", () => {
+    const result = trendFilterSchema.safeParse({
+      from: "2025-01-01",
+      to: "2025-12-31",
+    })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.granularity).toBe("month")
+    }
+  })
+
+  it("should reject from after to", () => {
+    const result = trendFilterSchema.safeParse({
+      from: "2025-12-31",
+      to: "2025-01-01",
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject a series with too many points", () => {
+    const result = trendFilterSchema.safeParse({
+      from: "2020-01-01",
+      to: "2025-12-31",
+      granularity: "day",
+    })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual(["granularity"])
+    }
+  })
+})
+
+describe("compareFilterSchema", () => {
+  it("should accept no filter for the current month", () => {
+    expect(compareFilterSchema.safeParse({}).success).toBe(true)
+  })
+
+  it("should coerce year and month", () => {
+    const result = compareFilterSchema.safeParse({ year: "2025", month: "3" })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data).toEqual({ year: 2025, month: 3 })
+    }
+  })
+
+  it("should require year and month together", () => {
+    expect(compareFilterSchema.safeParse({ year: "2025" }).success).toBe(false)
+    expect(compareFilterSchema.safeParse({ month: "3" }).success).toBe(false)
+  })
+})
+
+describe("comparisonSchema", () => {
+  const unchanged = {
+    currentRupiah: 0,
+    previousMonthRupiah: 0,
+    previousYearRupiah: 0,
+    monthOverMonth: { changeRupiah: 0, changePercent: null },
+    yearOverYear: { changeRupiah: 0, changePercent: null },
+  }
+
+  it("should accept a comparison with a category change", () => {
+    const result = comparisonSchema.safeParse({
+      year: 2025,
+      month: 3,
+      current: { startDate: "2025-03-01", endDate: "2025-03-31" },
+      previousMonth: { startDate: "2025-02-01", endDate: "2025-02-28" },
+      previousYear: { startDate: "2024-03-01", endDate: "2024-03-31" },
+      totals: { income: unchanged, expense: unchanged },
+      income: [],
+      expense: [
+        {
+          ...unchanged,
+          categoryId: "550e8400-e29b-41d4-a716-446655440000",
+          categoryName: "Food",
+          parentId: null,
+          type: "expense",
+          currentRupiah: 1320000,
+          previousMonthRupiah: 1000000,
+          monthOverMonth: { changeRupiah: 320000, changePercent: 32 },
+        },
+      ],
+    })
+    expect(result.success).toBe(true)
+  })
+})
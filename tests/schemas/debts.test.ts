@@ -0,0 +1,176 @@
+/**
+ * Debts Schema Tests
+ * Following TDD: Tests for debt and receivable Zod schemas
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  createDebtSchema,
+  updateDebtSchema,
+  debtListFilterSchema,
+  createDebtPaymentSchema,
+  checkDebtTerms,
+  debtOverviewSchema,
+} from "@/modules/debts/schema"
+
+describe("createDebtSchema", () => {
+  const validInput = {
+    counterparty: "Adira Finance",
+    direction: "payable",
+    principal: 18000000,
+    startDate: "2026-01-15",
+  }
+
+  it("should validate correct input with defaults", () => {
+    const result = createDebtSchema.safeParse(validInput)
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.interest).toBe(0)
+      expect(result.data.dueDate).toBeNull()
+      expect(result.data.installmentCount).toBeNull()
+    }
+  })
+
+  it("should accept an installment schedule with interest", () => {
+    const input = {
+      ...validInput,
+      interest: 3600000,
+      installmentCount: 24,
+      firstInstallmentDate: "2026-02-15",
+    }
+    const result = createDebtSchema.safeParse(input)
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject an unknown direction", () => {
+    const input = { ...validInput, direction: "lent" }
+    const result = createDebtSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject a zero principal", () => {
+    const input = { ...validInput, principal: 0 }
+    const result = createDebtSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject negative interest", () => {
+    const input = { ...validInput, interest: -1 }
+    const result = createDebtSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+
+  it("should require a first installment date with a count", () => {
+    const input = { ...validInput, installmentCount: 12 }
+    const result = createDebtSchema.safeParse(input)
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual(["firstInstallmentDate"])
+    }
+  })
+
+  it("should reject a due date before the start date", () => {
+    const input = { ...validInput, dueDate: "2025-12-31" }
+    const result = createDebtSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+})
+
+describe("checkDebtTerms", () => {
+  const terms = {
+    startDate: "2026-01-15",
+    dueDate: null,
+    installmentCount: null,
+    firstInstallmentDate: null,
+  }
+
+  it("should accept a debt without a schedule", () => {
+    expect(checkDebtTerms(terms)).toBeNull()
+  })
+
+  it("should reject both a due date and installments", () => {
+    const issue = checkDebtTerms({
+      ...terms,
+      dueDate: "2026-06-30",
+      installmentCount: 6,
+      firstInstallmentDate: "2026-02-15",
+    })
+    expect(issue?.path).toBe("dueDate")
+  })
+
+  it("should reject installments starting before the debt", () => {
+    const issue = checkDebtTerms({
+      ...terms,
+      installmentCount: 6,
+      firstInstallmentDate: "2026-01-01",
+    })
+    expect(issue?.path).toBe("firstInstallmentDate")
+  })
+})
+
+describe("updateDebtSchema", () => {
+  it("should accept a partial update without defaults", () => {
+    const result = updateDebtSchema.safeParse({ counterparty: "Budi" })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data).toEqual({ counterparty: "Budi" })
+    }
+  })
+
+  it("should allow clearing the schedule", () => {
+    const result = updateDebtSchema.safeParse({
+      installmentCount: null,
+      firstInstallmentDate: null,
+    })
+    expect(result.success).toBe(true)
+  })
+})
+
+describe("debtListFilterSchema", () => {
+  it("should parse direction and settled", () => {
+    const result = debtListFilterSchema.safeParse({
+      direction: "receivable",
+      settled: "false",
+    })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.settled).toBe(false)
+    }
+  })
+})
+
+describe("createDebtPaymentSchema", () => {
+  it("should require a transaction ID", () => {
+    expect(createDebtPaymentSchema.safeParse({}).success).toBe(false)
+    expect(
+      createDebtPaymentSchema.safeParse({
+        transactionId: "123e4567-e89b-12d3-a456-426614174000",
+      }).success,
+    ).toBe(true)
+  })
+})
+
+describe("debtOverviewSchema", () => {
+  it("should validate an overview", () => {
+    const totals = { outstandingRupiah: 0, overdueRupiah: 0, openDebtCount: 0 }
+    const result = debtOverviewSchema.safeParse({
+      receivable: { ...totals, outstandingRupiah: 500000, openDebtCount: 1 },
+      payable: totals,
+      netRupiah: 500000,
+      overdueInstallments: [
+        {
+          number: 1,
+          dueDate: "2026-10-01",
+          amountRupiah: 500000,
+          paidRupiah: 0,
+          remainingRupiah: 500000,
+          isOverdue: true,
+          debtId: "123e4567-e89b-12d3-a456-426614174000",
+          counterparty: "Adik",
+          direction: "receivable",
+        },
+      ],
+    })
+    expect(result.success).toBe(true)
+  })
+})
@@ -0,0 +1,58 @@
+/**
+ * Exchange Rates Schema Tests
+ * Following TDD: Tests for exchange rate Zod schemas
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  currencySchema,
+  createExchangeRateSchema,
+  exchangeRateFilterSchema,
+} from "@/modules/exchange-rates/schema"
+
+describe("currencySchema", () => {
+  it("should accept supported ISO 4217 codes", () => {
+    expect(currencySchema.safeParse("USD").success).toBe(true)
+    expect(currencySchema.safeParse("IDR").success).toBe(true)
+  })
+
+  it("should reject unknown or lowercase codes", () => {
+    expect(currencySchema.safeParse("usd").success).toBe(false)
+    expect(currencySchema.safeParse("XYZ").success).toBe(false)
+  })
+})
+
+describe("createExchangeRateSchema", () => {
+  const validInput = { currency: "USD", rateDate: "2026-01-05", rate: 16250.5 }
+
+  it("should validate correct input", () => {
+    const result = createExchangeRateSchema.safeParse(validInput)
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject a rate for rupiah", () => {
+    const input = { ...validInput, currency: "IDR" }
+    const result = createExchangeRateSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject a zero rate", () => {
+    const input = { ...validInput, rate: 0 }
+    const result = createExchangeRateSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+})
+
+describe("exchangeRateFilterSchema", () => {
+  it("should accept an empty filter", () => {
+    expect(exchangeRateFilterSchema.safeParse({}).success).toBe(true)
+  })
+
+  it("should reject from after to", () => {
+    const result = exchangeRateFilterSchema.safeParse({
+      from: "2026-02-01",
+      to: "2026-01-01",
+    })
+    expect(result.success).toBe(false)
+  })
+})
@@ -0,0 +1,135 @@
+/**
+ * Goals Schema Tests
+ * Following TDD: Tests for savings goal Zod schemas
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  createGoalSchema,
+  updateGoalSchema,
+  createGoalContributionSchema,
+  goalStatusSchema,
+} from "@/modules/goals/schema"
+
+describe("createGoalSchema", () => {
+  const validInput = {
+    name: "Dana darurat",
+    targetAmount: 30000000,
+    targetDate: "2027-06-30",
+  }
+
+  it("should validate correct input", () => {
+    const result = createGoalSchema.safeParse(validInput)
+    expect(result.success).toBe(true)
+  })
+
+  it("should default accountId to null", () => {
+    const result = createGoalSchema.safeParse(validInput)
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.accountId).toBeNull()
+    }
+  })
+
+  it("should accept a linked account", () => {
+    const input = {
+      ...validInput,
+      accountId: "123e4567-e89b-12d3-a456-426614174000",
+    }
+    const result = createGoalSchema.safeParse(input)
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject a zero target", () => {
+    const input = { ...validInput, targetAmount: 0 }
+    const result = createGoalSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject an empty name", () => {
+    const input = { ...validInput, name: "" }
+    const result = createGoalSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject a malformed target date", () => {
+    const input = { ...validInput, targetDate: "30/06/2027" }
+    const result = createGoalSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+})
+
+describe("updateGoalSchema", () => {
+  it("should accept a partial update", () => {
+    const result = updateGoalSchema.safeParse({ targetAmount: 40000000 })
+    expect(result.success).toBe(true)
+  })
+
+  it("should allow unlinking the account", () => {
+    const result = updateGoalSchema.safeParse({ accountId: null })
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject an invalid account ID", () => {
+    const result = updateGoalSchema.safeParse({ accountId: "bca" })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe("createGoalContributionSchema", () => {
+  const validInput = { amount: 1500000, contributionDate: "2026-10-01" }
+
+  it("should validate correct input", () => {
+    const result = createGoalContributionSchema.safeParse(validInput)
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.note).toBeNull()
+    }
+  })
+
+  it("should reject a negative amount", () => {
+    const input = { ...validInput, amount: -500000 }
+    const result = createGoalContributionSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject a note over 500 characters", () => {
+    const input = { ...validInput, note: "a".repeat(501) }
+    const result = createGoalContributionSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+})
+
+describe("goalStatusSchema", () => {
+  const validStatus = {
+    goalId: "123e4567-e89b-12d3-a456-426614174000",
+    targetRupiah: 30000000,
+    targetDate: "2027-06-30",
+    savedRupiah: 6000000,
+    remainingRupiah: 24000000,
+    percentComplete: 20,
+    isCompleted: false,
+    monthsRemaining: 9,
+    monthlyAmountNeededRupiah: 2666667,
+    averageMonthlyContributionRupiah: 2000000,
+    projectedCompletionDate: "2027-10-18",
+    isOnTrack: false,
+  }
+
+  it("should validate a status", () => {
+    const result = goalStatusSchema.safeParse(validStatus)
+    expect(result.success).toBe(true)
+  })
+
+  it("should allow no projection before the first contribution", () => {
+    const status = { ...validStatus, projectedCompletionDate: null }
+    const result = goalStatusSchema.safeParse(status)
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject negative remaining", () => {
+    const status = { ...validStatus, remainingRupiah: -1 }
+    const result = goalStatusSchema.safeParse(status)
+    expect(result.success).toBe(false)
+  })
+})
@@ -0,0 +1,149 @@
+/**
+ * Imports Schema Tests
+ * Following TDD: Tests for import profile and upload Zod schemas
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  createImportProfileSchema,
+  updateImportProfileSchema,
+  importUploadSchema,
+  hasValidColumnMapping,
+} from "@/modules/imports/schema"
+
+const validProfile = {
+  name: "BCA",
+  dateFormat: "DD/MM/YYYY",
+  dateColumn: 0,
+  descriptionColumn: 1,
+  debitColumn: 3,
+  creditColumn: 4,
+}
+
+describe("createImportProfileSchema", () => {
+  it("should apply Indonesian defaults", () => {
+    const result = createImportProfileSchema.safeParse(validProfile)
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.delimiter).toBe(",")
+      expect(result.data.decimalSeparator).toBe(",")
+      expect(result.data.skipRows).toBe(0)
+      expect(result.data.hasHeader).toBe(true)
+      expect(result.data.amountColumn).toBeNull()
+      expect(result.data.expenseCategoryId).toBeNull()
+    }
+  })
+
+  it("should accept a single amount column", () => {
+    const result = createImportProfileSchema.safeParse({
+      ...validProfile,
+      debitColumn: undefined,
+      creditColumn: undefined,
+      amountColumn: 2,
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject a profile without amount columns", () => {
+    const result = createImportProfileSchema.safeParse({
+      ...validProfile,
+      debitColumn: undefined,
+      creditColumn: undefined,
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject both an amount column and debit/credit columns", () => {
+    const result = createImportProfileSchema.safeParse({
+      ...validProfile,
+      amountColumn: 2,
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject unsupported date formats", () => {
+    const result = createImportProfileSchema.safeParse({
+      ...validProfile,
+      dateFormat: "D MMM YYYY",
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject negative column indexes", () => {
+    const result = createImportProfileSchema.safeParse({
+      ...validProfile,
+      dateColumn: -1,
+    })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe("updateImportProfileSchema", () => {
+  it("should not fill defaults on partial updates", () => {
+    const result = updateImportProfileSchema.safeParse({ name: "BCA Giro" })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data).toEqual({ name: "BCA Giro" })
+    }
+  })
+})
+
+describe("hasValidColumnMapping", () => {
+  it("should require debit and credit columns to differ", () => {
+    expect(
+      hasValidColumnMapping({
+        amountColumn: null,
+        debitColumn: 2,
+        creditColumn: 2,
+      }),
+    ).toBe(false)
+    expect(
+      hasValidColumnMapping({
+        amountColumn: null,
+        debitColumn: 2,
+        creditColumn: 3,
+      }),
+    ).toBe(true)
+  })
+})
+
+describe("importUploadSchema", () => {
+  const upload = {
+    profileId: "550e8400-e29b-41d4-a716-446655440000",
+    accountId: "550e8400-e29b-41d4-a716-446655440001",
+  }
+
+  it("should accept a CSV file and default skipInvalid to false", () => {
+    const result = importUploadSchema.safeParse({
+      ...upload,
+      file: new File(["a,b"], "mutasi.csv"),
+    })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.skipInvalid).toBe(false)
+      expect(result.data.skipDuplicates).toBe(false)
+    }
+  })
+
+  it("should parse skipInvalid from form text", () => {
+    const result = importUploadSchema.safeParse({
+      ...upload,
+      file: new File(["a,b"], "mutasi.csv"),
+      skipInvalid: "true",
+    })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.skipInvalid).toBe(true)
+    }
+  })
+
+  it("should reject a missing or empty file", () => {
+    expect(importUploadSchema.safeParse(upload).success).toBe(false)
+    expect(
+      importUploadSchema.safeParse({
+        ...upload,
+        file: new File([], "mutasi.csv"),
+      }).success,
+    ).toBe(false)
+  })
+})
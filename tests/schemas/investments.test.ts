@@ -0,0 +1,103 @@
+/**
+ * Investments Schema Tests
+ * Following TDD: Tests for instrument, trade, price and report Zod schemas
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  createInstrumentSchema,
+  updateInstrumentSchema,
+  createTradeSchema,
+  createPriceSchema,
+  realizedGainsFilterSchema,
+} from "@/modules/investments/schema"
+
+describe("createInstrumentSchema", () => {
+  const validInput = {
+    name: "Sucorinvest Money Market Fund",
+    type: "mutual_fund",
+  }
+
+  it("should validate correct input with defaults", () => {
+    const result = createInstrumentSchema.safeParse(validInput)
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.code).toBeNull()
+      expect(result.data.unit).toBe("unit")
+    }
+  })
+
+  it("should reject an unknown type", () => {
+    const input = { ...validInput, type: "crypto" }
+    const result = createInstrumentSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+})
+
+describe("updateInstrumentSchema", () => {
+  it("should accept a partial update without defaults", () => {
+    const result = updateInstrumentSchema.safeParse({ code: "BBCA" })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data).toEqual({ code: "BBCA" })
+    }
+  })
+})
+
+describe("createTradeSchema", () => {
+  const validInput = {
+    side: "buy",
+    tradeDate: "2026-01-05",
+    quantity: 123.4567,
+    amount: 1000000,
+  }
+
+  it("should validate correct input", () => {
+    const result = createTradeSchema.safeParse(validInput)
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.transactionId).toBeNull()
+      expect(result.data.note).toBeNull()
+    }
+  })
+
+  it("should reject a zero quantity", () => {
+    const input = { ...validInput, quantity: 0 }
+    const result = createTradeSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject an invalid transaction ID", () => {
+    const input = { ...validInput, transactionId: "abc" }
+    const result = createTradeSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+})
+
+describe("createPriceSchema", () => {
+  it("should accept a fractional price", () => {
+    const result = createPriceSchema.safeParse({
+      priceDate: "2026-01-05",
+      price: 1523.4567,
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject a zero price", () => {
+    const result = createPriceSchema.safeParse({
+      priceDate: "2026-01-05",
+      price: 0,
+    })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe("realizedGainsFilterSchema", () => {
+  it("should reject from after to", () => {
+    const result = realizedGainsFilterSchema.safeParse({
+      from: "2026-02-01",
+      to: "2026-01-01",
+    })
+    expect(result.success).toBe(false)
+  })
+})
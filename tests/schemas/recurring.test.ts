@@ -0,0 +1,87 @@
+/**
+ * Recurring Rules Schema Tests
+ * Following TDD: Tests for recurring rule Zod schemas
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  createRecurringRuleSchema,
+  updateRecurringRuleSchema,
+  recurringPreviewSchema,
+} from "@/modules/recurring/schema"
+
+describe("createRecurringRuleSchema", () => {
+  const validInput = {
+    accountId: "123e4567-e89b-12d3-a456-426614174000",
+    categoryId: "123e4567-e89b-12d3-a456-426614174001",
+    amount: 3500000,
+    description: "Sewa kos",
+    frequency: "monthly",
+    dayOfMonth: 1,
+    startDate: "2024-01-01",
+  }
+
+  it("should validate correct input and apply defaults", () => {
+    const result = createRecurringRuleSchema.safeParse(validInput)
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.interval).toBe(1)
+      expect(result.data.endDate).toBeNull()
+      expect(result.data.occurrenceLimit).toBeNull()
+    }
+  })
+
+  it("should reject day of month on weekly rules", () => {
+    const input = { ...validInput, frequency: "weekly" }
+    const result = createRecurringRuleSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject end date before start date", () => {
+    const input = { ...validInput, endDate: "2023-12-31" }
+    const result = createRecurringRuleSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject unknown frequency", () => {
+    const input = { ...validInput, frequency: "hourly" }
+    const result = createRecurringRuleSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject day of month above 31", () => {
+    const input = { ...validInput, dayOfMonth: 32 }
+    const result = createRecurringRuleSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+})
+
+describe("updateRecurringRuleSchema", () => {
+  it("should allow clearing the end date", () => {
+    const result = updateRecurringRuleSchema.safeParse({ endDate: null })
+    expect(result.success).toBe(true)
+  })
+
+  it("should strip schedule fields", () => {
+    const result = updateRecurringRuleSchema.safeParse({ frequency: "daily" })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect("frequency" in result.data).toBe(false)
+    }
+  })
+})
+
+describe("recurringPreviewSchema", () => {
+  it("should default to 12 occurrences", () => {
+    const result = recurringPreviewSchema.safeParse({})
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.count).toBe(12)
+    }
+  })
+
+  it("should cap the preview length", () => {
+    const result = recurringPreviewSchema.safeParse({ count: "61" })
+    expect(result.success).toBe(false)
+  })
+})
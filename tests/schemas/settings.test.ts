@@ -0,0 +1,76 @@
+/**
+ * Settings Schema Tests
+ * Following TDD: Tests for owner settings Zod schemas
+ */
+
+import { describe, it, expect } from "bun:test"
+import { updateSettingsSchema, settingsSchema } from "@/modules/settings/schema"
+
+describe("updateSettingsSchema", () => {
+  it("should accept a payday start day", () => {
+    const result = updateSettingsSchema.safeParse({ monthStartDay: 25 })
+    expect(result.success).toBe(true)
+  })
+
+  it("should accept day 31", () => {
+    const result = updateSettingsSchema.safeParse({ monthStartDay: 31 })
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject day 0 and day 32", () => {
+    expect(updateSettingsSchema.safeParse({ monthStartDay: 0 }).success).toBe(
+      false,
+    )
+    expect(updateSettingsSchema.safeParse({ monthStartDay: 32 }).success).toBe(
+      false,
+    )
+  })
+
+  it("should reject non-integer days", () => {
+    const result = updateSettingsSchema.safeParse({ monthStartDay: 1.5 })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe("updateSettingsSchema duplicateWindowDays", () => {
+  it("should accept a same-day window", () => {
+    expect(
+      updateSettingsSchema.safeParse({ duplicateWindowDays: 0 }).success,
+    ).toBe(true)
+  })
+
+  it("should reject negative and overly wide windows", () => {
+    expect(
+      updateSettingsSchema.safeParse({ duplicateWindowDays: -1 }).success,
+    ).toBe(false)
+    expect(
+      updateSettingsSchema.safeParse({ duplicateWindowDays: 31 }).success,
+    ).toBe(false)
+  })
+})
+
+describe("updateSettingsSchema lowBalanceThreshold", () => {
+  it("should accept a threshold in rupiah", () => {
+    expect(
+      updateSettingsSchema.safeParse({ lowBalanceThreshold: 500000 }).success,
+    ).toBe(true)
+  })
+
+  it("should reject a negative threshold", () => {
+    expect(
+      updateSettingsSchema.safeParse({ lowBalanceThreshold: -1 }).success,
+    ).toBe(false)
+  })
+})
+
+describe("settingsSchema", () => {
+  it("should accept defaults before the first save", () => {
+    const result = settingsSchema.safeParse({
+      monthStartDay: 1,
+      duplicateWindowDays: 3,
+      lowBalanceThresholdRupiah: 0,
+      updatedAt: null,
+    })
+    expect(result.success).toBe(true)
+  })
+})
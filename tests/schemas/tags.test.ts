@@ -0,0 +1,50 @@
+/**
+ * Tags Schema Tests
+ * Following TDD: Tests for tag Zod schemas
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  createTagSchema,
+  updateTagSchema,
+  tagSchema,
+} from "@/modules/tags/schema"
+
+describe("createTagSchema", () => {
+  it("should trim and lowercase names", () => {
+    const result = createTagSchema.safeParse({ name: "  Trip-Bali-2026 " })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.name).toBe("trip-bali-2026")
+    }
+  })
+
+  it("should reject blank names", () => {
+    expect(createTagSchema.safeParse({ name: "   " }).success).toBe(false)
+  })
+
+  it("should reject names over 50 characters", () => {
+    expect(createTagSchema.safeParse({ name: "a".repeat(51) }).success).toBe(
+      false,
+    )
+  })
+})
+
+describe("updateTagSchema", () => {
+  it("should require a new name", () => {
+    expect(updateTagSchema.safeParse({}).success).toBe(false)
+    expect(updateTagSchema.safeParse({ name: "wedding" }).success).toBe(true)
+  })
+})
+
+describe("tagSchema", () => {
+  it("should validate a tag with its usage count", () => {
+    const result = tagSchema.safeParse({
+      id: "550e8400-e29b-41d4-a716-446655440000",
+      name: "reimbursable",
+      transactionCount: 3,
+      createdAt: new Date(),
+    })
+    expect(result.success).toBe(true)
+  })
+})
@@ -9,8 +9,16 @@ import {
   createTransactionSchema,
   updateTransactionSchema,
   transactionFilterSchema,
+  transactionExportFilterSchema,
+  transactionListMetaSchema,
   transactionSchema,
+  duplicateFilterSchema,
+  dismissDuplicateSchema,
+  mergeDuplicateSchema,
+  splitsMatchAmount,
+  isDateOrdered,
 } from "@/modules/transactions/schema"
+import { encodeCursor } from "@/lib/cursor"
 
 describe("transactionTypeSchema", () => {
   it("should accept 'income'", () => {
@@ -37,6 +45,7 @@ describe("transactionTypeSchema", () => {
 describe("createTransactionSchema", () => {
   const validInput = {
     categoryId: "123e4567-e89b-12d3-a456-426614174000",
+    accountId: "123e4567-e89b-12d3-a456-426614174002",
     amount: 150000,
     description: "Test transaction",
     transactionDate: "2024-01-15",
@@ -53,6 +62,18 @@ describe("createTransactionSchema", () => {
     expect(result.success).toBe(false)
   })
 
+  it("should reject invalid UUID for accountId", () => {
+    const input = { ...validInput, accountId: "not-a-uuid" }
+    const result = createTransactionSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject missing accountId", () => {
+    const { accountId: _accountId, ...input } = validInput
+    const result = createTransactionSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+
   it("should reject negative amount", () => {
     const input = { ...validInput, amount: -100 }
     const result = createTransactionSchema.safeParse(input)
@@ -66,7 +87,7 @@ describe("createTransactionSchema", () => {
   })
 
   it("should reject amount exceeding max", () => {
-    const input = { ...validInput, amount: 1000000000 }
+    const input = { ...validInput, amount: 1000000000000 }
     const result = createTransactionSchema.safeParse(input)
     expect(result.success).toBe(false)
   })
@@ -106,8 +127,14 @@ describe("createTransactionSchema", () => {
     expect(result.success).toBe(true)
   })
 
+  it("should accept amounts above the old 32-bit ceiling", () => {
+    const input = { ...validInput, amount: 12500000000 }
+    const result = createTransactionSchema.safeParse(input)
+    expect(result.success).toBe(true)
+  })
+
   it("should accept maximum valid amount", () => {
-    const input = { ...validInput, amount: 999999999.99 }
+    const input = { ...validInput, amount: 999999999999 }
     const result = createTransactionSchema.safeParse(input)
     expect(result.success).toBe(true)
   })
@@ -117,6 +144,28 @@ describe("createTransactionSchema", () => {
     const result = createTransactionSchema.safeParse(input)
     expect(result.success).toBe(true)
   })
+  it("should accept a foreign currency with an exchange rate", () => {
+    const input = {
+      ...validInput,
+      amount: 12.35,
+      currency: "SGD",
+      exchangeRate: 12150.25,
+    }
+    const result = createTransactionSchema.safeParse(input)
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject an unsupported currency", () => {
+    const input = { ...validInput, currency: "XYZ" }
+    const result = createTransactionSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject an exchange rate for rupiah", () => {
+    const input = { ...validInput, exchangeRate: 1 }
+    const result = createTransactionSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
 })
 
 describe("updateTransactionSchema", () => {
@@ -154,6 +203,10 @@ describe("updateTransactionSchema", () => {
     const result = updateTransactionSchema.safeParse(input)
     expect(result.success).toBe(false)
   })
+  it("should accept an exchange rate without a currency", () => {
+    const result = updateTransactionSchema.safeParse({ exchangeRate: 4050 })
+    expect(result.success).toBe(true)
+  })
 })
 
 describe("transactionFilterSchema", () => {
@@ -206,6 +259,18 @@ describe("transactionFilterSchema", () => {
     expect(result.success).toBe(true)
   })
 
+  it("should accept optional accountId", () => {
+    const input = { accountId: "123e4567-e89b-12d3-a456-426614174002" }
+    const result = transactionFilterSchema.safeParse(input)
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject invalid accountId format", () => {
+    const input = { accountId: "not-uuid" }
+    const result = transactionFilterSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+
   it("should accept optional type filter", () => {
     const input = { type: "income" }
     const result = transactionFilterSchema.safeParse(input)
@@ -225,15 +290,296 @@ describe("transactionFilterSchema", () => {
   })
 })
 
+describe("transactionFilterSchema tags", () => {
+  const tagA = "550e8400-e29b-41d4-a716-446655440000"
+  const tagB = "550e8400-e29b-41d4-a716-446655440001"
+
+  it("should default tag matching to any", () => {
+    const result = transactionFilterSchema.safeParse({ tagIds: tagA })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.tagIds).toEqual([tagA])
+      expect(result.data.tagMatch).toBe("any")
+    }
+  })
+
+  it("should accept comma-separated tags", () => {
+    const result = transactionFilterSchema.safeParse({
+      tagIds: `${tagA},${tagB}`,
+      tagMatch: "all",
+    })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.tagIds).toEqual([tagA, tagB])
+    }
+  })
+
+  it("should accept repeated tag parameters", () => {
+    const result = transactionFilterSchema.safeParse({ tagIds: [tagA, tagB] })
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject invalid tag IDs and match modes", () => {
+    expect(transactionFilterSchema.safeParse({ tagIds: "bali" }).success).toBe(
+      false,
+    )
+    expect(
+      transactionFilterSchema.safeParse({ tagMatch: "none" }).success,
+    ).toBe(false)
+  })
+})
+
+describe("transactionFilterSchema ranges, sorting and lists", () => {
+  const categoryA = "550e8400-e29b-41d4-a716-446655440000"
+  const categoryB = "550e8400-e29b-41d4-a716-446655440001"
+
+  it("should coerce amount bounds from the query string", () => {
+    const result = transactionFilterSchema.safeParse({
+      minAmount: "50000",
+      maxAmount: "150000",
+    })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.minAmount).toBe(50000)
+      expect(result.data.maxAmount).toBe(150000)
+    }
+  })
+
+  it("should accept equal bounds", () => {
+    expect(
+      transactionFilterSchema.safeParse({
+        minAmount: "1000",
+        maxAmount: "1000",
+      }).success,
+    ).toBe(true)
+  })
+
+  it("should reject minAmount greater than maxAmount", () => {
+    expect(
+      transactionFilterSchema.safeParse({
+        minAmount: "2000",
+        maxAmount: "1000",
+      }).success,
+    ).toBe(false)
+  })
+
+  it("should reject negative or fractional amount bounds", () => {
+    expect(transactionFilterSchema.safeParse({ minAmount: "-1" }).success).toBe(
+      false,
+    )
+    expect(
+      transactionFilterSchema.safeParse({ maxAmount: "1000.5" }).success,
+    ).toBe(false)
+  })
+
+  it("should split comma-separated category IDs", () => {
+    const result = transactionFilterSchema.safeParse({
+      categoryIds: `${categoryA},${categoryB}`,
+    })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.categoryIds).toEqual([categoryA, categoryB])
+    }
+  })
+
+  it("should reject invalid category IDs", () => {
+    expect(
+      transactionFilterSchema.safeParse({ categoryIds: "makan" }).success,
+    ).toBe(false)
+  })
+
+  it("should default to descending order without a sort field", () => {
+    const result = transactionFilterSchema.safeParse({})
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.sort).toBeUndefined()
+      expect(result.data.order).toBe("desc")
+    }
+  })
+
+  it("should accept each sort field in either direction", () => {
+    for (const sort of ["date", "amount", "createdAt", "description"]) {
+      expect(
+        transactionFilterSchema.safeParse({ sort, order: "asc" }).success,
+      ).toBe(true)
+    }
+  })
+
+  it("should reject unknown sort fields and directions", () => {
+    expect(
+      transactionFilterSchema.safeParse({ sort: "category" }).success,
+    ).toBe(false)
+    expect(transactionFilterSchema.safeParse({ order: "up" }).success).toBe(
+      false,
+    )
+  })
+
+  it("should trim the description filter", () => {
+    const result = transactionFilterSchema.safeParse({
+      description: "  indomaret ",
+    })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.description).toBe("indomaret")
+    }
+  })
+})
+
+describe("transactionFilterSchema cursors", () => {
+  const position = {
+    transactionDate: "2026-03-05",
+    id: "550e8400-e29b-41d4-a716-446655440000",
+    before: false,
+  }
+
+  it("should decode a cursor", () => {
+    const result = transactionFilterSchema.safeParse({
+      cursor: encodeCursor(position),
+    })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.cursor).toEqual(position)
+    }
+  })
+
+  it("should reject malformed cursors", () => {
+    expect(
+      transactionFilterSchema.safeParse({ cursor: "garbage" }).success,
+    ).toBe(false)
+    expect(
+      transactionFilterSchema.safeParse({
+        cursor: encodeCursor({ ...position, id: "1" }),
+      }).success,
+    ).toBe(false)
+  })
+
+  it("should reject a cursor together with a page", () => {
+    const result = transactionFilterSchema.safeParse({
+      cursor: encodeCursor(position),
+      page: "2",
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject a cursor with a non-date sort", () => {
+    const cursor = encodeCursor(position)
+    expect(
+      transactionFilterSchema.safeParse({ cursor, sort: "amount" }).success,
+    ).toBe(false)
+    expect(
+      transactionFilterSchema.safeParse({ cursor, q: "kopi" }).success,
+    ).toBe(false)
+    expect(
+      transactionFilterSchema.safeParse({ cursor, q: "kopi", sort: "date" })
+        .success,
+    ).toBe(true)
+  })
+
+  it("should leave count unset by default", () => {
+    const result = transactionFilterSchema.safeParse({ count: "false" })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.count).toBe(false)
+    }
+    const defaults = transactionFilterSchema.safeParse({})
+    expect(defaults.success && defaults.data.count).toBeUndefined()
+  })
+})
+
+describe("isDateOrdered", () => {
+  it("should follow the sort field, falling back to relevance for searches", () => {
+    expect(isDateOrdered({})).toBe(true)
+    expect(isDateOrdered({ sort: "date" })).toBe(true)
+    expect(isDateOrdered({ sort: "amount" })).toBe(false)
+    expect(isDateOrdered({ q: "kopi" })).toBe(false)
+    expect(isDateOrdered({ q: "kopi", sort: "date" })).toBe(true)
+  })
+})
+
+describe("transactionFilterSchema search", () => {
+  it("should trim the search query", () => {
+    const result = transactionFilterSchema.safeParse({ q: "  tokopedia  " })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.q).toBe("tokopedia")
+    }
+  })
+
+  it("should treat an empty query as no search", () => {
+    expect(transactionFilterSchema.safeParse({ q: "" }).success).toBe(true)
+  })
+
+  it("should reject queries without letters or digits", () => {
+    expect(transactionFilterSchema.safeParse({ q: "!!!" }).success).toBe(false)
+  })
+
+  it("should reject overly long queries", () => {
+    expect(
+      transactionFilterSchema.safeParse({ q: "a".repeat(201) }).success,
+    ).toBe(false)
+  })
+})
+
+describe("createTransactionSchema tags", () => {
+  const base = {
+    categoryId: "550e8400-e29b-41d4-a716-446655440000",
+    accountId: "550e8400-e29b-41d4-a716-446655440001",
+    amount: 150000,
+    description: "Tiket pesawat",
+    transactionDate: "2026-01-15",
+  }
+
+  it("should leave tags untouched when omitted", () => {
+    const result = createTransactionSchema.safeParse(base)
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.tagIds).toBeUndefined()
+    }
+  })
+
+  it("should accept tag IDs", () => {
+    const result = createTransactionSchema.safeParse({
+      ...base,
+      tagIds: ["550e8400-e29b-41d4-a716-446655440002"],
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject more than 20 tags", () => {
+    const tagIds = Array.from(
+      { length: 21 },
+      (_, i) =>
+        `550e8400-e29b-41d4-a716-4466554400${String(i).padStart(2, "0")}`,
+    )
+    expect(createTransactionSchema.safeParse({ ...base, tagIds }).success).toBe(
+      false,
+    )
+  })
+
+  it("should allow clearing tags on update", () => {
+    const result = updateTransactionSchema.safeParse({ tagIds: [] })
+    expect(result.success).toBe(true)
+  })
+})
+
 describe("transactionSchema", () => {
   const validTransaction = {
     id: "123e4567-e89b-12d3-a456-426614174000",
     categoryId: "123e4567-e89b-12d3-a456-426614174001",
     categoryName: "Salary",
     categoryType: "income",
+    accountId: "123e4567-e89b-12d3-a456-426614174002",
+    accountName: "BCA",
     amountRupiah: 5000000,
+    originalCurrency: null,
+    originalAmount: null,
+    exchangeRate: null,
     description: "Monthly salary",
     transactionDate: "2024-01-15",
+    transferId: null,
+    recurringRuleId: null,
+    tags: [],
+    splits: [],
     createdAt: new Date(),
     updatedAt: new Date(),
   }
@@ -243,6 +589,18 @@ describe("transactionSchema", () => {
     expect(result.success).toBe(true)
   })
 
+  it("should accept a converted foreign amount", () => {
+    const input = {
+      ...validTransaction,
+      amountRupiah: 200694,
+      originalCurrency: "USD",
+      originalAmount: 12.35,
+      exchangeRate: 16250.5,
+    }
+    const result = transactionSchema.safeParse(input)
+    expect(result.success).toBe(true)
+  })
+
   it("should accept nullable categoryName", () => {
     const input = { ...validTransaction, categoryName: null }
     const result = transactionSchema.safeParse(input)
@@ -255,6 +613,18 @@ describe("transactionSchema", () => {
     expect(result.success).toBe(true)
   })
 
+  it("should accept transfer legs without a category", () => {
+    const input = {
+      ...validTransaction,
+      categoryId: null,
+      categoryName: null,
+      categoryType: null,
+      transferId: "123e4567-e89b-12d3-a456-426614174003",
+    }
+    const result = transactionSchema.safeParse(input)
+    expect(result.success).toBe(true)
+  })
+
   it("should reject negative amountRupiah", () => {
     const input = { ...validTransaction, amountRupiah: -100 }
     const result = transactionSchema.safeParse(input)
@@ -267,9 +637,240 @@ describe("transactionSchema", () => {
     expect(result.success).toBe(false)
   })
 
+  it("should accept a search snippet", () => {
+    const input = {
+      ...validTransaction,
+      snippet: "Monthly <mark>salary</mark>",
+    }
+    const result = transactionSchema.safeParse(input)
+    expect(result.success).toBe(true)
+  })
+
   it("should reject non-date createdAt", () => {
     const input = { ...validTransaction, createdAt: "2024-01-15" }
     const result = transactionSchema.safeParse(input)
     expect(result.success).toBe(false)
   })
 })
+
+describe("duplicateFilterSchema", () => {
+  it("should default page and limit", () => {
+    const result = duplicateFilterSchema.safeParse({})
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data).toEqual({ page: 1, limit: 20 })
+    }
+  })
+
+  it("should reject limit above 100", () => {
+    expect(duplicateFilterSchema.safeParse({ limit: "101" }).success).toBe(
+      false,
+    )
+  })
+})
+
+describe("dismissDuplicateSchema", () => {
+  const pair = {
+    transactionId: "550e8400-e29b-41d4-a716-446655440000",
+    duplicateId: "550e8400-e29b-41d4-a716-446655440001",
+  }
+
+  it("should accept two different transactions", () => {
+    expect(dismissDuplicateSchema.safeParse(pair).success).toBe(true)
+  })
+
+  it("should reject a transaction paired with itself", () => {
+    const result = dismissDuplicateSchema.safeParse({
+      ...pair,
+      duplicateId: pair.transactionId,
+    })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe("mergeDuplicateSchema", () => {
+  it("should reject keeping and removing the same transaction", () => {
+    const id = "550e8400-e29b-41d4-a716-446655440000"
+    expect(
+      mergeDuplicateSchema.safeParse({ keepId: id, removeId: id }).success,
+    ).toBe(false)
+  })
+
+  it("should reject invalid IDs", () => {
+    expect(
+      mergeDuplicateSchema.safeParse({ keepId: "a", removeId: "b" }).success,
+    ).toBe(false)
+  })
+})
+
+describe("transactionExportFilterSchema", () => {
+  it("should default to CSV", () => {
+    const result = transactionExportFilterSchema.safeParse({})
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.format).toBe("csv")
+    }
+  })
+
+  it("should accept list filters with xlsx", () => {
+    const result = transactionExportFilterSchema.safeParse({
+      format: "xlsx",
+      startDate: "2024-01-01",
+      endDate: "2024-12-31",
+      type: "expense",
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it("should ignore paging", () => {
+    const result = transactionExportFilterSchema.safeParse({
+      page: "2",
+      limit: "10",
+    })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data).toEqual({ format: "csv", tagMatch: "any" })
+    }
+  })
+
+  it("should reject unknown formats", () => {
+    expect(
+      transactionExportFilterSchema.safeParse({ format: "pdf" }).success,
+    ).toBe(false)
+  })
+
+  it("should apply amount range checks", () => {
+    expect(
+      transactionExportFilterSchema.safeParse({
+        minAmount: "5",
+        maxAmount: "1",
+      }).success,
+    ).toBe(false)
+  })
+})
+
+describe("transactionListMetaSchema", () => {
+  const meta = {
+    page: 1,
+    limit: 20,
+    total: 3,
+    totalPages: 1,
+    totals: {
+      incomeRupiah: 5000000,
+      expenseRupiah: 750000,
+      netRupiah: 4250000,
+    },
+    nextCursor: null,
+    prevCursor: null,
+  }
+
+  it("should validate paging with totals", () => {
+    expect(transactionListMetaSchema.safeParse(meta).success).toBe(true)
+  })
+
+  it("should allow a negative net total", () => {
+    const input = {
+      ...meta,
+      totals: { incomeRupiah: 0, expenseRupiah: 750000, netRupiah: -750000 },
+    }
+    expect(transactionListMetaSchema.safeParse(input).success).toBe(true)
+  })
+
+  it("should validate uncounted cursor pages", () => {
+    const input = { limit: 20, nextCursor: "eyJpZCI6MX0", prevCursor: null }
+    expect(transactionListMetaSchema.safeParse(input).success).toBe(true)
+  })
+
+  it("should require both cursors", () => {
+    const { nextCursor: _nextCursor, ...rest } = meta
+    expect(transactionListMetaSchema.safeParse(rest).success).toBe(false)
+  })
+})
+
+describe("transaction splits", () => {
+  const groceries = "550e8400-e29b-41d4-a716-446655440010"
+  const household = "550e8400-e29b-41d4-a716-446655440011"
+  const base = {
+    categoryId: groceries,
+    accountId: "550e8400-e29b-41d4-a716-446655440001",
+    amount: 250000,
+    description: "Belanja supermarket",
+    transactionDate: "2026-01-15",
+  }
+
+  it("should accept lines that add up to the amount", () => {
+    const result = createTransactionSchema.safeParse({
+      ...base,
+      splits: [
+        { categoryId: groceries, amount: 180000 },
+        { categoryId: household, amount: 70000, memo: "Sabun, tisu" },
+      ],
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject lines that do not add up", () => {
+    const result = createTransactionSchema.safeParse({
+      ...base,
+      splits: [
+        { categoryId: groceries, amount: 180000 },
+        { categoryId: household, amount: 60000 },
+      ],
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject a single split line", () => {
+    const result = createTransactionSchema.safeParse({
+      ...base,
+      splits: [{ categoryId: groceries, amount: 250000 }],
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it("should allow removing a split on update", () => {
+    expect(updateTransactionSchema.safeParse({ splits: [] }).success).toBe(true)
+  })
+
+  it("should check the total on update when both amount and lines change", () => {
+    const splits = [
+      { categoryId: groceries, amount: 100000 },
+      { categoryId: household, amount: 50000 },
+    ]
+    expect(
+      updateTransactionSchema.safeParse({ amount: 150000, splits }).success,
+    ).toBe(true)
+    expect(
+      updateTransactionSchema.safeParse({ amount: 200000, splits }).success,
+    ).toBe(false)
+  })
+
+  it("should compare totals in whole rupiah", () => {
+    expect(
+      splitsMatchAmount(1000.4, [{ amount: 500.2 }, { amount: 500.2 }]),
+    ).toBe(true)
+    expect(splitsMatchAmount(1000, [])).toBe(true)
+    expect(splitsMatchAmount(1000, [{ amount: 400 }, { amount: 500 }])).toBe(
+      false,
+    )
+  })
+
+  it("should compare totals in the currency's minor units", () => {
+    expect(
+      splitsMatchAmount(1, [{ amount: 0.5 }, { amount: 0.5 }], "USD"),
+    ).toBe(true)
+    expect(
+      splitsMatchAmount(1, [{ amount: 0.6 }, { amount: 0.6 }], "USD"),
+    ).toBe(false)
+  })
+
+  it("should accept foreign split lines on update without a currency", () => {
+    const splits = [
+      { categoryId: groceries, amount: 0.5 },
+      { categoryId: household, amount: 0.5 },
+    ]
+    expect(
+      updateTransactionSchema.safeParse({ amount: 1, splits }).success,
+    ).toBe(true)
+  })
+})
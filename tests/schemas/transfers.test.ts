@@ -0,0 +1,114 @@
+/**
+ * Transfers Schema Tests
+ * Following TDD: Tests for transfer-related Zod schemas
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  createTransferSchema,
+  updateTransferSchema,
+  transferFilterSchema,
+  transferSchema,
+} from "@/modules/transfers/schema"
+
+const BANK_ID = "123e4567-e89b-12d3-a456-426614174000"
+const EWALLET_ID = "123e4567-e89b-12d3-a456-426614174001"
+
+describe("createTransferSchema", () => {
+  const validInput = {
+    fromAccountId: BANK_ID,
+    toAccountId: EWALLET_ID,
+    amount: 5000000,
+    description: "Top up GoPay",
+    transferDate: "2024-03-01",
+  }
+
+  it("should validate correct input", () => {
+    const result = createTransferSchema.safeParse(validInput)
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject transfers to the same account", () => {
+    const input = { ...validInput, toAccountId: BANK_ID }
+    const result = createTransferSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject zero amount", () => {
+    const input = { ...validInput, amount: 0 }
+    const result = createTransferSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject invalid account ID", () => {
+    const input = { ...validInput, fromAccountId: "not-a-uuid" }
+    const result = createTransferSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+
+  it("should reject invalid date format", () => {
+    const input = { ...validInput, transferDate: "01/03/2024" }
+    const result = createTransferSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+})
+
+describe("updateTransferSchema", () => {
+  it("should accept empty object", () => {
+    const result = updateTransferSchema.safeParse({})
+    expect(result.success).toBe(true)
+  })
+
+  it("should accept a single account change", () => {
+    const result = updateTransferSchema.safeParse({ toAccountId: BANK_ID })
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject identical accounts when both are given", () => {
+    const input = { fromAccountId: BANK_ID, toAccountId: BANK_ID }
+    const result = updateTransferSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+})
+
+describe("transferFilterSchema", () => {
+  it("should accept default values", () => {
+    const result = transferFilterSchema.safeParse({})
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.page).toBe(1)
+      expect(result.data.limit).toBe(20)
+    }
+  })
+
+  it("should accept optional accountId", () => {
+    const result = transferFilterSchema.safeParse({ accountId: BANK_ID })
+    expect(result.success).toBe(true)
+  })
+})
+
+describe("transferSchema", () => {
+  const validTransfer = {
+    id: "123e4567-e89b-12d3-a456-426614174002",
+    fromAccountId: BANK_ID,
+    fromAccountName: "BCA",
+    toAccountId: EWALLET_ID,
+    toAccountName: "GoPay",
+    amountRupiah: 5000000,
+    description: "Top up GoPay",
+    transferDate: "2024-03-01",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  }
+
+  it("should validate correct transfer", () => {
+    const result = transferSchema.safeParse(validTransfer)
+    expect(result.success).toBe(true)
+  })
+
+  it("should reject non-positive amount", () => {
+    const input = { ...validTransfer, amountRupiah: 0 }
+    const result = transferSchema.safeParse(input)
+    expect(result.success).toBe(false)
+  })
+})